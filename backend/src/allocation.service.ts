@@ -0,0 +1,295 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder, ObjectLiteral } from 'typeorm';
+import {
+  OperatorSetCreatedEvent,
+  OperatorAddedToOperatorSetEvent,
+  OperatorRemovedFromOperatorSetEvent,
+  StrategyAddedToOperatorSetEvent,
+  AllocationUpdatedEvent,
+  MagnitudeUpdatedEvent,
+  OperatorSlashedEvent,
+} from '@eigen-layer-dashboard/lib';
+import { PageArgs, ConnectionRecord, paginateEvents } from './pagination';
+
+// 1e18, the fixed point unit used for slashed proportions
+const WAD = 10n ** 18n;
+
+export interface OperatorSetFilter {
+  avs?: string;
+  operator?: string;
+}
+
+export interface AllocationFilter {
+  operator?: string;
+  avs?: string;
+  operatorSetId?: number;
+  strategy?: string;
+}
+
+export interface MagnitudeUpdateFilter {
+  operator?: string;
+  strategy?: string;
+  magnitudeType?: string;
+}
+
+export interface OperatorSetRecord {
+  avs: string;
+  operatorSetId: number;
+  operators: string[];
+  strategies: string[];
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface SlashedStrategyRecord {
+  strategy: string;
+  wadSlashed: string;
+  // Share of the operator's allocation slashed, in percent
+  percentage: number;
+}
+
+export interface OperatorSlashingRecord {
+  operator: string;
+  avs: string;
+  operatorSetId: number;
+  description: string;
+  strategies: SlashedStrategyRecord[];
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+@Injectable()
+export class AllocationService {
+  constructor(
+    @InjectRepository(OperatorSetCreatedEvent)
+    private operatorSetCreatedRepository: Repository<OperatorSetCreatedEvent>,
+    @InjectRepository(OperatorAddedToOperatorSetEvent)
+    private operatorAddedRepository: Repository<OperatorAddedToOperatorSetEvent>,
+    @InjectRepository(OperatorRemovedFromOperatorSetEvent)
+    private operatorRemovedRepository: Repository<OperatorRemovedFromOperatorSetEvent>,
+    @InjectRepository(StrategyAddedToOperatorSetEvent)
+    private strategyAddedRepository: Repository<StrategyAddedToOperatorSetEvent>,
+    @InjectRepository(AllocationUpdatedEvent)
+    private allocationUpdatedRepository: Repository<AllocationUpdatedEvent>,
+    @InjectRepository(MagnitudeUpdatedEvent)
+    private magnitudeUpdatedRepository: Repository<MagnitudeUpdatedEvent>,
+    @InjectRepository(OperatorSlashedEvent)
+    private operatorSlashedRepository: Repository<OperatorSlashedEvent>,
+  ) {}
+
+  /**
+   * Pages operator sets newest first with the total number of matching sets
+   */
+  async getOperatorSetConnection(
+    filter: OperatorSetFilter,
+    page: PageArgs
+  ): Promise<ConnectionRecord<OperatorSetRecord>> {
+    try {
+      const query = this.operatorSetCreatedRepository.createQueryBuilder('operatorSet');
+
+      if (filter.avs) {
+        query.andWhere('operatorSet.avs = :avs', { avs: filter.avs.toLowerCase() });
+      }
+      if (filter.operator) {
+        // Only sets the operator was added to and has not left since
+        query.andWhere(
+          `EXISTS (
+            SELECT 1 FROM operator_added_to_operator_set_events a
+            WHERE a.avs = operatorSet.avs AND a.operatorsetid = operatorSet.operatorSetId AND a.operator = :operator
+              AND NOT EXISTS (
+                SELECT 1 FROM operator_removed_from_operator_set_events r
+                WHERE r.avs = a.avs AND r.operatorsetid = a.operatorsetid AND r.operator = a.operator
+                  AND (r.blocknumber > a.blocknumber OR (r.blocknumber = a.blocknumber AND r.logindex > a.logindex))
+              )
+          )`,
+          { operator: filter.operator.toLowerCase() }
+        );
+      }
+
+      const connection = await paginateEvents(query, 'operatorSet', page);
+
+      const edges = await Promise.all(connection.edges.map(async ({ cursor, node: set }) => ({
+        cursor,
+        node: {
+          avs: set.avs,
+          operatorSetId: set.operatorSetId,
+          operators: await this.getOperatorSetMembers(set.avs, set.operatorSetId),
+          strategies: (await this.strategyAddedRepository.find({
+            where: { avs: set.avs, operatorSetId: set.operatorSetId },
+            order: { blockNumber: 'ASC', logIndex: 'ASC' },
+          })).map(event => event.strategy),
+          blockNumber: set.blockNumber,
+          transactionHash: set.transactionHash,
+        },
+      })));
+
+      return { ...connection, edges };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error in getOperatorSetConnection:', error);
+      throw new HttpException(
+        'Failed to fetch operator sets',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  async getAllocations(
+    limit: number = 100,
+    offset: number = 0,
+    filter: AllocationFilter = {}
+  ): Promise<{ allocations: AllocationUpdatedEvent[]; total: number }> {
+    try {
+      const query = this.allocationUpdatedRepository.createQueryBuilder('allocation');
+      this.applyOperatorSetFilter(query, 'allocation', filter);
+
+      const [allocations, total] = await query
+        .orderBy('allocation.blockNumber', 'DESC')
+        .addOrderBy('allocation.logIndex', 'DESC')
+        .take(limit)
+        .skip(offset)
+        .getManyAndCount();
+
+      return { allocations, total };
+    } catch (error) {
+      console.error('Error in getAllocations:', error);
+      throw new HttpException(
+        'Failed to fetch allocations',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  async getMagnitudeUpdates(
+    limit: number = 100,
+    offset: number = 0,
+    filter: MagnitudeUpdateFilter = {}
+  ): Promise<{ updates: MagnitudeUpdatedEvent[]; total: number }> {
+    try {
+      const query = this.magnitudeUpdatedRepository.createQueryBuilder('magnitude');
+
+      if (filter.operator) {
+        query.andWhere('magnitude.operator = :operator', { operator: filter.operator.toLowerCase() });
+      }
+      if (filter.strategy) {
+        query.andWhere('magnitude.strategy = :strategy', { strategy: filter.strategy.toLowerCase() });
+      }
+      if (filter.magnitudeType) {
+        query.andWhere('magnitude.magnitudeType = :magnitudeType', { magnitudeType: filter.magnitudeType });
+      }
+
+      const [updates, total] = await query
+        .orderBy('magnitude.blockNumber', 'DESC')
+        .addOrderBy('magnitude.logIndex', 'DESC')
+        .take(limit)
+        .skip(offset)
+        .getManyAndCount();
+
+      return { updates, total };
+    } catch (error) {
+      console.error('Error in getMagnitudeUpdates:', error);
+      throw new HttpException(
+        'Failed to fetch magnitude updates',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  async getSlashings(
+    limit: number = 100,
+    offset: number = 0,
+    filter: AllocationFilter = {}
+  ): Promise<{ slashings: OperatorSlashingRecord[]; total: number }> {
+    try {
+      const query = this.operatorSlashedRepository.createQueryBuilder('slashing');
+      this.applyOperatorSetFilter(query, 'slashing', { ...filter, strategy: undefined });
+      if (filter.strategy) {
+        // Strategies are stored as a comma separated list
+        query.andWhere('slashing.strategies LIKE :strategy', { strategy: `%${filter.strategy.toLowerCase()}%` });
+      }
+
+      const [events, total] = await query
+        .orderBy('slashing.blockNumber', 'DESC')
+        .addOrderBy('slashing.logIndex', 'DESC')
+        .take(limit)
+        .skip(offset)
+        .getManyAndCount();
+
+      return {
+        slashings: events.map(event => ({
+          operator: event.operator,
+          avs: event.avs,
+          operatorSetId: event.operatorSetId,
+          description: event.description,
+          strategies: event.strategies.map((strategy, index) => {
+            const wadSlashed = event.wadSlashed[index] ?? '0';
+            return {
+              strategy,
+              wadSlashed,
+              // Keep four decimals of precision before converting to a float
+              percentage: Number((BigInt(wadSlashed) * 1000000n) / WAD) / 10000,
+            };
+          }),
+          blockNumber: event.blockNumber,
+          transactionHash: event.transactionHash,
+          logIndex: event.logIndex,
+        })),
+        total,
+      };
+    } catch (error) {
+      console.error('Error in getSlashings:', error);
+      throw new HttpException(
+        'Failed to fetch slashings',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Replays add/remove events to get the operators currently in a set
+   */
+  private async getOperatorSetMembers(avs: string, operatorSetId: number): Promise<string[]> {
+    const [added, removed] = await Promise.all([
+      this.operatorAddedRepository.find({ where: { avs, operatorSetId } }),
+      this.operatorRemovedRepository.find({ where: { avs, operatorSetId } }),
+    ]);
+
+    const events = [
+      ...added.map(event => ({ event, isMember: true })),
+      ...removed.map(event => ({ event, isMember: false })),
+    ].sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.logIndex - b.event.logIndex);
+
+    const members = new Set<string>();
+    for (const { event, isMember } of events) {
+      if (isMember) {
+        members.add(event.operator);
+      } else {
+        members.delete(event.operator);
+      }
+    }
+    return Array.from(members);
+  }
+
+  private applyOperatorSetFilter<T extends ObjectLiteral>(
+    query: SelectQueryBuilder<T>,
+    alias: string,
+    filter: AllocationFilter
+  ): void {
+    if (filter.operator) {
+      query.andWhere(`${alias}.operator = :operator`, { operator: filter.operator.toLowerCase() });
+    }
+    if (filter.avs) {
+      query.andWhere(`${alias}.avs = :avs`, { avs: filter.avs.toLowerCase() });
+    }
+    if (filter.operatorSetId !== undefined && filter.operatorSetId !== null) {
+      query.andWhere(`${alias}.operatorSetId = :operatorSetId`, { operatorSetId: filter.operatorSetId });
+    }
+    if (filter.strategy) {
+      query.andWhere(`${alias}.strategy = :strategy`, { strategy: filter.strategy.toLowerCase() });
+    }
+  }
+}
@@ -6,19 +6,94 @@ import { TypeOrmModule } from '@nestjs/typeorm';
 import { join } from 'path';
 import { EigenPodService } from './eigenpod.service';
 import { StakedEthService } from './staked-eth.service';
+import { ValidatorService } from './validator.service';
 import { MaterializedViewService } from './materialized-view.service';
+import { DelegationService } from './delegation.service';
+import { DepositService } from './deposit.service';
+import { WithdrawalService } from './withdrawal.service';
+import { AllocationService } from './allocation.service';
+import { EigenPodLifecycleService } from './eigenpod-lifecycle.service';
+import { IndexerStatusService } from './indexer-status.service';
 import { GraphQLResolver } from './graphql.resolver';
+import { LabelService } from './label.service';
+import { LabelResolver, TYPE_LABEL_RESOLVERS } from './label.resolver';
+import { SubgraphModule } from './subgraph/subgraph.module';
+import { MetadataModule } from './metadata/metadata.module';
+import { LiveEventsModule } from './live/live-events.module';
 import { getTypeOrmConfig } from './typeorm.config';
-import { PodDeployedEvent, StakedEthEvent } from '@eigen-layer-dashboard/lib';
+import {
+  PodDeployedEvent,
+  StakedEthEvent,
+  IndexerState,
+  OperatorRegisteredEvent,
+  OperatorMetadataURIUpdatedEvent,
+  StakerDelegatedEvent,
+  StakerUndelegatedEvent,
+  OperatorSharesIncreasedEvent,
+  OperatorSharesDecreasedEvent,
+  StrategyDepositEvent,
+  WithdrawalQueuedEvent,
+  WithdrawalCompletedEvent,
+  OperatorSetCreatedEvent,
+  OperatorAddedToOperatorSetEvent,
+  OperatorRemovedFromOperatorSetEvent,
+  StrategyAddedToOperatorSetEvent,
+  AllocationUpdatedEvent,
+  MagnitudeUpdatedEvent,
+  OperatorSlashedEvent,
+  ValidatorRestakedEvent,
+  ValidatorBalanceUpdatedEvent,
+  ValidatorWithdrawnEvent,
+  CheckpointCreatedEvent,
+  CheckpointFinalizedEvent,
+  NonBeaconChainETHReceivedEvent,
+  AddressLabel,
+} from '@eigen-layer-dashboard/lib';
 
 @Module({
   imports: [
     ScheduleModule.forRoot(),
+    SubgraphModule,
+    MetadataModule,
+    LiveEventsModule,
     TypeOrmModule.forRoot(getTypeOrmConfig()),
-    TypeOrmModule.forFeature([PodDeployedEvent, StakedEthEvent]),
+    TypeOrmModule.forFeature([
+      PodDeployedEvent,
+      StakedEthEvent,
+      IndexerState,
+      OperatorRegisteredEvent,
+      OperatorMetadataURIUpdatedEvent,
+      StakerDelegatedEvent,
+      StakerUndelegatedEvent,
+      OperatorSharesIncreasedEvent,
+      OperatorSharesDecreasedEvent,
+      StrategyDepositEvent,
+      WithdrawalQueuedEvent,
+      WithdrawalCompletedEvent,
+      OperatorSetCreatedEvent,
+      OperatorAddedToOperatorSetEvent,
+      OperatorRemovedFromOperatorSetEvent,
+      StrategyAddedToOperatorSetEvent,
+      AllocationUpdatedEvent,
+      MagnitudeUpdatedEvent,
+      OperatorSlashedEvent,
+      ValidatorRestakedEvent,
+      ValidatorBalanceUpdatedEvent,
+      ValidatorWithdrawnEvent,
+      CheckpointCreatedEvent,
+      CheckpointFinalizedEvent,
+      NonBeaconChainETHReceivedEvent,
+      AddressLabel,
+    ]),
     GraphQLModule.forRoot<ApolloDriverConfig>({
       driver: ApolloDriver,
       autoSchemaFile: join(process.cwd(), 'src/schema.gql'),
+      // Subscriptions share the queries' path: graphql-ws for the dashboard, the legacy
+      // protocol for the Playground's subscription tab
+      subscriptions: {
+        'graphql-ws': true,
+        'subscriptions-transport-ws': true,
+      },
       playground: {
         settings: {
           'editor.theme': 'light',
@@ -46,6 +121,49 @@ import { PodDeployedEvent, StakedEthEvent } from '@eigen-layer-dashboard/lib';
     }
     total
   }
+}`,
+          },
+          {
+            name: "EigenPods by Validator",
+            endpoint: '/graphql',
+            query: `# EigenPods by Validator
+# Find the EigenPod a validator's withdrawal credentials point at
+
+{
+  eigenPods(where: {
+    validatorPublicKey: "0x800000c8a5364c1d1e3c4cdb65a28fd21daff4e1fb426c0fb09808105467e4a490d8b3507e7efffbd71024129f1a6b8d"
+  }) {
+    pods {
+      eigenPod
+      podOwner
+      blockNumber
+    }
+    total
+  }
+}`,
+          },
+          {
+            name: "EigenPod Detail",
+            endpoint: '/graphql',
+            query: `# EigenPod Detail
+# Deployment, linked validators and checkpoints of one pod
+
+{
+  eigenPod(address: "0x...") {
+    eigenPod
+    podOwner
+    transactionHash
+    validatorCount
+    totalDeposited
+    validators {
+      pubkey
+      totalDeposited
+    }
+    checkpoints {
+      checkpointTimestamp
+      finalized
+    }
+  }
 }`,
           },
           {
@@ -62,6 +180,9 @@ import { PodDeployedEvent, StakedEthEvent } from '@eigen-layer-dashboard/lib';
       withdrawalCredentials
       depositIndex
       amount
+      txValue
+      txFrom
+      eigenPod
       blockNumber
       blockTimestamp
     }
@@ -90,6 +211,69 @@ import { PodDeployedEvent, StakedEthEvent } from '@eigen-layer-dashboard/lib';
     }
     total
   }
+}`,
+          },
+          {
+            name: "Validators",
+            endpoint: '/graphql',
+            query: `# Validators
+# Deposits aggregated per pubkey, largest first
+
+{
+  validators(limit: 10, orderBy: TOTAL_DEPOSITED, where: { credentialType: "0x01" }) {
+    validators {
+      pubkey
+      credentialType
+      withdrawalAddress
+      eigenPod
+      totalDeposited
+      depositCount
+      topUpCount
+      firstDepositBlock
+      lastDepositBlock
+    }
+    total
+  }
+}`,
+          },
+          {
+            name: "Withdrawal Credential Groups",
+            endpoint: '/graphql',
+            query: `# Withdrawal Credential Groups
+# Staking entities and EigenPods ranked by beacon chain deposits
+
+{
+  withdrawalCredentialGroups(limit: 10, where: { isEigenPod: true }) {
+    groups {
+      withdrawalAddress
+      credentialType
+      isEigenPod
+      validatorCount
+      depositCount
+      totalDeposited
+      firstActivityAt
+      lastActivityAt
+    }
+    total
+  }
+}`,
+          },
+          {
+            name: "Address Labels",
+            endpoint: '/graphql',
+            query: `# Address Labels
+# Known names imported with \`yarn dev labels import\`
+
+{
+  addressLabels(limit: 20, where: { category: "lrt" }) {
+    labels {
+      address
+      name
+      category
+      tags
+    }
+    total
+  }
 }`,
           },
           {
@@ -182,6 +366,138 @@ import { PodDeployedEvent, StakedEthEvent } from '@eigen-layer-dashboard/lib';
     totalAmount
     lastBlock
   }
+}`,
+          },
+          {
+            name: "Indexer Status",
+            endpoint: '/graphql',
+            query: `# Indexer Status
+# Health and the lag of every indexer source behind the chain head
+
+{
+  health {
+    status
+    reason
+  }
+  indexerStatus {
+    indexerName
+    status
+    lastIndexedBlock
+    chainHead
+    lagBlocks
+    lagSeconds
+    eventsPerMinute
+    lastRunAt
+    error
+  }
+}`,
+          },
+          {
+            name: "Operators",
+            endpoint: '/graphql',
+            query: `# Operators
+# Get registered operators with their current delegator count
+
+{
+  operators(skip: 0, limit: 5) {
+    operators {
+      operator
+      delegationApprover
+      metadataURI
+      metadata {
+        name
+        logo
+        website
+        status
+      }
+      stakerCount
+      registeredBlockNumber
+    }
+    total
+  }
+}`,
+          },
+          {
+            name: "AVS Metadata",
+            endpoint: '/graphql',
+            query: `# AVS Metadata
+# Names and logos from the AVS metadata documents, fetched and cached by the backend
+
+{
+  subgraphAVSs(limit: 10) {
+    id
+    metadataURI
+    metadata {
+      name
+      logo
+      website
+      twitter
+      status
+      error
+      lastFetchedAt
+    }
+  }
+}`,
+          },
+          {
+            name: "Withdrawals",
+            endpoint: '/graphql',
+            query: `# Withdrawals
+# Get queued withdrawals that have not been completed yet
+
+{
+  withdrawals(skip: 0, limit: 5, where: { completed: false }) {
+    withdrawals {
+      withdrawalRoot
+      staker
+      operator
+      withdrawer
+      strategies
+      sharesToWithdraw
+      blockTimestamp
+      completed
+    }
+    total
+  }
+}`,
+          },
+          {
+            name: "Slashings",
+            endpoint: '/graphql',
+            query: `# Slashings
+# Inspect operator slashes with the proportion slashed per strategy
+
+{
+  slashings(skip: 0, limit: 5) {
+    slashings {
+      operator
+      avs
+      operatorSetId
+      description
+      strategies {
+        strategy
+        wadSlashed
+        percentage
+      }
+      blockNumber
+    }
+    total
+  }
+}`,
+          },
+          {
+            name: "Live Events",
+            endpoint: '/graphql',
+            query: `# Live Events
+# New EigenPods as the indexer stores them (needs Postgres); also try stakedEthDeposited and indexerProgress
+
+subscription {
+  podDeployed {
+    eigenPod
+    podOwner
+    blockNumber
+    transactionHash
+  }
 }`,
           },
         ],
@@ -190,6 +506,21 @@ import { PodDeployedEvent, StakedEthEvent } from '@eigen-layer-dashboard/lib';
     }),
   ],
   controllers: [],
-  providers: [EigenPodService, StakedEthService, MaterializedViewService, GraphQLResolver],
+  providers: [
+    EigenPodService,
+    StakedEthService,
+    ValidatorService,
+    MaterializedViewService,
+    DelegationService,
+    DepositService,
+    WithdrawalService,
+    AllocationService,
+    EigenPodLifecycleService,
+    IndexerStatusService,
+    GraphQLResolver,
+    LabelService,
+    LabelResolver,
+    ...TYPE_LABEL_RESOLVERS,
+  ],
 })
 export class AppModule {}
@@ -0,0 +1,222 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { OperatorRegisteredEvent } from '@eigen-layer-dashboard/lib';
+import { PageArgs, ConnectionRecord, paginateEvents } from './pagination';
+
+export interface OperatorRecord {
+  operator: string;
+  delegationApprover: string;
+  metadataURI?: string;
+  stakerCount: number;
+  slashingCount: number;
+  registeredBlockNumber: number;
+  registeredTransactionHash: string;
+}
+
+export interface DelegationRecord {
+  staker: string;
+  operator: string;
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface OperatorShareEventRecord {
+  operator: string;
+  staker: string;
+  strategy: string;
+  shares: string;
+  direction: 'increase' | 'decrease';
+  blockNumber: number;
+  transactionHash: string;
+  logIndex: number;
+}
+
+export interface OperatorShareEventFilter {
+  operator?: string;
+  staker?: string;
+  strategy?: string;
+}
+
+// A delegation is current when the staker has not undelegated after it
+const CURRENT_DELEGATION_CONDITION = `NOT EXISTS (
+  SELECT 1 FROM staker_undelegated_events u
+  WHERE u.staker = d.staker
+    AND (u.blocknumber > d.blocknumber OR (u.blocknumber = d.blocknumber AND u.logindex > d.logindex))
+)`;
+
+@Injectable()
+export class DelegationService {
+  constructor(
+    @InjectRepository(OperatorRegisteredEvent)
+    private operatorRegisteredRepository: Repository<OperatorRegisteredEvent>,
+  ) {}
+
+  /**
+   * Pages operators newest registration first, with their metadata URI, current stakers and slashings
+   */
+  async getOperatorConnection(page: PageArgs, operator?: string): Promise<ConnectionRecord<OperatorRecord>> {
+    try {
+      const query = this.operatorRegisteredRepository.createQueryBuilder('registration');
+      if (operator) {
+        query.andWhere('registration.operator = :operator', { operator: operator.toLowerCase() });
+      }
+      const connection = await paginateEvents(query, 'registration', page);
+
+      const operators = connection.edges.map(edge => edge.node.operator);
+      const rows = operators.length > 0
+        ? await this.operatorRegisteredRepository.query(
+          `SELECT r.operator,
+            (SELECT m.metadatauri FROM operator_metadata_uri_updated_events m
+              WHERE m.operator = r.operator
+              ORDER BY m.blocknumber DESC, m.logindex DESC LIMIT 1) AS metadatauri,
+            (SELECT COUNT(*) FROM staker_delegated_events d
+              WHERE d.operator = r.operator AND ${CURRENT_DELEGATION_CONDITION}) AS stakercount,
+            (SELECT COUNT(*) FROM operator_slashed_events s
+              WHERE s.operator = r.operator) AS slashingcount
+          FROM operator_registered_events r
+          WHERE r.operator IN (${operators.map((_, index) => `$${index + 1}`).join(', ')})`,
+          operators
+        )
+        : [];
+      const rowsByOperator = new Map<string, any>(rows.map((row: any) => [row.operator, row]));
+
+      return {
+        ...connection,
+        edges: connection.edges.map(({ cursor, node: registration }) => {
+          const row = rowsByOperator.get(registration.operator);
+          return {
+            cursor,
+            node: {
+              operator: registration.operator,
+              delegationApprover: registration.delegationApprover,
+              metadataURI: row?.metadatauri ?? undefined,
+              stakerCount: parseInt(row?.stakercount) || 0,
+              slashingCount: parseInt(row?.slashingcount) || 0,
+              registeredBlockNumber: registration.blockNumber,
+              registeredTransactionHash: registration.transactionHash,
+            },
+          };
+        }),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error in getOperatorConnection:', error);
+      throw new HttpException(
+        'Failed to fetch operators',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  async getDelegations(
+    limit: number = 100,
+    offset: number = 0,
+    operator?: string,
+    staker?: string
+  ): Promise<{ delegations: DelegationRecord[]; total: number }> {
+    try {
+      const conditions = [CURRENT_DELEGATION_CONDITION];
+      const params: any[] = [];
+      if (operator) {
+        params.push(operator.toLowerCase());
+        conditions.push(`d.operator = $${params.length}`);
+      }
+      if (staker) {
+        params.push(staker.toLowerCase());
+        conditions.push(`d.staker = $${params.length}`);
+      }
+      const where = `WHERE ${conditions.join(' AND ')}`;
+
+      const rows = await this.operatorRegisteredRepository.query(
+        `SELECT d.staker, d.operator, d.blocknumber, d.transactionhash, d.logindex
+        FROM staker_delegated_events d
+        ${where}
+        ORDER BY d.blocknumber DESC, d.logindex DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      );
+      const [{ count }] = await this.operatorRegisteredRepository.query(
+        `SELECT COUNT(*) AS count FROM staker_delegated_events d ${where}`,
+        params
+      );
+
+      return {
+        delegations: rows.map(row => ({
+          staker: row.staker,
+          operator: row.operator,
+          blockNumber: row.blocknumber,
+          transactionHash: row.transactionhash,
+          logIndex: row.logindex,
+        })),
+        total: parseInt(count) || 0,
+      };
+    } catch (error) {
+      console.error('Error in getDelegations:', error);
+      throw new HttpException(
+        'Failed to fetch delegations',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  async getOperatorShareEvents(
+    limit: number = 100,
+    offset: number = 0,
+    filter: OperatorShareEventFilter = {}
+  ): Promise<{ events: OperatorShareEventRecord[]; total: number }> {
+    try {
+      const conditions: string[] = [];
+      const params: any[] = [];
+      for (const column of ['operator', 'staker', 'strategy'] as const) {
+        if (filter[column]) {
+          params.push(filter[column]!.toLowerCase());
+          conditions.push(`${column} = $${params.length}`);
+        }
+      }
+      const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+      // Increases and decreases live in separate tables, merge them into one timeline
+      const union = `
+        SELECT operator, staker, strategy, shares, 'increase' AS direction, blocknumber, transactionhash, logindex
+        FROM operator_shares_increased_events ${where}
+        UNION ALL
+        SELECT operator, staker, strategy, shares, 'decrease' AS direction, blocknumber, transactionhash, logindex
+        FROM operator_shares_decreased_events ${where}`;
+
+      const rows = await this.operatorRegisteredRepository.query(
+        `SELECT * FROM (${union}) AS share_events
+        ORDER BY blocknumber DESC, logindex DESC
+        LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+        [...params, limit, offset]
+      );
+      const [{ count }] = await this.operatorRegisteredRepository.query(
+        `SELECT COUNT(*) AS count FROM (${union}) AS share_events`,
+        params
+      );
+
+      return {
+        events: rows.map(row => ({
+          operator: row.operator,
+          staker: row.staker,
+          strategy: row.strategy,
+          shares: row.shares,
+          direction: row.direction,
+          blockNumber: row.blocknumber,
+          transactionHash: row.transactionhash,
+          logIndex: row.logindex,
+        })),
+        total: parseInt(count) || 0,
+      };
+    } catch (error) {
+      console.error('Error in getOperatorShareEvents:', error);
+      throw new HttpException(
+        'Failed to fetch operator share events',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
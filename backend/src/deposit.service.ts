@@ -0,0 +1,71 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StrategyDepositEvent } from '@eigen-layer-dashboard/lib';
+import { PageArgs, ConnectionRecord, paginateEvents } from './pagination';
+
+export interface DepositFilter {
+  staker?: string;
+  token?: string;
+  strategy?: string;
+  // Share bounds in wei
+  minShares?: string;
+  maxShares?: string;
+  // Unix timestamps
+  startTime?: number;
+  endTime?: number;
+}
+
+@Injectable()
+export class DepositService {
+  constructor(
+    @InjectRepository(StrategyDepositEvent)
+    private depositRepository: Repository<StrategyDepositEvent>,
+  ) {}
+
+  /**
+   * Pages deposits newest first with the total number of matching rows
+   */
+  async getDepositConnection(
+    filter: DepositFilter,
+    page: PageArgs
+  ): Promise<ConnectionRecord<StrategyDepositEvent>> {
+    try {
+      const query = this.depositRepository.createQueryBuilder('deposit');
+
+      if (filter.staker) {
+        query.andWhere('deposit.staker = :staker', { staker: filter.staker.toLowerCase() });
+      }
+      if (filter.token) {
+        query.andWhere('deposit.token = :token', { token: filter.token.toLowerCase() });
+      }
+      if (filter.strategy) {
+        query.andWhere('deposit.strategy = :strategy', { strategy: filter.strategy.toLowerCase() });
+      }
+      // Shares are stored as strings to keep full precision, compare them numerically
+      if (filter.minShares != null) {
+        query.andWhere('CAST(deposit.shares AS NUMERIC) >= CAST(:minShares AS NUMERIC)', { minShares: filter.minShares });
+      }
+      if (filter.maxShares != null) {
+        query.andWhere('CAST(deposit.shares AS NUMERIC) <= CAST(:maxShares AS NUMERIC)', { maxShares: filter.maxShares });
+      }
+      if (filter.startTime != null) {
+        query.andWhere('deposit.blockTimestamp >= :startTime', { startTime: filter.startTime });
+      }
+      if (filter.endTime != null) {
+        query.andWhere('deposit.blockTimestamp <= :endTime', { endTime: filter.endTime });
+      }
+
+      return await paginateEvents(query, 'deposit', page);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error in getDepositConnection:', error);
+      throw new HttpException(
+        'Failed to fetch deposits',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
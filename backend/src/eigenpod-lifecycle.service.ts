@@ -0,0 +1,162 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import {
+  ValidatorRestakedEvent,
+  ValidatorBalanceUpdatedEvent,
+  ValidatorWithdrawnEvent,
+  CheckpointCreatedEvent,
+  CheckpointFinalizedEvent,
+} from '@eigen-layer-dashboard/lib';
+
+export interface PodValidatorRecord {
+  validatorIndex: number;
+  restakedBlockNumber: number;
+  balanceGwei: string;
+  balanceTimestamp?: number;
+  withdrawn: boolean;
+}
+
+export interface PodCheckpointRecord {
+  checkpointTimestamp: number;
+  beaconBlockRoot: string;
+  validatorCount: number;
+  createdBlockNumber: number;
+  finalized: boolean;
+  totalShareDeltaWei?: string;
+  finalizedBlockNumber?: number;
+}
+
+export interface PodBalancePointRecord {
+  blockNumber: number;
+  balanceTimestamp: number;
+  totalBalanceGwei: string;
+}
+
+@Injectable()
+export class EigenPodLifecycleService {
+  constructor(
+    @InjectRepository(ValidatorRestakedEvent)
+    private validatorRestakedRepository: Repository<ValidatorRestakedEvent>,
+    @InjectRepository(ValidatorBalanceUpdatedEvent)
+    private validatorBalanceUpdatedRepository: Repository<ValidatorBalanceUpdatedEvent>,
+    @InjectRepository(ValidatorWithdrawnEvent)
+    private validatorWithdrawnRepository: Repository<ValidatorWithdrawnEvent>,
+    @InjectRepository(CheckpointCreatedEvent)
+    private checkpointCreatedRepository: Repository<CheckpointCreatedEvent>,
+    @InjectRepository(CheckpointFinalizedEvent)
+    private checkpointFinalizedRepository: Repository<CheckpointFinalizedEvent>,
+  ) {}
+
+  async getValidators(eigenPod: string): Promise<PodValidatorRecord[]> {
+    try {
+      const pod = eigenPod.toLowerCase();
+      const [restaked, balances, withdrawn] = await Promise.all([
+        this.validatorRestakedRepository.find({
+          where: { eigenPod: pod },
+          order: { blockNumber: 'ASC', logIndex: 'ASC' },
+        }),
+        this.validatorBalanceUpdatedRepository.find({
+          where: { eigenPod: pod },
+          order: { blockNumber: 'ASC', logIndex: 'ASC' },
+        }),
+        this.validatorWithdrawnRepository.find({ where: { eigenPod: pod } }),
+      ]);
+
+      // Later updates overwrite earlier ones, leaving the latest balance per validator
+      const latestBalances = new Map(balances.map(event => [event.validatorIndex, event]));
+      const withdrawnIndexes = new Set(withdrawn.map(event => event.validatorIndex));
+
+      return restaked.map(event => {
+        const balance = latestBalances.get(event.validatorIndex);
+        return {
+          validatorIndex: event.validatorIndex,
+          restakedBlockNumber: event.blockNumber,
+          balanceGwei: balance?.newValidatorBalanceGwei ?? '0',
+          balanceTimestamp: balance?.balanceTimestamp,
+          withdrawn: withdrawnIndexes.has(event.validatorIndex),
+        };
+      });
+    } catch (error) {
+      console.error('Error in getValidators:', error);
+      throw new HttpException(
+        'Failed to fetch EigenPod validators',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  async getCheckpoints(eigenPod: string): Promise<PodCheckpointRecord[]> {
+    try {
+      const pod = eigenPod.toLowerCase();
+      const [created, finalized] = await Promise.all([
+        this.checkpointCreatedRepository.find({
+          where: { eigenPod: pod },
+          order: { blockNumber: 'DESC', logIndex: 'DESC' },
+        }),
+        this.checkpointFinalizedRepository.find({ where: { eigenPod: pod } }),
+      ]);
+
+      const finalizedByTimestamp = new Map(finalized.map(event => [event.checkpointTimestamp, event]));
+
+      return created.map(event => {
+        const finalization = finalizedByTimestamp.get(event.checkpointTimestamp);
+        return {
+          checkpointTimestamp: event.checkpointTimestamp,
+          beaconBlockRoot: event.beaconBlockRoot,
+          validatorCount: event.validatorCount,
+          createdBlockNumber: event.blockNumber,
+          finalized: !!finalization,
+          totalShareDeltaWei: finalization?.totalShareDeltaWei,
+          finalizedBlockNumber: finalization?.blockNumber,
+        };
+      });
+    } catch (error) {
+      console.error('Error in getCheckpoints:', error);
+      throw new HttpException(
+        'Failed to fetch EigenPod checkpoints',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Replays balance updates to get the pod's total restaked balance after each block
+   */
+  async getBalanceHistory(eigenPod: string): Promise<PodBalancePointRecord[]> {
+    try {
+      const updates = await this.validatorBalanceUpdatedRepository.find({
+        where: { eigenPod: eigenPod.toLowerCase() },
+        order: { blockNumber: 'ASC', logIndex: 'ASC' },
+      });
+
+      const balances = new Map<number, bigint>();
+      const history: PodBalancePointRecord[] = [];
+
+      for (const update of updates) {
+        balances.set(update.validatorIndex, BigInt(update.newValidatorBalanceGwei));
+        const total = Array.from(balances.values()).reduce((sum, balance) => sum + balance, 0n);
+
+        const last = history[history.length - 1];
+        if (last && last.blockNumber === update.blockNumber) {
+          last.balanceTimestamp = update.balanceTimestamp;
+          last.totalBalanceGwei = total.toString();
+        } else {
+          history.push({
+            blockNumber: update.blockNumber,
+            balanceTimestamp: update.balanceTimestamp,
+            totalBalanceGwei: total.toString(),
+          });
+        }
+      }
+
+      return history;
+    } catch (error) {
+      console.error('Error in getBalanceHistory:', error);
+      throw new HttpException(
+        'Failed to fetch EigenPod balance history',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
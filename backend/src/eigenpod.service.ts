@@ -2,19 +2,68 @@ import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { ethers } from 'ethers';
-import { PodDeployedEvent } from '@eigen-layer-dashboard/lib';
+import { PodDeployedEvent, StakedEthEvent, IndexerState, getWithdrawalAddress, toWithdrawalCredentials, createRpcProvider } from '@eigen-layer-dashboard/lib';
 import axios from 'axios';
+import { PageArgs, ConnectionRecord, EventOrder, encodeCursor, paginateEvents } from './pagination';
+import { EventFilterBuilder } from './event-filter';
+import { toAmount } from './staked-eth.service';
 
 export interface EigenPodResponse {
   eigenPod: string;
   podOwner: string;
   blockNumber?: number;
+  blockTimestamp?: number | null;
   transactionHash?: string;
   logIndex?: number;
   createdAt?: Date;
   source?: 'database' | 'contract';
 }
 
+// Every set field narrows the result; `*_in` lists match any of their values
+export interface EigenPodFilter {
+  ownerAddress?: string;
+  ownerAddress_in?: string[];
+  eigenPodAddress?: string;
+  eigenPodAddress_in?: string[];
+  validatorPublicKey?: string;
+  validatorPublicKey_in?: string[];
+  startBlock?: number;
+  endBlock?: number;
+  // Unix timestamps, matched against the deployment block time
+  startTime?: number;
+  endTime?: number;
+}
+
+export interface EigenPodLinkedValidatorRecord {
+  pubkey: string;
+  withdrawalCredentials: string;
+  // Wei
+  totalDeposited: string;
+  depositCount: number;
+  firstBlock: number;
+  lastBlock: number;
+}
+
+export interface EigenPodDetailRecord {
+  eigenPod: string;
+  podOwner: string;
+  blockNumber: number;
+  blockTimestamp: number | null;
+  transactionHash: string;
+  logIndex: number;
+  createdAt: Date;
+  validators: EigenPodLinkedValidatorRecord[];
+  // Wei deposited to the pod's withdrawal credentials
+  totalDeposited: string;
+  depositCount: number;
+}
+
+export interface EigenPodIndexerStatus {
+  totalEvents: number;
+  lastIndexedBlock: number;
+  isConnected: boolean;
+}
+
 export interface ValidatorData {
   pubkey: string;
   withdrawal_credentials: string;
@@ -41,50 +90,48 @@ export class EigenPodService {
   constructor(
     @InjectRepository(PodDeployedEvent)
     private podDeployedRepository: Repository<PodDeployedEvent>,
+    @InjectRepository(StakedEthEvent)
+    private stakedEthRepository: Repository<StakedEthEvent>,
+    @InjectRepository(IndexerState)
+    private indexerStateRepository: Repository<IndexerState>,
   ) {
     // Initialize Ethereum provider and contract
-    const rpcUrl = process.env.ETHEREUM_RPC_URL || 'https://eth-mainnet.g.alchemy.com/v2/demo';
     const contractAddress = process.env.EIGENPOD_MANAGER_ADDRESS || '0x91E677b07F7AF907ec9a428aafA9fc14a0d3A338';
     
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
+    this.provider = createRpcProvider();
     this.contract = new ethers.Contract(contractAddress, this.EIGENPOD_MANAGER_ABI, this.provider);
   }
 
   async getEigenPodsByOwner(ownerAddress: string): Promise<EigenPodResponse[]> {
     try {
-      // First, try to get from database using case-insensitive search
-      const rawEvents = await this.podDeployedRepository.query(
-        'SELECT * FROM pod_deployed_events WHERE LOWER(podowner) = LOWER($1) ORDER BY blocknumber DESC, logindex DESC',
-        [ownerAddress]
-      );
+      // First, try to get from database, addresses are stored lowercase
+      const events = await this.podDeployedRepository.find({
+        where: { podOwner: ownerAddress.toLowerCase() },
+        order: { blockNumber: 'DESC', logIndex: 'DESC' },
+      });
       
-      if (rawEvents.length > 0) {
+      if (events.length > 0) {
         // Return database results
-        return rawEvents.map(event => ({
-          eigenPod: event.eigenpod,
-          podOwner: event.podowner,
-          blockNumber: event.blocknumber,
-          transactionHash: event.transactionhash,
-          logIndex: event.logindex,
-          createdAt: event.createdat,
+        return events.map(event => ({
+          eigenPod: event.eigenPod,
+          podOwner: event.podOwner,
+          blockNumber: event.blockNumber,
+          blockTimestamp: event.blockTimestamp,
+          transactionHash: event.transactionHash,
+          logIndex: event.logIndex,
+          createdAt: event.createdAt,
           source: 'database' as const
         }));
       }
 
       // If no results in database, try to get from contract
-      try {
-        const eigenPodAddress = await this.contract.getPod(ownerAddress);
-        
-        // Check if the returned address is not zero address
-        if (eigenPodAddress && eigenPodAddress !== '0x0000000000000000000000000000000000000000') {
-          return [{
-            eigenPod: eigenPodAddress,
-            podOwner: ownerAddress,
-            source: 'contract' as const
-          }];
-        }
-      } catch (contractError) {
-        console.warn('Error querying contract:', contractError);
+      const eigenPodAddress = await this.getPodFromContract(ownerAddress);
+      if (eigenPodAddress) {
+        return [{
+          eigenPod: eigenPodAddress,
+          podOwner: ownerAddress.toLowerCase(),
+          source: 'contract' as const
+        }];
       }
 
       return [];
@@ -97,11 +144,78 @@ export class EigenPodService {
     }
   }
 
+  /**
+   * Pages pod deployments with the total number of matching rows.
+   * An owner without indexed deployments falls back to the EigenPodManager contract.
+   */
+  async getEigenPodConnection(
+    filter: EigenPodFilter,
+    page: PageArgs,
+    order: EventOrder = {}
+  ): Promise<ConnectionRecord<PodDeployedEvent>> {
+    try {
+      const query = this.podDeployedRepository.createQueryBuilder('event');
+      const builder = new EventFilterBuilder(query, 'event')
+        .equals('podOwner', filter.ownerAddress, true)
+        .in('podOwner', filter.ownerAddress_in, true)
+        .equals('eigenPod', filter.eigenPodAddress, true)
+        .in('eigenPod', filter.eigenPodAddress_in, true);
+
+      // Validators are matched through the pods their withdrawal credentials point at
+      for (const pubkeys of [filter.validatorPublicKey ? [filter.validatorPublicKey] : null, filter.validatorPublicKey_in]) {
+        if (pubkeys) {
+          builder.in('eigenPod', await this.getWithdrawalAddressesByPubkeys(pubkeys), true);
+        }
+      }
+
+      builder
+        .range('blockNumber', filter.startBlock, filter.endBlock)
+        .range('blockTimestamp', filter.startTime, filter.endTime);
+
+      const connection = await paginateEvents(builder.build(), 'event', page, order);
+      if (connection.totalCount > 0 || !filter.ownerAddress || !this.onlyOwnerFilter(filter)) {
+        return connection;
+      }
+
+      const eigenPodAddress = await this.getPodFromContract(filter.ownerAddress);
+      if (!eigenPodAddress) {
+        return connection;
+      }
+
+      // Not indexed yet, so there is no deployment transaction to report
+      const pod = Object.assign(new PodDeployedEvent(), {
+        id: 0,
+        eigenPod: eigenPodAddress,
+        podOwner: filter.ownerAddress.toLowerCase(),
+        blockNumber: 0,
+        blockTimestamp: null,
+        transactionHash: '',
+        logIndex: 0,
+        createdAt: new Date(),
+      });
+      const cursor = encodeCursor(pod);
+      return {
+        edges: [{ cursor, node: pod }],
+        pageInfo: { hasNextPage: false, hasPreviousPage: false, startCursor: cursor, endCursor: cursor },
+        totalCount: 1,
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error in getEigenPodConnection:', error);
+      throw new HttpException(
+        'Failed to fetch EigenPod data',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   async getEigenPodByAddress(eigenPodAddress: string): Promise<EigenPodResponse | null> {
     try {
       // Query database for the specific EigenPod
       const events = await this.podDeployedRepository.find({
-        where: { podOwner: eigenPodAddress.toLowerCase() },
+        where: { eigenPod: eigenPodAddress.toLowerCase() },
         order: { blockNumber: 'DESC', logIndex: 'DESC' },
       });
       
@@ -111,6 +225,7 @@ export class EigenPodService {
           eigenPod: event.eigenPod,
           podOwner: event.podOwner,
           blockNumber: event.blockNumber,
+          blockTimestamp: event.blockTimestamp,
           transactionHash: event.transactionHash,
           logIndex: event.logIndex,
           createdAt: event.createdAt,
@@ -128,6 +243,69 @@ export class EigenPodService {
     }
   }
 
+  /**
+   * Deployment of a pod together with the validators whose withdrawal credentials point at it
+   */
+  async getEigenPodDetail(eigenPodAddress: string): Promise<EigenPodDetailRecord | null> {
+    if (!ethers.isAddress(eigenPodAddress)) {
+      throw new HttpException(`Invalid EigenPod address: ${eigenPodAddress}`, HttpStatus.BAD_REQUEST);
+    }
+
+    try {
+      const address = eigenPodAddress.toLowerCase();
+      const deployment = await this.podDeployedRepository.findOne({
+        where: { eigenPod: address },
+        order: { blockNumber: 'DESC', logIndex: 'DESC' },
+      });
+      if (!deployment) {
+        return null;
+      }
+
+      const rows = await this.stakedEthRepository
+        .createQueryBuilder('event')
+        .select('event.pubkey', 'pubkey')
+        .addSelect('event.withdrawalCredentials', 'withdrawalCredentials')
+        .addSelect('SUM(CAST(event.amount AS DECIMAL))', 'totalDeposited')
+        .addSelect('COUNT(*)', 'depositCount')
+        .addSelect('MIN(event.blockNumber)', 'firstBlock')
+        .addSelect('MAX(event.blockNumber)', 'lastBlock')
+        .where('event.withdrawalCredentials IN (:...credentials)', { credentials: toWithdrawalCredentials(address) })
+        .groupBy('event.pubkey')
+        .addGroupBy('event.withdrawalCredentials')
+        .orderBy('MIN(event.blockNumber)', 'ASC')
+        .getRawMany();
+
+      const validators = rows.map(row => ({
+        pubkey: row.pubkey,
+        withdrawalCredentials: row.withdrawalCredentials,
+        totalDeposited: toAmount(row.totalDeposited),
+        depositCount: Number(row.depositCount),
+        firstBlock: Number(row.firstBlock),
+        lastBlock: Number(row.lastBlock),
+      }));
+      const totalDeposited = validators.reduce((sum, validator) => sum + BigInt(validator.totalDeposited), 0n);
+
+      return {
+        eigenPod: deployment.eigenPod,
+        podOwner: deployment.podOwner,
+        blockNumber: deployment.blockNumber,
+        blockTimestamp: deployment.blockTimestamp,
+        transactionHash: deployment.transactionHash,
+        logIndex: deployment.logIndex,
+        createdAt: deployment.createdAt,
+        validators,
+        totalDeposited: totalDeposited.toString(),
+        depositCount: validators.reduce((sum, validator) => sum + validator.depositCount, 0),
+      };
+    } catch (error) {
+      console.error('Error in getEigenPodDetail:', error);
+      throw new HttpException(
+        'Failed to fetch EigenPod detail',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   async getAllEigenPods(limit: number = 100, offset: number = 0): Promise<EigenPodResponse[]> {
     try {
       const events = await this.podDeployedRepository.find({
@@ -140,6 +318,7 @@ export class EigenPodService {
         eigenPod: event.eigenPod,
         podOwner: event.podOwner,
         blockNumber: event.blockNumber,
+        blockTimestamp: event.blockTimestamp,
         transactionHash: event.transactionHash,
         logIndex: event.logIndex,
         createdAt: event.createdAt,
@@ -173,9 +352,18 @@ export class EigenPodService {
 
   async getEigenPodByValidatorPublicKey(validatorPublicKey: string): Promise<EigenPodResponse[]> {
     try {
-      // This would need to be implemented based on your business logic
-      // For now, returning empty array
-      return [];
+      const addresses = await this.getWithdrawalAddressesByPubkeys([validatorPublicKey]);
+      const events = await this.getPodDeployedEventsByAddresses(addresses);
+      return events.map(event => ({
+        eigenPod: event.eigenPod,
+        podOwner: event.podOwner,
+        blockNumber: event.blockNumber,
+        blockTimestamp: event.blockTimestamp,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+        createdAt: event.createdAt,
+        source: 'database' as const
+      }));
     } catch (error) {
       console.error('Error in getEigenPodByValidatorPublicKey:', error);
       throw new HttpException(
@@ -185,6 +373,65 @@ export class EigenPodService {
     }
   }
 
+  /**
+   * Returns the subset of the given addresses that are deployed EigenPods, lowercase
+   */
+  async findEigenPodAddresses(addresses: string[]): Promise<Set<string>> {
+    const events = await this.getPodDeployedEventsByAddresses(addresses);
+    return new Set(events.map(event => event.eigenPod.toLowerCase()));
+  }
+
+  // A validator points at its pod through 0x01/0x02 withdrawal credentials
+  private async getWithdrawalAddressesByPubkeys(pubkeys: string[]): Promise<string[]> {
+    if (pubkeys.length === 0) {
+      return [];
+    }
+
+    // Pubkeys are stored lowercase, comparing the column as is keeps its index usable
+    const deposits = await this.stakedEthRepository
+      .createQueryBuilder('event')
+      .select('DISTINCT event.withdrawalCredentials', 'withdrawalCredentials')
+      .where('event.pubkey IN (:...pubkeys)', { pubkeys: pubkeys.map(pubkey => pubkey.toLowerCase()) })
+      .getRawMany();
+
+    const addresses = deposits
+      .map(deposit => getWithdrawalAddress(deposit.withdrawalCredentials))
+      .filter((address): address is string => !!address);
+    return Array.from(new Set(addresses));
+  }
+
+  private onlyOwnerFilter(filter: EigenPodFilter): boolean {
+    return Object.entries(filter).every(([key, value]) => key === 'ownerAddress' || value === undefined || value === null);
+  }
+
+  private async getPodFromContract(ownerAddress: string): Promise<string | null> {
+    try {
+      const eigenPodAddress = await this.contract.getPod(ownerAddress);
+
+      // Check if the returned address is not zero address
+      if (eigenPodAddress && eigenPodAddress !== ethers.ZeroAddress) {
+        return eigenPodAddress.toLowerCase();
+      }
+    } catch (contractError) {
+      console.warn('Error querying contract:', contractError);
+    }
+    return null;
+  }
+
+  private async getPodDeployedEventsByAddresses(addresses: string[]): Promise<PodDeployedEvent[]> {
+    const unique = Array.from(new Set(addresses.map(address => address.toLowerCase())));
+    if (unique.length === 0) {
+      return [];
+    }
+
+    return this.podDeployedRepository
+      .createQueryBuilder('event')
+      .where('event.eigenPod IN (:...addresses)', { addresses: unique })
+      .orderBy('event.blockNumber', 'DESC')
+      .addOrderBy('event.logIndex', 'DESC')
+      .getMany();
+  }
+
   async getEigenPodsByBlockRange(startBlock: number, endBlock: number): Promise<EigenPodResponse[]> {
     try {
       const events = await this.podDeployedRepository
@@ -201,6 +448,7 @@ export class EigenPodService {
         eigenPod: event.eigenPod,
         podOwner: event.podOwner,
         blockNumber: event.blockNumber,
+        blockTimestamp: event.blockTimestamp,
         transactionHash: event.transactionHash,
         logIndex: event.logIndex,
         createdAt: event.createdAt,
@@ -215,13 +463,18 @@ export class EigenPodService {
     }
   }
 
-  async getDatabaseStatus(): Promise<any> {
+  async getDatabaseStatus(): Promise<EigenPodIndexerStatus> {
     try {
-      // This would need to be implemented based on your business logic
-      // For now, returning a simple status
+      // Progress comes from the indexer cursor so quiet periods are still reported
+      const state = await this.indexerStateRepository.findOne({
+        where: { indexerName: 'eigenpod' },
+      });
+      const totalEvents = await this.podDeployedRepository.count();
+
       return {
-        status: 'connected',
-        timestamp: new Date().toISOString()
+        totalEvents,
+        lastIndexedBlock: state?.lastScannedBlock ?? 0,
+        isConnected: this.podDeployedRepository.manager.connection.isInitialized
       };
     } catch (error) {
       console.error('Error in getDatabaseStatus:', error);
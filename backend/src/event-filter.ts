@@ -0,0 +1,76 @@
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+/**
+ * AND-combines optional conditions on an event query. Unset values add no condition,
+ * so a filter input can be applied field by field instead of branching on which one is set.
+ */
+export class EventFilterBuilder<T extends ObjectLiteral> {
+  private parameterIndex = 0;
+
+  constructor(
+    private readonly query: SelectQueryBuilder<T>,
+    private readonly alias: string,
+  ) {}
+
+  /**
+   * Matches a single value. With `lowercase`, the value is lowercased to match addresses and hex stored lowercase.
+   */
+  equals(property: string, value?: string | number | null, lowercase: boolean = false): this {
+    if (value === undefined || value === null || value === '') {
+      return this;
+    }
+
+    const parameter = this.nextParameter(property);
+    const normalized = lowercase ? String(value).toLowerCase() : value;
+    this.query.andWhere(`${this.alias}.${property} = :${parameter}`, { [parameter]: normalized });
+    return this;
+  }
+
+  /**
+   * Matches any of the given values. An empty list matches nothing.
+   */
+  in(property: string, values?: (string | number)[] | null, lowercase: boolean = false): this {
+    if (!values) {
+      return this;
+    }
+    if (values.length === 0) {
+      return this.none();
+    }
+
+    const parameter = this.nextParameter(property);
+    const normalized = lowercase ? values.map(value => String(value).toLowerCase()) : values;
+    this.query.andWhere(`${this.alias}.${property} IN (:...${parameter})`, { [parameter]: normalized });
+    return this;
+  }
+
+  /**
+   * Inclusive bounds, either of which may be omitted
+   */
+  range(property: string, min?: number | null, max?: number | null): this {
+    if (min !== undefined && min !== null) {
+      const parameter = this.nextParameter(property);
+      this.query.andWhere(`${this.alias}.${property} >= :${parameter}`, { [parameter]: min });
+    }
+    if (max !== undefined && max !== null) {
+      const parameter = this.nextParameter(property);
+      this.query.andWhere(`${this.alias}.${property} <= :${parameter}`, { [parameter]: max });
+    }
+    return this;
+  }
+
+  // Used when a filter resolves to an empty set before reaching SQL
+  none(): this {
+    this.query.andWhere('1 = 0');
+    return this;
+  }
+
+  build(): SelectQueryBuilder<T> {
+    return this.query;
+  }
+
+  // Parameters are numbered so the same property can appear in several conditions
+  private nextParameter(property: string): string {
+    this.parameterIndex += 1;
+    return `${property}Filter${this.parameterIndex}`;
+  }
+}
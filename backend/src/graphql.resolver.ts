@@ -1,115 +1,159 @@
-import { Resolver, Query, Args, Int } from '@nestjs/graphql';
+import { Resolver, Query, Subscription, Args, Int } from '@nestjs/graphql';
+import {
+  StakedEthEvent as StakedEthEventEntity,
+  PodDeployedEvent,
+  IndexerState,
+  NOTIFICATION_CHANNELS,
+  getWithdrawalAddress,
+} from '@eigen-layer-dashboard/lib';
 import { EigenPodService } from './eigenpod.service';
 import { StakedEthService } from './staked-eth.service';
+import { ValidatorService } from './validator.service';
 import { MaterializedViewService } from './materialized-view.service';
+import { DelegationService } from './delegation.service';
+import { DepositService } from './deposit.service';
+import { WithdrawalService } from './withdrawal.service';
+import { AllocationService } from './allocation.service';
+import { EigenPodLifecycleService } from './eigenpod-lifecycle.service';
+import { IndexerStatusService } from './indexer-status.service';
+import { LiveEventsService } from './live/live-events.service';
 import {
   HealthStatus,
-  EigenPodResponse,
+  IndexerSourceStatus,
+  IndexerProgress,
   EigenPod,
+  EigenPodResponse,
   EigenPodStatus,
-  EigenPodWhereInput,
+  EigenPodDetail,
+  EigenPodFilter,
+  EigenPodOrderBy,
+  OrderDirection,
+  EigenPodValidator,
+  EigenPodCheckpoint,
+  EigenPodBalancePoint,
   StakedEthConnection,
   StakedEthEvent,
   StakedEthStats,
   StakedEthByBlock,
-  StakedEthWhereInput,
-  StakedEthAnalyticsInput
+  StakedEthByDay,
+  StakedEthByWithdrawalCredentials,
+  StakedEthFilter,
+  StakedEthOrderBy,
+  StakedEthAnalyticsInput,
+  ValidatorResponse,
+  ValidatorWhereInput,
+  ValidatorOrderBy,
+  WithdrawalCredentialGroupResponse,
+  WithdrawalCredentialGroupWhereInput,
+  WithdrawalCredentialGroupOrderBy,
+  OperatorResponse,
+  OperatorWhereInput,
+  DelegationResponse,
+  DelegationWhereInput,
+  OperatorShareEventResponse,
+  OperatorShareEventWhereInput,
+  DepositResponse,
+  DepositWhereInput,
+  WithdrawalResponse,
+  WithdrawalWhereInput,
+  OperatorSetResponse,
+  OperatorSetWhereInput,
+  AllocationResponse,
+  AllocationWhereInput,
+  MagnitudeUpdateResponse,
+  MagnitudeUpdateWhereInput,
+  OperatorSlashingResponse
 } from './graphql.types';
+import { toPageArgs } from './pagination';
 
 @Resolver()
 export class GraphQLResolver {
   constructor(
     private readonly eigenPodService: EigenPodService,
     private readonly stakedEthService: StakedEthService,
+    private readonly validatorService: ValidatorService,
     private readonly materializedViewService: MaterializedViewService,
+    private readonly delegationService: DelegationService,
+    private readonly depositService: DepositService,
+    private readonly withdrawalService: WithdrawalService,
+    private readonly allocationService: AllocationService,
+    private readonly eigenPodLifecycleService: EigenPodLifecycleService,
+    private readonly indexerStatusService: IndexerStatusService,
+    private readonly liveEventsService: LiveEventsService,
   ) {}
 
-  // Health check
+  // Health check, degraded while an indexer lags behind the chain head
   @Query(() => HealthStatus)
   async health(): Promise<HealthStatus> {
+    const { status, reason } = await this.indexerStatusService.getHealth();
     return {
-      status: 'ok',
+      status,
+      reason,
       timestamp: new Date().toISOString(),
       service: 'eigen-layer-graphql'
     };
   }
 
-  // Unified EigenPod query
+  @Query(() => [IndexerSourceStatus])
+  async indexerStatus(): Promise<IndexerSourceStatus[]> {
+    return await this.indexerStatusService.getIndexerStatus();
+  }
+
+  // Unified EigenPod query, paged by cursor (after/before) or offset (skip)
   @Query(() => EigenPodResponse)
   async eigenPods(
     @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
     @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
-    @Args('where', { type: () => EigenPodWhereInput, nullable: true }) where?: EigenPodWhereInput,
+    @Args('where', { type: () => EigenPodFilter, nullable: true }) where?: EigenPodFilter,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('last', { type: () => Int, nullable: true }) last?: number,
+    @Args('before', { nullable: true }) before?: string,
+    @Args('orderBy', { type: () => EigenPodOrderBy, defaultValue: EigenPodOrderBy.BLOCK_NUMBER }) orderBy?: EigenPodOrderBy,
+    @Args('orderDirection', { type: () => OrderDirection, defaultValue: OrderDirection.DESC }) orderDirection?: OrderDirection,
   ): Promise<EigenPodResponse> {
-    // Handle different filtering scenarios based on where clause
-    if (where?.ownerAddress) {
-      const result = await this.eigenPodService.getEigenPodsByOwner(where.ownerAddress);
-      const pods = result.map((item, index) => ({
-        id: index + 1,
-        eigenPod: item.eigenPod,
-        podOwner: item.podOwner,
-        blockNumber: item.blockNumber,
-        transactionHash: item.transactionHash,
-        logIndex: item.logIndex,
-        createdAt: item.createdAt?.toISOString() || new Date().toISOString()
-      }));
-      return { pods, total: pods.length };
-    }
-    
-    if (where?.eigenPodAddress) {
-      const result = await this.eigenPodService.getEigenPodByAddress(where.eigenPodAddress);
-      const pods = result ? [{
-        id: 1,
-        eigenPod: result.eigenPod,
-        podOwner: result.podOwner,
-        blockNumber: result.blockNumber,
-        transactionHash: result.transactionHash,
-        logIndex: result.logIndex,
-        createdAt: result.createdAt?.toISOString() || new Date().toISOString()
-      }] : [];
-      return { pods, total: pods.length };
-    }
-    
-    if (where?.validatorPublicKey) {
-      const result = await this.eigenPodService.getEigenPodByValidatorPublicKey(where.validatorPublicKey);
-      const pods = result.map((item, index) => ({
-        id: index + 1,
-        eigenPod: item.eigenPod,
-        podOwner: item.podOwner,
-        blockNumber: item.blockNumber,
-        transactionHash: item.transactionHash,
-        logIndex: item.logIndex,
-        createdAt: item.createdAt?.toISOString() || new Date().toISOString()
-      }));
-      return { pods, total: pods.length };
-    }
-    
-    if (where?.startBlock && where?.endBlock) {
-      const result = await this.eigenPodService.getEigenPodsByBlockRange(where.startBlock, where.endBlock);
-      const pods = result.map((item, index) => ({
-        id: index + 1, // Use index as id since EigenPodResponse doesn't have id
-        eigenPod: item.eigenPod,
-        podOwner: item.podOwner,
-        blockNumber: item.blockNumber,
-        transactionHash: item.transactionHash,
-        logIndex: item.logIndex,
-        createdAt: item.createdAt?.toISOString() || new Date().toISOString()
-      }));
-      return { pods, total: pods.length };
-    }
-    
-    // Default: get all EigenPods with pagination
-    const result = await this.eigenPodService.getAllEigenPods(limit, skip);
-    const pods = result.map((item, index) => ({
-      id: index + 1,
-      eigenPod: item.eigenPod,
-      podOwner: item.podOwner,
-      blockNumber: item.blockNumber,
-      transactionHash: item.transactionHash,
-      logIndex: item.logIndex,
-      createdAt: item.createdAt?.toISOString() || new Date().toISOString()
+    const connection = await this.eigenPodService.getEigenPodConnection(
+      where ?? {},
+      toPageArgs(limit, { first, after, last, before, skip }),
+      {
+        property: orderBy === EigenPodOrderBy.BLOCK_NUMBER ? undefined : orderBy,
+        direction: orderDirection,
+      }
+    );
+
+    const edges = connection.edges.map(edge => ({
+      cursor: edge.cursor,
+      node: {
+        ...edge.node,
+        createdAt: edge.node.createdAt?.toISOString() || new Date().toISOString()
+      }
     }));
-    return { pods, total: pods.length };
+    return {
+      pods: edges.map(edge => edge.node),
+      total: connection.totalCount,
+      edges,
+      pageInfo: connection.pageInfo,
+      totalCount: connection.totalCount
+    };
+  }
+
+  // Single pod with its deposits and checkpoints, null if the pod is not indexed
+  @Query(() => EigenPodDetail, { nullable: true })
+  async eigenPod(
+    @Args('address') address: string,
+  ): Promise<EigenPodDetail | null> {
+    const detail = await this.eigenPodService.getEigenPodDetail(address);
+    if (!detail) {
+      return null;
+    }
+
+    const checkpoints = await this.eigenPodLifecycleService.getCheckpoints(detail.eigenPod);
+    return {
+      ...detail,
+      createdAt: detail.createdAt?.toISOString() || new Date().toISOString(),
+      validatorCount: detail.validators.length,
+      checkpoints
+    };
   }
 
   @Query(() => EigenPodStatus)
@@ -117,130 +161,352 @@ export class GraphQLResolver {
     return await this.eigenPodService.getDatabaseStatus();
   }
 
-  // Unified Staked ETH query
+  // Validators restaked in a pod with their latest proven balance
+  @Query(() => [EigenPodValidator])
+  async eigenPodValidators(
+    @Args('eigenPod') eigenPod: string,
+  ): Promise<EigenPodValidator[]> {
+    return await this.eigenPodLifecycleService.getValidators(eigenPod);
+  }
+
+  @Query(() => [EigenPodCheckpoint])
+  async eigenPodCheckpoints(
+    @Args('eigenPod') eigenPod: string,
+  ): Promise<EigenPodCheckpoint[]> {
+    return await this.eigenPodLifecycleService.getCheckpoints(eigenPod);
+  }
+
+  // Total restaked balance of a pod over time
+  @Query(() => [EigenPodBalancePoint])
+  async eigenPodBalanceHistory(
+    @Args('eigenPod') eigenPod: string,
+  ): Promise<EigenPodBalancePoint[]> {
+    return await this.eigenPodLifecycleService.getBalanceHistory(eigenPod);
+  }
+
+  // Unified Staked ETH query, paged by cursor (after/before) or offset (skip)
   @Query(() => StakedEthConnection)
   async stakedEth(
     @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
     @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
-    @Args('where', { type: () => StakedEthWhereInput, nullable: true }) where?: StakedEthWhereInput,
+    @Args('where', { type: () => StakedEthFilter, nullable: true }) where?: StakedEthFilter,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('last', { type: () => Int, nullable: true }) last?: number,
+    @Args('before', { nullable: true }) before?: string,
+    @Args('orderBy', { type: () => StakedEthOrderBy, defaultValue: StakedEthOrderBy.BLOCK_NUMBER }) orderBy?: StakedEthOrderBy,
+    @Args('orderDirection', { type: () => OrderDirection, defaultValue: OrderDirection.DESC }) orderDirection?: OrderDirection,
   ): Promise<StakedEthConnection> {
-    // Handle different filtering scenarios based on where clause
-    if (where?.pubkey) {
-      const events = await this.stakedEthService.getStakedEthEventsByPubkey(where.pubkey);
-      const formattedEvents = events.map(event => ({
-        ...event,
-        createdAt: event.createdAt?.toISOString() || new Date().toISOString()
-      }));
-      return { events: formattedEvents, total: formattedEvents.length };
-    }
-    
-    if (where?.withdrawalCredentials) {
-      const events = await this.stakedEthService.getStakedEthEventsByWithdrawalCredentials(where.withdrawalCredentials);
-      const formattedEvents = events.map(event => ({
-        ...event,
-        createdAt: event.createdAt?.toISOString() || new Date().toISOString()
-      }));
-      return { events: formattedEvents, total: formattedEvents.length };
-    }
-    
-    if (where?.blockNumber) {
-      const events = await this.stakedEthService.getStakedEthEventsByBlock(where.blockNumber);
-      const formattedEvents = events.map(event => ({
-        ...event,
-        createdAt: event.createdAt?.toISOString() || new Date().toISOString()
-      }));
-      return { events: formattedEvents, total: formattedEvents.length };
-    }
-    
-    if (where?.startBlock && where?.endBlock) {
-      const events = await this.stakedEthService.getStakedEthEventsByBlockRange(where.startBlock, where.endBlock);
-      const formattedEvents = events.map(event => ({
-        ...event,
-        createdAt: event.createdAt?.toISOString() || new Date().toISOString()
-      }));
-      return { events: formattedEvents, total: formattedEvents.length };
-    }
-    
-    // Default: get all staked ETH events with pagination
-    const events = await this.stakedEthService.getAllStakedEthEvents(skip, limit);
-    const formattedEvents = events.map(event => ({
-      ...event,
-      createdAt: event.createdAt?.toISOString() || new Date().toISOString()
-    }));
-    return { events: formattedEvents, total: formattedEvents.length };
+    const connection = await this.stakedEthService.getStakedEthConnection(
+      where ?? {},
+      toPageArgs(limit, { first, after, last, before, skip }),
+      {
+        property: orderBy === StakedEthOrderBy.BLOCK_NUMBER ? undefined : orderBy,
+        // Amounts are stored as decimal strings
+        numeric: orderBy === StakedEthOrderBy.AMOUNT,
+        direction: orderDirection,
+      }
+    );
+
+    const events = await this.formatStakedEthEvents(connection.edges.map(edge => edge.node));
+    return {
+      events,
+      total: connection.totalCount,
+      edges: events.map((node, index) => ({ cursor: connection.edges[index].cursor, node })),
+      pageInfo: connection.pageInfo,
+      totalCount: connection.totalCount
+    };
+  }
+
+  // Deposits aggregated per validator pubkey, paged by cursor (after/before) or offset (skip)
+  @Query(() => ValidatorResponse)
+  async validators(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => ValidatorWhereInput, nullable: true }) where?: ValidatorWhereInput,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('last', { type: () => Int, nullable: true }) last?: number,
+    @Args('before', { nullable: true }) before?: string,
+    @Args('orderBy', { type: () => ValidatorOrderBy, defaultValue: ValidatorOrderBy.LAST_DEPOSIT }) orderBy?: ValidatorOrderBy,
+    @Args('orderDirection', { type: () => OrderDirection, defaultValue: OrderDirection.DESC }) orderDirection?: OrderDirection,
+  ): Promise<ValidatorResponse> {
+    const connection = await this.validatorService.getValidatorConnection(
+      where ?? {},
+      toPageArgs(limit, { first, after, last, before, skip }),
+      orderBy,
+      orderDirection
+    );
+    return { validators: connection.edges.map(edge => edge.node), total: connection.totalCount, ...connection };
+  }
+
+  // Validators and deposits per withdrawal credentials, flagging those that point at an EigenPod
+  @Query(() => WithdrawalCredentialGroupResponse)
+  async withdrawalCredentialGroups(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => WithdrawalCredentialGroupWhereInput, nullable: true }) where?: WithdrawalCredentialGroupWhereInput,
+    @Args('orderBy', { type: () => WithdrawalCredentialGroupOrderBy, defaultValue: WithdrawalCredentialGroupOrderBy.TOTAL_DEPOSITED }) orderBy?: WithdrawalCredentialGroupOrderBy,
+    @Args('orderDirection', { type: () => OrderDirection, defaultValue: OrderDirection.DESC }) orderDirection?: OrderDirection,
+  ): Promise<WithdrawalCredentialGroupResponse> {
+    return await this.validatorService.getWithdrawalCredentialGroups(limit, skip, where ?? {}, orderBy, orderDirection);
   }
 
   @Query(() => StakedEthStats)
   async stakedEthStats(): Promise<StakedEthStats> {
-    const stats = await this.stakedEthService.getStakedEthStats();
-    // Get the last block from the events
-    const events = await this.stakedEthService.getStakedEthEvents(1, 0);
-    const lastBlock = events.length > 0 ? events[0].blockNumber : 0;
-    
+    const stats = await this.materializedViewService.getStakedEthStats();
+
     return {
       totalEvents: stats.totalEvents,
       totalAmount: stats.totalStaked,
-      lastBlock: lastBlock
+      uniqueValidators: stats.uniqueValidators,
+      averageStake: stats.averageStake,
+      lastBlock: stats.lastBlock
     };
   }
 
-  // Staking analytics - now using materialized view for better performance
+  // Staking analytics - served from the materialized views when available
   @Query(() => [StakedEthByBlock])
   async stakedEthAnalytics(
     @Args('input', { type: () => StakedEthAnalyticsInput }) input: StakedEthAnalyticsInput,
   ): Promise<StakedEthByBlock[]> {
+    // Calendar time buckets are always computed from the events table
+    if (input.granularity) {
+      const buckets = await this.stakedEthService.getStakedEthByTimeBucket(input.granularity, input.from, input.to);
+      return buckets.map(bucket => ({
+        blockNumber: bucket.lastBlock,
+        blockTimestamp: bucket.bucketStart,
+        totalDeposited: bucket.totalDeposited,
+        eventCount: bucket.eventCount,
+        uniqueValidators: bucket.uniqueValidators,
+        bucketStart: bucket.bucketStart,
+        firstBlock: bucket.firstBlock,
+        cumulativeDeposited: bucket.cumulativeDeposited,
+        cumulativeEventCount: bucket.cumulativeEventCount
+      }));
+    }
+
     try {
-      // Single block analytics - use materialized view
+      // Single block analytics
       if (input.blockNumber) {
-        const result = await this.stakedEthService.getStakedEthEventsByBlock(input.blockNumber);
-        // Convert to StakedEthByBlock format
-        const blockData = {
-          blockNumber: input.blockNumber,
-          blockTimestamp: result[0]?.blockTimestamp || 0,
-          totalDeposited: result.reduce((sum, event) => (BigInt(sum) + BigInt(event.amount)).toString(), '0'),
-          eventCount: result.length
-        };
-        return [blockData];
+        const block = await this.materializedViewService.getStakedEthAnalyticsByBlock(input.blockNumber);
+        return [block ?? this.emptyBlock(input.blockNumber)];
       }
-      
-      // Block range analytics - use materialized view
+
+      // Block range analytics
       if (input.startBlock && input.endBlock) {
-        const results = await this.stakedEthService.getStakedEthSummaryByBlockRange(
-          input.startBlock, 
-          input.endBlock
-        );
-        return results;
+        return await this.materializedViewService.getStakedEthAnalyticsByBlockRange(input.startBlock, input.endBlock);
       }
-      
+
       // Default: return empty array if no valid input
       return [];
     } catch (error) {
       console.error('Error in stakedEthAnalytics:', error);
-      // Fallback to original service if materialized view fails
+      // Fallback to the events table if the materialized view fails
       if (input.blockNumber) {
-        const events = await this.stakedEthService.getStakedEthEventsByBlock(input.blockNumber);
-        const blockData = {
-          blockNumber: input.blockNumber,
-          blockTimestamp: events[0]?.blockTimestamp || 0,
-          totalDeposited: events.reduce((sum, event) => (BigInt(sum) + BigInt(event.amount)).toString(), '0'),
-          eventCount: events.length
-        };
-        return [blockData];
+        const [block] = await this.stakedEthService.getStakedEthSummaryByBlockRange(input.blockNumber, input.blockNumber);
+        return [block ?? this.emptyBlock(input.blockNumber)];
       }
-      
+
       if (input.startBlock && input.endBlock) {
-        if (input.summary) {
-          return await this.stakedEthService.getStakedEthSummaryByBlockRange(input.startBlock, input.endBlock);
-        } else {
-          return await this.stakedEthService.getStakedEthByBlockRange(
-            input.startBlock, 
-            input.endBlock
-          );
-        }
+        return await this.stakedEthService.getStakedEthByBlockRange(input.startBlock, input.endBlock);
       }
-      
+
       return [];
     }
   }
 
+  // Deposits per UTC day, dates as YYYY-MM-DD
+  @Query(() => [StakedEthByDay])
+  async stakedEthDaily(
+    @Args('fromDate', { nullable: true }) fromDate?: string,
+    @Args('toDate', { nullable: true }) toDate?: string,
+  ): Promise<StakedEthByDay[]> {
+    return await this.materializedViewService.getStakedEthAnalyticsByDay(fromDate, toDate);
+  }
+
+  // Deposits per withdrawal credential, largest first
+  @Query(() => [StakedEthByWithdrawalCredentials])
+  async stakedEthByWithdrawalCredentials(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+  ): Promise<StakedEthByWithdrawalCredentials[]> {
+    return await this.materializedViewService.getStakedEthAnalyticsByWithdrawalCredentials(limit, skip);
+  }
+
+  // Operators registered with the DelegationManager, paged by cursor (after/before) or offset (skip)
+  @Query(() => OperatorResponse)
+  async operators(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => OperatorWhereInput, nullable: true }) where?: OperatorWhereInput,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('last', { type: () => Int, nullable: true }) last?: number,
+    @Args('before', { nullable: true }) before?: string,
+  ): Promise<OperatorResponse> {
+    const connection = await this.delegationService.getOperatorConnection(
+      toPageArgs(limit, { first, after, last, before, skip }),
+      where?.operator
+    );
+    return { operators: connection.edges.map(edge => edge.node), total: connection.totalCount, ...connection };
+  }
+
+  // Current staker to operator delegations
+  @Query(() => DelegationResponse)
+  async delegations(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => DelegationWhereInput, nullable: true }) where?: DelegationWhereInput,
+  ): Promise<DelegationResponse> {
+    return await this.delegationService.getDelegations(limit, skip, where?.operator, where?.staker);
+  }
+
+  // Operator share increases and decreases
+  @Query(() => OperatorShareEventResponse)
+  async operatorShareEvents(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => OperatorShareEventWhereInput, nullable: true }) where?: OperatorShareEventWhereInput,
+  ): Promise<OperatorShareEventResponse> {
+    return await this.delegationService.getOperatorShareEvents(limit, skip, where ?? {});
+  }
+
+  // StrategyManager deposits, paged by cursor (after/before) or offset (skip)
+  @Query(() => DepositResponse)
+  async deposits(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => DepositWhereInput, nullable: true }) where?: DepositWhereInput,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('last', { type: () => Int, nullable: true }) last?: number,
+    @Args('before', { nullable: true }) before?: string,
+  ): Promise<DepositResponse> {
+    const connection = await this.depositService.getDepositConnection(
+      where ?? {},
+      toPageArgs(limit, { first, after, last, before, skip })
+    );
+    return { deposits: connection.edges.map(edge => edge.node), total: connection.totalCount, ...connection };
+  }
+
+  // Queued withdrawals with their completion status, paged by cursor (after/before) or offset (skip)
+  @Query(() => WithdrawalResponse)
+  async withdrawals(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => WithdrawalWhereInput, nullable: true }) where?: WithdrawalWhereInput,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('last', { type: () => Int, nullable: true }) last?: number,
+    @Args('before', { nullable: true }) before?: string,
+  ): Promise<WithdrawalResponse> {
+    const connection = await this.withdrawalService.getWithdrawalConnection(
+      where ?? {},
+      toPageArgs(limit, { first, after, last, before, skip })
+    );
+    return { withdrawals: connection.edges.map(edge => edge.node), total: connection.totalCount, ...connection };
+  }
+
+  // AllocationManager operator sets with their current operators and strategies, paged by cursor or offset
+  @Query(() => OperatorSetResponse)
+  async operatorSets(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => OperatorSetWhereInput, nullable: true }) where?: OperatorSetWhereInput,
+    @Args('first', { type: () => Int, nullable: true }) first?: number,
+    @Args('after', { nullable: true }) after?: string,
+    @Args('last', { type: () => Int, nullable: true }) last?: number,
+    @Args('before', { nullable: true }) before?: string,
+  ): Promise<OperatorSetResponse> {
+    const connection = await this.allocationService.getOperatorSetConnection(
+      where ?? {},
+      toPageArgs(limit, { first, after, last, before, skip })
+    );
+    return { operatorSets: connection.edges.map(edge => edge.node), total: connection.totalCount, ...connection };
+  }
+
+  @Query(() => AllocationResponse)
+  async allocations(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => AllocationWhereInput, nullable: true }) where?: AllocationWhereInput,
+  ): Promise<AllocationResponse> {
+    return await this.allocationService.getAllocations(limit, skip, where ?? {});
+  }
+
+  @Query(() => MagnitudeUpdateResponse)
+  async magnitudeUpdates(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => MagnitudeUpdateWhereInput, nullable: true }) where?: MagnitudeUpdateWhereInput,
+  ): Promise<MagnitudeUpdateResponse> {
+    return await this.allocationService.getMagnitudeUpdates(limit, skip, where ?? {});
+  }
+
+  // Operator slashings with the slashed proportion per strategy
+  @Query(() => OperatorSlashingResponse)
+  async slashings(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => AllocationWhereInput, nullable: true }) where?: AllocationWhereInput,
+  ): Promise<OperatorSlashingResponse> {
+    return await this.allocationService.getSlashings(limit, skip, where ?? {});
+  }
+
+  // Live events, published by the indexer through Postgres LISTEN/NOTIFY (graphql-ws on /graphql)
+  @Subscription(() => EigenPod, {
+    resolve: (event: PodDeployedEvent): EigenPod => ({
+      ...event,
+      createdAt: event.createdAt ? new Date(event.createdAt).toISOString() : new Date().toISOString()
+    }),
+  })
+  podDeployed(): AsyncIterableIterator<PodDeployedEvent> {
+    return this.liveEventsService.subscribe(NOTIFICATION_CHANNELS.podDeployed);
+  }
+
+  @Subscription(() => StakedEthEvent, {
+    async resolve(this: GraphQLResolver, event: StakedEthEventEntity): Promise<StakedEthEvent> {
+      const [formatted] = await this.formatStakedEthEvents([event]);
+      return formatted;
+    },
+  })
+  stakedEthDeposited(): AsyncIterableIterator<StakedEthEventEntity> {
+    return this.liveEventsService.subscribe(NOTIFICATION_CHANNELS.stakedEthDeposited);
+  }
+
+  @Subscription(() => IndexerProgress, {
+    resolve: (state: IndexerState): IndexerProgress => ({
+      ...state,
+      lastScannedHash: state.lastScannedHash ?? undefined,
+      error: state.error ?? undefined,
+      updatedAt: new Date(state.updatedAt).toISOString(),
+    }),
+  })
+  indexerProgress(): AsyncIterableIterator<IndexerState> {
+    return this.liveEventsService.subscribe(NOTIFICATION_CHANNELS.indexerProgress);
+  }
+
+  private emptyBlock(blockNumber: number): StakedEthByBlock {
+    return { blockNumber, blockTimestamp: 0, totalDeposited: '0', eventCount: 0, uniqueValidators: 0 };
+  }
+
+  /**
+   * Formats dates and resolves the EigenPod each deposit's withdrawal credentials point at
+   */
+  private async formatStakedEthEvents(events: StakedEthEventEntity[]): Promise<StakedEthEvent[]> {
+    const withdrawalAddresses = events.map(event => getWithdrawalAddress(event.withdrawalCredentials));
+    const eigenPods = await this.eigenPodService.findEigenPodAddresses(
+      withdrawalAddresses.filter((address): address is string => !!address)
+    );
+
+    return events.map((event, index) => {
+      const withdrawalAddress = withdrawalAddresses[index];
+      return {
+        ...event,
+        eigenPod: withdrawalAddress && eigenPods.has(withdrawalAddress) ? withdrawalAddress : undefined,
+        createdAt: event.createdAt?.toISOString() || new Date().toISOString()
+      };
+    });
+  }
 }
@@ -1,4 +1,79 @@
-import { ObjectType, Field, Int, InputType } from '@nestjs/graphql';
+import { ObjectType, Field, Int, Float, InputType, registerEnumType } from '@nestjs/graphql';
+
+export enum AnalyticsGranularity {
+  HOUR = 'hour',
+  DAY = 'day',
+  WEEK = 'week',
+  MONTH = 'month',
+}
+
+registerEnumType(AnalyticsGranularity, { name: 'AnalyticsGranularity' });
+
+export enum OrderDirection {
+  ASC = 'ASC',
+  DESC = 'DESC',
+}
+
+registerEnumType(OrderDirection, { name: 'OrderDirection' });
+
+// Values are entity properties; ties are always broken by block number and log index
+export enum EigenPodOrderBy {
+  BLOCK_NUMBER = 'blockNumber',
+  POD_OWNER = 'podOwner',
+  EIGEN_POD = 'eigenPod',
+}
+
+registerEnumType(EigenPodOrderBy, { name: 'EigenPodOrderBy' });
+
+export enum StakedEthOrderBy {
+  BLOCK_NUMBER = 'blockNumber',
+  AMOUNT = 'amount',
+  PUBKEY = 'pubkey',
+}
+
+registerEnumType(StakedEthOrderBy, { name: 'StakedEthOrderBy' });
+
+export enum ValidatorOrderBy {
+  TOTAL_DEPOSITED = 'totalDeposited',
+  DEPOSIT_COUNT = 'depositCount',
+  FIRST_DEPOSIT = 'firstDeposit',
+  LAST_DEPOSIT = 'lastDeposit',
+}
+
+registerEnumType(ValidatorOrderBy, { name: 'ValidatorOrderBy' });
+
+export enum WithdrawalCredentialGroupOrderBy {
+  TOTAL_DEPOSITED = 'totalDeposited',
+  VALIDATOR_COUNT = 'validatorCount',
+  FIRST_ACTIVITY = 'firstActivity',
+  LAST_ACTIVITY = 'lastActivity',
+}
+
+registerEnumType(WithdrawalCredentialGroupOrderBy, { name: 'WithdrawalCredentialGroupOrderBy' });
+
+@ObjectType({ description: 'Name of a known address from the local label registry' })
+export class AddressLabel {
+  @Field()
+  address: string;
+
+  @Field()
+  name: string;
+
+  @Field({ description: 'lrt, exchange, solo, operator, avs or other' })
+  category: string;
+
+  @Field(() => [String])
+  tags: string[];
+}
+
+@ObjectType()
+export class AddressLabelResponse {
+  @Field(() => [AddressLabel])
+  labels: AddressLabel[];
+
+  @Field(() => Int)
+  total: number;
+}
 
 @ObjectType()
 export class HealthStatus {
@@ -10,6 +85,69 @@ export class HealthStatus {
 
   @Field()
   service: string;
+
+  @Field({ nullable: true, description: 'Why the status is degraded' })
+  reason?: string;
+}
+
+@ObjectType({ description: 'Progress of one indexer source against the chain head' })
+export class IndexerSourceStatus {
+  @Field()
+  indexerName: string;
+
+  @Field({ description: 'idle, running or error' })
+  status: string;
+
+  @Field(() => Int)
+  lastIndexedBlock: number;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp of the last indexed block' })
+  lastIndexedTimestamp?: number;
+
+  @Field(() => Int, { nullable: true, description: 'Latest block of the RPC endpoint, null when it is unreachable' })
+  chainHead?: number;
+
+  @Field(() => Int, { nullable: true })
+  lagBlocks?: number;
+
+  @Field(() => Int, { nullable: true })
+  lagSeconds?: number;
+
+  @Field({ description: 'Whether lagSeconds exceeds INDEXER_MAX_LAG_SECONDS' })
+  isLagging: boolean;
+
+  @Field(() => Float, { description: 'Events per minute over the last hour of indexed blocks' })
+  eventsPerMinute: number;
+
+  @Field({ nullable: true, description: 'Start of the latest scheduled run' })
+  lastRunAt?: string;
+
+  @Field()
+  updatedAt: string;
+
+  @Field({ nullable: true, description: 'Message of the last failed run' })
+  error?: string;
+}
+
+@ObjectType({ description: 'Cursor and status of one indexer, from the indexer_state table' })
+export class IndexerProgress {
+  @Field()
+  indexerName: string;
+
+  @Field(() => Int)
+  lastScannedBlock: number;
+
+  @Field({ nullable: true })
+  lastScannedHash?: string;
+
+  @Field({ description: 'idle, running or error' })
+  status: string;
+
+  @Field({ nullable: true })
+  error?: string;
+
+  @Field()
+  updatedAt: string;
 }
 
 @ObjectType()
@@ -26,6 +164,9 @@ export class EigenPod {
   @Field(() => Int)
   blockNumber: number;
 
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp of the deployment block, null until backfilled for older pods' })
+  blockTimestamp?: number | null;
+
   @Field()
   transactionHash: string;
 
@@ -36,6 +177,30 @@ export class EigenPod {
   createdAt: string;
 }
 
+@ObjectType()
+export class PageInfo {
+  @Field()
+  hasNextPage: boolean;
+
+  @Field()
+  hasPreviousPage: boolean;
+
+  @Field({ nullable: true })
+  startCursor?: string;
+
+  @Field({ nullable: true })
+  endCursor?: string;
+}
+
+@ObjectType()
+export class EigenPodEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => EigenPod)
+  node: EigenPod;
+}
+
 @ObjectType()
 export class EigenPodResponse {
   @Field(() => [EigenPod])
@@ -43,6 +208,15 @@ export class EigenPodResponse {
 
   @Field(() => Int)
   total: number;
+
+  @Field(() => [EigenPodEdge])
+  edges: EigenPodEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
 }
 
 @ObjectType()
@@ -57,6 +231,120 @@ export class EigenPodStatus {
   isConnected: boolean;
 }
 
+@ObjectType()
+export class EigenPodValidator {
+  @Field(() => Int)
+  validatorIndex: number;
+
+  @Field(() => Int)
+  restakedBlockNumber: number;
+
+  @Field()
+  balanceGwei: string;
+
+  @Field(() => Int, { nullable: true })
+  balanceTimestamp?: number;
+
+  @Field()
+  withdrawn: boolean;
+}
+
+@ObjectType()
+export class EigenPodCheckpoint {
+  @Field(() => Int)
+  checkpointTimestamp: number;
+
+  @Field()
+  beaconBlockRoot: string;
+
+  @Field(() => Int)
+  validatorCount: number;
+
+  @Field(() => Int)
+  createdBlockNumber: number;
+
+  @Field()
+  finalized: boolean;
+
+  @Field({ nullable: true })
+  totalShareDeltaWei?: string;
+
+  @Field(() => Int, { nullable: true })
+  finalizedBlockNumber?: number;
+}
+
+@ObjectType()
+export class EigenPodBalancePoint {
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field(() => Int)
+  balanceTimestamp: number;
+
+  @Field()
+  totalBalanceGwei: string;
+}
+
+@ObjectType({ description: 'Validator whose withdrawal credentials point at an EigenPod' })
+export class EigenPodLinkedValidator {
+  @Field()
+  pubkey: string;
+
+  @Field()
+  withdrawalCredentials: string;
+
+  @Field({ description: 'Wei' })
+  totalDeposited: string;
+
+  @Field(() => Int)
+  depositCount: number;
+
+  @Field(() => Int)
+  firstBlock: number;
+
+  @Field(() => Int)
+  lastBlock: number;
+}
+
+@ObjectType()
+export class EigenPodDetail {
+  @Field()
+  eigenPod: string;
+
+  @Field()
+  podOwner: string;
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp of the deployment block, null until backfilled for older pods' })
+  blockTimestamp?: number | null;
+
+  @Field()
+  transactionHash: string;
+
+  @Field(() => Int)
+  logIndex: number;
+
+  @Field()
+  createdAt: string;
+
+  @Field(() => [EigenPodLinkedValidator])
+  validators: EigenPodLinkedValidator[];
+
+  @Field(() => Int)
+  validatorCount: number;
+
+  @Field({ description: 'Wei deposited to the pod withdrawal credentials' })
+  totalDeposited: string;
+
+  @Field(() => Int)
+  depositCount: number;
+
+  @Field(() => [EigenPodCheckpoint], { description: 'Empty until the lifecycle indexer has reached the pod' })
+  checkpoints: EigenPodCheckpoint[];
+}
+
 @ObjectType()
 export class StakedEthEvent {
   @Field(() => Int)
@@ -68,15 +356,27 @@ export class StakedEthEvent {
   @Field({ nullable: true })
   withdrawalCredentials?: string;
 
-  @Field()
+  @Field({ description: 'Deposited wei, decoded from the DepositEvent' })
   amount: string;
 
   @Field()
   signature: string;
 
-  @Field({ nullable: true })
+  @Field({ nullable: true, description: 'Position in the deposit contract tree' })
   depositIndex?: string;
 
+  @Field({ nullable: true, description: 'Value of the enclosing transaction, which may carry several deposits' })
+  txValue?: string;
+
+  @Field({ nullable: true })
+  txFrom?: string;
+
+  @Field({ nullable: true })
+  txTo?: string;
+
+  @Field({ nullable: true, description: 'EigenPod the withdrawal credentials point at, if any' })
+  eigenPod?: string;
+
   @Field(() => Int)
   blockNumber: number;
 
@@ -93,6 +393,15 @@ export class StakedEthEvent {
   createdAt: string;
 }
 
+@ObjectType()
+export class StakedEthEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => StakedEthEvent)
+  node: StakedEthEvent;
+}
+
 @ObjectType()
 export class StakedEthConnection {
   @Field(() => [StakedEthEvent])
@@ -100,82 +409,904 @@ export class StakedEthConnection {
 
   @Field(() => Int)
   total: number;
-}
 
-@ObjectType()
-export class StakedEthStats {
+  @Field(() => [StakedEthEdge])
+  edges: StakedEthEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
   @Field(() => Int)
-  totalEvents: number;
+  totalCount: number;
+}
 
+@ObjectType({ description: 'Beacon chain deposits aggregated per validator pubkey' })
+export class Validator {
   @Field()
-  totalAmount: string;
+  pubkey: string;
+
+  @Field({ description: 'Credentials of the first deposit, the only ones the beacon chain honors' })
+  withdrawalCredentials: string;
+
+  @Field({ description: '0x00 (BLS), 0x01 or 0x02' })
+  credentialType: string;
+
+  @Field({ nullable: true })
+  withdrawalAddress?: string;
+
+  @Field({ nullable: true, description: 'EigenPod the withdrawal credentials point at, if any' })
+  eigenPod?: string;
+
+  @Field({ description: 'Wei' })
+  totalDeposited: string;
 
   @Field(() => Int)
-  lastBlock: number;
-}
+  depositCount: number;
 
-@ObjectType()
-export class StakedEthByBlock {
   @Field(() => Int)
-  blockNumber: number;
+  topUpCount: number;
 
   @Field(() => Int)
-  blockTimestamp: number;
+  firstDepositBlock: number;
 
-  @Field()
-  totalDeposited: string;
+  @Field(() => Int)
+  firstDepositAt: number;
 
   @Field(() => Int)
-  eventCount: number;
+  lastDepositBlock: number;
+
+  @Field(() => Int)
+  lastDepositAt: number;
 }
 
-@InputType()
-export class EigenPodWhereInput {
-  @Field({ nullable: true })
-  ownerAddress?: string;
+@ObjectType()
+export class ValidatorEdge {
+  @Field()
+  cursor: string;
 
-  @Field({ nullable: true })
-  eigenPodAddress?: string;
+  @Field(() => Validator)
+  node: Validator;
+}
 
-  @Field({ nullable: true })
-  validatorPublicKey?: string;
+@ObjectType()
+export class ValidatorResponse {
+  @Field(() => [Validator])
+  validators: Validator[];
 
-  @Field(() => Int, { nullable: true })
-  startBlock?: number;
+  @Field(() => Int)
+  total: number;
 
-  @Field(() => Int, { nullable: true })
-  endBlock?: number;
+  @Field(() => [ValidatorEdge])
+  edges: ValidatorEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
 }
 
-@InputType()
-export class StakedEthWhereInput {
-  @Field({ nullable: true })
-  pubkey?: string;
+@ObjectType({ description: 'Validators and deposits attributed to one set of withdrawal credentials' })
+export class WithdrawalCredentialGroup {
+  @Field()
+  withdrawalCredentials: string;
+
+  @Field({ description: '0x00 (BLS), 0x01 or 0x02' })
+  credentialType: string;
 
   @Field({ nullable: true })
-  withdrawalCredentials?: string;
+  withdrawalAddress?: string;
 
-  @Field(() => Int, { nullable: true })
-  blockNumber?: number;
+  @Field()
+  isEigenPod: boolean;
 
-  @Field(() => Int, { nullable: true })
-  startBlock?: number;
+  @Field({ nullable: true })
+  eigenPod?: string;
 
-  @Field(() => Int, { nullable: true })
-  endBlock?: number;
-}
+  @Field(() => Int)
+  validatorCount: number;
 
-@InputType()
-export class StakedEthAnalyticsInput {
-  @Field(() => Int, { nullable: true })
-  blockNumber?: number;
+  @Field(() => Int)
+  depositCount: number;
 
-  @Field(() => Int, { nullable: true })
-  startBlock?: number;
+  @Field({ description: 'Wei' })
+  totalDeposited: string;
 
-  @Field(() => Int, { nullable: true })
-  endBlock?: number;
+  @Field(() => Int)
+  firstBlock: number;
 
-  @Field({ nullable: true, defaultValue: false })
-  summary?: boolean;
+  @Field(() => Int)
+  firstActivityAt: number;
+
+  @Field(() => Int)
+  lastBlock: number;
+
+  @Field(() => Int)
+  lastActivityAt: number;
+}
+
+@ObjectType()
+export class WithdrawalCredentialGroupResponse {
+  @Field(() => [WithdrawalCredentialGroup])
+  groups: WithdrawalCredentialGroup[];
+
+  @Field(() => Int)
+  total: number;
+}
+
+@ObjectType()
+export class StakedEthStats {
+  @Field(() => Int)
+  totalEvents: number;
+
+  @Field()
+  totalAmount: string;
+
+  @Field(() => Int)
+  uniqueValidators: number;
+
+  @Field()
+  averageStake: string;
+
+  @Field(() => Int)
+  lastBlock: number;
+}
+
+@ObjectType()
+export class StakedEthByBlock {
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field(() => Int)
+  blockTimestamp: number;
+
+  @Field()
+  totalDeposited: string;
+
+  @Field(() => Int)
+  eventCount: number;
+
+  @Field(() => Int)
+  uniqueValidators: number;
+
+  // Only set for time-bucketed analytics, where blockNumber is the last block of the bucket
+  @Field(() => Int, { nullable: true })
+  bucketStart?: number;
+
+  @Field(() => Int, { nullable: true })
+  firstBlock?: number;
+
+  @Field({ nullable: true })
+  cumulativeDeposited?: string;
+
+  @Field(() => Int, { nullable: true })
+  cumulativeEventCount?: number;
+}
+
+@ObjectType()
+export class StakedEthByDay {
+  @Field()
+  day: string;
+
+  @Field()
+  totalDeposited: string;
+
+  @Field(() => Int)
+  eventCount: number;
+
+  @Field(() => Int)
+  uniqueValidators: number;
+
+  @Field(() => Int)
+  firstBlock: number;
+
+  @Field(() => Int)
+  lastBlock: number;
+}
+
+@ObjectType()
+export class StakedEthByWithdrawalCredentials {
+  @Field()
+  withdrawalCredentials: string;
+
+  @Field()
+  totalDeposited: string;
+
+  @Field(() => Int)
+  eventCount: number;
+
+  @Field(() => Int)
+  uniqueValidators: number;
+
+  @Field(() => Int)
+  firstBlock: number;
+
+  @Field(() => Int)
+  lastBlock: number;
+}
+
+@ObjectType()
+export class Operator {
+  @Field()
+  operator: string;
+
+  @Field()
+  delegationApprover: string;
+
+  @Field({ nullable: true })
+  metadataURI?: string;
+
+  @Field(() => Int)
+  stakerCount: number;
+
+  @Field(() => Int)
+  slashingCount: number;
+
+  @Field(() => Int)
+  registeredBlockNumber: number;
+
+  @Field()
+  registeredTransactionHash: string;
+}
+
+@ObjectType()
+export class OperatorEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => Operator)
+  node: Operator;
+}
+
+@ObjectType()
+export class OperatorResponse {
+  @Field(() => [Operator])
+  operators: Operator[];
+
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => [OperatorEdge])
+  edges: OperatorEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
+
+@ObjectType()
+export class Delegation {
+  @Field()
+  staker: string;
+
+  @Field()
+  operator: string;
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field()
+  transactionHash: string;
+
+  @Field(() => Int)
+  logIndex: number;
+}
+
+@ObjectType()
+export class DelegationResponse {
+  @Field(() => [Delegation])
+  delegations: Delegation[];
+
+  @Field(() => Int)
+  total: number;
+}
+
+@ObjectType()
+export class OperatorShareEvent {
+  @Field()
+  operator: string;
+
+  @Field()
+  staker: string;
+
+  @Field()
+  strategy: string;
+
+  @Field()
+  shares: string;
+
+  @Field()
+  direction: string;
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field()
+  transactionHash: string;
+
+  @Field(() => Int)
+  logIndex: number;
+}
+
+@ObjectType()
+export class OperatorShareEventResponse {
+  @Field(() => [OperatorShareEvent])
+  events: OperatorShareEvent[];
+
+  @Field(() => Int)
+  total: number;
+}
+
+@ObjectType()
+export class Deposit {
+  @Field(() => Int)
+  id: number;
+
+  @Field()
+  staker: string;
+
+  @Field()
+  token: string;
+
+  @Field()
+  strategy: string;
+
+  @Field()
+  shares: string;
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field(() => Int)
+  blockTimestamp: number;
+
+  @Field()
+  transactionHash: string;
+
+  @Field(() => Int)
+  logIndex: number;
+}
+
+@ObjectType()
+export class DepositEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => Deposit)
+  node: Deposit;
+}
+
+@ObjectType()
+export class DepositResponse {
+  @Field(() => [Deposit])
+  deposits: Deposit[];
+
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => [DepositEdge])
+  edges: DepositEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
+
+@ObjectType()
+export class Withdrawal {
+  @Field()
+  withdrawalRoot: string;
+
+  @Field()
+  staker: string;
+
+  @Field()
+  operator: string;
+
+  @Field()
+  withdrawer: string;
+
+  @Field()
+  nonce: string;
+
+  @Field(() => Int)
+  startBlock: number;
+
+  @Field(() => [String])
+  strategies: string[];
+
+  @Field(() => [String])
+  scaledShares: string[];
+
+  @Field(() => [String])
+  sharesToWithdraw: string[];
+
+  @Field()
+  totalShares: string;
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field(() => Int)
+  blockTimestamp: number;
+
+  @Field()
+  transactionHash: string;
+
+  @Field()
+  completed: boolean;
+
+  @Field(() => Int, { nullable: true })
+  completedBlockNumber?: number;
+
+  @Field(() => Int, { nullable: true })
+  completedBlockTimestamp?: number;
+
+  @Field({ nullable: true })
+  completedTransactionHash?: string;
+}
+
+@ObjectType()
+export class WithdrawalEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => Withdrawal)
+  node: Withdrawal;
+}
+
+@ObjectType()
+export class WithdrawalResponse {
+  @Field(() => [Withdrawal])
+  withdrawals: Withdrawal[];
+
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => [WithdrawalEdge])
+  edges: WithdrawalEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
+
+@ObjectType()
+export class OperatorSet {
+  @Field()
+  avs: string;
+
+  @Field(() => Int)
+  operatorSetId: number;
+
+  @Field(() => [String])
+  operators: string[];
+
+  @Field(() => [String])
+  strategies: string[];
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field()
+  transactionHash: string;
+}
+
+@ObjectType()
+export class OperatorSetEdge {
+  @Field()
+  cursor: string;
+
+  @Field(() => OperatorSet)
+  node: OperatorSet;
+}
+
+@ObjectType()
+export class OperatorSetResponse {
+  @Field(() => [OperatorSet])
+  operatorSets: OperatorSet[];
+
+  @Field(() => Int)
+  total: number;
+
+  @Field(() => [OperatorSetEdge])
+  edges: OperatorSetEdge[];
+
+  @Field(() => PageInfo)
+  pageInfo: PageInfo;
+
+  @Field(() => Int)
+  totalCount: number;
+}
+
+@ObjectType()
+export class Allocation {
+  @Field()
+  operator: string;
+
+  @Field()
+  avs: string;
+
+  @Field(() => Int)
+  operatorSetId: number;
+
+  @Field()
+  strategy: string;
+
+  @Field()
+  magnitude: string;
+
+  @Field(() => Int)
+  effectBlock: number;
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field()
+  transactionHash: string;
+
+  @Field(() => Int)
+  logIndex: number;
+}
+
+@ObjectType()
+export class AllocationResponse {
+  @Field(() => [Allocation])
+  allocations: Allocation[];
+
+  @Field(() => Int)
+  total: number;
+}
+
+@ObjectType()
+export class MagnitudeUpdate {
+  @Field()
+  operator: string;
+
+  @Field()
+  strategy: string;
+
+  @Field({ description: 'max or encumbered' })
+  magnitudeType: string;
+
+  @Field()
+  magnitude: string;
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field()
+  transactionHash: string;
+
+  @Field(() => Int)
+  logIndex: number;
+}
+
+@ObjectType()
+export class MagnitudeUpdateResponse {
+  @Field(() => [MagnitudeUpdate])
+  updates: MagnitudeUpdate[];
+
+  @Field(() => Int)
+  total: number;
+}
+
+@ObjectType()
+export class SlashedStrategy {
+  @Field()
+  strategy: string;
+
+  @Field({ description: 'Proportion of the allocation slashed, 1e18 = 100%' })
+  wadSlashed: string;
+
+  @Field(() => Float)
+  percentage: number;
+}
+
+@ObjectType()
+export class OperatorSlashing {
+  @Field()
+  operator: string;
+
+  @Field()
+  avs: string;
+
+  @Field(() => Int)
+  operatorSetId: number;
+
+  @Field()
+  description: string;
+
+  @Field(() => [SlashedStrategy])
+  strategies: SlashedStrategy[];
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field()
+  transactionHash: string;
+
+  @Field(() => Int)
+  logIndex: number;
+}
+
+@ObjectType()
+export class OperatorSlashingResponse {
+  @Field(() => [OperatorSlashing])
+  slashings: OperatorSlashing[];
+
+  @Field(() => Int)
+  total: number;
+}
+
+@InputType({ description: 'Every set field narrows the result; *_in lists match any of their values' })
+export class EigenPodFilter {
+  @Field({ nullable: true })
+  ownerAddress?: string;
+
+  @Field(() => [String], { nullable: true })
+  ownerAddress_in?: string[];
+
+  @Field({ nullable: true })
+  eigenPodAddress?: string;
+
+  @Field(() => [String], { nullable: true })
+  eigenPodAddress_in?: string[];
+
+  @Field({ nullable: true })
+  validatorPublicKey?: string;
+
+  @Field(() => [String], { nullable: true })
+  validatorPublicKey_in?: string[];
+
+  @Field(() => Int, { nullable: true })
+  startBlock?: number;
+
+  @Field(() => Int, { nullable: true })
+  endBlock?: number;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  startTime?: number;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  endTime?: number;
+}
+
+@InputType({ description: 'Every set field narrows the result; *_in lists match any of their values' })
+export class StakedEthFilter {
+  @Field({ nullable: true })
+  pubkey?: string;
+
+  @Field(() => [String], { nullable: true })
+  pubkey_in?: string[];
+
+  @Field({ nullable: true })
+  withdrawalCredentials?: string;
+
+  @Field(() => [String], { nullable: true })
+  withdrawalCredentials_in?: string[];
+
+  @Field(() => Int, { nullable: true })
+  blockNumber?: number;
+
+  @Field(() => Int, { nullable: true })
+  startBlock?: number;
+
+  @Field(() => Int, { nullable: true })
+  endBlock?: number;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  startTime?: number;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  endTime?: number;
+}
+
+@InputType()
+export class ValidatorWhereInput {
+  @Field(() => [String], { nullable: true })
+  pubkey_in?: string[];
+
+  @Field({ nullable: true })
+  withdrawalCredentials?: string;
+
+  @Field({ nullable: true, description: 'Execution address the 0x01/0x02 credentials point at' })
+  withdrawalAddress?: string;
+
+  @Field({ nullable: true, description: '0x00, 0x01 or 0x02' })
+  credentialType?: string;
+
+  @Field({ nullable: true, description: 'Whether the credentials point at a deployed EigenPod' })
+  isEigenPod?: boolean;
+
+  @Field(() => Int, { nullable: true })
+  minDepositCount?: number;
+
+  @Field(() => Int, { nullable: true })
+  maxDepositCount?: number;
+
+  @Field({ nullable: true, description: 'Minimum total deposited in wei' })
+  minTotalDeposited?: string;
+
+  @Field({ nullable: true, description: 'Maximum total deposited in wei' })
+  maxTotalDeposited?: string;
+}
+
+@InputType()
+export class WithdrawalCredentialGroupWhereInput {
+  @Field({ nullable: true })
+  withdrawalCredentials?: string;
+
+  @Field({ nullable: true, description: 'Execution address the 0x01/0x02 credentials point at' })
+  withdrawalAddress?: string;
+
+  @Field({ nullable: true, description: '0x00, 0x01 or 0x02' })
+  credentialType?: string;
+
+  @Field({ nullable: true, description: 'Whether the credentials point at a deployed EigenPod' })
+  isEigenPod?: boolean;
+
+  @Field(() => Int, { nullable: true })
+  minValidatorCount?: number;
+}
+
+@InputType()
+export class AddressLabelWhereInput {
+  @Field({ nullable: true })
+  category?: string;
+
+  @Field({ nullable: true })
+  tag?: string;
+
+  @Field({ nullable: true, description: 'Case-insensitive match on the name' })
+  search?: string;
+}
+
+@InputType()
+export class StakedEthAnalyticsInput {
+  @Field(() => Int, { nullable: true })
+  blockNumber?: number;
+
+  @Field(() => Int, { nullable: true })
+  startBlock?: number;
+
+  @Field(() => Int, { nullable: true })
+  endBlock?: number;
+
+  @Field({ nullable: true, defaultValue: false })
+  summary?: boolean;
+
+  // Buckets deposits by block timestamp instead of by block
+  @Field(() => AnalyticsGranularity, { nullable: true })
+  granularity?: AnalyticsGranularity;
+
+  // Unix timestamps (seconds), inclusive
+  @Field(() => Int, { nullable: true })
+  from?: number;
+
+  @Field(() => Int, { nullable: true })
+  to?: number;
+}
+
+@InputType()
+export class OperatorWhereInput {
+  @Field({ nullable: true })
+  operator?: string;
+}
+
+@InputType()
+export class DelegationWhereInput {
+  @Field({ nullable: true })
+  operator?: string;
+
+  @Field({ nullable: true })
+  staker?: string;
+}
+
+@InputType()
+export class OperatorShareEventWhereInput {
+  @Field({ nullable: true })
+  operator?: string;
+
+  @Field({ nullable: true })
+  staker?: string;
+
+  @Field({ nullable: true })
+  strategy?: string;
+}
+
+@InputType()
+export class DepositWhereInput {
+  @Field({ nullable: true })
+  staker?: string;
+
+  @Field({ nullable: true })
+  token?: string;
+
+  @Field({ nullable: true })
+  strategy?: string;
+
+  @Field({ nullable: true, description: 'Minimum shares in wei' })
+  minShares?: string;
+
+  @Field({ nullable: true, description: 'Maximum shares in wei' })
+  maxShares?: string;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  startTime?: number;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  endTime?: number;
+}
+
+@InputType()
+export class WithdrawalWhereInput {
+  @Field({ nullable: true })
+  staker?: string;
+
+  @Field({ nullable: true })
+  operator?: string;
+
+  @Field({ nullable: true })
+  withdrawer?: string;
+
+  @Field({ nullable: true })
+  strategy?: string;
+
+  @Field({ nullable: true, description: 'Minimum total shares in wei' })
+  minShares?: string;
+
+  @Field({ nullable: true, description: 'Maximum total shares in wei' })
+  maxShares?: string;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  startTime?: number;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  endTime?: number;
+
+  @Field({ nullable: true })
+  completed?: boolean;
+}
+
+@InputType()
+export class OperatorSetWhereInput {
+  @Field({ nullable: true })
+  avs?: string;
+
+  @Field({ nullable: true })
+  operator?: string;
+}
+
+@InputType()
+export class AllocationWhereInput {
+  @Field({ nullable: true })
+  operator?: string;
+
+  @Field({ nullable: true })
+  avs?: string;
+
+  @Field(() => Int, { nullable: true })
+  operatorSetId?: number;
+
+  @Field({ nullable: true })
+  strategy?: string;
+}
+
+@InputType()
+export class MagnitudeUpdateWhereInput {
+  @Field({ nullable: true })
+  operator?: string;
+
+  @Field({ nullable: true })
+  strategy?: string;
+
+  @Field({ nullable: true, description: 'max or encumbered' })
+  magnitudeType?: string;
 }
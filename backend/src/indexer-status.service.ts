@@ -0,0 +1,156 @@
+import { Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, Repository } from 'typeorm';
+import {
+  IndexerState,
+  INDEXER_SOURCE_ENTITIES,
+  IndexerSourceName,
+  RpcProviderPool,
+  createRpcProvider,
+} from '@eigen-layer-dashboard/lib';
+
+// The event rate is measured over the last hour of indexed blocks (12 second slots)
+const RATE_WINDOW_BLOCKS = 300;
+const RATE_WINDOW_MINUTES = 60;
+// Head and status are shared between the health check and the status panel for a few seconds
+const STATUS_CACHE_TTL_MS = 10000;
+
+export interface IndexerSourceStatusRecord {
+  indexerName: string;
+  status: string;
+  lastIndexedBlock: number;
+  lastIndexedTimestamp: number | null;
+  chainHead: number | null;
+  lagBlocks: number | null;
+  lagSeconds: number | null;
+  isLagging: boolean;
+  eventsPerMinute: number;
+  lastRunAt: string | null;
+  updatedAt: string;
+  error: string | null;
+}
+
+export interface IndexerHealth {
+  status: 'ok' | 'degraded';
+  reason: string | null;
+}
+
+/**
+ * Progress of every indexer source measured against the chain head: the cursor from
+ * `indexer_state`, the lag in blocks and seconds, and the recent event rate.
+ */
+@Injectable()
+export class IndexerStatusService {
+  private readonly logger = new Logger(IndexerStatusService.name);
+  private readonly provider: RpcProviderPool;
+  private readonly maxLagSeconds = parseInt(process.env.INDEXER_MAX_LAG_SECONDS || '600');
+  private cached: { statuses: IndexerSourceStatusRecord[]; loadedAt: number } | null = null;
+  private loading: Promise<IndexerSourceStatusRecord[]> | null = null;
+
+  constructor(
+    @InjectRepository(IndexerState)
+    private indexerStateRepository: Repository<IndexerState>,
+  ) {
+    this.provider = createRpcProvider();
+  }
+
+  async getIndexerStatus(): Promise<IndexerSourceStatusRecord[]> {
+    if (this.cached && Date.now() - this.cached.loadedAt < STATUS_CACHE_TTL_MS) {
+      return this.cached.statuses;
+    }
+
+    if (!this.loading) {
+      this.loading = this.loadStatus()
+        .then(statuses => {
+          this.cached = { statuses, loadedAt: Date.now() };
+          return statuses;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+
+    try {
+      return await this.loading;
+    } catch (error) {
+      console.error('Error in getIndexerStatus:', error);
+      throw new HttpException(
+        'Failed to get indexer status',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  // Degraded while the chain head is unknown or any source lags more than INDEXER_MAX_LAG_SECONDS; never throws
+  async getHealth(): Promise<IndexerHealth> {
+    try {
+      const statuses = await this.getIndexerStatus();
+      // Without the head the lag cannot be measured, which is no reason to report the indexers as fine
+      if (statuses.some(status => status.chainHead === null)) {
+        return { status: 'degraded', reason: 'Chain head unknown, the RPC endpoints cannot be reached' };
+      }
+
+      const lagging = statuses.filter(status => status.isLagging);
+      if (lagging.length === 0) {
+        return { status: 'ok', reason: null };
+      }
+      const details = lagging.map(status => `${status.indexerName} (${status.lagSeconds}s)`).join(', ');
+      return { status: 'degraded', reason: `Indexers lagging more than ${this.maxLagSeconds}s behind the chain head: ${details}` };
+    } catch {
+      return { status: 'degraded', reason: 'Indexer status unavailable' };
+    }
+  }
+
+  private async loadStatus(): Promise<IndexerSourceStatusRecord[]> {
+    const states = await this.indexerStateRepository.find({ order: { indexerName: 'ASC' } });
+    const head = await this.getChainHead();
+
+    const statuses: IndexerSourceStatusRecord[] = [];
+    for (const state of states) {
+      const lagBlocks = head ? Math.max(0, head.number - state.lastScannedBlock) : null;
+      const lagSeconds = head && state.lastScannedTimestamp
+        ? Math.max(0, head.timestamp - state.lastScannedTimestamp)
+        : null;
+
+      statuses.push({
+        indexerName: state.indexerName,
+        status: state.status,
+        lastIndexedBlock: state.lastScannedBlock,
+        lastIndexedTimestamp: state.lastScannedTimestamp,
+        chainHead: head?.number ?? null,
+        lagBlocks,
+        lagSeconds,
+        isLagging: lagSeconds !== null && lagSeconds > this.maxLagSeconds,
+        eventsPerMinute: await this.getEventsPerMinute(state),
+        lastRunAt: state.lastRunAt ? new Date(state.lastRunAt).toISOString() : null,
+        updatedAt: new Date(state.updatedAt).toISOString(),
+        error: state.error,
+      });
+    }
+    return statuses;
+  }
+
+  // Unknown (null) when the RPC endpoint cannot be reached, the database figures are still reported
+  private async getChainHead(): Promise<{ number: number; timestamp: number } | null> {
+    try {
+      const block = await this.provider.getBlock('latest');
+      return block ? { number: block.number, timestamp: block.timestamp } : null;
+    } catch (error: any) {
+      this.logger.warn(`Failed to fetch the chain head: ${error?.message || error}`);
+      return null;
+    }
+  }
+
+  private async getEventsPerMinute(state: IndexerState): Promise<number> {
+    const entities = INDEXER_SOURCE_ENTITIES[state.indexerName as IndexerSourceName] ?? [];
+    const fromBlock = Math.max(0, state.lastScannedBlock - RATE_WINDOW_BLOCKS + 1);
+
+    let events = 0;
+    for (const entity of entities) {
+      events += await this.indexerStateRepository.manager.count(entity, {
+        where: { blockNumber: Between(fromBlock, state.lastScannedBlock) },
+      });
+    }
+    return Math.round((events / RATE_WINDOW_MINUTES) * 100) / 100;
+  }
+}
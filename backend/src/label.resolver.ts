@@ -0,0 +1,112 @@
+import { Type } from '@nestjs/common';
+import { Resolver, Query, Args, Int, ResolveField, Parent } from '@nestjs/graphql';
+import { getWithdrawalAddress } from '@eigen-layer-dashboard/lib';
+import { LabelService } from './label.service';
+import {
+  AddressLabel,
+  AddressLabelResponse,
+  AddressLabelWhereInput,
+  EigenPod,
+  EigenPodDetail,
+  StakedEthEvent,
+  Validator,
+  WithdrawalCredentialGroup,
+  StakedEthByWithdrawalCredentials,
+  Operator,
+  Delegation,
+  OperatorShareEvent,
+  Deposit,
+  Withdrawal,
+  OperatorSet,
+  Allocation,
+  MagnitudeUpdate,
+  OperatorSlashing,
+} from './graphql.types';
+import {
+  SubgraphEntityRef,
+  SubgraphStakerRef,
+  SubgraphOperator,
+  SubgraphOperatorSummary,
+  SubgraphAVS,
+  SubgraphStaker,
+  SubgraphOperatorSet,
+  SubgraphWithdrawal,
+} from './subgraph/subgraph.types';
+
+@Resolver()
+export class LabelResolver {
+  constructor(private readonly labelService: LabelService) {}
+
+  @Query(() => AddressLabel, { nullable: true })
+  async addressLabel(@Args('address') address: string): Promise<AddressLabel | null> {
+    return await this.labelService.getLabel(address);
+  }
+
+  @Query(() => AddressLabelResponse)
+  async addressLabels(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => AddressLabelWhereInput, nullable: true }) where?: AddressLabelWhereInput,
+  ): Promise<AddressLabelResponse> {
+    return await this.labelService.getLabels(limit, skip, where ?? {});
+  }
+}
+
+type AddressGetter<T> = (parent: T) => string | null | undefined;
+
+/**
+ * Builds a resolver adding one nullable AddressLabel field to `type` per entry of `fields`.
+ * By convention `label` names the row's own address and `<field>Label` any other address.
+ */
+function createLabelResolver<T>(type: Type<T>, fields: Record<string, AddressGetter<T>>): Type<unknown> {
+  @Resolver(() => type)
+  class TypeLabelResolver {
+    constructor(readonly labelService: LabelService) {}
+  }
+
+  for (const [field, getAddress] of Object.entries(fields)) {
+    const method = `resolve${field[0].toUpperCase()}${field.slice(1)}`;
+    Object.defineProperty(TypeLabelResolver.prototype, method, {
+      value: function (this: TypeLabelResolver, parent: T) {
+        return this.labelService.getLabel(getAddress(parent));
+      },
+    });
+    const descriptor = Object.getOwnPropertyDescriptor(TypeLabelResolver.prototype, method)!;
+    Parent()(TypeLabelResolver.prototype, method, 0);
+    ResolveField(field, () => AddressLabel, { nullable: true })(TypeLabelResolver.prototype, method, descriptor);
+  }
+
+  Object.defineProperty(TypeLabelResolver, 'name', { value: `${type.name}LabelResolver` });
+  return TypeLabelResolver;
+}
+
+export const TYPE_LABEL_RESOLVERS = [
+  createLabelResolver(EigenPod, { label: pod => pod.eigenPod, podOwnerLabel: pod => pod.podOwner }),
+  createLabelResolver(EigenPodDetail, { label: pod => pod.eigenPod, podOwnerLabel: pod => pod.podOwner }),
+  createLabelResolver(StakedEthEvent, { label: event => getWithdrawalAddress(event.withdrawalCredentials) }),
+  createLabelResolver(Validator, { label: validator => validator.withdrawalAddress }),
+  createLabelResolver(WithdrawalCredentialGroup, { label: group => group.withdrawalAddress }),
+  createLabelResolver(StakedEthByWithdrawalCredentials, { label: row => getWithdrawalAddress(row.withdrawalCredentials) }),
+  createLabelResolver(Operator, { label: operator => operator.operator }),
+  createLabelResolver(Delegation, { stakerLabel: delegation => delegation.staker, operatorLabel: delegation => delegation.operator }),
+  createLabelResolver(OperatorShareEvent, { operatorLabel: event => event.operator, stakerLabel: event => event.staker }),
+  createLabelResolver(Deposit, { stakerLabel: deposit => deposit.staker }),
+  createLabelResolver(Withdrawal, {
+    stakerLabel: withdrawal => withdrawal.staker,
+    operatorLabel: withdrawal => withdrawal.operator,
+    withdrawerLabel: withdrawal => withdrawal.withdrawer,
+  }),
+  createLabelResolver(OperatorSet, { avsLabel: operatorSet => operatorSet.avs }),
+  createLabelResolver(Allocation, { operatorLabel: allocation => allocation.operator, avsLabel: allocation => allocation.avs }),
+  createLabelResolver(MagnitudeUpdate, { operatorLabel: update => update.operator }),
+  createLabelResolver(OperatorSlashing, { operatorLabel: slashing => slashing.operator, avsLabel: slashing => slashing.avs }),
+  // Subgraph refs cover the nested staker, operator and strategy addresses of deposits and withdrawals
+  createLabelResolver(SubgraphEntityRef, { label: ref => ref.id }),
+  createLabelResolver(SubgraphStakerRef, { label: ref => ref.address }),
+  createLabelResolver(SubgraphOperator, { label: operator => operator.id }),
+  createLabelResolver(SubgraphOperatorSummary, { label: operator => operator.id }),
+  createLabelResolver(SubgraphAVS, { label: avs => avs.id, ownerLabel: avs => avs.owner }),
+  createLabelResolver(SubgraphStaker, { label: staker => staker.address }),
+  createLabelResolver(SubgraphOperatorSet, { ownerLabel: operatorSet => operatorSet.owner }),
+  createLabelResolver(SubgraphWithdrawal, { withdrawerLabel: withdrawal => withdrawal.withdrawer }),
+];
@@ -0,0 +1,98 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { AddressLabel } from '@eigen-layer-dashboard/lib';
+
+// The registry only changes when a label file is imported
+const LABEL_CACHE_TTL_MS = parseInt(process.env.LABEL_CACHE_TTL_MS || '60000');
+
+export interface AddressLabelFilter {
+  category?: string;
+  tag?: string;
+  search?: string;
+}
+
+export interface AddressLabelRecord {
+  address: string;
+  name: string;
+  category: string;
+  tags: string[];
+}
+
+/**
+ * Resolves addresses to the names imported with `labels import`. The registry is small,
+ * so it is kept in memory and every label field is answered without a query.
+ */
+@Injectable()
+export class LabelService {
+  private labels = new Map<string, AddressLabelRecord>();
+  private loadedAt = 0;
+  private loading: Promise<Map<string, AddressLabelRecord>> | null = null;
+
+  constructor(
+    @InjectRepository(AddressLabel)
+    private addressLabelRepository: Repository<AddressLabel>,
+  ) {}
+
+  async getLabel(address?: string | null): Promise<AddressLabelRecord | null> {
+    if (!address) {
+      return null;
+    }
+    const labels = await this.getRegistry();
+    return labels.get(address.toLowerCase()) ?? null;
+  }
+
+  async getLabels(
+    limit: number = 100,
+    offset: number = 0,
+    filter: AddressLabelFilter = {}
+  ): Promise<{ labels: AddressLabelRecord[]; total: number }> {
+    try {
+      const search = filter.search?.toLowerCase();
+      const matching = Array.from((await this.getRegistry()).values())
+        .filter(label => !filter.category || label.category === filter.category.toLowerCase())
+        .filter(label => !filter.tag || label.tags.includes(filter.tag))
+        .filter(label => !search || label.name.toLowerCase().includes(search))
+        .sort((a, b) => a.name.localeCompare(b.name));
+
+      return { labels: matching.slice(offset, offset + limit), total: matching.length };
+    } catch (error) {
+      console.error('Error in getLabels:', error);
+      throw new HttpException(
+        'Failed to fetch address labels',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  // Concurrent callers share one reload. A failed reload keeps serving the previous registry
+  // and is not retried before the TTL, so a missing table does not cost a query per field.
+  private async getRegistry(): Promise<Map<string, AddressLabelRecord>> {
+    if (Date.now() - this.loadedAt < LABEL_CACHE_TTL_MS) {
+      return this.labels;
+    }
+
+    if (!this.loading) {
+      this.loading = this.loadRegistry()
+        .catch(error => {
+          console.error('Error loading address labels:', error);
+          this.loadedAt = Date.now();
+          return this.labels;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  private async loadRegistry(): Promise<Map<string, AddressLabelRecord>> {
+    const rows = await this.addressLabelRepository.find();
+    this.labels = new Map(rows.map(row => [
+      row.address.toLowerCase(),
+      { address: row.address.toLowerCase(), name: row.name, category: row.category, tags: row.tags ?? [] },
+    ]));
+    this.loadedAt = Date.now();
+    return this.labels;
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { PodDeployedEvent, StakedEthEvent, IndexerState } from '@eigen-layer-dashboard/lib';
+import { LiveEventsService } from './live-events.service';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([PodDeployedEvent, StakedEthEvent, IndexerState])],
+  providers: [LiveEventsService],
+  exports: [LiveEventsService],
+})
+export class LiveEventsModule {}
@@ -0,0 +1,144 @@
+import { Injectable, Logger, OnModuleInit, OnModuleDestroy } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Between, FindOptionsOrder, FindOptionsWhere, Repository } from 'typeorm';
+import { Client } from 'pg';
+import {
+  PodDeployedEvent,
+  StakedEthEvent,
+  IndexerState,
+  NOTIFICATION_CHANNELS,
+  NotificationChannel,
+  EventBatchNotification,
+  IndexerProgressNotification,
+} from '@eigen-layer-dashboard/lib';
+import { PubSub } from './pubsub';
+
+const RECONNECT_DELAY_MS = parseInt(process.env.LIVE_EVENTS_RECONNECT_MS || '5000');
+// Rows read back per notification; a catch-up batch can hold far more than a live client needs
+const MAX_ROWS_PER_NOTIFICATION = 500;
+
+/**
+ * Turns the indexer's Postgres notifications into subscription events. Holds one
+ * dedicated LISTEN connection, reconnecting when it drops, and reads the announced
+ * rows back only while someone is subscribed to the channel.
+ */
+@Injectable()
+export class LiveEventsService implements OnModuleInit, OnModuleDestroy {
+  private readonly logger = new Logger(LiveEventsService.name);
+  private readonly pubSub = new PubSub();
+  private client: Client | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private closed = false;
+
+  constructor(
+    @InjectRepository(PodDeployedEvent)
+    private podDeployedRepository: Repository<PodDeployedEvent>,
+    @InjectRepository(StakedEthEvent)
+    private stakedEthRepository: Repository<StakedEthEvent>,
+    @InjectRepository(IndexerState)
+    private indexerStateRepository: Repository<IndexerState>,
+  ) {}
+
+  onModuleInit(): void {
+    if (this.podDeployedRepository.manager.connection.options.type !== 'postgres') {
+      this.logger.warn('Live subscriptions need Postgres LISTEN/NOTIFY, subscriptions will not receive events');
+      return;
+    }
+    void this.connect();
+  }
+
+  async onModuleDestroy(): Promise<void> {
+    this.closed = true;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+    }
+    await this.client?.end().catch(() => undefined);
+  }
+
+  subscribe<T>(channel: NotificationChannel): AsyncIterableIterator<T> {
+    return this.pubSub.asyncIterator<T>(channel);
+  }
+
+  private async connect(): Promise<void> {
+    this.reconnectTimer = null;
+    const client = new Client({ connectionString: process.env.DB_URL });
+    this.client = client;
+
+    client.on('notification', message => {
+      void this.handleNotification(message.channel, message.payload);
+    });
+    client.on('error', error => {
+      this.logger.error(`Notification connection error: ${error.message}`);
+      this.reconnect(client);
+    });
+    client.on('end', () => this.reconnect(client));
+
+    try {
+      await client.connect();
+      for (const channel of Object.values(NOTIFICATION_CHANNELS)) {
+        await client.query(`LISTEN ${channel}`);
+      }
+      this.logger.log('Listening for indexer notifications');
+    } catch (error: any) {
+      this.logger.error(`Failed to listen for indexer notifications: ${error?.message || error}`);
+      this.reconnect(client);
+    }
+  }
+
+  // 'error' and 'end' both fire for one failure, only the first schedules a reconnect
+  private reconnect(client: Client): void {
+    if (this.client !== client) {
+      return;
+    }
+
+    this.client = null;
+    client.end().catch(() => undefined);
+    if (!this.closed) {
+      this.reconnectTimer = setTimeout(() => void this.connect(), RECONNECT_DELAY_MS);
+    }
+  }
+
+  private async handleNotification(channel: string, payload?: string): Promise<void> {
+    if (this.pubSub.subscriberCount(channel) === 0) {
+      return;
+    }
+
+    try {
+      const notification = JSON.parse(payload || '{}');
+      switch (channel) {
+        case NOTIFICATION_CHANNELS.podDeployed:
+          await this.publishRows(channel, this.podDeployedRepository, notification);
+          break;
+        case NOTIFICATION_CHANNELS.stakedEthDeposited:
+          await this.publishRows(channel, this.stakedEthRepository, notification);
+          break;
+        case NOTIFICATION_CHANNELS.indexerProgress: {
+          const { indexerName } = notification as IndexerProgressNotification;
+          const state = await this.indexerStateRepository.findOne({ where: { indexerName } });
+          if (state) {
+            this.pubSub.publish(channel, state);
+          }
+          break;
+        }
+      }
+    } catch (error) {
+      this.logger.error(`Error handling ${channel} notification:`, error);
+    }
+  }
+
+  private async publishRows<T extends { blockNumber: number; logIndex: number }>(
+    channel: string,
+    repository: Repository<T>,
+    { fromBlock, toBlock }: EventBatchNotification
+  ): Promise<void> {
+    // TypeScript cannot resolve the mapped find option types for a generic T, hence the assertions
+    const where = { blockNumber: Between(fromBlock, toBlock) } as FindOptionsWhere<T>;
+    const order = { blockNumber: 'DESC', logIndex: 'DESC' } as FindOptionsOrder<T>;
+    const rows = await repository.find({ where, order, take: MAX_ROWS_PER_NOTIFICATION });
+
+    // Oldest first, like they were indexed
+    for (const row of rows.reverse()) {
+      this.pubSub.publish(channel, row);
+    }
+  }
+}
@@ -0,0 +1,77 @@
+// Events buffered per subscriber before the oldest are dropped, so a stalled client cannot grow memory
+const MAX_BUFFERED_EVENTS = 1000;
+
+interface Subscriber {
+  buffer: unknown[];
+  // Set while the consumer awaits the next event
+  waiting: ((result: IteratorResult<any>) => void) | null;
+}
+
+/**
+ * In-process publish/subscribe with the `asyncIterator` shape GraphQL subscription
+ * resolvers return. Each iterator receives the events published after it was created.
+ */
+export class PubSub {
+  private readonly subscribers = new Map<string, Set<Subscriber>>();
+
+  publish(trigger: string, payload: unknown): void {
+    for (const subscriber of this.subscribers.get(trigger) ?? []) {
+      if (subscriber.waiting) {
+        const resolve = subscriber.waiting;
+        subscriber.waiting = null;
+        resolve({ value: payload, done: false });
+      } else {
+        subscriber.buffer.push(payload);
+        if (subscriber.buffer.length > MAX_BUFFERED_EVENTS) {
+          subscriber.buffer.shift();
+        }
+      }
+    }
+  }
+
+  subscriberCount(trigger: string): number {
+    return this.subscribers.get(trigger)?.size ?? 0;
+  }
+
+  asyncIterator<T>(trigger: string): AsyncIterableIterator<T> {
+    const subscriber: Subscriber = { buffer: [], waiting: null };
+    if (!this.subscribers.has(trigger)) {
+      this.subscribers.set(trigger, new Set());
+    }
+    this.subscribers.get(trigger)!.add(subscriber);
+
+    const unsubscribe = (): IteratorResult<T> => {
+      this.subscribers.get(trigger)?.delete(subscriber);
+      if (subscriber.waiting) {
+        subscriber.waiting({ value: undefined, done: true });
+        subscriber.waiting = null;
+      }
+      subscriber.buffer = [];
+      return { value: undefined, done: true };
+    };
+
+    const iterator: AsyncIterableIterator<T> = {
+      next: () => {
+        if (subscriber.buffer.length > 0) {
+          return Promise.resolve({ value: subscriber.buffer.shift() as T, done: false });
+        }
+        if (!this.subscribers.get(trigger)?.has(subscriber)) {
+          return Promise.resolve({ value: undefined, done: true });
+        }
+        return new Promise(resolve => {
+          subscriber.waiting = resolve;
+        });
+      },
+      // Called when the client unsubscribes or disconnects
+      return: () => Promise.resolve(unsubscribe()),
+      throw: (error: unknown) => {
+        unsubscribe();
+        return Promise.reject(error);
+      },
+      [Symbol.asyncIterator]() {
+        return iterator;
+      },
+    };
+    return iterator;
+  }
+}
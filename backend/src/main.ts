@@ -24,7 +24,7 @@ async function bootstrap() {
   await app.listen(port);
   console.log(`🚀 Backend server running on http://localhost:${port}`);
   console.log(`🔍 GraphQL Playground available at http://localhost:${port}/graphql`);
-  console.log(`📊 Materialized view initialized and scheduled for refresh every minute`);
+  console.log(`📊 Materialized views initialized and scheduled for refresh every 5 minutes`);
 }
 
 bootstrap();
@@ -1,50 +1,169 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { StakedEthEvent } from '@eigen-layer-dashboard/lib';
+import {
+  StakedEthService,
+  StakedEthStats,
+  StakedEthByBlock,
+  StakedEthByDay,
+  StakedEthByWithdrawalCredentials,
+  toStakedEthStats,
+  toStakedEthByBlock,
+  toStakedEthByDay,
+  toStakedEthByWithdrawalCredentials,
+} from './staked-eth.service';
 
+// Views created by the CreateStakedEthAnalyticsViews and CreateValidatorsView migrations, in refresh order
+const MATERIALIZED_VIEWS = [
+  'staked_eth_by_block_mv',
+  'staked_eth_by_day_mv',
+  'staked_eth_by_withdrawal_credentials_mv',
+  'staked_eth_stats_mv',
+  'validators_mv',
+];
+
+/**
+ * Serves the staked ETH aggregates from Postgres materialized views.
+ * When the views are not available (SQLite, or migrations not run yet),
+ * every getter falls back to grouping the events table directly.
+ */
 @Injectable()
 export class MaterializedViewService {
   private readonly logger = new Logger(MaterializedViewService.name);
+  private viewsAvailable = false;
+  private isRefreshing = false;
+  private lastRefreshedAt: Date | null = null;
 
-  constructor() {
-    // Materialized view service will be updated to use TypeORM later
-  }
+  constructor(
+    @InjectRepository(StakedEthEvent)
+    private stakedEthRepository: Repository<StakedEthEvent>,
+    private readonly stakedEthService: StakedEthService,
+  ) {}
 
   async initialize(): Promise<void> {
     try {
-      // Materialized view service will be updated to use TypeORM later
-      this.logger.log('Materialized view service initialized successfully');
+      this.viewsAvailable = await this.detectViews();
+      if (this.viewsAvailable) {
+        await this.refreshMaterializedView();
+        this.logger.log('Materialized view service initialized successfully');
+      } else {
+        this.logger.warn('Materialized views not found, staked ETH analytics are computed from the events table');
+      }
     } catch (error) {
       this.logger.error('Failed to initialize materialized view service:', error);
       throw error;
     }
   }
 
-  // Materialized view methods will be updated to use TypeORM later
-  async getStakedEthAnalytics(): Promise<any[]> {
-    return [];
+  getLastRefreshedAt(): Date | null {
+    return this.lastRefreshedAt;
+  }
+
+  // Whether the views exist, for services reading them directly (`validators_mv`)
+  hasViews(): boolean {
+    return this.viewsAvailable;
+  }
+
+  async getStakedEthStats(): Promise<StakedEthStats> {
+    if (!this.viewsAvailable) {
+      return this.stakedEthService.getStakedEthStats();
+    }
+
+    const [row] = await this.stakedEthRepository.query(
+      `SELECT totalevents, totalstaked, uniquevalidators, lastblock FROM staked_eth_stats_mv`
+    );
+    return toStakedEthStats(row);
+  }
+
+  async getStakedEthAnalyticsByDay(fromDate?: string, toDate?: string): Promise<StakedEthByDay[]> {
+    if (!this.viewsAvailable) {
+      return this.stakedEthService.getStakedEthByDay(fromDate, toDate);
+    }
+
+    const rows = await this.stakedEthRepository.query(
+      `SELECT TO_CHAR(day, 'YYYY-MM-DD') AS day, totaldeposited, eventcount, uniquevalidators, firstblock, lastblock
+      FROM staked_eth_by_day_mv
+      WHERE ($1::date IS NULL OR day >= $1::date)
+        AND ($2::date IS NULL OR day <= $2::date)
+      ORDER BY day DESC`,
+      [fromDate ?? null, toDate ?? null]
+    );
+    return rows.map(toStakedEthByDay);
+  }
+
+  async getStakedEthAnalyticsByDate(date: string): Promise<StakedEthByDay | null> {
+    const [day] = await this.getStakedEthAnalyticsByDay(date, date);
+    return day ?? null;
   }
 
-  async getStakedEthAnalyticsByDate(date: string): Promise<any> {
-    return null;
+  async getStakedEthAnalyticsByBlock(blockNumber: number): Promise<StakedEthByBlock | null> {
+    const [block] = await this.getStakedEthAnalyticsByBlockRange(blockNumber, blockNumber);
+    return block ?? null;
   }
 
-  async getStakedEthAnalyticsByBlock(blockNumber: number): Promise<any> {
-    return null;
+  async getStakedEthAnalyticsByBlockRange(startBlock: number, endBlock: number): Promise<StakedEthByBlock[]> {
+    if (!this.viewsAvailable) {
+      return this.stakedEthService.getStakedEthSummaryByBlockRange(startBlock, endBlock);
+    }
+
+    const rows = await this.stakedEthRepository.query(
+      `SELECT blocknumber, blocktimestamp, totaldeposited, eventcount, uniquevalidators
+      FROM staked_eth_by_block_mv
+      WHERE blocknumber >= $1 AND blocknumber <= $2
+      ORDER BY blocknumber DESC`,
+      [startBlock, endBlock]
+    );
+    return rows.map(toStakedEthByBlock);
   }
 
-  async getStakedEthAnalyticsByBlockRange(startBlock: number, endBlock: number): Promise<any[]> {
-    return [];
+  async getStakedEthAnalyticsByWithdrawalCredentials(limit: number = 100, offset: number = 0): Promise<StakedEthByWithdrawalCredentials[]> {
+    if (!this.viewsAvailable) {
+      return this.stakedEthService.getStakedEthByWithdrawalCredentials(limit, offset);
+    }
+
+    const rows = await this.stakedEthRepository.query(
+      `SELECT withdrawalcredentials, totaldeposited, eventcount, uniquevalidators, firstblock, lastblock
+      FROM staked_eth_by_withdrawal_credentials_mv
+      ORDER BY totaldeposited DESC, withdrawalcredentials
+      LIMIT $1 OFFSET $2`,
+      [limit, offset]
+    );
+    return rows.map(toStakedEthByWithdrawalCredentials);
   }
 
-  // Cron job to refresh materialized view every hour
-  @Cron(CronExpression.EVERY_HOUR)
+  // CONCURRENTLY keeps the views readable while they are rebuilt
+  @Cron(CronExpression.EVERY_5_MINUTES)
   async refreshMaterializedView(): Promise<void> {
+    if (!this.viewsAvailable || this.isRefreshing) {
+      return;
+    }
+
+    this.isRefreshing = true;
     try {
-      this.logger.log('Refreshing materialized view...');
-      // Will be implemented with TypeORM
+      this.logger.log('Refreshing materialized views...');
+      for (const view of MATERIALIZED_VIEWS) {
+        await this.stakedEthRepository.query(`REFRESH MATERIALIZED VIEW CONCURRENTLY ${view}`);
+      }
+      this.lastRefreshedAt = new Date();
       this.logger.log('Materialized view refresh completed');
     } catch (error) {
       this.logger.error('Error refreshing materialized view:', error);
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  private async detectViews(): Promise<boolean> {
+    if (this.stakedEthRepository.manager.connection.options.type !== 'postgres') {
+      return false;
     }
+
+    const rows = await this.stakedEthRepository.query(
+      `SELECT matviewname FROM pg_matviews WHERE matviewname = ANY($1)`,
+      [MATERIALIZED_VIEWS]
+    );
+    return rows.length === MATERIALIZED_VIEWS.length;
   }
-}
\ No newline at end of file
+}
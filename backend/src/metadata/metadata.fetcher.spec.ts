@@ -0,0 +1,215 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Logger } from '@nestjs/common';
+import { AddressPolicy, HttpMetadataFetcher, MetadataFetchError, MetadataOptions } from './metadata.fetcher';
+
+const DOCUMENT = { name: 'Operator', description: 'Runs validators', logo: 'https://example.com/logo.png' };
+
+// Stands in for the public internet: only 127.0.0.1 is allowed, other loopback addresses are private
+const HOSTS: Record<string, string[]> = {
+  'metadata.test': ['127.0.0.1'],
+  'private.test': ['127.0.0.2'],
+  'mixed.test': ['127.0.0.1', '127.0.0.2'],
+};
+
+const policy: AddressPolicy = {
+  resolve: async hostname => {
+    if (!HOSTS[hostname]) {
+      throw new Error(`getaddrinfo ENOTFOUND ${hostname}`);
+    }
+    return HOSTS[hostname].map(address => ({ address, family: 4 }));
+  },
+  isAllowed: address => address === '127.0.0.1',
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('HttpMetadataFetcher', () => {
+  // Path and host of every request received
+  let requests: { path: string; host: string }[];
+  let port: number;
+  const server = http.createServer((request, response) => {
+    const path = request.url ?? '';
+    requests.push({ path, host: request.headers.host ?? '' });
+
+    const redirect = path.match(/^\/redirect\/(\d+)$/);
+    if (redirect) {
+      const remaining = Number(redirect[1]);
+      response.writeHead(302, { location: remaining > 1 ? `/redirect/${remaining - 1}` : '/document.json' });
+      response.end();
+      return;
+    }
+    switch (path) {
+      case '/document.json':
+      case '/ipfs/QmDocument':
+        if (request.headers['if-none-match'] === '"v1"') {
+          response.writeHead(304);
+          response.end();
+          return;
+        }
+        response.writeHead(200, { 'content-type': 'application/json', etag: '"v1"', 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' });
+        response.end(JSON.stringify(DOCUMENT));
+        return;
+      case '/to-private':
+        response.writeHead(301, { location: `http://private.test:${port}/document.json` });
+        response.end();
+        return;
+      case '/to-ftp':
+        response.writeHead(302, { location: 'ftp://metadata.test/document.json' });
+        response.end();
+        return;
+      case '/large':
+        response.writeHead(200, { 'content-type': 'application/json', 'content-length': '4096' });
+        response.end(JSON.stringify({ padding: 'x'.repeat(4082) }));
+        return;
+      case '/large-chunked':
+        // Written in parts without Content-Length
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.write(`{"padding":"${'x'.repeat(1000)}`);
+        response.write('x'.repeat(2000));
+        response.end('"}');
+        return;
+      case '/slow':
+        setTimeout(() => response.end(JSON.stringify(DOCUMENT)), 500).unref();
+        return;
+      case '/invalid':
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end('{"name": "Operator",');
+        return;
+      default:
+        response.writeHead(404);
+        response.end();
+    }
+  });
+
+  const createFetcher = (options: Partial<MetadataOptions> = {}, addressPolicy: AddressPolicy = policy) =>
+    new HttpMetadataFetcher({
+      refreshIntervalMs: 60000,
+      retryIntervalMs: 60000,
+      batchSize: 10,
+      timeoutMs: 2000,
+      maxBytes: 1024,
+      ipfsGateway: `http://127.0.0.3:${port}/ipfs`,
+      ...options,
+    }, addressPolicy);
+  const url = (host: string, path: string) => `http://${host}:${port}${path}`;
+
+  beforeAll(async () => {
+    jest.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    // Every loopback address reaches the server, so only the policy keeps the private ones out
+    await new Promise<void>(resolve => server.listen(0, '0.0.0.0', resolve));
+    port = (server.address() as AddressInfo).port;
+  });
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+    jest.restoreAllMocks();
+  });
+
+  it('returns the document with its cache validators', async () => {
+    expect(await createFetcher().fetch({ url: url('metadata.test', '/document.json') })).toEqual({
+      status: 'ok',
+      body: DOCUMENT,
+      etag: '"v1"',
+      lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+    });
+    expect(requests).toEqual([{ path: '/document.json', host: `metadata.test:${port}` }]);
+  });
+
+  it('reports an unchanged document', async () => {
+    const response = await createFetcher().fetch({ url: url('metadata.test', '/document.json'), etag: '"v1"' });
+    expect(response).toEqual({ status: 'not-modified' });
+  });
+
+  describe('private hosts', () => {
+    it.each([
+      ['a private IP address', '127.0.0.2'],
+      ['a name resolving to a private address', 'private.test'],
+      ['a name resolving to a public and a private address', 'mixed.test'],
+    ])('refuses %s without connecting', async (_, host) => {
+      await expect(createFetcher().fetch({ url: url(host, '/document.json') })).rejects.toThrow(new MetadataFetchError('Host is not allowed'));
+      expect(requests).toHaveLength(0);
+    });
+
+    it('fails on a name that does not resolve', async () => {
+      await expect(createFetcher().fetch({ url: url('unknown.test', '/document.json') })).rejects.toThrow('Request failed');
+      expect(requests).toHaveLength(0);
+    });
+
+    it('checks the address of the connection, not an earlier resolution', async () => {
+      // The first answer is public and every later one private, like a rebinding DNS server
+      let resolutions = 0;
+      const rebinding: AddressPolicy = {
+        ...policy,
+        resolve: async () => [{ address: resolutions++ === 0 ? '127.0.0.1' : '127.0.0.2', family: 4 }],
+      };
+
+      await createFetcher({}, rebinding).fetch({ url: url('rebinding.test', '/document.json') });
+      expect(resolutions).toBe(1);
+      expect(requests).toHaveLength(1);
+    });
+
+    it('trusts the IPFS gateway on a private address', async () => {
+      const response = await createFetcher().fetch({ url: url('127.0.0.3', '/ipfs/QmDocument') });
+      expect(response).toMatchObject({ status: 'ok', body: DOCUMENT });
+    });
+  });
+
+  describe('redirects', () => {
+    it('follows redirects to the document', async () => {
+      const response = await createFetcher().fetch({ url: url('metadata.test', '/redirect/3') });
+
+      expect(response).toMatchObject({ status: 'ok', body: DOCUMENT });
+      expect(requests.map(request => request.path)).toEqual(['/redirect/3', '/redirect/2', '/redirect/1', '/document.json']);
+    });
+
+    it('refuses a redirect to a private host', async () => {
+      await expect(createFetcher().fetch({ url: url('metadata.test', '/to-private') })).rejects.toThrow('Host is not allowed');
+      expect(requests.map(request => request.path)).toEqual(['/to-private']);
+    });
+
+    it('stops after five redirects', async () => {
+      await expect(createFetcher().fetch({ url: url('metadata.test', '/redirect/6') })).rejects.toThrow('More than 5 redirects');
+      expect(requests).toHaveLength(6);
+    });
+
+    it('refuses a redirect to another protocol', async () => {
+      await expect(createFetcher().fetch({ url: url('metadata.test', '/to-ftp') })).rejects.toThrow('Redirect to a non-HTTP URL');
+    });
+  });
+
+  describe('limits', () => {
+    it('rejects a document whose Content-Length is over the size limit', async () => {
+      await expect(createFetcher().fetch({ url: url('metadata.test', '/large') })).rejects.toThrow('Document is larger than 1024 bytes');
+    });
+
+    it('stops reading a body without Content-Length once it passes the size limit', async () => {
+      await expect(createFetcher().fetch({ url: url('metadata.test', '/large-chunked') })).rejects.toThrow('Document is larger than 1024 bytes');
+    });
+
+    it('gives up on a response slower than the timeout', async () => {
+      const startedAt = Date.now();
+      await expect(createFetcher({ timeoutMs: 100 }).fetch({ url: url('metadata.test', '/slow') })).rejects.toThrow('Request failed');
+      expect(Date.now() - startedAt).toBeLessThan(400);
+      // Let the server finish the abandoned response
+      await sleep(450);
+    });
+  });
+
+  describe('responses', () => {
+    it('rejects a document that is not valid JSON', async () => {
+      await expect(createFetcher().fetch({ url: url('metadata.test', '/invalid') })).rejects.toThrow('Document is not valid JSON');
+    });
+
+    it('rejects an error status with the status', async () => {
+      const error = await createFetcher().fetch({ url: url('metadata.test', '/missing') }).catch(error => error);
+      expect(error).toBeInstanceOf(MetadataFetchError);
+      expect(error).toMatchObject({ message: 'HTTP 404 Not Found', status: 404 });
+    });
+  });
+});
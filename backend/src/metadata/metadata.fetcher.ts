@@ -0,0 +1,223 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import { LookupAddress } from 'dns';
+import { lookup } from 'dns/promises';
+import { isIP, LookupFunction } from 'net';
+import { Agent, fetch, Response } from 'undici';
+import { isPublicAddress } from '@eigen-layer-dashboard/lib';
+
+export const METADATA_OPTIONS = 'METADATA_OPTIONS';
+export const METADATA_FETCHER = 'METADATA_FETCHER';
+export const METADATA_ADDRESS_POLICY = 'METADATA_ADDRESS_POLICY';
+
+export interface MetadataOptions {
+  // How long a fetched document is served before it is fetched again
+  refreshIntervalMs: number;
+  // How long a document whose last fetch failed or was invalid waits before the next attempt
+  retryIntervalMs: number;
+  // Documents fetched per scheduled run
+  batchSize: number;
+  timeoutMs: number;
+  maxBytes: number;
+  // Used for ipfs:// metadata URIs
+  ipfsGateway: string;
+}
+
+// Redirects followed per fetch, every hop is checked like the original URL
+const MAX_REDIRECTS = 5;
+
+export function getMetadataOptions(): MetadataOptions {
+  return {
+    refreshIntervalMs: parseInt(process.env.METADATA_REFRESH_INTERVAL_MS || '21600000'),
+    retryIntervalMs: parseInt(process.env.METADATA_RETRY_INTERVAL_MS || '3600000'),
+    batchSize: parseInt(process.env.METADATA_BATCH_SIZE || '25'),
+    timeoutMs: parseInt(process.env.METADATA_TIMEOUT_MS || '10000'),
+    maxBytes: parseInt(process.env.METADATA_MAX_BYTES || '1048576'),
+    ipfsGateway: process.env.METADATA_IPFS_GATEWAY || 'https://ipfs.io/ipfs',
+  };
+}
+
+export interface MetadataFetchRequest {
+  url: string;
+  // Validators of the cached copy, sent as If-None-Match / If-Modified-Since
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export type MetadataFetchResponse =
+  | { status: 'not-modified' }
+  | { status: 'ok'; body: unknown; etag: string | null; lastModified: string | null };
+
+/**
+ * Fetches metadata documents. Bound to METADATA_FETCHER so tests can provide
+ * their own implementation or point the HTTP one's IPFS gateway at a local server.
+ */
+export interface MetadataFetcher {
+  fetch(request: MetadataFetchRequest): Promise<MetadataFetchResponse>;
+}
+
+/**
+ * Which addresses documents may be fetched from. Bound to METADATA_ADDRESS_POLICY so tests can
+ * resolve their own hostnames and treat a local server as public.
+ */
+export interface AddressPolicy {
+  // Every address the hostname resolves to
+  resolve(hostname: string): Promise<LookupAddress[]>;
+  isAllowed(address: string): boolean;
+}
+
+export const PUBLIC_ADDRESS_POLICY: AddressPolicy = {
+  resolve: hostname => lookup(hostname, { all: true, verbatim: true }),
+  isAllowed: isPublicAddress,
+};
+
+export class MetadataFetchError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'MetadataFetchError';
+  }
+}
+
+/**
+ * Fetches over HTTP(S) from public hosts only: connections for the URL and every redirect are
+ * refused when the host resolves to a loopback, private, link-local or unique-local address.
+ * The check runs in the connection's own DNS lookup, so a name answering differently on a second
+ * resolution cannot slip a private address past it. The configured IPFS gateway is trusted, so it
+ * can run on the local network.
+ */
+@Injectable()
+export class HttpMetadataFetcher implements MetadataFetcher {
+  private readonly logger = new Logger(HttpMetadataFetcher.name);
+  private readonly dispatcher: Agent;
+
+  constructor(
+    @Inject(METADATA_OPTIONS) private readonly options: MetadataOptions,
+    @Optional() @Inject(METADATA_ADDRESS_POLICY) private readonly policy: AddressPolicy = PUBLIC_ADDRESS_POLICY
+  ) {
+    this.dispatcher = new Agent({ connect: { lookup: this.lookupAllowed } });
+  }
+
+  async fetch(request: MetadataFetchRequest): Promise<MetadataFetchResponse> {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (request.etag) {
+      headers['If-None-Match'] = request.etag;
+    }
+    if (request.lastModified) {
+      headers['If-Modified-Since'] = request.lastModified;
+    }
+
+    const signal = AbortSignal.timeout(this.options.timeoutMs);
+    let url = request.url;
+    let response: Response;
+    for (let redirects = 0; ; redirects++) {
+      const { hostname, origin } = new URL(url);
+      const trusted = origin === this.getGatewayOrigin();
+      // Connecting to an IP address skips the DNS lookup, so it is checked here
+      const host = hostname.replace(/^\[(.*)\]$/, '$1');
+      if (!trusted && isIP(host) && !this.policy.isAllowed(host)) {
+        throw new MetadataFetchError('Host is not allowed');
+      }
+      try {
+        response = await fetch(url, { headers, redirect: 'manual', signal, dispatcher: trusted ? undefined : this.dispatcher });
+      } catch (error: any) {
+        if (error?.cause instanceof MetadataFetchError) {
+          throw error.cause;
+        }
+        // The network error is logged only, it may describe hosts the document should not reveal
+        this.logger.warn(`Request to ${url} failed: ${error?.cause?.message || error?.message || error}`);
+        throw new MetadataFetchError('Request failed');
+      }
+
+      const location = response.headers.get('location');
+      if (response.status < 300 || response.status >= 400 || response.status === 304 || !location) {
+        break;
+      }
+      await response.body?.cancel();
+      if (redirects === MAX_REDIRECTS) {
+        throw new MetadataFetchError(`More than ${MAX_REDIRECTS} redirects`);
+      }
+      const next = new URL(location, url);
+      if (next.protocol !== 'http:' && next.protocol !== 'https:') {
+        throw new MetadataFetchError('Redirect to a non-HTTP URL');
+      }
+      url = next.toString();
+    }
+
+    if (response.status === 304) {
+      return { status: 'not-modified' };
+    }
+    if (!response.ok) {
+      throw new MetadataFetchError(`HTTP ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const length = parseInt(response.headers.get('content-length') || '0');
+    if (length > this.options.maxBytes) {
+      throw new MetadataFetchError(`Document is larger than ${this.options.maxBytes} bytes`);
+    }
+
+    const text = await this.readText(response);
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new MetadataFetchError('Document is not valid JSON');
+    }
+
+    return {
+      status: 'ok',
+      body,
+      etag: response.headers.get('etag'),
+      lastModified: response.headers.get('last-modified'),
+    };
+  }
+
+  /**
+   * Reads the body up to the size limit, a body without Content-Length is cut off once it passes it
+   */
+  private async readText(response: Response): Promise<string> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    try {
+      for await (const chunk of response.body ?? []) {
+        size += chunk.length;
+        if (size > this.options.maxBytes) {
+          throw new MetadataFetchError(`Document is larger than ${this.options.maxBytes} bytes`);
+        }
+        chunks.push(Buffer.from(chunk));
+      }
+    } catch (error: any) {
+      if (error instanceof MetadataFetchError) {
+        throw error;
+      }
+      this.logger.warn(`Reading ${response.url} failed: ${error?.message || error}`);
+      throw new MetadataFetchError('Request failed');
+    }
+    return Buffer.concat(chunks).toString('utf8');
+  }
+
+  // DNS lookup of the connections to untrusted hosts, failing unless every address is allowed
+  private lookupAllowed: LookupFunction = (hostname, options, callback) => {
+    this.policy.resolve(hostname).then(
+      addresses => {
+        if (addresses.length === 0 || !addresses.every(({ address }) => this.policy.isAllowed(address))) {
+          callback(new MetadataFetchError('Host is not allowed'), '');
+        } else if (options.all) {
+          callback(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+      error => {
+        this.logger.warn(`Could not resolve ${hostname}: ${error?.message || error}`);
+        callback(error, '');
+      }
+    );
+  };
+
+  private getGatewayOrigin(): string | null {
+    try {
+      return new URL(this.options.ipfsGateway).origin;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,26 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { MetadataDocument, OperatorMetadataURIUpdatedEvent } from '@eigen-layer-dashboard/lib';
+import { HttpMetadataFetcher, METADATA_FETCHER, METADATA_OPTIONS, getMetadataOptions } from './metadata.fetcher';
+import { MetadataService } from './metadata.service';
+import {
+  MetadataResolver,
+  OperatorMetadataResolver,
+  SubgraphOperatorMetadataResolver,
+  SubgraphAVSMetadataResolver,
+} from './metadata.resolver';
+
+@Module({
+  imports: [TypeOrmModule.forFeature([MetadataDocument, OperatorMetadataURIUpdatedEvent])],
+  providers: [
+    { provide: METADATA_OPTIONS, useFactory: getMetadataOptions },
+    { provide: METADATA_FETCHER, useClass: HttpMetadataFetcher },
+    MetadataService,
+    MetadataResolver,
+    OperatorMetadataResolver,
+    SubgraphOperatorMetadataResolver,
+    SubgraphAVSMetadataResolver,
+  ],
+  exports: [MetadataService],
+})
+export class MetadataModule {}
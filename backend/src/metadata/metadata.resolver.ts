@@ -0,0 +1,47 @@
+import { Resolver, Query, Args, ResolveField, Parent } from '@nestjs/graphql';
+import { MetadataService, MetadataRecord } from './metadata.service';
+import { OperatorMetadata } from './metadata.types';
+import { Operator } from '../graphql.types';
+import { SubgraphOperator, SubgraphAVS } from '../subgraph/subgraph.types';
+
+@Resolver()
+export class MetadataResolver {
+  constructor(private readonly metadataService: MetadataService) {}
+
+  @Query(() => OperatorMetadata, { nullable: true })
+  async operatorMetadata(@Args('uri') uri: string): Promise<MetadataRecord | null> {
+    return await this.metadataService.getDocument(uri);
+  }
+}
+
+// `metadata` is null until the document behind metadataURI has been fetched once
+
+@Resolver(() => Operator)
+export class OperatorMetadataResolver {
+  constructor(private readonly metadataService: MetadataService) {}
+
+  @ResolveField(() => OperatorMetadata, { nullable: true })
+  async metadata(@Parent() operator: Operator): Promise<MetadataRecord | null> {
+    return await this.metadataService.getMetadata(operator.metadataURI);
+  }
+}
+
+@Resolver(() => SubgraphOperator)
+export class SubgraphOperatorMetadataResolver {
+  constructor(private readonly metadataService: MetadataService) {}
+
+  @ResolveField(() => OperatorMetadata, { nullable: true })
+  async metadata(@Parent() operator: SubgraphOperator): Promise<MetadataRecord | null> {
+    return await this.metadataService.getMetadata(operator.metadataURI);
+  }
+}
+
+@Resolver(() => SubgraphAVS)
+export class SubgraphAVSMetadataResolver {
+  constructor(private readonly metadataService: MetadataService) {}
+
+  @ResolveField(() => OperatorMetadata, { nullable: true })
+  async metadata(@Parent() avs: SubgraphAVS): Promise<MetadataRecord | null> {
+    return await this.metadataService.getMetadata(avs.metadataURI);
+  }
+}
@@ -0,0 +1,292 @@
+import { Inject, Injectable, Logger, HttpException, HttpStatus } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { InjectRepository } from '@nestjs/typeorm';
+import { In, Repository } from 'typeorm';
+import {
+  MetadataDocument,
+  MetadataStatus,
+  OperatorMetadataURIUpdatedEvent,
+  validateEigenLayerMetadata,
+  resolveMetadataURI,
+} from '@eigen-layer-dashboard/lib';
+import { METADATA_FETCHER, METADATA_OPTIONS, MetadataFetchError, MetadataFetcher, MetadataOptions } from './metadata.fetcher';
+
+// Documents only change when a fetch completes, which also updates the registry directly
+const REGISTRY_TTL_MS = 60000;
+
+export interface MetadataRecord {
+  uri: string;
+  status: MetadataStatus;
+  name: string | null;
+  website: string | null;
+  logo: string | null;
+  description: string | null;
+  twitter: string | null;
+  error: string | null;
+  lastFetchedAt: number | null;
+}
+
+export const toMetadataRecord = (document: MetadataDocument): MetadataRecord => ({
+  uri: document.uri,
+  status: document.status,
+  name: document.name,
+  website: document.website,
+  logo: document.logo,
+  description: document.description,
+  twitter: document.twitter,
+  error: document.error,
+  lastFetchedAt: document.lastFetchedAt ? Math.floor(new Date(document.lastFetchedAt).getTime() / 1000) : null,
+});
+
+/**
+ * Fetches operator and AVS metadata documents and caches them in `metadata_documents`.
+ * Field resolvers read an in-memory copy of the table; URIs seen for the first time are
+ * queued and fetched in the background, and a scheduled run refreshes stale documents
+ * with conditional requests.
+ */
+@Injectable()
+export class MetadataService {
+  private readonly logger = new Logger(MetadataService.name);
+  private documents = new Map<string, MetadataRecord>();
+  private loadedAt = 0;
+  private loading: Promise<Map<string, MetadataRecord>> | null = null;
+  private readonly inFlight = new Map<string, Promise<MetadataRecord>>();
+  private readonly queue = new Set<string>();
+  private isDraining = false;
+  private isRefreshing = false;
+
+  constructor(
+    @InjectRepository(MetadataDocument)
+    private metadataRepository: Repository<MetadataDocument>,
+    @InjectRepository(OperatorMetadataURIUpdatedEvent)
+    private metadataURIUpdatedRepository: Repository<OperatorMetadataURIUpdatedEvent>,
+    @Inject(METADATA_FETCHER) private readonly fetcher: MetadataFetcher,
+    @Inject(METADATA_OPTIONS) private readonly options: MetadataOptions,
+  ) {}
+
+  /**
+   * Cached document of a metadata URI. Returns null for a URI that has not been
+   * fetched yet and queues it, so it shows up on a later request.
+   */
+  async getMetadata(uri?: string | null): Promise<MetadataRecord | null> {
+    const key = uri?.trim();
+    if (!key) {
+      return null;
+    }
+
+    const document = (await this.getRegistry()).get(key);
+    if (document) {
+      return document;
+    }
+
+    this.enqueue(key);
+    return null;
+  }
+
+  async getDocument(uri: string): Promise<MetadataRecord | null> {
+    try {
+      const document = await this.metadataRepository.findOneBy({ uri: uri.trim() });
+      return document ? toMetadataRecord(document) : null;
+    } catch (error) {
+      console.error('Error in getDocument:', error);
+      throw new HttpException(
+        'Failed to fetch metadata document',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Fetches one document now, sending the validators of the cached copy. Concurrent
+   * calls for the same URI share one request.
+   */
+  async refreshDocument(uri: string): Promise<MetadataRecord> {
+    const pending = this.inFlight.get(uri);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.fetchDocument(uri).finally(() => {
+      this.inFlight.delete(uri);
+    });
+    this.inFlight.set(uri, request);
+    return request;
+  }
+
+  // Also picks up the latest metadata URI of every operator indexed locally
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async refreshStaleDocuments(): Promise<void> {
+    if (this.isRefreshing) {
+      return;
+    }
+
+    this.isRefreshing = true;
+    try {
+      await this.discoverOperatorURIs();
+
+      const now = Date.now();
+      const stale = await this.metadataRepository
+        .createQueryBuilder('document')
+        .where('document.lastFetchedAt IS NULL')
+        .orWhere('(document.status = :valid AND document.lastFetchedAt < :refreshBefore)', {
+          valid: 'valid',
+          refreshBefore: new Date(now - this.options.refreshIntervalMs),
+        })
+        .orWhere('(document.status != :valid AND document.lastFetchedAt < :retryBefore)', {
+          retryBefore: new Date(now - this.options.retryIntervalMs),
+        })
+        .orderBy('document.lastFetchedAt', 'ASC', 'NULLS FIRST')
+        .take(this.options.batchSize)
+        .getMany();
+
+      if (stale.length > 0) {
+        this.logger.log(`Refreshing ${stale.length} metadata documents...`);
+      }
+      for (const document of stale) {
+        await this.refreshDocument(document.uri);
+      }
+    } catch (error) {
+      this.logger.error('Error refreshing metadata documents:', error);
+    } finally {
+      this.isRefreshing = false;
+    }
+  }
+
+  private async fetchDocument(uri: string): Promise<MetadataRecord> {
+    const document = await this.metadataRepository.findOneBy({ uri })
+      ?? this.metadataRepository.create({ uri, status: 'pending' });
+    const now = new Date();
+    document.lastFetchedAt = now;
+
+    const url = resolveMetadataURI(uri, this.options.ipfsGateway);
+    if (!url) {
+      document.status = 'error';
+      document.error = 'Unsupported metadata URI';
+      return this.saveDocument(document);
+    }
+
+    try {
+      // The cached fields only match the validators when the last fetch got a document
+      const hasContent = document.status === 'valid' || document.status === 'invalid';
+      const response = await this.fetcher.fetch({
+        url,
+        etag: hasContent ? document.etag : null,
+        lastModified: hasContent ? document.lastModified : null,
+      });
+
+      if (response.status === 'not-modified') {
+        return this.saveDocument(document);
+      }
+
+      const { metadata, errors } = validateEigenLayerMetadata(response.body);
+      const changed = (Object.keys(metadata) as (keyof typeof metadata)[])
+        .some(field => document[field] !== metadata[field]);
+
+      Object.assign(document, metadata);
+      document.status = errors.length > 0 ? 'invalid' : 'valid';
+      document.error = errors.length > 0 ? errors.join('; ') : null;
+      document.etag = response.etag;
+      document.lastModified = response.lastModified;
+      if (changed || !document.lastChangedAt) {
+        document.lastChangedAt = now;
+      }
+    } catch (error: any) {
+      this.logger.warn(`Failed to fetch metadata ${uri}: ${error?.message || error}`);
+      document.status = 'error';
+      // Only the fetcher's own messages are stored, other errors may carry network details
+      document.error = error instanceof MetadataFetchError ? error.message : 'Request failed';
+    }
+
+    return this.saveDocument(document);
+  }
+
+  private async saveDocument(document: MetadataDocument): Promise<MetadataRecord> {
+    const record = toMetadataRecord(await this.metadataRepository.save(document));
+    this.documents.set(record.uri, record);
+    return record;
+  }
+
+  private enqueue(uri: string): void {
+    this.queue.add(uri);
+    if (!this.isDraining) {
+      void this.drainQueue();
+    }
+  }
+
+  // One request at a time, so a page of unseen operators does not fan out to every host at once
+  private async drainQueue(): Promise<void> {
+    this.isDraining = true;
+    try {
+      for (const uri of this.queue) {
+        this.queue.delete(uri);
+        try {
+          await this.refreshDocument(uri);
+        } catch (error) {
+          this.logger.error(`Error fetching metadata ${uri}:`, error);
+        }
+      }
+    } finally {
+      this.isDraining = false;
+    }
+  }
+
+  private async discoverOperatorURIs(): Promise<void> {
+    const rows: { uri: string }[] = await this.metadataURIUpdatedRepository.query(
+      `SELECT DISTINCT m.metadatauri AS uri
+      FROM operator_metadata_uri_updated_events m
+      WHERE m.metadatauri <> ''
+        AND NOT EXISTS (
+          SELECT 1 FROM operator_metadata_uri_updated_events newer
+          WHERE newer.operator = m.operator
+            AND (newer.blocknumber > m.blocknumber
+              OR (newer.blocknumber = m.blocknumber AND newer.logindex > m.logindex))
+        )`
+    );
+
+    const uris = rows.map(row => row.uri.trim()).filter(uri => uri !== '');
+    // Chunked to stay below the SQLite bound parameter limit
+    for (let i = 0; i < uris.length; i += 100) {
+      const chunk = uris.slice(i, i + 100);
+      const known = new Set(
+        (await this.metadataRepository.find({ select: { uri: true }, where: { uri: In(chunk) } })).map(document => document.uri)
+      );
+      const unknown = chunk.filter(uri => !known.has(uri));
+      if (unknown.length > 0) {
+        await this.metadataRepository
+          .createQueryBuilder()
+          .insert()
+          .values(unknown.map(uri => ({ uri, status: 'pending' as MetadataStatus })))
+          .orIgnore()
+          .execute();
+      }
+    }
+  }
+
+  // Same reload scheme as the label registry: concurrent callers share one load and a
+  // failed load keeps serving the previous copy until the TTL expires again
+  private async getRegistry(): Promise<Map<string, MetadataRecord>> {
+    if (Date.now() - this.loadedAt < REGISTRY_TTL_MS) {
+      return this.documents;
+    }
+
+    if (!this.loading) {
+      this.loading = this.loadRegistry()
+        .catch(error => {
+          this.logger.error('Error loading metadata documents:', error);
+          this.loadedAt = Date.now();
+          return this.documents;
+        })
+        .finally(() => {
+          this.loading = null;
+        });
+    }
+    return this.loading;
+  }
+
+  private async loadRegistry(): Promise<Map<string, MetadataRecord>> {
+    const rows = await this.metadataRepository.find();
+    this.documents = new Map(rows.map(row => [row.uri, toMetadataRecord(row)]));
+    this.loadedAt = Date.now();
+    return this.documents;
+  }
+}
@@ -0,0 +1,31 @@
+import { ObjectType, Field, Int } from '@nestjs/graphql';
+
+@ObjectType({ description: 'Operator or AVS metadata JSON referenced by a metadataURI' })
+export class OperatorMetadata {
+  @Field()
+  uri: string;
+
+  @Field({ description: 'pending, valid, invalid or error' })
+  status: string;
+
+  @Field({ nullable: true })
+  name?: string;
+
+  @Field({ nullable: true })
+  website?: string;
+
+  @Field({ nullable: true })
+  logo?: string;
+
+  @Field({ nullable: true })
+  description?: string;
+
+  @Field({ nullable: true })
+  twitter?: string;
+
+  @Field({ nullable: true, description: 'Validation errors or the error of the last fetch' })
+  error?: string;
+
+  @Field(() => Int, { nullable: true, description: 'Unix timestamp' })
+  lastFetchedAt?: number;
+}
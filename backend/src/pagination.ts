@@ -0,0 +1,183 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+
+// Upper bound on a single page so a client cannot request the whole table at once
+export const MAX_PAGE_SIZE = 1000;
+
+export interface PageArgs {
+  // Forward pagination: `first` rows after the `after` cursor
+  first?: number;
+  after?: string;
+  // Backward pagination: `last` rows before the `before` cursor, or the last rows of the list without one
+  last?: number;
+  before?: string;
+  // Offset, only used when no cursor is given
+  skip?: number;
+}
+
+export type SortDirection = 'ASC' | 'DESC';
+
+export interface EventOrder {
+  // Entity property to sort on before (blockNumber, logIndex); block order when omitted
+  property?: string;
+  // Compare the property as a number, for amounts stored as strings
+  numeric?: boolean;
+  direction?: SortDirection;
+}
+
+export interface EventCursor {
+  blockNumber: number;
+  logIndex: number;
+  // Sort property value of the row, only set when ordering by a property
+  value?: string;
+}
+
+export interface PageInfoRecord {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor?: string;
+  endCursor?: string;
+}
+
+export interface ConnectionRecord<T> {
+  edges: { cursor: string; node: T }[];
+  pageInfo: PageInfoRecord;
+  totalCount: number;
+}
+
+/**
+ * Page arguments of a list query that also takes a `limit`. The limit is the page size when the
+ * client sets neither `first` nor `last`, so `last` alone pages backward from the end.
+ */
+export function toPageArgs(limit: number, { first, after, last, before, skip }: PageArgs): PageArgs {
+  return { first: first ?? (last == null ? limit : undefined), after, last, before, skip };
+}
+
+// Whether the page is read backward: `last` without `before` pages backward from the end of the list
+export function isBackward(page: PageArgs): boolean {
+  return !page.after && (!!page.before || (page.last != null && page.first == null));
+}
+
+export function getPageSize(page: PageArgs, backward: boolean = isBackward(page)): number {
+  return Math.min(Math.max((backward ? page.last ?? page.first : page.first) ?? 100, 1), MAX_PAGE_SIZE);
+}
+
+export function encodeCursor(cursor: EventCursor): string {
+  const parts = [cursor.blockNumber, cursor.logIndex];
+  const raw = cursor.value === undefined ? parts.join(':') : [...parts, cursor.value].join(':');
+  return Buffer.from(raw).toString('base64');
+}
+
+export function decodeCursor(cursor: string): EventCursor {
+  const [block, log, ...rest] = Buffer.from(cursor, 'base64').toString('utf8').split(':');
+  const blockNumber = Number(block);
+  const logIndex = Number(log);
+  if (!Number.isInteger(blockNumber) || !Number.isInteger(logIndex)) {
+    throw new HttpException(`Invalid cursor: ${cursor}`, HttpStatus.BAD_REQUEST);
+  }
+  return rest.length > 0 ? { blockNumber, logIndex, value: rest.join(':') } : { blockNumber, logIndex };
+}
+
+/**
+ * Cursor of a row that is not an event: its sort value and a unique key breaking ties
+ */
+export function encodeKeyCursor(value: string, key: string): string {
+  return Buffer.from(`${value}:${key}`).toString('base64');
+}
+
+export function decodeKeyCursor(cursor: string): { value: string; key: string } {
+  const raw = Buffer.from(cursor, 'base64').toString('utf8');
+  const separator = raw.lastIndexOf(':');
+  if (separator <= 0 || separator === raw.length - 1) {
+    throw new HttpException(`Invalid cursor: ${cursor}`, HttpStatus.BAD_REQUEST);
+  }
+  return { value: raw.slice(0, separator), key: raw.slice(separator + 1) };
+}
+
+/**
+ * Pages an event query using (blockNumber, logIndex) as the key, newest first by default.
+ * Cursor pages seek directly to their position, so deep pages cost the same as the first one.
+ * @param query - Filtered query over an event entity, without ordering or limits
+ * @param alias - Alias of the event entity in `query`
+ * @param order - Optional sort property, ties are broken by block and log index
+ */
+export async function paginateEvents<T extends ObjectLiteral & EventCursor>(
+  query: SelectQueryBuilder<T>,
+  alias: string,
+  page: PageArgs,
+  order: EventOrder = {}
+): Promise<ConnectionRecord<T>> {
+  const backward = isBackward(page);
+  const size = getPageSize(page, backward);
+  const totalCount = await query.clone().getCount();
+
+  // Walking backwards reads the rows in reverse and flips them afterwards
+  const forwardDirection = order.direction ?? 'DESC';
+  const direction: SortDirection = backward ? (forwardDirection === 'DESC' ? 'ASC' : 'DESC') : forwardDirection;
+  const sortKey = order.property
+    ? order.numeric ? `CAST(${alias}.${order.property} AS NUMERIC)` : `${alias}.${order.property}`
+    : null;
+
+  const rowsQuery = query.clone();
+  const cursor = page.after ?? page.before;
+  if (cursor) {
+    const { blockNumber, logIndex, value } = decodeCursor(cursor);
+    const operator = direction === 'DESC' ? '<' : '>';
+    const parameters = { cursorBlockNumber: blockNumber, cursorLogIndex: logIndex, cursorValue: value };
+    const afterBlock = `(${alias}.blockNumber ${operator} :cursorBlockNumber OR (${alias}.blockNumber = :cursorBlockNumber AND ${alias}.logIndex ${operator} :cursorLogIndex))`;
+
+    if (sortKey) {
+      if (value === undefined) {
+        throw new HttpException(`Cursor ${cursor} does not match the requested order`, HttpStatus.BAD_REQUEST);
+      }
+      const cursorValue = order.numeric ? 'CAST(:cursorValue AS NUMERIC)' : ':cursorValue';
+      rowsQuery.andWhere(
+        `(${sortKey} ${operator} ${cursorValue} OR (${sortKey} = ${cursorValue} AND ${afterBlock}))`,
+        parameters
+      );
+    } else {
+      rowsQuery.andWhere(afterBlock, parameters);
+    }
+  } else if (page.skip) {
+    rowsQuery.skip(page.skip);
+  }
+
+  if (sortKey) {
+    rowsQuery.orderBy(sortKey, direction).addOrderBy(`${alias}.blockNumber`, direction);
+  } else {
+    rowsQuery.orderBy(`${alias}.blockNumber`, direction);
+  }
+  const rows = await rowsQuery
+    .addOrderBy(`${alias}.logIndex`, direction)
+    .take(size + 1)
+    .getMany();
+
+  const hasMore = rows.length > size;
+  const nodes = rows.slice(0, size);
+  if (backward) {
+    nodes.reverse();
+  }
+
+  const edges = nodes.map(node => ({
+    cursor: encodeCursor({
+      blockNumber: node.blockNumber,
+      logIndex: node.logIndex,
+      value: order.property ? String(node[order.property]) : undefined,
+    }),
+    node,
+  }));
+  return { edges, pageInfo: getPageInfo(edges, page, backward, hasMore), totalCount };
+}
+
+/**
+ * @param hasMore - Whether rows were left past the page in the direction it was read
+ */
+export function getPageInfo(edges: { cursor: string }[], page: PageArgs, backward: boolean, hasMore: boolean): PageInfoRecord {
+  return {
+    // Rows after `before` exist by definition; without it the page ends the list
+    hasNextPage: backward ? !!page.before : hasMore,
+    hasPreviousPage: backward ? hasMore : !!page.after || (page.skip ?? 0) > 0,
+    startCursor: edges[0]?.cursor,
+    endCursor: edges[edges.length - 1]?.cursor,
+  };
+}
@@ -2,12 +2,29 @@ import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
 import { InjectRepository } from '@nestjs/typeorm';
 import { Repository } from 'typeorm';
 import { StakedEthEvent } from '@eigen-layer-dashboard/lib';
+import { PageArgs, ConnectionRecord, EventOrder, paginateEvents } from './pagination';
+import { EventFilterBuilder } from './event-filter';
+
+// Every set field narrows the result; `*_in` lists match any of their values
+export interface StakedEthFilter {
+  pubkey?: string;
+  pubkey_in?: string[];
+  withdrawalCredentials?: string;
+  withdrawalCredentials_in?: string[];
+  blockNumber?: number;
+  startBlock?: number;
+  endBlock?: number;
+  // Unix timestamps
+  startTime?: number;
+  endTime?: number;
+}
 
 export interface StakedEthStats {
   totalEvents: number;
   totalStaked: string;
   uniqueValidators: number;
   averageStake: string;
+  lastBlock: number;
 }
 
 export interface StakedEthByBlock {
@@ -15,6 +32,41 @@ export interface StakedEthByBlock {
   blockTimestamp: number;
   totalDeposited: string;
   eventCount: number;
+  uniqueValidators: number;
+}
+
+export type StakedEthGranularity = 'hour' | 'day' | 'week' | 'month';
+
+export interface StakedEthTimeBucket {
+  // Unix timestamp (UTC) the bucket starts at
+  bucketStart: number;
+  firstBlock: number;
+  lastBlock: number;
+  totalDeposited: string;
+  eventCount: number;
+  uniqueValidators: number;
+  // Running totals since the first indexed deposit, including the bucket
+  cumulativeDeposited: string;
+  cumulativeEventCount: number;
+}
+
+export interface StakedEthByDay {
+  // UTC date, YYYY-MM-DD
+  day: string;
+  totalDeposited: string;
+  eventCount: number;
+  uniqueValidators: number;
+  firstBlock: number;
+  lastBlock: number;
+}
+
+export interface StakedEthByWithdrawalCredentials {
+  withdrawalCredentials: string;
+  totalDeposited: string;
+  eventCount: number;
+  uniqueValidators: number;
+  firstBlock: number;
+  lastBlock: number;
 }
 
 @Injectable()
@@ -45,6 +97,39 @@ export class StakedEthService {
     }
   }
 
+  /**
+   * Pages deposits with the total number of matching rows
+   */
+  async getStakedEthConnection(
+    filter: StakedEthFilter,
+    page: PageArgs,
+    order: EventOrder = {}
+  ): Promise<ConnectionRecord<StakedEthEvent>> {
+    try {
+      // Deposit bytes are stored as lowercase hex
+      const query = new EventFilterBuilder(this.stakedEthRepository.createQueryBuilder('event'), 'event')
+        .equals('pubkey', filter.pubkey, true)
+        .in('pubkey', filter.pubkey_in, true)
+        .equals('withdrawalCredentials', filter.withdrawalCredentials, true)
+        .in('withdrawalCredentials', filter.withdrawalCredentials_in, true)
+        .range('blockNumber', filter.blockNumber, filter.blockNumber)
+        .range('blockNumber', filter.startBlock, filter.endBlock)
+        .range('blockTimestamp', filter.startTime, filter.endTime)
+        .build();
+
+      return await paginateEvents(query, 'event', page, order);
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error in getStakedEthConnection:', error);
+      throw new HttpException(
+        'Failed to query staked ETH events from database',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   async getStakedEthEventsByPubkey(pubkey: string): Promise<StakedEthEvent[]> {
     try {
       return await this.stakedEthRepository.find({
@@ -62,9 +147,10 @@ export class StakedEthService {
 
   async getStakedEthEventsByWithdrawalCredentials(withdrawalCredentials: string): Promise<StakedEthEvent[]> {
     try {
-      // This method needs to be implemented in the database interface
-      // For now, we'll return empty array
-      return [];
+      return await this.stakedEthRepository.find({
+        where: { withdrawalCredentials: withdrawalCredentials.toLowerCase() },
+        order: { blockNumber: 'DESC', logIndex: 'DESC' },
+      });
     } catch (error) {
       console.error('Error querying staked ETH events by withdrawal credentials:', error);
       throw new HttpException(
@@ -96,24 +182,15 @@ export class StakedEthService {
 
   async getStakedEthStats(): Promise<StakedEthStats> {
     try {
-      const totalStakedResult = await this.stakedEthRepository
+      const result = await this.stakedEthRepository
         .createQueryBuilder('event')
-        .select('SUM(CAST(event.amount AS DECIMAL))', 'total')
+        .select('COUNT(*)', 'totalEvents')
+        .addSelect('COALESCE(SUM(CAST(event.amount AS DECIMAL)), 0)', 'totalStaked')
+        .addSelect('COUNT(DISTINCT event.pubkey)', 'uniqueValidators')
+        .addSelect('COALESCE(MAX(event.blockNumber), 0)', 'lastBlock')
         .getRawOne();
-      
-      const totalStaked = totalStakedResult?.total || '0';
-      const events = await this.stakedEthRepository.find({ take: 1000 });
-      
-      const uniqueValidators = new Set(events.map(event => event.pubkey)).size;
-      const totalEvents = events.length;
-      const averageStake = totalEvents > 0 ? (BigInt(totalStaked) / BigInt(totalEvents)).toString() : '0';
-
-      return {
-        totalEvents,
-        totalStaked,
-        uniqueValidators,
-        averageStake
-      };
+
+      return toStakedEthStats(result);
     } catch (error) {
       console.error('Error calculating staked ETH stats:', error);
       throw new HttpException(
@@ -123,18 +200,15 @@ export class StakedEthService {
     }
   }
 
-  async getStakedEthByBlock(): Promise<StakedEthByBlock[]> {
+  async getStakedEthByBlock(limit: number = 100, offset: number = 0): Promise<StakedEthByBlock[]> {
     try {
-      return await this.stakedEthRepository
-        .createQueryBuilder('event')
-        .select('event.blockNumber', 'blockNumber')
-        .addSelect('event.blockTimestamp', 'blockTimestamp')
-        .addSelect('SUM(CAST(event.amount AS DECIMAL))', 'totalDeposited')
-        .addSelect('COUNT(*)', 'eventCount')
-        .groupBy('event.blockNumber')
-        .addGroupBy('event.blockTimestamp')
+      const rows = await this.groupByBlock()
         .orderBy('event.blockNumber', 'DESC')
+        .limit(limit)
+        .offset(offset)
         .getRawMany();
+
+      return rows.map(toStakedEthByBlock);
     } catch (error) {
       console.error('Error fetching staked ETH by block:', error);
       throw new HttpException(
@@ -144,6 +218,67 @@ export class StakedEthService {
     }
   }
 
+  async getStakedEthByDay(fromDate?: string, toDate?: string): Promise<StakedEthByDay[]> {
+    try {
+      const day = this.isPostgres()
+        ? `TO_CHAR(TO_TIMESTAMP(event.blockTimestamp) AT TIME ZONE 'UTC', 'YYYY-MM-DD')`
+        : `DATE(event.blockTimestamp, 'unixepoch')`;
+
+      const query = this.stakedEthRepository
+        .createQueryBuilder('event')
+        .select(day, 'day')
+        .addSelect('SUM(CAST(event.amount AS DECIMAL))', 'totalDeposited')
+        .addSelect('COUNT(*)', 'eventCount')
+        .addSelect('COUNT(DISTINCT event.pubkey)', 'uniqueValidators')
+        .addSelect('MIN(event.blockNumber)', 'firstBlock')
+        .addSelect('MAX(event.blockNumber)', 'lastBlock')
+        .groupBy(day)
+        .orderBy(day, 'DESC');
+
+      if (fromDate) {
+        query.andWhere(`${day} >= :fromDate`, { fromDate });
+      }
+      if (toDate) {
+        query.andWhere(`${day} <= :toDate`, { toDate });
+      }
+
+      const rows = await query.getRawMany();
+      return rows.map(toStakedEthByDay);
+    } catch (error) {
+      console.error('Error fetching staked ETH by day:', error);
+      throw new HttpException(
+        'Failed to fetch staked ETH by day data',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
+  async getStakedEthByWithdrawalCredentials(limit: number = 100, offset: number = 0): Promise<StakedEthByWithdrawalCredentials[]> {
+    try {
+      const rows = await this.stakedEthRepository
+        .createQueryBuilder('event')
+        .select('LOWER(event.withdrawalCredentials)', 'withdrawalCredentials')
+        .addSelect('SUM(CAST(event.amount AS DECIMAL))', 'totalDeposited')
+        .addSelect('COUNT(*)', 'eventCount')
+        .addSelect('COUNT(DISTINCT event.pubkey)', 'uniqueValidators')
+        .addSelect('MIN(event.blockNumber)', 'firstBlock')
+        .addSelect('MAX(event.blockNumber)', 'lastBlock')
+        .groupBy('LOWER(event.withdrawalCredentials)')
+        .orderBy('SUM(CAST(event.amount AS DECIMAL))', 'DESC')
+        .limit(limit)
+        .offset(offset)
+        .getRawMany();
+
+      return rows.map(toStakedEthByWithdrawalCredentials);
+    } catch (error) {
+      console.error('Error fetching staked ETH by withdrawal credentials:', error);
+      throw new HttpException(
+        'Failed to fetch staked ETH by withdrawal credentials data',
+        HttpStatus.INTERNAL_SERVER_ERROR,
+      );
+    }
+  }
+
   async getTotalStakedEth(): Promise<string> {
     try {
       const result = await this.stakedEthRepository
@@ -197,35 +332,15 @@ export class StakedEthService {
 
   async getStakedEthSummaryByBlockRange(startBlock: number, endBlock: number): Promise<StakedEthByBlock[]> {
     try {
-      const events = await this.stakedEthRepository
-        .createQueryBuilder('event')
+      const rows = await this.groupByBlock()
         .where('event.blockNumber >= :startBlock AND event.blockNumber <= :endBlock', {
           startBlock,
           endBlock,
         })
         .orderBy('event.blockNumber', 'DESC')
-        .addOrderBy('event.logIndex', 'DESC')
-        .getMany();
-      // Group by block and calculate summary
-      const blockMap = new Map<number, StakedEthByBlock>();
-      
-      events.forEach(event => {
-        const blockNumber = event.blockNumber;
-        if (!blockMap.has(blockNumber)) {
-          blockMap.set(blockNumber, {
-            blockNumber,
-            blockTimestamp: event.blockTimestamp,
-            totalDeposited: '0',
-            eventCount: 0
-          });
-        }
-        
-        const blockData = blockMap.get(blockNumber)!;
-        blockData.totalDeposited = (BigInt(blockData.totalDeposited) + BigInt(event.amount)).toString();
-        blockData.eventCount++;
-      });
-      
-      return Array.from(blockMap.values());
+        .getRawMany();
+
+      return rows.map(toStakedEthByBlock);
     } catch (error) {
       console.error('Error in getStakedEthSummaryByBlockRange:', error);
       throw new HttpException(
@@ -235,6 +350,64 @@ export class StakedEthService {
     }
   }
 
+  async getStakedEthByTimeBucket(granularity: StakedEthGranularity, from?: number, to?: number): Promise<StakedEthTimeBucket[]> {
+    try {
+      const bucket = this.bucketExpression(granularity);
+      const query = this.stakedEthRepository
+        .createQueryBuilder('event')
+        .select(bucket, 'bucketStart')
+        .addSelect('MIN(event.blockNumber)', 'firstBlock')
+        .addSelect('MAX(event.blockNumber)', 'lastBlock')
+        .addSelect('SUM(CAST(event.amount AS DECIMAL))', 'totalDeposited')
+        .addSelect('COUNT(*)', 'eventCount')
+        .addSelect('COUNT(DISTINCT event.pubkey)', 'uniqueValidators')
+        .addSelect(`SUM(SUM(CAST(event.amount AS DECIMAL))) OVER (ORDER BY ${bucket})`, 'cumulativeDeposited')
+        .addSelect(`SUM(COUNT(*)) OVER (ORDER BY ${bucket})`, 'cumulativeEventCount')
+        .groupBy(bucket)
+        .orderBy(bucket, 'ASC');
+
+      if (from !== undefined) {
+        query.andWhere('event.blockTimestamp >= :from', { from });
+      }
+      if (to !== undefined) {
+        query.andWhere('event.blockTimestamp <= :to', { to });
+      }
+
+      const rows = await query.getRawMany();
+
+      // The window sums only see the requested range, add everything deposited before it
+      let baseDeposited = BigInt(0);
+      let baseEventCount = 0;
+      if (from !== undefined && rows.length > 0) {
+        const before = await this.stakedEthRepository
+          .createQueryBuilder('event')
+          .select('COALESCE(SUM(CAST(event.amount AS DECIMAL)), 0)', 'totalDeposited')
+          .addSelect('COUNT(*)', 'eventCount')
+          .where('event.blockTimestamp < :from', { from })
+          .getRawOne();
+        baseDeposited = BigInt(toAmount(before?.totalDeposited));
+        baseEventCount = Number(before?.eventCount ?? 0);
+      }
+
+      return rows.map(row => ({
+        bucketStart: Number(row.bucketStart),
+        firstBlock: Number(row.firstBlock),
+        lastBlock: Number(row.lastBlock),
+        totalDeposited: toAmount(row.totalDeposited),
+        eventCount: Number(row.eventCount),
+        uniqueValidators: Number(row.uniqueValidators),
+        cumulativeDeposited: (baseDeposited + BigInt(toAmount(row.cumulativeDeposited))).toString(),
+        cumulativeEventCount: baseEventCount + Number(row.cumulativeEventCount),
+      }));
+    } catch (error) {
+      console.error('Error in getStakedEthByTimeBucket:', error);
+      throw new HttpException(
+        'Failed to fetch staked ETH by time bucket',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
   async getStakedEthByBlockRange(startBlock: number, endBlock: number): Promise<StakedEthByBlock[]> {
     try {
       return await this.getStakedEthSummaryByBlockRange(startBlock, endBlock);
@@ -246,4 +419,90 @@ export class StakedEthService {
       );
     }
   }
-}
\ No newline at end of file
+
+  // Per-block aggregate, grouped in SQL rather than in memory
+  private groupByBlock() {
+    return this.stakedEthRepository
+      .createQueryBuilder('event')
+      .select('event.blockNumber', 'blockNumber')
+      .addSelect('MAX(event.blockTimestamp)', 'blockTimestamp')
+      .addSelect('SUM(CAST(event.amount AS DECIMAL))', 'totalDeposited')
+      .addSelect('COUNT(*)', 'eventCount')
+      .addSelect('COUNT(DISTINCT event.pubkey)', 'uniqueValidators')
+      .groupBy('event.blockNumber');
+  }
+
+  // Start of the UTC bucket containing the block timestamp, as a unix timestamp
+  private bucketExpression(granularity: StakedEthGranularity): string {
+    switch (granularity) {
+      case 'hour':
+        return '(event.blockTimestamp / 3600) * 3600';
+      case 'day':
+        return '(event.blockTimestamp / 86400) * 86400';
+      case 'week':
+        // Weeks start on Monday; the epoch was a Thursday, 3 days (259200s) after the previous Monday
+        return '((event.blockTimestamp + 259200) / 604800) * 604800 - 259200';
+      case 'month':
+        return this.isPostgres()
+          ? `CAST(EXTRACT(EPOCH FROM DATE_TRUNC('month', TO_TIMESTAMP(event.blockTimestamp) AT TIME ZONE 'UTC')) AS INTEGER)`
+          : `CAST(STRFTIME('%s', event.blockTimestamp, 'unixepoch', 'start of month') AS INTEGER)`;
+    }
+  }
+
+  private isPostgres(): boolean {
+    return this.stakedEthRepository.manager.connection.options.type === 'postgres';
+  }
+}
+
+// Aggregates come back as strings from Postgres (COUNT, NUMERIC) and may be floats from SQLite
+export function toAmount(value: any): string {
+  if (value === null || value === undefined) {
+    return '0';
+  }
+  return typeof value === 'number' ? BigInt(Math.round(value)).toString() : String(value).split('.')[0];
+}
+
+export function toStakedEthStats(row: any): StakedEthStats {
+  const totalEvents = Number(row?.totalEvents ?? row?.totalevents ?? 0);
+  const totalStaked = toAmount(row?.totalStaked ?? row?.totalstaked);
+
+  return {
+    totalEvents,
+    totalStaked,
+    uniqueValidators: Number(row?.uniqueValidators ?? row?.uniquevalidators ?? 0),
+    averageStake: totalEvents > 0 ? (BigInt(totalStaked) / BigInt(totalEvents)).toString() : '0',
+    lastBlock: Number(row?.lastBlock ?? row?.lastblock ?? 0),
+  };
+}
+
+export function toStakedEthByBlock(row: any): StakedEthByBlock {
+  return {
+    blockNumber: Number(row.blockNumber ?? row.blocknumber),
+    blockTimestamp: Number(row.blockTimestamp ?? row.blocktimestamp ?? 0),
+    totalDeposited: toAmount(row.totalDeposited ?? row.totaldeposited),
+    eventCount: Number(row.eventCount ?? row.eventcount ?? 0),
+    uniqueValidators: Number(row.uniqueValidators ?? row.uniquevalidators ?? 0),
+  };
+}
+
+export function toStakedEthByDay(row: any): StakedEthByDay {
+  return {
+    day: String(row.day),
+    totalDeposited: toAmount(row.totalDeposited ?? row.totaldeposited),
+    eventCount: Number(row.eventCount ?? row.eventcount ?? 0),
+    uniqueValidators: Number(row.uniqueValidators ?? row.uniquevalidators ?? 0),
+    firstBlock: Number(row.firstBlock ?? row.firstblock ?? 0),
+    lastBlock: Number(row.lastBlock ?? row.lastblock ?? 0),
+  };
+}
+
+export function toStakedEthByWithdrawalCredentials(row: any): StakedEthByWithdrawalCredentials {
+  return {
+    withdrawalCredentials: row.withdrawalCredentials ?? row.withdrawalcredentials,
+    totalDeposited: toAmount(row.totalDeposited ?? row.totaldeposited),
+    eventCount: Number(row.eventCount ?? row.eventcount ?? 0),
+    uniqueValidators: Number(row.uniqueValidators ?? row.uniquevalidators ?? 0),
+    firstBlock: Number(row.firstBlock ?? row.firstblock ?? 0),
+    lastBlock: Number(row.lastBlock ?? row.lastblock ?? 0),
+  };
+}
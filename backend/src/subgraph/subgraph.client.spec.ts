@@ -0,0 +1,213 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Logger } from '@nestjs/common';
+import { getSubgraphClientOptions, SubgraphClient, SubgraphClientOptions, SubgraphError } from './subgraph.client';
+
+const QUERY = 'query GetOperators($first: Int!) { operators(first: $first) { id } }';
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * GraphQL endpoint answering every query with `data`, or with the status or errors set per test
+ */
+class StubSubgraph {
+  url = '';
+  // Path and body of every request received
+  requests: { path: string; body: any }[] = [];
+  status = 200;
+  errors?: unknown[];
+  delayMs = 0;
+  data: unknown = { operators: [{ id: '0x01' }] };
+  private server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      this.requests.push({ path: request.url ?? '', body: JSON.parse(body) });
+      setTimeout(() => {
+        response.writeHead(this.status, { 'content-type': 'application/json' });
+        response.end(JSON.stringify(this.errors ? { errors: this.errors } : { data: this.data }));
+      }, this.delayMs).unref();
+    });
+  });
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  reset(): void {
+    Object.assign(this, { requests: [], status: 200, errors: undefined, delayMs: 0, data: { operators: [{ id: '0x01' }] } });
+  }
+}
+
+describe('SubgraphClient', () => {
+  const subgraph = new StubSubgraph();
+
+  const createClient = (options: Partial<SubgraphClientOptions> = {}) =>
+    new SubgraphClient({ endpoint: `${subgraph.url}/subgraphs/eigen`, cacheTtlMs: 60000, cacheMaxEntries: 10, timeoutMs: 2000, ...options });
+
+  beforeAll(async () => {
+    jest.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    await subgraph.start();
+  });
+
+  beforeEach(() => {
+    subgraph.reset();
+  });
+
+  afterAll(async () => {
+    await subgraph.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('posts the query and its variables to the configured endpoint', async () => {
+    const client = createClient();
+
+    expect(await client.query(QUERY, { first: 5 })).toEqual({ operators: [{ id: '0x01' }] });
+    expect(subgraph.requests).toEqual([{ path: '/subgraphs/eigen', body: { query: QUERY, variables: { first: 5 } } }]);
+  });
+
+  describe('cache', () => {
+    it('answers a repeated query from the cache', async () => {
+      const client = createClient();
+      await client.query(QUERY, { first: 5 });
+      subgraph.data = { operators: [] };
+
+      expect(await client.query(QUERY, { first: 5 })).toEqual({ operators: [{ id: '0x01' }] });
+      expect(subgraph.requests).toHaveLength(1);
+    });
+
+    it('keys the cache on the variables', async () => {
+      const client = createClient();
+      await client.query(QUERY, { first: 5 });
+      await client.query(QUERY, { first: 10 });
+
+      expect(subgraph.requests.map(request => request.body.variables)).toEqual([{ first: 5 }, { first: 10 }]);
+    });
+
+    it('asks the subgraph again once the entry expired', async () => {
+      const client = createClient({ cacheTtlMs: 50 });
+      await client.query(QUERY, { first: 5 });
+      await sleep(80);
+
+      await client.query(QUERY, { first: 5 });
+      expect(subgraph.requests).toHaveLength(2);
+    });
+
+    it('evicts the least recently used entry when full', async () => {
+      const client = createClient({ cacheMaxEntries: 2 });
+      await client.query(QUERY, { first: 1 });
+      await client.query(QUERY, { first: 2 });
+      // Reading the first entry makes the second one the oldest
+      await client.query(QUERY, { first: 1 });
+      await client.query(QUERY, { first: 3 });
+
+      await client.query(QUERY, { first: 1 });
+      await client.query(QUERY, { first: 2 });
+      expect(subgraph.requests.map(request => request.body.variables.first)).toEqual([1, 2, 3, 2]);
+    });
+
+    it('drops every entry on clearCache', async () => {
+      const client = createClient();
+      await client.query(QUERY, { first: 5 });
+      client.clearCache();
+
+      await client.query(QUERY, { first: 5 });
+      expect(subgraph.requests).toHaveLength(2);
+    });
+  });
+
+  describe('coalescing', () => {
+    it('sends one request for identical concurrent queries', async () => {
+      subgraph.delayMs = 50;
+      const client = createClient();
+
+      const results = await Promise.all([1, 2, 3].map(() => client.query(QUERY, { first: 5 })));
+
+      expect(subgraph.requests).toHaveLength(1);
+      expect(results).toEqual([1, 2, 3].map(() => ({ operators: [{ id: '0x01' }] })));
+    });
+
+    it('shares a failure with every waiting caller and retries afterwards', async () => {
+      subgraph.delayMs = 50;
+      subgraph.status = 502;
+      const client = createClient();
+
+      const results = await Promise.allSettled([1, 2].map(() => client.query(QUERY, { first: 5 })));
+      expect(results.map(result => result.status)).toEqual(['rejected', 'rejected']);
+      expect(subgraph.requests).toHaveLength(1);
+
+      subgraph.status = 200;
+      await client.query(QUERY, { first: 5 });
+      expect(subgraph.requests).toHaveLength(2);
+    });
+  });
+
+  describe('errors', () => {
+    it('rejects with the status of a failed response and does not cache it', async () => {
+      subgraph.status = 503;
+      const client = createClient();
+
+      const error = await client.query(QUERY).catch(error => error);
+      expect(error).toBeInstanceOf(SubgraphError);
+      expect(error).toMatchObject({ message: expect.stringMatching(/^Subgraph server error: 503/), status: 503 });
+
+      subgraph.status = 200;
+      await client.query(QUERY);
+      expect(subgraph.requests).toHaveLength(2);
+    });
+
+    it('rejects with the GraphQL errors of the response', async () => {
+      subgraph.errors = [{ message: 'Unknown field `operator`' }];
+      const client = createClient();
+
+      await expect(client.query(QUERY)).rejects.toThrow('Subgraph errors: [{"message":"Unknown field `operator`"}]');
+    });
+
+    it('rejects when the endpoint cannot be reached', async () => {
+      const client = createClient({ endpoint: 'http://127.0.0.1:1/subgraphs/eigen' });
+      await expect(client.query(QUERY)).rejects.toThrow(new SubgraphError('Unable to connect to subgraph server'));
+    });
+
+    it('gives up on a response slower than the timeout', async () => {
+      subgraph.delayMs = 500;
+      const client = createClient({ timeoutMs: 100 });
+
+      const startedAt = Date.now();
+      await expect(client.query(QUERY)).rejects.toThrow('Unable to connect to subgraph server');
+      expect(Date.now() - startedAt).toBeLessThan(400);
+    });
+  });
+
+  describe('getSubgraphClientOptions', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+    });
+
+    it('reads the endpoint and the cache settings from the environment', () => {
+      process.env.SUBGRAPH_URL = 'http://localhost:8000/subgraphs/name/eigen';
+      process.env.SUBGRAPH_CACHE_TTL_MS = '1000';
+      process.env.SUBGRAPH_CACHE_MAX_ENTRIES = '20';
+      process.env.SUBGRAPH_TIMEOUT_MS = '5000';
+
+      expect(getSubgraphClientOptions()).toEqual({
+        endpoint: 'http://localhost:8000/subgraphs/name/eigen',
+        cacheTtlMs: 1000,
+        cacheMaxEntries: 20,
+        timeoutMs: 5000,
+      });
+    });
+
+    it('points at the hosted subgraph by default', () => {
+      delete process.env.SUBGRAPH_URL;
+      expect(getSubgraphClientOptions()).toMatchObject({ endpoint: expect.stringMatching(/^https:\/\//), cacheTtlMs: 60000 });
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { LruCache } from './lru-cache';
+
+export const SUBGRAPH_CLIENT_OPTIONS = 'SUBGRAPH_CLIENT_OPTIONS';
+
+export const DEFAULT_SUBGRAPH_URL = 'https://subgraph.satsuma-prod.com/027e731a6242/eigenlabs/eigen-graph-mainnet/api';
+
+export interface SubgraphClientOptions {
+  // GraphQL endpoint of the EigenLayer subgraph; point it at a local stub server in tests
+  endpoint: string;
+  // How long a successful response is served from the cache
+  cacheTtlMs: number;
+  cacheMaxEntries: number;
+  timeoutMs: number;
+}
+
+export function getSubgraphClientOptions(): SubgraphClientOptions {
+  return {
+    endpoint: process.env.SUBGRAPH_URL || DEFAULT_SUBGRAPH_URL,
+    cacheTtlMs: parseInt(process.env.SUBGRAPH_CACHE_TTL_MS || '60000'),
+    cacheMaxEntries: parseInt(process.env.SUBGRAPH_CACHE_MAX_ENTRIES || '500'),
+    timeoutMs: parseInt(process.env.SUBGRAPH_TIMEOUT_MS || '30000'),
+  };
+}
+
+export class SubgraphError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'SubgraphError';
+  }
+}
+
+/**
+ * Posts queries to the subgraph. Successful responses are cached, and identical
+ * queries issued while one is already in flight share its response.
+ */
+@Injectable()
+export class SubgraphClient {
+  private readonly logger = new Logger(SubgraphClient.name);
+  private readonly cache: LruCache<unknown>;
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(@Inject(SUBGRAPH_CLIENT_OPTIONS) private readonly options: SubgraphClientOptions) {
+    this.cache = new LruCache(options.cacheMaxEntries, options.cacheTtlMs);
+  }
+
+  async query<T>(query: string, variables: Record<string, unknown> = {}): Promise<T> {
+    const key = JSON.stringify({ query, variables });
+
+    const cached = this.cache.get(key);
+    if (cached !== undefined) {
+      return cached as T;
+    }
+
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const request = this.post<T>(query, variables)
+      .then(data => {
+        this.cache.set(key, data);
+        return data;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async post<T>(query: string, variables: Record<string, unknown>): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(this.options.endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ query, variables }),
+        signal: AbortSignal.timeout(this.options.timeoutMs),
+      });
+    } catch (error: any) {
+      this.logger.error(`Subgraph request failed: ${error?.message || error}`);
+      throw new SubgraphError('Unable to connect to subgraph server');
+    }
+
+    if (!response.ok) {
+      throw new SubgraphError(`Subgraph server error: ${response.status} ${response.statusText}`, response.status);
+    }
+
+    const body = await response.json();
+    if (body.errors) {
+      throw new SubgraphError(`Subgraph errors: ${JSON.stringify(body.errors)}`);
+    }
+
+    return body.data as T;
+  }
+}
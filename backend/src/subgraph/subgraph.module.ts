@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { SubgraphClient, SUBGRAPH_CLIENT_OPTIONS, getSubgraphClientOptions } from './subgraph.client';
+import { SubgraphService } from './subgraph.service';
+import { SubgraphResolver } from './subgraph.resolver';
+
+@Module({
+  providers: [
+    { provide: SUBGRAPH_CLIENT_OPTIONS, useFactory: getSubgraphClientOptions },
+    SubgraphClient,
+    SubgraphService,
+    SubgraphResolver,
+  ],
+  exports: [SubgraphClient, SubgraphService],
+})
+export class SubgraphModule {}
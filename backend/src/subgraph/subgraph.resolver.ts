@@ -0,0 +1,118 @@
+import { Resolver, Query, Args, Int } from '@nestjs/graphql';
+import { SubgraphService } from './subgraph.service';
+import {
+  SubgraphDepositResponse,
+  SubgraphDepositWhereInput,
+  SubgraphStrategyResponse,
+  SubgraphToken,
+  SubgraphWithdrawalResponse,
+  SubgraphWithdrawalWhereInput,
+  SubgraphOperatorResponse,
+  SubgraphStrategySummary,
+  SubgraphAVS,
+  SubgraphOperatorStakersResponse,
+  SubgraphOperatorSet,
+  SubgraphOperatorSummary,
+  SubgraphAVSStrategy,
+} from './subgraph.types';
+
+// Queries answered by the EigenLayer subgraph, proxied so the browser never calls it directly
+@Resolver()
+export class SubgraphResolver {
+  constructor(private readonly subgraphService: SubgraphService) {}
+
+  @Query(() => SubgraphDepositResponse)
+  async subgraphDeposits(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => SubgraphDepositWhereInput, nullable: true }) where?: SubgraphDepositWhereInput,
+  ): Promise<SubgraphDepositResponse> {
+    return await this.subgraphService.getDeposits(skip, limit, where);
+  }
+
+  @Query(() => SubgraphStrategyResponse)
+  async subgraphStrategies(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+  ): Promise<SubgraphStrategyResponse> {
+    return await this.subgraphService.getStrategies(skip, limit);
+  }
+
+  @Query(() => [SubgraphToken])
+  async subgraphTokens(): Promise<SubgraphToken[]> {
+    return await this.subgraphService.getTokens();
+  }
+
+  @Query(() => SubgraphWithdrawalResponse)
+  async subgraphWithdrawals(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+    @Args('where', { type: () => SubgraphWithdrawalWhereInput, nullable: true }) where?: SubgraphWithdrawalWhereInput,
+  ): Promise<SubgraphWithdrawalResponse> {
+    return await this.subgraphService.getWithdrawals(skip, limit, where);
+  }
+
+  @Query(() => SubgraphOperatorResponse)
+  async subgraphOperators(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 100 }) limit: number,
+  ): Promise<SubgraphOperatorResponse> {
+    return await this.subgraphService.getOperators(skip, limit);
+  }
+
+  @Query(() => [SubgraphStrategySummary])
+  async subgraphOperatorStrategies(@Args('operatorId') operatorId: string): Promise<SubgraphStrategySummary[]> {
+    return await this.subgraphService.getOperatorStrategies(operatorId);
+  }
+
+  @Query(() => [SubgraphAVS])
+  async subgraphOperatorAVSs(@Args('operatorId') operatorId: string): Promise<SubgraphAVS[]> {
+    return await this.subgraphService.getOperatorAVSs(operatorId);
+  }
+
+  @Query(() => SubgraphOperatorStakersResponse)
+  async subgraphOperatorStakers(@Args('operatorId') operatorId: string): Promise<SubgraphOperatorStakersResponse> {
+    return await this.subgraphService.getOperatorStakers(operatorId);
+  }
+
+  @Query(() => [SubgraphOperatorSet])
+  async subgraphOperatorSets(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 20 }) limit: number,
+  ): Promise<SubgraphOperatorSet[]> {
+    return await this.subgraphService.getOperatorSets(skip, limit);
+  }
+
+  @Query(() => [SubgraphOperatorSummary])
+  async subgraphOperatorSetOperators(@Args('operatorSetId') operatorSetId: string): Promise<SubgraphOperatorSummary[]> {
+    return await this.subgraphService.getOperatorSetOperators(operatorSetId);
+  }
+
+  @Query(() => [SubgraphStrategySummary])
+  async subgraphOperatorSetStrategies(@Args('operatorSetId') operatorSetId: string): Promise<SubgraphStrategySummary[]> {
+    return await this.subgraphService.getOperatorSetStrategies(operatorSetId);
+  }
+
+  @Query(() => [SubgraphAVS])
+  async subgraphAVSs(
+    @Args('skip', { type: () => Int, defaultValue: 0 }) skip: number,
+    @Args('limit', { type: () => Int, defaultValue: 20 }) limit: number,
+  ): Promise<SubgraphAVS[]> {
+    return await this.subgraphService.getAVSs(skip, limit);
+  }
+
+  @Query(() => [SubgraphOperatorSummary])
+  async subgraphAVSOperators(@Args('avsId') avsId: string): Promise<SubgraphOperatorSummary[]> {
+    return await this.subgraphService.getAVSOperators(avsId);
+  }
+
+  @Query(() => [SubgraphOperatorSet])
+  async subgraphAVSOperatorSets(@Args('avsId') avsId: string): Promise<SubgraphOperatorSet[]> {
+    return await this.subgraphService.getAVSOperatorSets(avsId);
+  }
+
+  @Query(() => [SubgraphAVSStrategy])
+  async subgraphAVSStrategies(@Args('avsId') avsId: string): Promise<SubgraphAVSStrategy[]> {
+    return await this.subgraphService.getAVSStrategies(avsId);
+  }
+}
@@ -0,0 +1,705 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { SubgraphClient, SubgraphError } from './subgraph.client';
+import {
+  SubgraphDepositResponse,
+  SubgraphDepositWhereInput,
+  SubgraphStrategyResponse,
+  SubgraphToken,
+  SubgraphWithdrawalResponse,
+  SubgraphWithdrawalWhereInput,
+  SubgraphOperatorResponse,
+  SubgraphStrategySummary,
+  SubgraphAVS,
+  SubgraphOperatorStakersResponse,
+  SubgraphOperatorSet,
+  SubgraphOperatorSummary,
+  SubgraphAVSStrategy,
+} from './subgraph.types';
+
+const toInt = (value: any): number => parseInt(value) || 0;
+
+// The subgraph rejects `first` above 1000, and list pages read one row past their size
+const MAX_PAGE_SIZE = 999;
+
+// List values are flattened so the API keeps a single string per field
+const toText = (value: any): string | undefined => (Array.isArray(value) ? value.join(',') : value ?? undefined);
+
+const STRATEGY_SUMMARY_FIELDS = `
+  id
+  avsCount
+  stakerCount
+  lastUpdateBlockNumber
+  lastUpdateBlockTimestamp
+`;
+
+const OPERATOR_SUMMARY_FIELDS = `
+  id
+  avsCount
+  strategyCount
+  stakerCount
+  slashingCount
+  lastUpdateBlockNumber
+  lastUpdateBlockTimestamp
+`;
+
+const AVS_FIELDS = `
+  id
+  owner
+  metadataURI
+  operatorCount
+  operatorSetCount
+  slashingCount
+  strategyCount
+  stakerCount
+  lastUpdateBlockNumber
+  lastUpdateBlockTimestamp
+`;
+
+const mapStrategySummary = (strategy: any): SubgraphStrategySummary => ({
+  id: strategy?.id || 'unknown',
+  avsCount: toInt(strategy?.avsCount),
+  stakerCount: toInt(strategy?.stakerCount),
+  lastUpdateBlockNumber: toInt(strategy?.lastUpdateBlockNumber),
+  lastUpdateBlockTimestamp: toInt(strategy?.lastUpdateBlockTimestamp),
+});
+
+const mapOperatorSummary = (operator: any): SubgraphOperatorSummary => ({
+  id: operator?.id || 'unknown',
+  avsCount: toInt(operator?.avsCount),
+  strategyCount: toInt(operator?.strategyCount),
+  stakerCount: toInt(operator?.stakerCount),
+  slashingCount: toInt(operator?.slashingCount),
+  lastUpdateBlockNumber: toInt(operator?.lastUpdateBlockNumber),
+  lastUpdateBlockTimestamp: toInt(operator?.lastUpdateBlockTimestamp),
+});
+
+const mapAVS = (avs: any): SubgraphAVS => ({
+  id: avs?.id || 'unknown',
+  owner: avs?.owner || 'unknown',
+  metadataURI: avs?.metadataURI || undefined,
+  operatorCount: toInt(avs?.operatorCount),
+  operatorSetCount: toInt(avs?.operatorSetCount),
+  slashingCount: toInt(avs?.slashingCount),
+  strategyCount: toInt(avs?.strategyCount),
+  stakerCount: toInt(avs?.stakerCount),
+  lastUpdateBlockNumber: toInt(avs?.lastUpdateBlockNumber),
+  lastUpdateBlockTimestamp: toInt(avs?.lastUpdateBlockTimestamp),
+});
+
+const mapOperatorSet = (operatorSet: any): SubgraphOperatorSet => ({
+  id: operatorSet?.id || 'unknown',
+  avs: operatorSet?.avs ? {
+    id: operatorSet.avs.id || 'unknown',
+    owner: operatorSet.avs.owner || 'unknown',
+    lastUpdateBlockNumber: toInt(operatorSet.avs.lastUpdateBlockNumber),
+    lastUpdateBlockTimestamp: toInt(operatorSet.avs.lastUpdateBlockTimestamp),
+  } : undefined,
+  owner: operatorSet?.owner || 'unknown',
+  operatorCount: toInt(operatorSet?.operatorCount),
+  strategyCount: toInt(operatorSet?.strategyCount),
+  stakerCount: toInt(operatorSet?.stakerCount),
+  slashingCount: toInt(operatorSet?.slashingCount),
+  lastUpdateBlockNumber: toInt(operatorSet?.lastUpdateBlockNumber),
+  lastUpdateBlockTimestamp: toInt(operatorSet?.lastUpdateBlockTimestamp),
+});
+
+/**
+ * Queries the EigenLayer subgraph on behalf of the frontend and maps the
+ * responses to the `Subgraph*` GraphQL types.
+ */
+@Injectable()
+export class SubgraphService {
+  constructor(private readonly client: SubgraphClient) {}
+
+  async getDeposits(skip: number = 0, limit: number = 100, where?: SubgraphDepositWhereInput): Promise<SubgraphDepositResponse> {
+    const filter: Record<string, unknown> = {};
+    if (where?.staker) filter.staker = where.staker.toLowerCase();
+    if (where?.tokenAddress) filter.token = where.tokenAddress.toLowerCase();
+    if (where?.minShares) filter.shares_gte = this.ethToWei(where.minShares);
+    if (where?.maxShares) filter.shares_lte = this.ethToWei(where.maxShares);
+    if (where?.startTime) filter.blockTimestamp_gte = String(where.startTime);
+    if (where?.endTime) filter.blockTimestamp_lte = String(where.endTime);
+
+    const query = `
+      query GetDeposits($skip: Int!, $first: Int!, $where: Deposit_filter) {
+        deposits(skip: $skip, first: $first, orderBy: blockTimestamp, orderDirection: desc, where: $where) {
+          id
+          token {
+            name
+            symbol
+            address
+          }
+          staker {
+            address
+          }
+          shares
+          strategy {
+            id
+          }
+          blockNumber
+          blockTimestamp
+          transactionHash
+        }
+      }
+    `;
+
+    try {
+      const size = Math.min(limit, MAX_PAGE_SIZE);
+      const data = await this.client.query<{ deposits: any[] }>(query, { skip, first: size + 1, where: filter });
+      // One row past the page tells whether another page follows
+      const deposits = (data?.deposits || []).slice(0, size);
+      const hasNextPage = (data?.deposits?.length ?? 0) > size;
+
+      return {
+        deposits: deposits.map(deposit => ({
+          id: deposit.id,
+          token: deposit.token ? {
+            name: deposit.token.name,
+            symbol: deposit.token.symbol,
+            address: deposit.token.address,
+          } : {
+            name: 'Unknown Token',
+            symbol: 'UNKNOWN',
+            address: 'unknown',
+          },
+          staker: { address: deposit.staker?.address || 'unknown' },
+          shares: deposit.shares,
+          strategy: { id: deposit.strategy?.id || 'unknown' },
+          blockNumber: toInt(deposit.blockNumber),
+          blockTimestamp: toInt(deposit.blockTimestamp),
+          transactionHash: deposit.transactionHash,
+        })),
+        total: null,
+        hasNextPage,
+      };
+    } catch (error) {
+      throw this.toHttpException('deposits', error);
+    }
+  }
+
+  async getStrategies(skip: number = 0, limit: number = 100): Promise<SubgraphStrategyResponse> {
+    const query = `
+      query GetStrategies($skip: Int!, $first: Int!) {
+        strategies(skip: $skip, first: $first, orderBy: lastUpdateBlockTimestamp, orderDirection: desc) {
+          id
+          address
+          token {
+            id
+            address
+            name
+            symbol
+          }
+          totalShares
+          exchangeRate
+          operatorSetCount
+          operatorCount
+          stakerCount
+          avsCount
+          emitsExchangeRate
+          isInDepositWhitelist
+          withdrawalDelayBlocks
+          thirdPartyTransfersForbidden
+          whitelistBlockNumber
+          whitelistBlockTimestamp
+          whitelistTransactionHash
+          createdAtBlockNumber
+          lastUpdateBlockNumber
+          lastUpdateBlockTimestamp
+        }
+      }
+    `;
+
+    try {
+      const size = Math.min(limit, MAX_PAGE_SIZE);
+      const data = await this.client.query<{ strategies: any[] }>(query, { skip, first: size + 1 });
+      const strategies = (data?.strategies || []).slice(0, size);
+      const hasNextPage = (data?.strategies?.length ?? 0) > size;
+
+      return {
+        strategies: strategies.map(strategy => ({
+          id: strategy.id,
+          address: strategy.address,
+          token: strategy.token ? {
+            id: strategy.token.id,
+            address: strategy.token.address,
+            name: strategy.token.name,
+            symbol: strategy.token.symbol,
+          } : {
+            id: 'unknown',
+            address: 'unknown',
+            name: 'Unknown Token',
+            symbol: 'UNKNOWN',
+          },
+          totalShares: strategy.totalShares,
+          exchangeRate: strategy.exchangeRate,
+          operatorSetCount: toInt(strategy.operatorSetCount),
+          operatorCount: toInt(strategy.operatorCount),
+          stakerCount: toInt(strategy.stakerCount),
+          avsCount: toInt(strategy.avsCount),
+          emitsExchangeRate: strategy.emitsExchangeRate,
+          isInDepositWhitelist: strategy.isInDepositWhitelist,
+          withdrawalDelayBlocks: toInt(strategy.withdrawalDelayBlocks),
+          thirdPartyTransfersForbidden: strategy.thirdPartyTransfersForbidden,
+          whitelistBlockNumber: toInt(strategy.whitelistBlockNumber),
+          whitelistBlockTimestamp: toInt(strategy.whitelistBlockTimestamp),
+          whitelistTransactionHash: strategy.whitelistTransactionHash,
+          createdAtBlockNumber: toInt(strategy.createdAtBlockNumber),
+          lastUpdateBlockNumber: toInt(strategy.lastUpdateBlockNumber),
+          lastUpdateBlockTimestamp: toInt(strategy.lastUpdateBlockTimestamp),
+        })),
+        total: null,
+        hasNextPage,
+      };
+    } catch (error) {
+      throw this.toHttpException('strategies', error);
+    }
+  }
+
+  async getTokens(): Promise<SubgraphToken[]> {
+    const query = `
+      query GetTokens {
+        tokens {
+          address
+          name
+          symbol
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ tokens: any[] }>(query);
+      return (data?.tokens || []).map(token => ({
+        address: token.address,
+        name: token.name || 'Unknown',
+        symbol: token.symbol || 'UNKNOWN',
+      }));
+    } catch (error) {
+      throw this.toHttpException('tokens', error);
+    }
+  }
+
+  async getWithdrawals(skip: number = 0, limit: number = 100, where?: SubgraphWithdrawalWhereInput): Promise<SubgraphWithdrawalResponse> {
+    const filter: Record<string, unknown> = {};
+    if (where?.staker) filter.staker = where.staker.toLowerCase();
+    if (where?.operator) filter.operator = where.operator.toLowerCase();
+    if (where?.withdrawer) filter.withdrawer = where.withdrawer.toLowerCase();
+    if (where?.strategy) filter.strategies_contains = [where.strategy.toLowerCase()];
+    if (where?.minShares) filter.shares_gte = this.ethToWei(where.minShares);
+    if (where?.maxShares) filter.shares_lte = this.ethToWei(where.maxShares);
+    if (where?.startTime) filter.start_blockTimestamp_gte = String(where.startTime);
+    if (where?.endTime) filter.start_blockTimestamp_lte = String(where.endTime);
+    if (where?.status) filter.status = where.status;
+    if (where?.completed !== undefined && where?.completed !== null) filter.completed = where.completed;
+
+    const query = `
+      query GetWithdrawals($skip: Int!, $first: Int!, $where: Withdrawal_filter) {
+        withdrawals(skip: $skip, first: $first, orderBy: start_blockTimestamp, orderDirection: desc, where: $where) {
+          id
+          staker {
+            id
+          }
+          operator {
+            id
+          }
+          strategies {
+            id
+          }
+          shares
+          scaledShares
+          depositShares
+          receiveAsTokens
+          isUndelegationQueue
+          status {
+            id
+          }
+          completed
+          nonce
+          root
+          withdrawer
+          start_blockNumber
+          start_blockTimestamp
+          start_transactionHash
+          shares_withdrawn
+          completable_blockNumber
+          completable_maxMagnitudes
+          completed_blockTimestamp
+          completed_blockNumber
+          completed_transactionHash
+        }
+      }
+    `;
+
+    try {
+      const size = Math.min(limit, MAX_PAGE_SIZE);
+      const data = await this.client.query<{ withdrawals: any[] }>(query, { skip, first: size + 1, where: filter });
+      const withdrawals = (data?.withdrawals || []).slice(0, size);
+      const hasNextPage = (data?.withdrawals?.length ?? 0) > size;
+
+      return {
+        withdrawals: withdrawals.map(withdrawal => ({
+          id: withdrawal.id,
+          staker: { id: withdrawal.staker?.id || 'unknown' },
+          operator: { id: withdrawal.operator?.id || 'unknown' },
+          strategies: withdrawal.strategies || [],
+          shares: toText(withdrawal.shares),
+          scaledShares: toText(withdrawal.scaledShares),
+          depositShares: toText(withdrawal.depositShares),
+          receiveAsTokens: withdrawal.receiveAsTokens,
+          isUndelegationQueue: withdrawal.isUndelegationQueue,
+          status: { id: withdrawal.status?.id || 'unknown' },
+          completed: withdrawal.completed,
+          nonce: toText(withdrawal.nonce),
+          root: withdrawal.root,
+          withdrawer: withdrawal.withdrawer,
+          startBlockNumber: toInt(withdrawal.start_blockNumber),
+          startBlockTimestamp: toInt(withdrawal.start_blockTimestamp),
+          startTransactionHash: withdrawal.start_transactionHash,
+          sharesWithdrawn: toText(withdrawal.shares_withdrawn),
+          completableBlockNumber: toInt(withdrawal.completable_blockNumber),
+          completableMaxMagnitudes: toText(withdrawal.completable_maxMagnitudes),
+          completedBlockTimestamp: toInt(withdrawal.completed_blockTimestamp),
+          completedBlockNumber: toInt(withdrawal.completed_blockNumber),
+          completedTransactionHash: withdrawal.completed_transactionHash,
+        })),
+        total: null,
+        hasNextPage,
+      };
+    } catch (error) {
+      throw this.toHttpException('withdrawals', error);
+    }
+  }
+
+  async getOperators(skip: number = 0, limit: number = 100): Promise<SubgraphOperatorResponse> {
+    const query = `
+      query GetOperators($skip: Int!, $first: Int!) {
+        operators(skip: $skip, first: $first, orderBy: lastUpdateBlockTimestamp, orderDirection: desc) {
+          id
+          strategyCount
+          operatorSetCount
+          stakerCount
+          avsCount
+          metadataURI
+          delegationApprover
+          slashingCount
+          registeredTransactionHash
+          registeredBlockNumber
+          registeredBlockTimestamp
+          lastUpdateBlockNumber
+          lastUpdateBlockTimestamp
+        }
+      }
+    `;
+
+    try {
+      const size = Math.min(limit, MAX_PAGE_SIZE);
+      const data = await this.client.query<{ operators: any[] }>(query, { skip, first: size + 1 });
+      const operators = (data?.operators || []).slice(0, size);
+      const hasNextPage = (data?.operators?.length ?? 0) > size;
+
+      return {
+        operators: operators.map(operator => ({
+          id: operator.id,
+          strategyCount: toInt(operator.strategyCount),
+          operatorSetCount: toInt(operator.operatorSetCount),
+          stakerCount: toInt(operator.stakerCount),
+          avsCount: toInt(operator.avsCount),
+          metadataURI: operator.metadataURI,
+          delegationApprover: operator.delegationApprover,
+          slashingCount: toInt(operator.slashingCount),
+          registeredTransactionHash: operator.registeredTransactionHash,
+          registeredBlockNumber: toInt(operator.registeredBlockNumber),
+          registeredBlockTimestamp: toInt(operator.registeredBlockTimestamp),
+          lastUpdateBlockNumber: toInt(operator.lastUpdateBlockNumber),
+          lastUpdateBlockTimestamp: toInt(operator.lastUpdateBlockTimestamp),
+        })),
+        total: null,
+        hasNextPage,
+      };
+    } catch (error) {
+      throw this.toHttpException('operators', error);
+    }
+  }
+
+  async getOperatorStrategies(operatorId: string): Promise<SubgraphStrategySummary[]> {
+    const query = `
+      query GetOperatorStrategies($operatorId: String!) {
+        operators(where: { id: $operatorId }) {
+          strategies {
+            strategy {
+              ${STRATEGY_SUMMARY_FIELDS}
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ operators: any[] }>(query, { operatorId: operatorId.toLowerCase() });
+      const operator = data?.operators?.[0];
+      return (operator?.strategies || []).map((item: any) => mapStrategySummary(item.strategy));
+    } catch (error) {
+      throw this.toHttpException('operator strategies', error);
+    }
+  }
+
+  async getOperatorAVSs(operatorId: string): Promise<SubgraphAVS[]> {
+    const query = `
+      query GetOperatorAVSs($operatorId: String!) {
+        operators(where: { id: $operatorId }) {
+          avss {
+            avs {
+              ${AVS_FIELDS}
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ operators: any[] }>(query, { operatorId: operatorId.toLowerCase() });
+      const operator = data?.operators?.[0];
+      return (operator?.avss || []).map((item: any) => mapAVS(item.avs));
+    } catch (error) {
+      throw this.toHttpException('operator AVSs', error);
+    }
+  }
+
+  async getOperatorStakers(operatorId: string): Promise<SubgraphOperatorStakersResponse> {
+    const query = `
+      query GetOperatorStakers($operatorId: String!) {
+        operators(where: { id: $operatorId }) {
+          stakerCount
+          stakers {
+            staker {
+              address
+              operatorCount
+              depositCount
+              withdrawalCount
+              delegationCount
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ operators: any[] }>(query, { operatorId: operatorId.toLowerCase() });
+      const operator = data?.operators?.[0];
+      if (!operator) {
+        return { stakers: [], stakerCount: 0 };
+      }
+
+      return {
+        stakers: (operator.stakers || []).map((item: any) => ({
+          address: item.staker?.address || 'unknown',
+          operatorCount: toInt(item.staker?.operatorCount),
+          depositCount: toInt(item.staker?.depositCount),
+          withdrawalCount: toInt(item.staker?.withdrawalCount),
+          delegationCount: toInt(item.staker?.delegationCount),
+        })),
+        stakerCount: toInt(operator.stakerCount),
+      };
+    } catch (error) {
+      throw this.toHttpException('operator stakers', error);
+    }
+  }
+
+  async getOperatorSets(skip: number = 0, limit: number = 20): Promise<SubgraphOperatorSet[]> {
+    const query = `
+      query GetOperatorSets($skip: Int!, $limit: Int!) {
+        operatorSets(skip: $skip, first: $limit, orderBy: lastUpdateBlockTimestamp, orderDirection: desc) {
+          id
+          avs {
+            id
+            owner
+            lastUpdateBlockNumber
+            lastUpdateBlockTimestamp
+          }
+          owner
+          operatorCount
+          strategyCount
+          stakerCount
+          slashingCount
+          lastUpdateBlockNumber
+          lastUpdateBlockTimestamp
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ operatorSets: any[] }>(query, { skip, limit });
+      return (data?.operatorSets || []).map(mapOperatorSet);
+    } catch (error) {
+      throw this.toHttpException('operator sets', error);
+    }
+  }
+
+  async getOperatorSetOperators(operatorSetId: string): Promise<SubgraphOperatorSummary[]> {
+    const query = `
+      query GetOperatorSetOperators($operatorSetId: String!) {
+        operatorSets(where: { id: $operatorSetId }) {
+          operators {
+            operator {
+              ${OPERATOR_SUMMARY_FIELDS}
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ operatorSets: any[] }>(query, { operatorSetId });
+      const operatorSet = data?.operatorSets?.[0];
+      return (operatorSet?.operators || []).map((item: any) => mapOperatorSummary(item.operator));
+    } catch (error) {
+      throw this.toHttpException('operator set operators', error);
+    }
+  }
+
+  async getOperatorSetStrategies(operatorSetId: string): Promise<SubgraphStrategySummary[]> {
+    const query = `
+      query GetOperatorSetStrategies($operatorSetId: String!) {
+        operatorSets(where: { id: $operatorSetId }) {
+          strategies {
+            strategy {
+              ${STRATEGY_SUMMARY_FIELDS}
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ operatorSets: any[] }>(query, { operatorSetId });
+      const operatorSet = data?.operatorSets?.[0];
+      return (operatorSet?.strategies || []).map((item: any) => mapStrategySummary(item.strategy));
+    } catch (error) {
+      throw this.toHttpException('operator set strategies', error);
+    }
+  }
+
+  async getAVSs(skip: number = 0, limit: number = 20): Promise<SubgraphAVS[]> {
+    const query = `
+      query GetAVSs($skip: Int!, $limit: Int!) {
+        avss(skip: $skip, first: $limit, orderBy: lastUpdateBlockTimestamp, orderDirection: desc) {
+          ${AVS_FIELDS}
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ avss: any[] }>(query, { skip, limit });
+      return (data?.avss || []).map(mapAVS);
+    } catch (error) {
+      throw this.toHttpException('AVSs', error);
+    }
+  }
+
+  async getAVSOperators(avsId: string): Promise<SubgraphOperatorSummary[]> {
+    const query = `
+      query GetAVSOperators($avsId: String!) {
+        avss(where: { id: $avsId }) {
+          operators {
+            operator {
+              ${OPERATOR_SUMMARY_FIELDS}
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ avss: any[] }>(query, { avsId: avsId.toLowerCase() });
+      const avs = data?.avss?.[0];
+      return (avs?.operators || []).map((item: any) => mapOperatorSummary(item.operator));
+    } catch (error) {
+      throw this.toHttpException('AVS operators', error);
+    }
+  }
+
+  async getAVSOperatorSets(avsId: string): Promise<SubgraphOperatorSet[]> {
+    const query = `
+      query GetAVSOperatorSets($avsId: String!) {
+        avss(where: { id: $avsId }) {
+          operatorSets {
+            id
+            avs {
+              id
+            }
+            operatorCount
+            strategyCount
+            stakerCount
+            slashingCount
+            lastUpdateBlockNumber
+            lastUpdateBlockTimestamp
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ avss: any[] }>(query, { avsId: avsId.toLowerCase() });
+      const avs = data?.avss?.[0];
+      return (avs?.operatorSets || []).map(mapOperatorSet);
+    } catch (error) {
+      throw this.toHttpException('AVS operator sets', error);
+    }
+  }
+
+  async getAVSStrategies(avsId: string): Promise<SubgraphAVSStrategy[]> {
+    const query = `
+      query GetAVSStrategies($avsId: String!) {
+        avss(where: { id: $avsId }) {
+          strategies {
+            strategy {
+              id
+              token
+              totalShares
+              exchangeRate
+              stakerCount
+              operatorCount
+              lastUpdateBlockNumber
+              lastUpdateBlockTimestamp
+            }
+          }
+        }
+      }
+    `;
+
+    try {
+      const data = await this.client.query<{ avss: any[] }>(query, { avsId: avsId.toLowerCase() });
+      const avs = data?.avss?.[0];
+      return (avs?.strategies || []).map((item: any) => ({
+        id: item.strategy?.id || 'unknown',
+        token: item.strategy?.token || null,
+        totalShares: item.strategy?.totalShares || '0',
+        exchangeRate: item.strategy?.exchangeRate || '0',
+        stakerCount: toInt(item.strategy?.stakerCount),
+        operatorCount: toInt(item.strategy?.operatorCount),
+        lastUpdateBlockNumber: toInt(item.strategy?.lastUpdateBlockNumber),
+        lastUpdateBlockTimestamp: toInt(item.strategy?.lastUpdateBlockTimestamp),
+      }));
+    } catch (error) {
+      throw this.toHttpException('AVS strategies', error);
+    }
+  }
+
+  private ethToWei(value: string): string {
+    try {
+      return ethers.parseEther(value).toString();
+    } catch (error) {
+      throw new HttpException(`Invalid ETH amount: ${value}`, HttpStatus.BAD_REQUEST);
+    }
+  }
+
+  private toHttpException(what: string, error: unknown): HttpException {
+    if (error instanceof HttpException) {
+      return error;
+    }
+
+    console.error(`Error fetching ${what} from subgraph:`, error);
+    const message = error instanceof SubgraphError ? error.message : `Failed to fetch ${what} from subgraph`;
+    return new HttpException(message, HttpStatus.BAD_GATEWAY);
+  }
+}
@@ -0,0 +1,500 @@
+import { ObjectType, Field, Int, InputType } from '@nestjs/graphql';
+
+// Types proxied from the EigenLayer subgraph. They are prefixed with `Subgraph`
+// so they do not clash with the types served from our own indexed tables.
+
+@ObjectType()
+export class SubgraphEntityRef {
+  @Field()
+  id: string;
+}
+
+@ObjectType()
+export class SubgraphStakerRef {
+  @Field()
+  address: string;
+}
+
+@ObjectType()
+export class SubgraphToken {
+  @Field({ nullable: true })
+  id?: string;
+
+  @Field()
+  address: string;
+
+  @Field()
+  name: string;
+
+  @Field()
+  symbol: string;
+}
+
+@ObjectType()
+export class SubgraphDeposit {
+  @Field()
+  id: string;
+
+  @Field(() => SubgraphToken)
+  token: SubgraphToken;
+
+  @Field(() => SubgraphStakerRef)
+  staker: SubgraphStakerRef;
+
+  @Field()
+  shares: string;
+
+  @Field(() => SubgraphEntityRef)
+  strategy: SubgraphEntityRef;
+
+  @Field(() => Int)
+  blockNumber: number;
+
+  @Field(() => Int)
+  blockTimestamp: number;
+
+  @Field()
+  transactionHash: string;
+}
+
+@ObjectType()
+export class SubgraphDepositResponse {
+  @Field(() => [SubgraphDeposit])
+  deposits: SubgraphDeposit[];
+
+  // The subgraph has no count query, so the total stays null and hasNextPage tells whether more pages exist
+  @Field(() => Int, { nullable: true })
+  total: number | null;
+
+  @Field()
+  hasNextPage: boolean;
+}
+
+@ObjectType()
+export class SubgraphStrategy {
+  @Field()
+  id: string;
+
+  @Field()
+  address: string;
+
+  @Field(() => SubgraphToken)
+  token: SubgraphToken;
+
+  @Field()
+  totalShares: string;
+
+  @Field()
+  exchangeRate: string;
+
+  @Field(() => Int)
+  operatorSetCount: number;
+
+  @Field(() => Int)
+  operatorCount: number;
+
+  @Field(() => Int)
+  stakerCount: number;
+
+  @Field(() => Int)
+  avsCount: number;
+
+  @Field({ nullable: true })
+  emitsExchangeRate?: boolean;
+
+  @Field({ nullable: true })
+  isInDepositWhitelist?: boolean;
+
+  @Field(() => Int)
+  withdrawalDelayBlocks: number;
+
+  @Field({ nullable: true })
+  thirdPartyTransfersForbidden?: boolean;
+
+  @Field(() => Int)
+  whitelistBlockNumber: number;
+
+  @Field(() => Int)
+  whitelistBlockTimestamp: number;
+
+  @Field({ nullable: true })
+  whitelistTransactionHash?: string;
+
+  @Field(() => Int)
+  createdAtBlockNumber: number;
+
+  @Field(() => Int)
+  lastUpdateBlockNumber: number;
+
+  @Field(() => Int)
+  lastUpdateBlockTimestamp: number;
+}
+
+@ObjectType()
+export class SubgraphStrategyResponse {
+  @Field(() => [SubgraphStrategy])
+  strategies: SubgraphStrategy[];
+
+  @Field(() => Int, { nullable: true })
+  total: number | null;
+
+  @Field()
+  hasNextPage: boolean;
+}
+
+@ObjectType()
+export class SubgraphWithdrawal {
+  @Field()
+  id: string;
+
+  @Field(() => SubgraphEntityRef)
+  staker: SubgraphEntityRef;
+
+  @Field(() => SubgraphEntityRef)
+  operator: SubgraphEntityRef;
+
+  @Field(() => [SubgraphEntityRef])
+  strategies: SubgraphEntityRef[];
+
+  // List values from the subgraph are joined with commas
+  @Field({ nullable: true })
+  shares?: string;
+
+  @Field({ nullable: true })
+  scaledShares?: string;
+
+  @Field({ nullable: true })
+  depositShares?: string;
+
+  @Field({ nullable: true })
+  receiveAsTokens?: boolean;
+
+  @Field({ nullable: true })
+  isUndelegationQueue?: boolean;
+
+  @Field(() => SubgraphEntityRef)
+  status: SubgraphEntityRef;
+
+  @Field({ nullable: true })
+  completed?: boolean;
+
+  @Field({ nullable: true })
+  nonce?: string;
+
+  @Field({ nullable: true })
+  root?: string;
+
+  @Field({ nullable: true })
+  withdrawer?: string;
+
+  @Field(() => Int)
+  startBlockNumber: number;
+
+  @Field(() => Int)
+  startBlockTimestamp: number;
+
+  @Field({ nullable: true })
+  startTransactionHash?: string;
+
+  @Field({ nullable: true })
+  sharesWithdrawn?: string;
+
+  @Field(() => Int)
+  completableBlockNumber: number;
+
+  @Field({ nullable: true })
+  completableMaxMagnitudes?: string;
+
+  @Field(() => Int)
+  completedBlockTimestamp: number;
+
+  @Field(() => Int)
+  completedBlockNumber: number;
+
+  @Field({ nullable: true })
+  completedTransactionHash?: string;
+}
+
+@ObjectType()
+export class SubgraphWithdrawalResponse {
+  @Field(() => [SubgraphWithdrawal])
+  withdrawals: SubgraphWithdrawal[];
+
+  @Field(() => Int, { nullable: true })
+  total: number | null;
+
+  @Field()
+  hasNextPage: boolean;
+}
+
+@ObjectType()
+export class SubgraphOperator {
+  @Field()
+  id: string;
+
+  @Field(() => Int)
+  strategyCount: number;
+
+  @Field(() => Int)
+  operatorSetCount: number;
+
+  @Field(() => Int)
+  stakerCount: number;
+
+  @Field(() => Int)
+  avsCount: number;
+
+  @Field({ nullable: true })
+  metadataURI?: string;
+
+  @Field({ nullable: true })
+  delegationApprover?: string;
+
+  @Field(() => Int)
+  slashingCount: number;
+
+  @Field({ nullable: true })
+  registeredTransactionHash?: string;
+
+  @Field(() => Int)
+  registeredBlockNumber: number;
+
+  @Field(() => Int)
+  registeredBlockTimestamp: number;
+
+  @Field(() => Int)
+  lastUpdateBlockNumber: number;
+
+  @Field(() => Int)
+  lastUpdateBlockTimestamp: number;
+}
+
+@ObjectType()
+export class SubgraphOperatorResponse {
+  @Field(() => [SubgraphOperator])
+  operators: SubgraphOperator[];
+
+  @Field(() => Int, { nullable: true })
+  total: number | null;
+
+  @Field()
+  hasNextPage: boolean;
+}
+
+// Operator as listed under an operator set or an AVS
+@ObjectType()
+export class SubgraphOperatorSummary {
+  @Field()
+  id: string;
+
+  @Field(() => Int)
+  avsCount: number;
+
+  @Field(() => Int)
+  strategyCount: number;
+
+  @Field(() => Int)
+  stakerCount: number;
+
+  @Field(() => Int)
+  slashingCount: number;
+
+  @Field(() => Int)
+  lastUpdateBlockNumber: number;
+
+  @Field(() => Int)
+  lastUpdateBlockTimestamp: number;
+}
+
+// Strategy as listed under an operator or an operator set
+@ObjectType()
+export class SubgraphStrategySummary {
+  @Field()
+  id: string;
+
+  @Field(() => Int)
+  avsCount: number;
+
+  @Field(() => Int)
+  stakerCount: number;
+
+  @Field(() => Int)
+  lastUpdateBlockNumber: number;
+
+  @Field(() => Int)
+  lastUpdateBlockTimestamp: number;
+}
+
+// Strategy as listed under an AVS
+@ObjectType()
+export class SubgraphAVSStrategy {
+  @Field()
+  id: string;
+
+  @Field({ nullable: true })
+  token?: string;
+
+  @Field()
+  totalShares: string;
+
+  @Field()
+  exchangeRate: string;
+
+  @Field(() => Int)
+  stakerCount: number;
+
+  @Field(() => Int)
+  operatorCount: number;
+
+  @Field(() => Int)
+  lastUpdateBlockNumber: number;
+
+  @Field(() => Int)
+  lastUpdateBlockTimestamp: number;
+}
+
+@ObjectType()
+export class SubgraphStaker {
+  @Field()
+  address: string;
+
+  @Field(() => Int)
+  operatorCount: number;
+
+  @Field(() => Int)
+  depositCount: number;
+
+  @Field(() => Int)
+  withdrawalCount: number;
+
+  @Field(() => Int)
+  delegationCount: number;
+}
+
+@ObjectType()
+export class SubgraphOperatorStakersResponse {
+  @Field(() => [SubgraphStaker])
+  stakers: SubgraphStaker[];
+
+  @Field(() => Int)
+  stakerCount: number;
+}
+
+@ObjectType()
+export class SubgraphAVS {
+  @Field()
+  id: string;
+
+  @Field()
+  owner: string;
+
+  @Field({ nullable: true })
+  metadataURI?: string;
+
+  @Field(() => Int)
+  operatorCount: number;
+
+  @Field(() => Int)
+  operatorSetCount: number;
+
+  @Field(() => Int)
+  slashingCount: number;
+
+  @Field(() => Int)
+  strategyCount: number;
+
+  @Field(() => Int)
+  stakerCount: number;
+
+  @Field(() => Int)
+  lastUpdateBlockNumber: number;
+
+  @Field(() => Int)
+  lastUpdateBlockTimestamp: number;
+}
+
+@ObjectType()
+export class SubgraphOperatorSet {
+  @Field()
+  id: string;
+
+  @Field(() => SubgraphAVS, { nullable: true })
+  avs?: Partial<SubgraphAVS>;
+
+  @Field({ nullable: true })
+  owner?: string;
+
+  @Field(() => Int)
+  operatorCount: number;
+
+  @Field(() => Int)
+  strategyCount: number;
+
+  @Field(() => Int)
+  stakerCount: number;
+
+  @Field(() => Int)
+  slashingCount: number;
+
+  @Field(() => Int)
+  lastUpdateBlockNumber: number;
+
+  @Field(() => Int)
+  lastUpdateBlockTimestamp: number;
+}
+
+@InputType()
+export class SubgraphDepositWhereInput {
+  @Field({ nullable: true })
+  staker?: string;
+
+  @Field({ nullable: true })
+  tokenAddress?: string;
+
+  // Share bounds are given in ETH
+  @Field({ nullable: true })
+  minShares?: string;
+
+  @Field({ nullable: true })
+  maxShares?: string;
+
+  @Field(() => Int, { nullable: true })
+  startTime?: number;
+
+  @Field(() => Int, { nullable: true })
+  endTime?: number;
+}
+
+@InputType()
+export class SubgraphWithdrawalWhereInput {
+  @Field({ nullable: true })
+  staker?: string;
+
+  @Field({ nullable: true })
+  operator?: string;
+
+  @Field({ nullable: true })
+  withdrawer?: string;
+
+  @Field({ nullable: true })
+  strategy?: string;
+
+  // Share bounds are given in ETH
+  @Field({ nullable: true })
+  minShares?: string;
+
+  @Field({ nullable: true })
+  maxShares?: string;
+
+  @Field(() => Int, { nullable: true })
+  startTime?: number;
+
+  @Field(() => Int, { nullable: true })
+  endTime?: number;
+
+  @Field({ nullable: true })
+  status?: string;
+
+  @Field({ nullable: true })
+  completed?: boolean;
+}
@@ -6,6 +6,37 @@ dotenv.config({ path: path.join(__dirname, '..', '..', '.env') });
 import { TypeOrmModuleOptions } from '@nestjs/typeorm';
 import { PodDeployedEvent } from '@eigen-layer-dashboard/lib';
 import { StakedEthEvent } from '@eigen-layer-dashboard/lib';
+import { IndexerState } from '@eigen-layer-dashboard/lib';
+import {
+  OperatorRegisteredEvent,
+  OperatorMetadataURIUpdatedEvent,
+  StakerDelegatedEvent,
+  StakerUndelegatedEvent,
+  OperatorSharesIncreasedEvent,
+  OperatorSharesDecreasedEvent,
+  StrategyDepositEvent,
+  WithdrawalQueuedEvent,
+  WithdrawalCompletedEvent,
+  OperatorSetCreatedEvent,
+  OperatorAddedToOperatorSetEvent,
+  OperatorRemovedFromOperatorSetEvent,
+  StrategyAddedToOperatorSetEvent,
+  AllocationUpdatedEvent,
+  MagnitudeUpdatedEvent,
+  OperatorSlashedEvent,
+  ValidatorRestakedEvent,
+  ValidatorBalanceUpdatedEvent,
+  ValidatorWithdrawnEvent,
+  CheckpointCreatedEvent,
+  CheckpointFinalizedEvent,
+  NonBeaconChainETHReceivedEvent,
+  AddressLabel,
+  MetadataDocument,
+  Block,
+  Transaction,
+  BackfillJob,
+  BackfillChunk,
+} from '@eigen-layer-dashboard/lib';
 
 export const getTypeOrmConfig = (): TypeOrmModuleOptions => {
   const isPostgres = process.env.DB_URL?.startsWith('postgresql://');
@@ -14,7 +45,39 @@ export const getTypeOrmConfig = (): TypeOrmModuleOptions => {
     return {
       type: 'postgres',
       url: process.env.DB_URL,
-      entities: [PodDeployedEvent, StakedEthEvent],
+      entities: [
+        PodDeployedEvent,
+        StakedEthEvent,
+        IndexerState,
+        OperatorRegisteredEvent,
+        OperatorMetadataURIUpdatedEvent,
+        StakerDelegatedEvent,
+        StakerUndelegatedEvent,
+        OperatorSharesIncreasedEvent,
+        OperatorSharesDecreasedEvent,
+        StrategyDepositEvent,
+        WithdrawalQueuedEvent,
+        WithdrawalCompletedEvent,
+        OperatorSetCreatedEvent,
+        OperatorAddedToOperatorSetEvent,
+        OperatorRemovedFromOperatorSetEvent,
+        StrategyAddedToOperatorSetEvent,
+        AllocationUpdatedEvent,
+        MagnitudeUpdatedEvent,
+        OperatorSlashedEvent,
+        ValidatorRestakedEvent,
+        ValidatorBalanceUpdatedEvent,
+        ValidatorWithdrawnEvent,
+        CheckpointCreatedEvent,
+        CheckpointFinalizedEvent,
+        NonBeaconChainETHReceivedEvent,
+        AddressLabel,
+        MetadataDocument,
+        Block,
+        Transaction,
+        BackfillJob,
+        BackfillChunk,
+      ],
       synchronize: false, // We'll use migrations
       logging: false, // Disable SQL query logging
     };
@@ -22,7 +85,39 @@ export const getTypeOrmConfig = (): TypeOrmModuleOptions => {
     return {
       type: 'sqlite',
       database: process.env.DATABASE_PATH || './indexer.db',
-      entities: [PodDeployedEvent, StakedEthEvent],
+      entities: [
+        PodDeployedEvent,
+        StakedEthEvent,
+        IndexerState,
+        OperatorRegisteredEvent,
+        OperatorMetadataURIUpdatedEvent,
+        StakerDelegatedEvent,
+        StakerUndelegatedEvent,
+        OperatorSharesIncreasedEvent,
+        OperatorSharesDecreasedEvent,
+        StrategyDepositEvent,
+        WithdrawalQueuedEvent,
+        WithdrawalCompletedEvent,
+        OperatorSetCreatedEvent,
+        OperatorAddedToOperatorSetEvent,
+        OperatorRemovedFromOperatorSetEvent,
+        StrategyAddedToOperatorSetEvent,
+        AllocationUpdatedEvent,
+        MagnitudeUpdatedEvent,
+        OperatorSlashedEvent,
+        ValidatorRestakedEvent,
+        ValidatorBalanceUpdatedEvent,
+        ValidatorWithdrawnEvent,
+        CheckpointCreatedEvent,
+        CheckpointFinalizedEvent,
+        NonBeaconChainETHReceivedEvent,
+        AddressLabel,
+        MetadataDocument,
+        Block,
+        Transaction,
+        BackfillJob,
+        BackfillChunk,
+      ],
       synchronize: false, // We'll use migrations
       logging: false, // Disable SQL query logging
     };
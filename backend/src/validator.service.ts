@@ -0,0 +1,382 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository, SelectQueryBuilder } from 'typeorm';
+import { StakedEthEvent, getWithdrawalAddress, toWithdrawalCredentials } from '@eigen-layer-dashboard/lib';
+import { EigenPodService } from './eigenpod.service';
+import { EventFilterBuilder } from './event-filter';
+import { MaterializedViewService } from './materialized-view.service';
+import { PageArgs, ConnectionRecord, SortDirection, decodeKeyCursor, encodeKeyCursor, getPageInfo, getPageSize, isBackward } from './pagination';
+import { toAmount } from './staked-eth.service';
+
+export type ValidatorSort = 'totalDeposited' | 'depositCount' | 'firstDeposit' | 'lastDeposit';
+
+export type WithdrawalCredentialGroupSort = 'totalDeposited' | 'validatorCount' | 'firstActivity' | 'lastActivity';
+
+// Every set field narrows the result
+interface CredentialFilter {
+  withdrawalCredentials?: string;
+  // Execution address the 0x01/0x02 credentials point at
+  withdrawalAddress?: string;
+  // 0x00 (BLS), 0x01 or 0x02
+  credentialType?: string;
+  // Whether the credentials point at a deployed EigenPod
+  isEigenPod?: boolean;
+}
+
+export interface ValidatorFilter extends CredentialFilter {
+  pubkey_in?: string[];
+  minDepositCount?: number;
+  maxDepositCount?: number;
+  // Wei
+  minTotalDeposited?: string;
+  maxTotalDeposited?: string;
+}
+
+export interface ValidatorRecord {
+  pubkey: string;
+  withdrawalCredentials: string;
+  credentialType: string;
+  withdrawalAddress?: string;
+  eigenPod?: string;
+  // Wei
+  totalDeposited: string;
+  depositCount: number;
+  // Deposits after the first one
+  topUpCount: number;
+  firstDepositBlock: number;
+  firstDepositAt: number;
+  lastDepositBlock: number;
+  lastDepositAt: number;
+}
+
+export interface WithdrawalCredentialGroupFilter extends CredentialFilter {
+  minValidatorCount?: number;
+}
+
+export interface WithdrawalCredentialGroupRecord {
+  withdrawalCredentials: string;
+  credentialType: string;
+  withdrawalAddress?: string;
+  isEigenPod: boolean;
+  eigenPod?: string;
+  validatorCount: number;
+  depositCount: number;
+  // Wei
+  totalDeposited: string;
+  firstBlock: number;
+  firstActivityAt: number;
+  lastBlock: number;
+  lastActivityAt: number;
+}
+
+const SORT_EXPRESSIONS: Record<ValidatorSort, string> = {
+  totalDeposited: 'validator.totaldeposited',
+  depositCount: 'validator.depositcount',
+  firstDeposit: 'validator.firstdepositblock',
+  lastDeposit: 'validator.lastdepositblock',
+};
+
+const GROUP_SORT_EXPRESSIONS: Record<WithdrawalCredentialGroupSort, string> = {
+  totalDeposited: 'SUM(validator.totaldeposited)',
+  validatorCount: 'COUNT(*)',
+  firstActivity: 'MIN(validator.firstdepositblock)',
+  lastActivity: 'MAX(validator.lastdepositblock)',
+};
+
+// 0x01/0x02 credentials end with the 20-byte address, which for a pod is in pod_deployed_events
+const EIGEN_POD_CREDENTIALS = `(SUBSTR(validator.withdrawalcredentials, 1, 4) IN ('0x01', '0x02') AND EXISTS (
+  SELECT 1 FROM pod_deployed_events pod WHERE pod.eigenpod = '0x' || SUBSTR(validator.withdrawalcredentials, 27)
+))`;
+
+/**
+ * Aggregates beacon chain deposits per validator pubkey and per withdrawal credentials
+ */
+@Injectable()
+export class ValidatorService {
+  constructor(
+    @InjectRepository(StakedEthEvent)
+    private stakedEthRepository: Repository<StakedEthEvent>,
+    private readonly eigenPodService: EigenPodService,
+    private readonly materializedViewService: MaterializedViewService,
+  ) {}
+
+  /**
+   * Pages validators by the sort value, ties broken by pubkey. Cursors hold both, so a deep
+   * page seeks to its position instead of skipping the validators before it.
+   */
+  async getValidatorConnection(
+    filter: ValidatorFilter,
+    page: PageArgs,
+    sort: ValidatorSort = 'lastDeposit',
+    direction: SortDirection = 'DESC'
+  ): Promise<ConnectionRecord<ValidatorRecord>> {
+    try {
+      const backward = isBackward(page);
+      const size = getPageSize(page, backward);
+      // Walking backwards reads the rows in reverse and flips them afterwards
+      const sortDirection: SortDirection = backward ? (direction === 'DESC' ? 'ASC' : 'DESC') : direction;
+      const keyDirection: SortDirection = backward ? 'DESC' : 'ASC';
+      const sortExpression = SORT_EXPRESSIONS[sort];
+
+      const query = this.filterValidators(this.stakedEthRepository.manager.createQueryBuilder(), filter)
+        .select('validator.pubkey', 'pubkey')
+        .addSelect('validator.withdrawalcredentials', 'withdrawalCredentials')
+        .addSelect('validator.totaldeposited', 'totalDeposited')
+        .addSelect('validator.depositcount', 'depositCount')
+        .addSelect('validator.firstdepositblock', 'firstDepositBlock')
+        .addSelect('validator.firstdepositat', 'firstDepositAt')
+        .addSelect('validator.lastdepositblock', 'lastDepositBlock')
+        .addSelect('validator.lastdepositat', 'lastDepositAt')
+        .addSelect(sortExpression, 'sortValue');
+
+      const cursor = page.after ?? page.before;
+      if (cursor) {
+        const { value, key } = decodeKeyCursor(cursor);
+        const operator = sortDirection === 'DESC' ? '<' : '>';
+        const keyOperator = keyDirection === 'DESC' ? '<' : '>';
+        query.andWhere(
+          `(${sortExpression} ${operator} CAST(:cursorValue AS DECIMAL)
+            OR (${sortExpression} = CAST(:cursorValue AS DECIMAL) AND validator.pubkey ${keyOperator} :cursorPubkey))`,
+          { cursorValue: value, cursorPubkey: key }
+        );
+      } else if (page.skip) {
+        query.offset(page.skip);
+      }
+
+      const rows = await query
+        .orderBy(sortExpression, sortDirection)
+        .addOrderBy('validator.pubkey', keyDirection)
+        .limit(size + 1)
+        .getRawMany();
+      const hasMore = rows.length > size;
+      const pageRows = rows.slice(0, size);
+      if (backward) {
+        pageRows.reverse();
+      }
+
+      const count = await this.filterValidators(this.stakedEthRepository.manager.createQueryBuilder(), filter)
+        .select('COUNT(*)', 'total')
+        .getRawOne();
+
+      const validators = pageRows.map(toValidatorRecord);
+      const eigenPods = await this.eigenPodService.findEigenPodAddresses(
+        validators.map(validator => validator.withdrawalAddress).filter((address): address is string => !!address)
+      );
+      for (const validator of validators) {
+        if (validator.withdrawalAddress && eigenPods.has(validator.withdrawalAddress)) {
+          validator.eigenPod = validator.withdrawalAddress;
+        }
+      }
+
+      const edges = validators.map((node, index) => ({
+        cursor: encodeKeyCursor(String(pageRows[index].sortValue), node.pubkey),
+        node,
+      }));
+      return { edges, pageInfo: getPageInfo(edges, page, backward, hasMore), totalCount: Number(count?.total ?? 0) };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error in getValidatorConnection:', error);
+      throw new HttpException(
+        'Failed to fetch validators',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  async getWithdrawalCredentialGroups(
+    limit: number = 100,
+    offset: number = 0,
+    filter: WithdrawalCredentialGroupFilter = {},
+    sort: WithdrawalCredentialGroupSort = 'totalDeposited',
+    direction: SortDirection = 'DESC'
+  ): Promise<{ groups: WithdrawalCredentialGroupRecord[]; total: number }> {
+    try {
+      const rows = await this.groupByCredentials(this.stakedEthRepository.manager.createQueryBuilder(), filter)
+        .orderBy(GROUP_SORT_EXPRESSIONS[sort], direction)
+        .addOrderBy('validator.withdrawalcredentials', 'ASC')
+        .limit(limit)
+        .offset(offset)
+        .getRawMany();
+
+      const count = await this.stakedEthRepository.manager
+        .createQueryBuilder()
+        .select('COUNT(*)', 'total')
+        .from(qb => this.groupByCredentials(qb.subQuery(), filter), 'credentialGroup')
+        .getRawOne();
+
+      const groups = rows.map(toWithdrawalCredentialGroupRecord);
+      const eigenPods = await this.eigenPodService.findEigenPodAddresses(
+        groups.map(group => group.withdrawalAddress).filter((address): address is string => !!address)
+      );
+      for (const group of groups) {
+        group.isEigenPod = !!group.withdrawalAddress && eigenPods.has(group.withdrawalAddress);
+        group.eigenPod = group.isEigenPod ? group.withdrawalAddress : undefined;
+      }
+
+      return { groups, total: Number(count?.total ?? 0) };
+    } catch (error) {
+      console.error('Error in getWithdrawalCredentialGroups:', error);
+      throw new HttpException(
+        'Failed to fetch withdrawal credential groups',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+
+  /**
+   * Validators matching the filter, without a selection
+   */
+  private filterValidators(query: SelectQueryBuilder<any>, filter: ValidatorFilter): SelectQueryBuilder<any> {
+    this.fromValidators(query);
+    new EventFilterBuilder(query, 'validator').in('pubkey', filter.pubkey_in, true);
+    this.applyCredentialFilter(query, filter);
+    if (filter.minDepositCount != null) {
+      query.andWhere('validator.depositcount >= :minDepositCount', { minDepositCount: filter.minDepositCount });
+    }
+    if (filter.maxDepositCount != null) {
+      query.andWhere('validator.depositcount <= :maxDepositCount', { maxDepositCount: filter.maxDepositCount });
+    }
+    // Amounts are stored as strings to keep full precision, compare them numerically
+    if (filter.minTotalDeposited != null) {
+      query.andWhere('validator.totaldeposited >= CAST(:minTotalDeposited AS DECIMAL)', {
+        minTotalDeposited: filter.minTotalDeposited,
+      });
+    }
+    if (filter.maxTotalDeposited != null) {
+      query.andWhere('validator.totaldeposited <= CAST(:maxTotalDeposited AS DECIMAL)', {
+        maxTotalDeposited: filter.maxTotalDeposited,
+      });
+    }
+
+    return query;
+  }
+
+  /**
+   * One row per withdrawal credentials, counting the validators attributed to them
+   */
+  private groupByCredentials(query: SelectQueryBuilder<any>, filter: WithdrawalCredentialGroupFilter): SelectQueryBuilder<any> {
+    this.fromValidators(query)
+      .select('validator.withdrawalcredentials', 'withdrawalCredentials')
+      .addSelect('COUNT(*)', 'validatorCount')
+      .addSelect('SUM(validator.depositcount)', 'depositCount')
+      .addSelect('SUM(validator.totaldeposited)', 'totalDeposited')
+      .addSelect('MIN(validator.firstdepositblock)', 'firstBlock')
+      .addSelect('MIN(validator.firstdepositat)', 'firstActivityAt')
+      .addSelect('MAX(validator.lastdepositblock)', 'lastBlock')
+      .addSelect('MAX(validator.lastdepositat)', 'lastActivityAt')
+      .groupBy('validator.withdrawalcredentials');
+
+    this.applyCredentialFilter(query, filter);
+    if (filter.minValidatorCount != null) {
+      query.andHaving('COUNT(*) >= :minValidatorCount', {
+        minValidatorCount: filter.minValidatorCount,
+      });
+    }
+
+    return query;
+  }
+
+  /**
+   * One row per pubkey as `validator`, read from the `validators_mv` materialized view. Without
+   * the views (SQLite, or migrations not run yet) the deposits are aggregated on every query.
+   */
+  private fromValidators(query: SelectQueryBuilder<any>): SelectQueryBuilder<any> {
+    if (this.materializedViewService.hasViews()) {
+      return query.from('validators_mv', 'validator');
+    }
+    return query.from(qb => this.aggregateDeposits(qb.subQuery()), 'validator');
+  }
+
+  // Same columns as `validators_mv`
+  private aggregateDeposits(query: SelectQueryBuilder<any>): SelectQueryBuilder<any> {
+    return query
+      .from(qb => this.attributeDeposits(qb.subQuery()), 'deposit')
+      .select('deposit.pubkey', 'pubkey')
+      .addSelect('deposit.credentials', 'withdrawalcredentials')
+      .addSelect('SUM(CAST(deposit.amount AS DECIMAL))', 'totaldeposited')
+      .addSelect('COUNT(*)', 'depositcount')
+      .addSelect('MIN(deposit.blocknumber)', 'firstdepositblock')
+      .addSelect('MIN(deposit.blocktimestamp)', 'firstdepositat')
+      .addSelect('MAX(deposit.blocknumber)', 'lastdepositblock')
+      .addSelect('MAX(deposit.blocktimestamp)', 'lastdepositat')
+      .groupBy('deposit.pubkey')
+      .addGroupBy('deposit.credentials');
+  }
+
+  /**
+   * Every deposit with the credentials of its validator's first deposit. The beacon chain
+   * only honors those, so top-ups with other credentials still count towards them.
+   */
+  private attributeDeposits(query: SelectQueryBuilder<any>): SelectQueryBuilder<any> {
+    return query
+      .from(StakedEthEvent, 'event')
+      .select('event.pubkey', 'pubkey')
+      .addSelect('event.amount', 'amount')
+      .addSelect('event.blockNumber', 'blocknumber')
+      .addSelect('event.blockTimestamp', 'blocktimestamp')
+      .addSelect(
+        'FIRST_VALUE(event.withdrawalCredentials) OVER (PARTITION BY event.pubkey ORDER BY event.blockNumber, event.logIndex)',
+        'credentials'
+      );
+  }
+
+  private applyCredentialFilter(query: SelectQueryBuilder<any>, filter: CredentialFilter): void {
+    if (filter.withdrawalCredentials) {
+      query.andWhere('validator.withdrawalcredentials = :withdrawalCredentials', {
+        withdrawalCredentials: filter.withdrawalCredentials.toLowerCase(),
+      });
+    }
+    if (filter.withdrawalAddress) {
+      query.andWhere('validator.withdrawalcredentials IN (:...addressCredentials)', {
+        addressCredentials: toWithdrawalCredentials(filter.withdrawalAddress),
+      });
+    }
+    if (filter.credentialType) {
+      query.andWhere('SUBSTR(validator.withdrawalcredentials, 1, 4) = :credentialType', {
+        credentialType: filter.credentialType.toLowerCase(),
+      });
+    }
+    if (filter.isEigenPod !== undefined && filter.isEigenPod !== null) {
+      query.andWhere(filter.isEigenPod ? EIGEN_POD_CREDENTIALS : `NOT ${EIGEN_POD_CREDENTIALS}`);
+    }
+  }
+}
+
+function toValidatorRecord(row: any): ValidatorRecord {
+  const depositCount = Number(row.depositCount ?? 0);
+  const withdrawalCredentials = String(row.withdrawalCredentials ?? '').toLowerCase();
+
+  return {
+    pubkey: row.pubkey,
+    withdrawalCredentials,
+    credentialType: withdrawalCredentials.slice(0, 4),
+    withdrawalAddress: getWithdrawalAddress(withdrawalCredentials) ?? undefined,
+    totalDeposited: toAmount(row.totalDeposited),
+    depositCount,
+    topUpCount: Math.max(depositCount - 1, 0),
+    firstDepositBlock: Number(row.firstDepositBlock ?? 0),
+    firstDepositAt: Number(row.firstDepositAt ?? 0),
+    lastDepositBlock: Number(row.lastDepositBlock ?? 0),
+    lastDepositAt: Number(row.lastDepositAt ?? 0),
+  };
+}
+
+function toWithdrawalCredentialGroupRecord(row: any): WithdrawalCredentialGroupRecord {
+  const withdrawalCredentials = String(row.withdrawalCredentials ?? '').toLowerCase();
+
+  return {
+    withdrawalCredentials,
+    credentialType: withdrawalCredentials.slice(0, 4),
+    withdrawalAddress: getWithdrawalAddress(withdrawalCredentials) ?? undefined,
+    isEigenPod: false,
+    validatorCount: Number(row.validatorCount ?? 0),
+    depositCount: Number(row.depositCount ?? 0),
+    totalDeposited: toAmount(row.totalDeposited),
+    firstBlock: Number(row.firstBlock ?? 0),
+    firstActivityAt: Number(row.firstActivityAt ?? 0),
+    lastBlock: Number(row.lastBlock ?? 0),
+    lastActivityAt: Number(row.lastActivityAt ?? 0),
+  };
+}
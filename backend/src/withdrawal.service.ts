@@ -0,0 +1,140 @@
+import { Injectable, HttpException, HttpStatus } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { WithdrawalQueuedEvent, WithdrawalCompletedEvent } from '@eigen-layer-dashboard/lib';
+import { PageArgs, ConnectionRecord, paginateEvents } from './pagination';
+
+export interface WithdrawalFilter {
+  staker?: string;
+  operator?: string;
+  withdrawer?: string;
+  strategy?: string;
+  // Bounds on the total shares withdrawn, in wei
+  minShares?: string;
+  maxShares?: string;
+  // Unix timestamps of the queuing block
+  startTime?: number;
+  endTime?: number;
+  completed?: boolean;
+}
+
+export interface WithdrawalRecord {
+  withdrawalRoot: string;
+  staker: string;
+  operator: string;
+  withdrawer: string;
+  nonce: string;
+  startBlock: number;
+  strategies: string[];
+  scaledShares: string[];
+  sharesToWithdraw: string[];
+  totalShares: string;
+  blockNumber: number;
+  blockTimestamp: number;
+  transactionHash: string;
+  completed: boolean;
+  completedBlockNumber?: number;
+  completedBlockTimestamp?: number;
+  completedTransactionHash?: string;
+}
+
+@Injectable()
+export class WithdrawalService {
+  constructor(
+    @InjectRepository(WithdrawalQueuedEvent)
+    private withdrawalQueuedRepository: Repository<WithdrawalQueuedEvent>,
+    @InjectRepository(WithdrawalCompletedEvent)
+    private withdrawalCompletedRepository: Repository<WithdrawalCompletedEvent>,
+  ) {}
+
+  /**
+   * Pages queued withdrawals newest first with the total number of matching rows
+   */
+  async getWithdrawalConnection(
+    filter: WithdrawalFilter,
+    page: PageArgs
+  ): Promise<ConnectionRecord<WithdrawalRecord>> {
+    try {
+      const query = this.withdrawalQueuedRepository
+        .createQueryBuilder('withdrawal')
+        .leftJoin(WithdrawalCompletedEvent, 'completion', 'completion.withdrawalRoot = withdrawal.withdrawalRoot');
+
+      if (filter.staker) {
+        query.andWhere('withdrawal.staker = :staker', { staker: filter.staker.toLowerCase() });
+      }
+      if (filter.operator) {
+        query.andWhere('withdrawal.operator = :operator', { operator: filter.operator.toLowerCase() });
+      }
+      if (filter.withdrawer) {
+        query.andWhere('withdrawal.withdrawer = :withdrawer', { withdrawer: filter.withdrawer.toLowerCase() });
+      }
+      if (filter.strategy) {
+        // Strategies are stored as a comma separated list
+        query.andWhere('withdrawal.strategies LIKE :strategy', { strategy: `%${filter.strategy.toLowerCase()}%` });
+      }
+      if (filter.minShares != null) {
+        query.andWhere('CAST(withdrawal.totalShares AS NUMERIC) >= CAST(:minShares AS NUMERIC)', { minShares: filter.minShares });
+      }
+      if (filter.maxShares != null) {
+        query.andWhere('CAST(withdrawal.totalShares AS NUMERIC) <= CAST(:maxShares AS NUMERIC)', { maxShares: filter.maxShares });
+      }
+      if (filter.startTime != null) {
+        query.andWhere('withdrawal.blockTimestamp >= :startTime', { startTime: filter.startTime });
+      }
+      if (filter.endTime != null) {
+        query.andWhere('withdrawal.blockTimestamp <= :endTime', { endTime: filter.endTime });
+      }
+      if (filter.completed !== undefined && filter.completed !== null) {
+        query.andWhere(filter.completed ? 'completion.id IS NOT NULL' : 'completion.id IS NULL');
+      }
+
+      const connection = await paginateEvents(query, 'withdrawal', page);
+      const withdrawals = connection.edges.map(edge => edge.node);
+
+      // Attach completion details for the page
+      const completions = withdrawals.length > 0
+        ? await this.withdrawalCompletedRepository
+            .createQueryBuilder('completion')
+            .where('completion.withdrawalRoot IN (:...roots)', { roots: withdrawals.map(w => w.withdrawalRoot) })
+            .getMany()
+        : [];
+      const completionsByRoot = new Map(completions.map(completion => [completion.withdrawalRoot, completion]));
+
+      return {
+        ...connection,
+        edges: connection.edges.map(({ cursor, node: withdrawal }) => {
+          const completion = completionsByRoot.get(withdrawal.withdrawalRoot);
+          const node: WithdrawalRecord = {
+            withdrawalRoot: withdrawal.withdrawalRoot,
+            staker: withdrawal.staker,
+            operator: withdrawal.operator,
+            withdrawer: withdrawal.withdrawer,
+            nonce: withdrawal.nonce,
+            startBlock: withdrawal.startBlock,
+            strategies: withdrawal.strategies,
+            scaledShares: withdrawal.scaledShares,
+            sharesToWithdraw: withdrawal.sharesToWithdraw,
+            totalShares: withdrawal.totalShares,
+            blockNumber: withdrawal.blockNumber,
+            blockTimestamp: withdrawal.blockTimestamp,
+            transactionHash: withdrawal.transactionHash,
+            completed: !!completion,
+            completedBlockNumber: completion?.blockNumber,
+            completedBlockTimestamp: completion?.blockTimestamp,
+            completedTransactionHash: completion?.transactionHash,
+          };
+          return { cursor, node };
+        }),
+      };
+    } catch (error) {
+      if (error instanceof HttpException) {
+        throw error;
+      }
+      console.error('Error in getWithdrawalConnection:', error);
+      throw new HttpException(
+        'Failed to fetch withdrawals',
+        HttpStatus.INTERNAL_SERVER_ERROR
+      );
+    }
+  }
+}
@@ -25,6 +25,7 @@ import WithdrawalsDashboard from './components/WithdrawalsDashboard';
 import OperatorsDashboard from './components/OperatorsDashboard';
 import OperatorSetsDashboard from './components/OperatorSetsDashboard';
 import AVSDashboard from './components/AVSDashboard';
+import IndexerStatusPanel from './components/IndexerStatusPanel';
 
 // Create a custom theme
 const theme = createTheme({
@@ -166,7 +167,16 @@ function App() {
           
           {activeTab === 'overview' && healthStatus && (
             <Stack spacing={4}>
-              <Chip label="✅ Backend Status" color="success" size="small" />
+              {healthStatus.status === 'ok' ? (
+                <Chip label="✅ Backend Status" color="success" size="small" />
+              ) : (
+                <Alert severity="warning">
+                  <Typography fontWeight="bold">Backend status: {healthStatus.status}</Typography>
+                  {healthStatus.reason && <Typography variant="body2">{healthStatus.reason}</Typography>}
+                </Alert>
+              )}
+
+              <IndexerStatusPanel />
               
               <Card>
                 <CardContent>
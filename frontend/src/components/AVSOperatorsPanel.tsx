@@ -14,9 +14,12 @@ import {
 } from '@mui/material';
 import { Close, OpenInNew } from '@mui/icons-material';
 import { queryAVSOperators } from '../utils/graphql';
+import { Label } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
 
 interface Operator {
   id: string;
+  label?: Label | null;
   strategyCount: number;
   stakerCount: number;
   avsCount: number;
@@ -160,7 +163,7 @@ const AVSOperatorsPanel: React.FC<AVSOperatorsPanelProps> = ({
                 >
                   <Box display="flex" justifyContent="space-between" alignItems="center" width="100%" mb={1}>
                     <Typography variant="subtitle2" sx={{ fontFamily: 'monospace' }}>
-                      {formatAddress(operator.id)}
+                      <LabeledAddress address={operator.id} label={operator.label} format={formatAddress} />
                     </Typography>
                     <IconButton
                       size="small"
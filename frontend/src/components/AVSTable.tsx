@@ -16,10 +16,17 @@ import {
   Link
 } from '@mui/material';
 import { OpenInNew } from '@mui/icons-material';
+import { Label, OperatorMetadata } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
+import MetadataIdentity from './MetadataIdentity';
 
 interface AVS {
   id: string;
   owner: string;
+  label?: Label | null;
+  ownerLabel?: Label | null;
+  metadataURI?: string;
+  metadata?: OperatorMetadata | null;
   operatorCount: number;
   operatorSetCount: number;
   slashingCount: number;
@@ -190,24 +197,26 @@ const AVSTable: React.FC<AVSTableProps> = ({
           {avss.map((avs) => (
             <TableRow key={avs.id} hover>
               <TableCell>
-                <Box display="flex" alignItems="center" gap={0.5}>
-                  <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
-                    {formatAddress(avs.id)}
-                  </Typography>
-                  <Link
-                    href={getEtherscanAddressUrl(avs.id)}
-                    target="_blank"
-                    rel="noopener noreferrer"
-                    sx={{ display: 'flex', alignItems: 'center' }}
-                  >
-                    <OpenInNew sx={{ fontSize: 12 }} />
-                  </Link>
-                </Box>
+                <MetadataIdentity metadata={avs.metadata}>
+                  <Box display="flex" alignItems="center" gap={0.5}>
+                    <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
+                      <LabeledAddress address={avs.id} label={avs.label} format={formatAddress} />
+                    </Typography>
+                    <Link
+                      href={getEtherscanAddressUrl(avs.id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      sx={{ display: 'flex', alignItems: 'center' }}
+                    >
+                      <OpenInNew sx={{ fontSize: 12 }} />
+                    </Link>
+                  </Box>
+                </MetadataIdentity>
               </TableCell>
               <TableCell>
                 <Box display="flex" alignItems="center" gap={0.5}>
                   <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
-                    {formatAddress(avs.owner)}
+                    <LabeledAddress address={avs.owner} label={avs.ownerLabel} format={formatAddress} />
                   </Typography>
                   <Link
                     href={getEtherscanAddressUrl(avs.owner)}
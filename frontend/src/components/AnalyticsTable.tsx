@@ -47,6 +47,8 @@ const AnalyticsTable: React.FC<AnalyticsTableProps> = ({
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
   const paginatedData = data.slice(startIndex, endIndex);
+  // Time-bucketed rows describe a period rather than a single block
+  const isBucketed = data.some(item => item.bucketStart != null);
   
   // Reset to first page when data changes
   React.useEffect(() => {
@@ -99,7 +101,7 @@ const AnalyticsTable: React.FC<AnalyticsTableProps> = ({
               Staked ETH Analytics
             </Typography>
             <Typography variant="body2" color="text.secondary">
-              Showing {startIndex + 1}-{Math.min(endIndex, data.length)} of {data.length} block{data.length !== 1 ? 's' : ''}
+              Showing {startIndex + 1}-{Math.min(endIndex, data.length)} of {data.length} {isBucketed ? 'period' : 'block'}{data.length !== 1 ? 's' : ''}
               {totalPages > 1 && ` (Page ${currentPage} of ${totalPages})`}
             </Typography>
           </Box>
@@ -118,10 +120,12 @@ const AnalyticsTable: React.FC<AnalyticsTableProps> = ({
         <Table>
           <TableHead>
             <TableRow>
-              <TableCell><strong>Block Number</strong></TableCell>
-              <TableCell><strong>Timestamp</strong></TableCell>
+              <TableCell><strong>{isBucketed ? 'Blocks' : 'Block Number'}</strong></TableCell>
+              <TableCell><strong>{isBucketed ? 'Period Start' : 'Timestamp'}</strong></TableCell>
               <TableCell><strong>Total Deposited</strong></TableCell>
               <TableCell><strong>Event Count</strong></TableCell>
+              {isBucketed && <TableCell><strong>Unique Validators</strong></TableCell>}
+              {isBucketed && <TableCell><strong>Cumulative Deposited</strong></TableCell>}
             </TableRow>
           </TableHead>
           <TableBody>
@@ -134,7 +138,9 @@ const AnalyticsTable: React.FC<AnalyticsTableProps> = ({
                 }}
               >
                 <TableCell sx={{ fontFamily: 'monospace' }}>
-                  {formatBlockNumber(item.blockNumber)}
+                  {isBucketed && item.firstBlock != null
+                    ? `${formatBlockNumber(item.firstBlock)} - ${formatBlockNumber(item.blockNumber)}`
+                    : formatBlockNumber(item.blockNumber)}
                 </TableCell>
                 <TableCell>
                   {formatTimestamp(item.blockTimestamp)}
@@ -156,6 +162,16 @@ const AnalyticsTable: React.FC<AnalyticsTableProps> = ({
                     variant={item.eventCount === 0 ? 'outlined' : 'filled'}
                   />
                 </TableCell>
+                {isBucketed && (
+                  <TableCell>
+                    {formatEventCount(item.uniqueValidators)}
+                  </TableCell>
+                )}
+                {isBucketed && (
+                  <TableCell>
+                    {formatEthAmount(item.cumulativeDeposited || '0')}
+                  </TableCell>
+                )}
               </TableRow>
             ))}
           </TableBody>
@@ -18,6 +18,8 @@ import {
   Tooltip
 } from '@mui/material';
 import { OpenInNew, Visibility, VisibilityOff } from '@mui/icons-material';
+import { Label } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
 
 interface Deposit {
   id: string;
@@ -28,10 +30,12 @@ interface Deposit {
   };
   staker: {
     address: string;
+    label?: Label | null;
   };
   shares: string;
   strategy: {
     id: string;
+    label?: Label | null;
   };
   blockNumber: number;
   blockTimestamp: number;
@@ -261,7 +265,7 @@ const DepositsTable: React.FC<DepositsTableProps> = ({
                     '&:hover': { textDecoration: 'underline' }
                   }}
                 >
-                  {formatAddress(deposit.staker.address)}
+                  <LabeledAddress address={deposit.staker.address} label={deposit.staker.label} format={formatAddress} />
                   <OpenInNew sx={{ fontSize: 10, ml: 0.5 }} />
                 </Link>
               </TableCell>
@@ -283,7 +287,7 @@ const DepositsTable: React.FC<DepositsTableProps> = ({
                     '&:hover': { textDecoration: 'underline' }
                   }}
                 >
-                  {formatAddress(deposit.strategy.id)}
+                  <LabeledAddress address={deposit.strategy.id} label={deposit.strategy.label} format={formatAddress} />
                   <OpenInNew sx={{ fontSize: 10, ml: 0.5 }} />
                 </Link>
               </TableCell>
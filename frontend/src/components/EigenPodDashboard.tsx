@@ -14,43 +14,55 @@ import {
   Select,
   MenuItem,
   TextField,
-  Button
+  Button,
+  FormControlLabel,
+  Switch
 } from '@mui/material';
-import { EigenPod, EigenPodResponse, EigenPodWhereInput } from '@eigen-layer-dashboard/lib/frontend-types';
+import { EigenPod, EigenPodResponse, EigenPodFilter, PageInfo } from '@eigen-layer-dashboard/lib/frontend-types';
 import { queryEigenPods } from '../utils/graphql';
+import { subscribePodDeployed } from '../utils/subscriptions';
 import EigenPodTable from './EigenPodTable';
 
+// Page to load; adjacent pages are reached through the cursors of the current one
+interface PageRequest {
+  page: number;
+  cursor: { after?: string; before?: string };
+}
+
 const EigenPodDashboard: React.FC = () => {
   const [eigenPods, setEigenPods] = useState<EigenPod[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
-  const [skip, setSkip] = useState<number>(0);
+  const [pageRequest, setPageRequest] = useState<PageRequest>({ page: 1, cursor: {} });
+  const [pageInfo, setPageInfo] = useState<PageInfo | null>(null);
   const [limit, setLimit] = useState<number>(50);
   const [total, setTotal] = useState<number>(0);
   const [podOwnerFilter, setPodOwnerFilter] = useState<string>('');
+  const [live, setLive] = useState<boolean>(false);
 
   const toggleHeaderVisibility = () => {
     setIsHeaderVisible(!isHeaderVisible);
   };
 
-  const fetchEigenPods = async (currentSkip: number = 0, currentLimit: number = 50, currentPodOwnerFilter: string = '') => {
+  const fetchEigenPods = async (request: PageRequest, currentLimit: number = 50, currentPodOwnerFilter: string = '') => {
     setLoading(true);
     setError(null);
 
     try {
-      console.log('Fetching EigenPods with params:', { currentSkip, currentLimit, currentPodOwnerFilter });
+      const currentSkip = (request.page - 1) * currentLimit;
+      console.log('Fetching EigenPods with params:', { currentSkip, currentLimit, currentPodOwnerFilter, cursor: request.cursor });
       
       // Build where clause for filtering
-      const where: EigenPodWhereInput | undefined = currentPodOwnerFilter.trim() 
+      const where: EigenPodFilter | undefined = currentPodOwnerFilter.trim() 
         ? { ownerAddress: currentPodOwnerFilter.trim() }
         : undefined;
       
-      // Now try the actual query
-      const response: EigenPodResponse = await queryEigenPods(currentSkip, currentLimit, where);
+      const response: EigenPodResponse = await queryEigenPods(currentSkip, currentLimit, where, request.cursor);
       console.log('EigenPods response:', response);
       setEigenPods(response.pods);
-      setTotal(response.total);
+      setTotal(response.totalCount ?? response.total);
+      setPageInfo(response.pageInfo ?? null);
     } catch (err: any) {
       console.error('Error fetching EigenPods:', err);
       setError(err.message || 'Failed to fetch EigenPod data');
@@ -60,31 +72,62 @@ const EigenPodDashboard: React.FC = () => {
   };
 
   useEffect(() => {
-    fetchEigenPods(skip, limit, podOwnerFilter);
-  }, [skip, limit, podOwnerFilter]);
+    fetchEigenPods(pageRequest, limit, podOwnerFilter);
+  }, [pageRequest, limit, podOwnerFilter]);
+
+  // Streamed pods are newest, so they only belong on the first page of a matching view
+  useEffect(() => {
+    if (!live) {
+      return;
+    }
+
+    return subscribePodDeployed({
+      onData: (pod) => {
+        const owner = podOwnerFilter.trim().toLowerCase();
+        if (owner && pod.podOwner.toLowerCase() !== owner) {
+          return;
+        }
+        setTotal(current => current + 1);
+        if (pageRequest.page === 1) {
+          setEigenPods(current => [pod, ...current.filter(existing => existing.id !== pod.id)].slice(0, limit));
+        }
+      },
+      onError: (err) => {
+        console.error('Error streaming EigenPods:', err);
+        setError(err.message);
+        setLive(false);
+      },
+    });
+  }, [live, pageRequest, limit, podOwnerFilter]);
 
   const handlePageChange = (page: number) => {
-    const newSkip = (page - 1) * limit;
-    setSkip(newSkip);
+    // Cursors keep deep pages cheap; jumps further away fall back to an offset
+    if (page === pageRequest.page + 1 && pageInfo?.endCursor) {
+      setPageRequest({ page, cursor: { after: pageInfo.endCursor } });
+    } else if (page === pageRequest.page - 1 && page > 1 && pageInfo?.startCursor) {
+      setPageRequest({ page, cursor: { before: pageInfo.startCursor } });
+    } else {
+      setPageRequest({ page, cursor: {} });
+    }
   };
 
   const handleLimitChange = (newLimit: number) => {
     setLimit(newLimit);
-    setSkip(0); // Reset to first page when limit changes
+    setPageRequest({ page: 1, cursor: {} }); // Reset to first page when limit changes
   };
 
   const handlePodOwnerFilterChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     setPodOwnerFilter(event.target.value);
-    setSkip(0); // Reset to first page when filter changes
+    setPageRequest({ page: 1, cursor: {} }); // Reset to first page when filter changes
   };
 
   const handleClearFilter = () => {
     setPodOwnerFilter('');
-    setSkip(0); // Reset to first page when clearing filter
+    setPageRequest({ page: 1, cursor: {} }); // Reset to first page when clearing filter
   };
 
-  const totalPages = Math.ceil(total / limit);
-  const currentPage = Math.floor(skip / limit) + 1;
+  const totalPages = Math.max(1, Math.ceil(total / limit));
+  const currentPage = pageRequest.page;
 
   return (
     <Stack spacing={4}>
@@ -150,6 +193,10 @@ const EigenPodDashboard: React.FC = () => {
                   </Stack>
                   
                   <Box display="flex" alignItems="center" gap={2}>
+                    <FormControlLabel
+                      control={<Switch checked={live} onChange={(e) => setLive(e.target.checked)} />}
+                      label="Live"
+                    />
                     <Chip 
                       label={`Total: ${total.toLocaleString()}`} 
                       color="primary" 
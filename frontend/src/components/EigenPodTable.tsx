@@ -20,6 +20,7 @@ import {
 } from '@mui/material';
 import { Visibility, VisibilityOff, OpenInNew } from '@mui/icons-material';
 import { EigenPod } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
 
 interface EigenPodTableProps {
   data: EigenPod[];
@@ -124,7 +125,7 @@ const EigenPodTable: React.FC<EigenPodTableProps> = ({
               <TableCell><strong>Pod Owner</strong></TableCell>
               <TableCell><strong>Block Number</strong></TableCell>
               <TableCell><strong>Transaction Hash</strong></TableCell>
-              <TableCell><strong>Created At</strong></TableCell>
+              <TableCell><strong>Deployed At</strong></TableCell>
             </TableRow>
           </TableHead>
           <TableBody>
@@ -156,12 +157,10 @@ const EigenPodTable: React.FC<EigenPodTableProps> = ({
                         '&:hover': { textDecoration: 'underline' }
                       }}
                     >
-                      <Tooltip title={pod.eigenPod}>
-                        <Typography variant="body2">
-                          {formatAddress(pod.eigenPod)}
-                          <OpenInNew sx={{ fontSize: 12, ml: 0.5 }} />
-                        </Typography>
-                      </Tooltip>
+                      <Typography variant="body2">
+                        <LabeledAddress address={pod.eigenPod} label={pod.label} format={formatAddress} />
+                        <OpenInNew sx={{ fontSize: 12, ml: 0.5 }} />
+                      </Typography>
                     </Link>
                   </TableCell>
                   <TableCell sx={{ fontFamily: 'monospace' }}>
@@ -175,12 +174,10 @@ const EigenPodTable: React.FC<EigenPodTableProps> = ({
                         '&:hover': { textDecoration: 'underline' }
                       }}
                     >
-                      <Tooltip title={pod.podOwner}>
-                        <Typography variant="body2">
-                          {formatAddress(pod.podOwner)}
-                          <OpenInNew sx={{ fontSize: 12, ml: 0.5 }} />
-                        </Typography>
-                      </Tooltip>
+                      <Typography variant="body2">
+                        <LabeledAddress address={pod.podOwner} label={pod.podOwnerLabel} format={formatAddress} />
+                        <OpenInNew sx={{ fontSize: 12, ml: 0.5 }} />
+                      </Typography>
                     </Link>
                   </TableCell>
                   <TableCell>
@@ -210,7 +207,7 @@ const EigenPodTable: React.FC<EigenPodTableProps> = ({
                   </TableCell>
                   <TableCell>
                     <Typography variant="body2">
-                      {formatDate(pod.createdAt)}
+                      {pod.blockTimestamp ? formatDate(new Date(pod.blockTimestamp * 1000).toISOString()) : '-'}
                     </Typography>
                   </TableCell>
                 </TableRow>
@@ -0,0 +1,146 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Alert,
+  IconButton,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { Refresh } from '@mui/icons-material';
+import { IndexerSourceStatus } from '@eigen-layer-dashboard/lib/frontend-types';
+import { GraphQLClient } from '../utils/graphql';
+
+// The indexers run every minute by default
+const REFRESH_INTERVAL_MS = 60000;
+
+const formatLag = (seconds?: number | null): string => {
+  if (seconds === null || seconds === undefined) return 'n/a';
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 7200) return `${Math.round(seconds / 60)}m`;
+  if (seconds < 172800) return `${Math.round(seconds / 3600)}h`;
+  return `${Math.round(seconds / 86400)}d`;
+};
+
+const formatDateTime = (value?: string | null): string => {
+  return value ? new Date(value).toLocaleString() : 'n/a';
+};
+
+const statusColor = (source: IndexerSourceStatus): 'success' | 'info' | 'warning' | 'error' => {
+  if (source.status === 'error') return 'error';
+  if (source.isLagging) return 'warning';
+  return source.status === 'running' ? 'info' : 'success';
+};
+
+/**
+ * Per-source indexer progress for the Overview tab: cursor, chain head, lag and event rate.
+ */
+const IndexerStatusPanel: React.FC = () => {
+  const [sources, setSources] = useState<IndexerSourceStatus[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStatus = useCallback(async () => {
+    setLoading(true);
+    try {
+      const response = await GraphQLClient.getIndexerStatus();
+      setSources(response.indexerStatus);
+      setError(null);
+    } catch (err: any) {
+      console.error('Error fetching indexer status:', err);
+      setError(err.message || 'Failed to fetch indexer status');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchStatus();
+    const interval = setInterval(fetchStatus, REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [fetchStatus]);
+
+  return (
+    <Card>
+      <CardContent>
+        <Stack spacing={2}>
+          <Box display="flex" justifyContent="space-between" alignItems="center">
+            <Typography variant="h5" fontWeight="bold">
+              Indexer Status
+            </Typography>
+            <Tooltip title="Refresh">
+              <span>
+                <IconButton onClick={fetchStatus} disabled={loading} size="small">
+                  {loading ? <CircularProgress size={20} /> : <Refresh />}
+                </IconButton>
+              </span>
+            </Tooltip>
+          </Box>
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {!error && !loading && sources.length === 0 && (
+            <Typography color="text.secondary">
+              No indexer has run yet
+            </Typography>
+          )}
+
+          {sources.length > 0 && (
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Indexer</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell align="right">Last Indexed Block</TableCell>
+                    <TableCell align="right">Chain Head</TableCell>
+                    <TableCell align="right">Lag</TableCell>
+                    <TableCell align="right">Events / min</TableCell>
+                    <TableCell>Last Run</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {sources.map(source => (
+                    <TableRow key={source.indexerName}>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>{source.indexerName}</TableCell>
+                      <TableCell>
+                        <Tooltip title={source.error || ''}>
+                          <Chip
+                            label={source.isLagging && source.status !== 'error' ? 'lagging' : source.status}
+                            color={statusColor(source)}
+                            size="small"
+                          />
+                        </Tooltip>
+                      </TableCell>
+                      <TableCell align="right">{source.lastIndexedBlock.toLocaleString()}</TableCell>
+                      <TableCell align="right">{source.chainHead?.toLocaleString() ?? 'n/a'}</TableCell>
+                      <TableCell align="right">
+                        <Tooltip title={source.lagBlocks !== null && source.lagBlocks !== undefined ? `${source.lagBlocks.toLocaleString()} blocks` : ''}>
+                          <span>{formatLag(source.lagSeconds)}</span>
+                        </Tooltip>
+                      </TableCell>
+                      <TableCell align="right">{source.eventsPerMinute.toLocaleString()}</TableCell>
+                      <TableCell>{formatDateTime(source.lastRunAt)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          )}
+        </Stack>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default IndexerStatusPanel;
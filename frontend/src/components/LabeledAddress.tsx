@@ -0,0 +1,35 @@
+import React from 'react';
+import { Box, Tooltip } from '@mui/material';
+import { Label } from '@eigen-layer-dashboard/lib/frontend-types';
+
+interface LabeledAddressProps {
+  address: string;
+  label?: Label | null;
+  // Used when the address has no label
+  format?: (address: string) => string;
+}
+
+const shortenAddress = (address: string) => {
+  if (!address) return 'N/A';
+  return `${address.slice(0, 6)}...${address.slice(-4)}`;
+};
+
+/**
+ * Shows the registry name of an address when it has one, the shortened hex otherwise.
+ * The full hex is always available as a tooltip.
+ */
+const LabeledAddress: React.FC<LabeledAddressProps> = ({ address, label, format = shortenAddress }) => {
+  return (
+    <Tooltip title={address || ''}>
+      {label ? (
+        <Box component="span" sx={{ fontFamily: theme => theme.typography.fontFamily, fontWeight: 500 }}>
+          {label.name}
+        </Box>
+      ) : (
+        <span>{format(address)}</span>
+      )}
+    </Tooltip>
+  );
+};
+
+export default LabeledAddress;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Avatar, Box, Tooltip, Typography } from '@mui/material';
+import { OperatorMetadata } from '@eigen-layer-dashboard/lib/frontend-types';
+
+interface MetadataIdentityProps {
+  metadata?: OperatorMetadata | null;
+  // The address line, shown under the name
+  children: React.ReactNode;
+}
+
+/**
+ * Logo and name from an operator or AVS metadata document, above the address.
+ * Renders only the address until the backend has fetched the document.
+ */
+const MetadataIdentity: React.FC<MetadataIdentityProps> = ({ metadata, children }) => {
+  if (!metadata?.name) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Box display="flex" alignItems="center" gap={1}>
+      <Avatar
+        src={metadata.logo || undefined}
+        alt={metadata.name}
+        sx={{ width: 28, height: 28, fontSize: '0.8rem' }}
+      >
+        {metadata.name.charAt(0).toUpperCase()}
+      </Avatar>
+      <Box minWidth={0}>
+        <Tooltip title={metadata.description || ''}>
+          <Typography variant="body2" fontWeight={500} noWrap sx={{ maxWidth: 220 }}>
+            {metadata.name}
+          </Typography>
+        </Tooltip>
+        {children}
+      </Box>
+    </Box>
+  );
+};
+
+export default MetadataIdentity;
@@ -14,10 +14,14 @@ import {
 } from '@mui/material';
 import { Close, OpenInNew } from '@mui/icons-material';
 import { queryOperatorAVSs } from '../utils/graphql';
+import { Label } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
 
 interface AVS {
   id: string;
   owner: string;
+  label?: Label | null;
+  ownerLabel?: Label | null;
   operatorCount: number;
   operatorSetCount: number;
   strategyCount: number;
@@ -161,7 +165,7 @@ const OperatorAVSsPanel: React.FC<OperatorAVSsPanelProps> = ({
                 >
                   <Box display="flex" justifyContent="space-between" alignItems="center" width="100%" mb={1}>
                     <Typography variant="subtitle2" sx={{ fontFamily: 'monospace' }}>
-                      {formatAddress(avs.id)}
+                      <LabeledAddress address={avs.id} label={avs.label} format={formatAddress} />
                     </Typography>
                     <IconButton
                       size="small"
@@ -194,7 +198,7 @@ const OperatorAVSsPanel: React.FC<OperatorAVSsPanelProps> = ({
 
                   <Box width="100%">
                     <Typography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
-                      Owner: {formatAddress(avs.owner)}
+                      Owner: <LabeledAddress address={avs.owner} label={avs.ownerLabel} format={formatAddress} />
                     </Typography>
                     <Typography variant="body2" color="text.secondary" sx={{ mb: 0.5 }}>
                       Last Updated: {formatDate(avs.lastUpdateBlockTimestamp)}
@@ -14,9 +14,12 @@ import {
 } from '@mui/material';
 import { Close, OpenInNew } from '@mui/icons-material';
 import { queryOperatorSetOperators } from '../utils/graphql';
+import { Label } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
 
 interface Operator {
   id: string;
+  label?: Label | null;
   avsCount: number;
   strategyCount: number;
   stakerCount: number;
@@ -159,7 +162,7 @@ const OperatorSetOperatorsPanel: React.FC<OperatorSetOperatorsPanelProps> = ({
                 >
                   <Box display="flex" justifyContent="space-between" alignItems="center" width="100%" mb={1}>
                     <Typography variant="subtitle2" sx={{ fontFamily: 'monospace' }}>
-                      {formatAddress(operator.id)}
+                      <LabeledAddress address={operator.id} label={operator.label} format={formatAddress} />
                     </Typography>
                     <IconButton
                       size="small"
@@ -16,16 +16,20 @@ import {
   Link
 } from '@mui/material';
 import { OpenInNew } from '@mui/icons-material';
+import { Label } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
 
 interface OperatorSet {
   id: string;
   avs: {
     id: string;
     owner: string;
+    label?: Label | null;
     lastUpdateBlockNumber: number;
     lastUpdateBlockTimestamp: number;
   };
   owner: string;
+  ownerLabel?: Label | null;
   operatorCount: number;
   strategyCount: number;
   stakerCount: number;
@@ -205,7 +209,7 @@ const OperatorSetsTable: React.FC<OperatorSetsTableProps> = ({
               <TableCell>
                 <Box display="flex" alignItems="center" gap={0.5}>
                   <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
-                    {formatAddress(operatorSet.avs.id)}
+                    <LabeledAddress address={operatorSet.avs.id} label={operatorSet.avs.label} format={formatAddress} />
                   </Typography>
                   <Link
                     href={getEtherscanAddressUrl(operatorSet.avs.id)}
@@ -220,7 +224,7 @@ const OperatorSetsTable: React.FC<OperatorSetsTableProps> = ({
               <TableCell>
                 <Box display="flex" alignItems="center" gap={0.5}>
                   <Typography variant="body2" sx={{ fontFamily: 'monospace' }}>
-                    {formatAddress(operatorSet.owner)}
+                    <LabeledAddress address={operatorSet.owner} label={operatorSet.ownerLabel} format={formatAddress} />
                   </Typography>
                   <Link
                     href={getEtherscanAddressUrl(operatorSet.owner)}
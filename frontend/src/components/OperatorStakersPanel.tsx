@@ -14,9 +14,12 @@ import {
 } from '@mui/material';
 import { Close, OpenInNew } from '@mui/icons-material';
 import { queryOperatorStakers } from '../utils/graphql';
+import { Label } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
 
 interface Staker {
   address: string;
+  label?: Label | null;
   operatorCount: number;
   depositCount: number;
   withdrawalCount: number;
@@ -143,7 +146,7 @@ const OperatorStakersPanel: React.FC<OperatorStakersPanelProps> = ({
                 >
                   <Box display="flex" justifyContent="space-between" alignItems="center" width="100%" mb={1}>
                     <Typography variant="subtitle2" sx={{ fontFamily: 'monospace' }}>
-                      {formatAddress(staker.address)}
+                      <LabeledAddress address={staker.address} label={staker.label} format={formatAddress} />
                     </Typography>
                     <IconButton
                       size="small"
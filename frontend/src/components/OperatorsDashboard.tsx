@@ -43,8 +43,7 @@ const OperatorsDashboard: React.FC = () => {
   const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('desc');
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
   const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(1);
-  const [totalCount, setTotalCount] = useState(0);
+  const [hasNextPage, setHasNextPage] = useState(false);
   const [strategiesPanelOpen, setStrategiesPanelOpen] = useState(false);
   const [selectedOperatorId, setSelectedOperatorId] = useState('');
   const [selectedOperatorAddress, setSelectedOperatorAddress] = useState('');
@@ -72,8 +71,8 @@ const OperatorsDashboard: React.FC = () => {
       const result = await queryOperators(skip, limit);
       
       setOperators(result.operators || []);
-      setTotalCount(result.total || 0);
-      setTotalPages(Math.ceil((result.total || 0) / limit));
+      // The subgraph does not count operators, it only tells whether another page follows
+      setHasNextPage(!!result.hasNextPage);
     } catch (err: any) {
       console.error('Error fetching operators:', err);
       setError(err.message);
@@ -204,7 +203,7 @@ const OperatorsDashboard: React.FC = () => {
             </FormControl>
             
             <Typography variant="body2" color="text.secondary">
-              Showing {operators.length} of {totalCount} operators
+              Showing {operators.length} operators
             </Typography>
           </Box>
         </Paper>
@@ -229,7 +228,7 @@ const OperatorsDashboard: React.FC = () => {
       {/* Pagination */}
       <Box display="flex" justifyContent="space-between" alignItems="center" mt={2}>
         <Typography variant="body2" color="text.secondary">
-          Page {currentPage} of {totalPages}
+          Page {currentPage}{hasNextPage ? '' : ` of ${currentPage}`}
           {operators.length > 0 && (
             <Typography component="span" sx={{ ml: 1 }}>
               ({operators.length} operators)
@@ -248,7 +247,7 @@ const OperatorsDashboard: React.FC = () => {
           <Button
             variant="outlined"
             onClick={handleNext}
-            disabled={operators.length < limit || loading}
+            disabled={!hasNextPage || loading}
             size="small"
           >
             Next
@@ -15,14 +15,19 @@ import {
   IconButton
 } from '@mui/material';
 import { OpenInNew, Visibility, VisibilityOff } from '@mui/icons-material';
+import { Label, OperatorMetadata } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
+import MetadataIdentity from './MetadataIdentity';
 
 interface Operator {
   id: string;
+  label?: Label | null;
   strategyCount: number;
   operatorSetCount: number;
   stakerCount: number;
   avsCount: number;
   metadataURI: string;
+  metadata?: OperatorMetadata | null;
   delegationApprover: string;
   slashingCount: number;
   registeredTransactionHash: string;
@@ -201,19 +206,21 @@ const OperatorsTable: React.FC<OperatorsTableProps> = ({
             {operators.map((operator) => (
               <TableRow key={operator.id} hover>
                 <TableCell>
-                  <Box display="flex" alignItems="center" gap={0.5}>
-                    <Typography variant="body2" sx={{ fontSize: '0.75rem' }}>
-                      {formatAddress(operator.id)}
-                    </Typography>
-                    <Link
-                      href={getEtherscanAddressUrl(operator.id)}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      sx={{ display: 'flex', alignItems: 'center' }}
-                    >
-                      <OpenInNew sx={{ fontSize: 10 }} />
-                    </Link>
-                  </Box>
+                  <MetadataIdentity metadata={operator.metadata}>
+                    <Box display="flex" alignItems="center" gap={0.5}>
+                      <Typography variant="body2" sx={{ fontSize: '0.75rem' }}>
+                        <LabeledAddress address={operator.id} label={operator.label} format={formatAddress} />
+                      </Typography>
+                      <Link
+                        href={getEtherscanAddressUrl(operator.id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        sx={{ display: 'flex', alignItems: 'center' }}
+                      >
+                        <OpenInNew sx={{ fontSize: 10 }} />
+                      </Link>
+                    </Box>
+                  </MetadataIdentity>
                 </TableCell>
                 <TableCell>
                   <Chip
@@ -15,12 +15,44 @@ import {
   FormControlLabel,
   RadioGroup,
   Radio,
-  TextField
+  TextField,
+  MenuItem,
+  Tabs,
+  Tab,
+  Switch,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow
 } from '@mui/material';
 import { Refresh } from '@mui/icons-material';
 import { GraphQLClient } from '../utils/graphql';
-import { StakedEthAnalytics, StakedEthAnalyticsInput, StakedEthStats } from '@eigen-layer-dashboard/lib/frontend-types';
+import { subscribeStakedEthDeposited } from '../utils/subscriptions';
+import { AnalyticsGranularity, StakedEthAnalytics, StakedEthAnalyticsInput, StakedEthDeposit, StakedEthStats } from '@eigen-layer-dashboard/lib/frontend-types';
+import { formatEthAmount, formatTimestamp, formatBlockNumber } from '../utils/formatters';
 import AnalyticsTable from './AnalyticsTable';
+import ValidatorTable from './ValidatorTable';
+
+type QueryType = 'single' | 'range' | 'dates';
+
+type View = 'analytics' | 'validators';
+
+const GRANULARITY_OPTIONS: { value: AnalyticsGranularity; label: string }[] = [
+  { value: 'HOUR', label: 'Hourly' },
+  { value: 'DAY', label: 'Daily' },
+  { value: 'WEEK', label: 'Weekly' },
+  { value: 'MONTH', label: 'Monthly' },
+];
+
+// Deposits kept in the live feed, newest first
+const MAX_LIVE_DEPOSITS = 25;
+
+// Converts a YYYY-MM-DD date input to a unix timestamp at the start (or end) of that UTC day
+const toUnixTimestamp = (date: string, endOfDay: boolean = false): number => {
+  const start = Math.floor(Date.parse(`${date}T00:00:00Z`) / 1000);
+  return endOfDay ? start + 86399 : start;
+};
 
 const StakedEthDashboard: React.FC = () => {
   const [analytics, setAnalytics] = useState<StakedEthAnalytics[]>([]);
@@ -28,16 +60,23 @@ const StakedEthDashboard: React.FC = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
+  const [view, setView] = useState<View>('analytics');
+  const [live, setLive] = useState(false);
+  const [liveDeposits, setLiveDeposits] = useState<StakedEthDeposit[]>([]);
+  const [liveError, setLiveError] = useState<string | null>(null);
   
   const toggleHeaderVisibility = () => {
     setIsHeaderVisible(!isHeaderVisible);
   };
   
   // Filter states
-  const [queryType, setQueryType] = useState<'single' | 'range'>('single');
+  const [queryType, setQueryType] = useState<QueryType>('single');
   const [blockNumber, setBlockNumber] = useState<number>(18001984);
   const [startBlock, setStartBlock] = useState<number>(18001980);
   const [endBlock, setEndBlock] = useState<number>(18001990);
+  const [fromDate, setFromDate] = useState<string>('2023-09-01');
+  const [toDate, setToDate] = useState<string>('2023-09-30');
+  const [granularity, setGranularity] = useState<AnalyticsGranularity>('DAY');
 
   const fetchAnalytics = async () => {
     setLoading(true);
@@ -53,6 +92,13 @@ const StakedEthDashboard: React.FC = () => {
         case 'range':
           input = { startBlock, endBlock };
           break;
+        case 'dates':
+          input = {
+            granularity,
+            from: fromDate ? toUnixTimestamp(fromDate) : undefined,
+            to: toDate ? toUnixTimestamp(toDate, true) : undefined
+          };
+          break;
         default:
           input = { blockNumber };
       }
@@ -80,6 +126,31 @@ const StakedEthDashboard: React.FC = () => {
     fetchStats();
   }, []);
 
+  useEffect(() => {
+    if (!live) {
+      return;
+    }
+
+    setLiveError(null);
+    return subscribeStakedEthDeposited({
+      onData: (deposit) => {
+        setLiveDeposits(current => [deposit, ...current].slice(0, MAX_LIVE_DEPOSITS));
+        // Keep the statistics in step without refetching them for every deposit
+        setStats((current: StakedEthStats | null) => current && {
+          ...current,
+          totalEvents: current.totalEvents + 1,
+          totalAmount: (BigInt(current.totalAmount) + BigInt(deposit.amount)).toString(),
+          lastBlock: Math.max(current.lastBlock, deposit.blockNumber),
+        });
+      },
+      onError: (err) => {
+        console.error('Error streaming deposits:', err);
+        setLiveError(err.message);
+        setLive(false);
+      },
+    });
+  }, [live]);
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     fetchAnalytics();
@@ -169,11 +240,12 @@ const StakedEthDashboard: React.FC = () => {
                           <FormLabel>Query Type</FormLabel>
                           <RadioGroup
                             value={queryType}
-                            onChange={(e) => setQueryType(e.target.value as 'single' | 'range')}
+                            onChange={(e) => setQueryType(e.target.value as QueryType)}
                             row
                           >
                             <FormControlLabel value="single" control={<Radio />} label="Single Block" />
                             <FormControlLabel value="range" control={<Radio />} label="Block Range" />
+                            <FormControlLabel value="dates" control={<Radio />} label="Date Range" />
                           </RadioGroup>
                         </FormControl>
 
@@ -209,6 +281,40 @@ const StakedEthDashboard: React.FC = () => {
                           </Stack>
                         )}
 
+                        {queryType === 'dates' && (
+                          <Stack direction="row" spacing={2}>
+                            <TextField
+                              fullWidth
+                              label="From (UTC)"
+                              type="date"
+                              value={fromDate}
+                              onChange={(e) => setFromDate(e.target.value)}
+                              InputLabelProps={{ shrink: true }}
+                            />
+                            <TextField
+                              fullWidth
+                              label="To (UTC)"
+                              type="date"
+                              value={toDate}
+                              onChange={(e) => setToDate(e.target.value)}
+                              InputLabelProps={{ shrink: true }}
+                            />
+                            <TextField
+                              select
+                              fullWidth
+                              label="Granularity"
+                              value={granularity}
+                              onChange={(e) => setGranularity(e.target.value as AnalyticsGranularity)}
+                            >
+                              {GRANULARITY_OPTIONS.map(option => (
+                                <MenuItem key={option.value} value={option.value}>
+                                  {option.label}
+                                </MenuItem>
+                              ))}
+                            </TextField>
+                          </Stack>
+                        )}
+
                         <Button
                           type="submit"
                           variant="contained"
@@ -252,15 +358,72 @@ const StakedEthDashboard: React.FC = () => {
         </Paper>
       </Collapse>
 
+      {/* Live Deposits */}
+      {(live || liveError) && (
+        <Card>
+          <CardHeader
+            title="Live Deposits"
+            subheader={liveError || 'New deposits appear here as the indexer stores them'}
+            subheaderTypographyProps={{ color: liveError ? 'error' : 'text.secondary' }}
+          />
+          <CardContent sx={{ pt: 0 }}>
+            {liveDeposits.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                Waiting for new deposits...
+              </Typography>
+            ) : (
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Pubkey</TableCell>
+                    <TableCell align="right">Amount</TableCell>
+                    <TableCell align="right">Block</TableCell>
+                    <TableCell>Time</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {liveDeposits.map(deposit => (
+                    <TableRow key={`${deposit.transactionHash}-${deposit.logIndex}`}>
+                      <TableCell sx={{ fontFamily: 'monospace' }}>
+                        {`${deposit.pubkey.slice(0, 10)}...${deposit.pubkey.slice(-8)}`}
+                      </TableCell>
+                      <TableCell align="right">{formatEthAmount(deposit.amount)}</TableCell>
+                      <TableCell align="right">{formatBlockNumber(deposit.blockNumber)}</TableCell>
+                      <TableCell>{formatTimestamp(deposit.blockTimestamp)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Box display="flex" justifyContent="space-between" alignItems="center">
+        <Tabs value={view} onChange={(_, value) => setView(value)}>
+          <Tab value="analytics" label="Analytics" />
+          <Tab value="validators" label="Validators" />
+        </Tabs>
+        <FormControlLabel
+          control={<Switch checked={live} onChange={(e) => setLive(e.target.checked)} />}
+          label="Live"
+        />
+      </Box>
+
       {/* Analytics Table */}
-      <AnalyticsTable 
-        data={analytics} 
-        loading={loading} 
-        error={error}
-        showToggleButton={true}
-        isHeaderVisible={isHeaderVisible}
-        onToggleHeader={toggleHeaderVisibility}
-      />
+      {view === 'analytics' && (
+        <AnalyticsTable 
+          data={analytics} 
+          loading={loading} 
+          error={error}
+          showToggleButton={true}
+          isHeaderVisible={isHeaderVisible}
+          onToggleHeader={toggleHeaderVisibility}
+        />
+      )}
+
+      {/* Validator List */}
+      {view === 'validators' && <ValidatorTable />}
     </Stack>
   );
 };
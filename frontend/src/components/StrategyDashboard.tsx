@@ -20,6 +20,7 @@ import StrategyTable from './StrategyTable';
 
 const StrategyDashboard: React.FC = () => {
   const [strategies, setStrategies] = useState<Strategy[]>([]);
+  const [hasNextPage, setHasNextPage] = useState(false);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
   const [isHeaderVisible, setIsHeaderVisible] = useState(true);
@@ -85,6 +86,7 @@ const StrategyDashboard: React.FC = () => {
       });
       
       setStrategies(sortedStrategies);
+      setHasNextPage(response.hasNextPage);
     } catch (err: any) {
       console.error('Error fetching Strategies:', err);
       setError(err.message || 'Failed to fetch Strategy data');
@@ -125,11 +127,9 @@ const StrategyDashboard: React.FC = () => {
     setSkip(0); // Reset to first page when sorting changes
   };
 
-  // Since subgraph doesn't provide total count, we'll estimate based on current data
-  // If we have fewer items than the limit, we're on the last page
-  const isLastPage = strategies.length < limit;
+  // The subgraph doesn't provide a total count, so only the next page is known to exist
   const currentPage = Math.floor(skip / limit) + 1;
-  const totalPages = isLastPage ? currentPage : currentPage + 1;
+  const totalPages = hasNextPage ? currentPage + 1 : currentPage;
 
   return (
     <Stack spacing={4}>
@@ -0,0 +1,192 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Drawer,
+  Box,
+  Typography,
+  IconButton,
+  List,
+  ListItem,
+  Chip,
+  CircularProgress,
+  Alert,
+  Divider,
+  Paper
+} from '@mui/material';
+import { Close, OpenInNew } from '@mui/icons-material';
+import { GraphQLClient } from '../utils/graphql';
+import { StakedEthDeposit } from '@eigen-layer-dashboard/lib/frontend-types';
+import { formatEthAmount, formatTimestamp, formatBlockNumber } from '../utils/formatters';
+
+interface ValidatorDepositsPanelProps {
+  open: boolean;
+  onClose: () => void;
+  pubkey: string;
+}
+
+const ValidatorDepositsPanel: React.FC<ValidatorDepositsPanelProps> = ({
+  open,
+  onClose,
+  pubkey
+}) => {
+  const [deposits, setDeposits] = useState<StakedEthDeposit[]>([]);
+  const [depositCount, setDepositCount] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchDeposits = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const result = await GraphQLClient.getValidatorDeposits(pubkey);
+      setDeposits(result.events || []);
+      setDepositCount(result.totalCount || 0);
+    } catch (err: any) {
+      console.error('Error fetching validator deposits:', err);
+      setError(err.message);
+      setDeposits([]);
+      setDepositCount(0);
+    } finally {
+      setLoading(false);
+    }
+  }, [pubkey]);
+
+  useEffect(() => {
+    if (open && pubkey) {
+      fetchDeposits();
+    }
+  }, [open, pubkey, fetchDeposits]);
+
+  const formatPubkey = (key: string) => {
+    if (!key) return 'N/A';
+    return `${key.slice(0, 10)}...${key.slice(-8)}`;
+  };
+
+  const getEtherscanTxUrl = (txHash: string) => {
+    return `https://etherscan.io/tx/${txHash}`;
+  };
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open}
+      onClose={onClose}
+      sx={{
+        '& .MuiDrawer-paper': {
+          width: 450,
+          maxWidth: '90vw',
+        },
+      }}
+    >
+      <Box sx={{ p: 2, height: '100%', display: 'flex', flexDirection: 'column' }}>
+        {/* Header */}
+        <Box display="flex" justifyContent="space-between" alignItems="center" mb={2}>
+          <Box>
+            <Typography variant="h6" component="h2">
+              Deposit History
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ fontFamily: 'monospace' }}>
+              {formatPubkey(pubkey)}
+            </Typography>
+          </Box>
+          <IconButton onClick={onClose} size="small">
+            <Close />
+          </IconButton>
+        </Box>
+
+        <Divider sx={{ mb: 2 }} />
+
+        {/* Content */}
+        <Box sx={{ flex: 1, overflow: 'auto' }}>
+          {loading && (
+            <Box display="flex" justifyContent="center" alignItems="center" py={4}>
+              <CircularProgress />
+            </Box>
+          )}
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          {!loading && !error && deposits.length === 0 && (
+            <Paper sx={{ p: 2, textAlign: 'center' }}>
+              <Typography color="text.secondary">
+                No deposits found for this validator
+              </Typography>
+            </Paper>
+          )}
+
+          {!loading && !error && deposits.length > 0 && (
+            <List>
+              {deposits.map((deposit, index) => (
+                <ListItem
+                  key={`${deposit.transactionHash}-${deposit.logIndex}`}
+                  sx={{
+                    border: '1px solid',
+                    borderColor: 'divider',
+                    borderRadius: 1,
+                    mb: 1,
+                    flexDirection: 'column',
+                    alignItems: 'flex-start',
+                    py: 2
+                  }}
+                >
+                  <Box display="flex" justifyContent="space-between" alignItems="center" width="100%" mb={1}>
+                    <Typography variant="subtitle2">
+                      {formatEthAmount(deposit.amount)}
+                    </Typography>
+                    <IconButton
+                      size="small"
+                      onClick={() => window.open(getEtherscanTxUrl(deposit.transactionHash), '_blank')}
+                    >
+                      <OpenInNew sx={{ fontSize: 16 }} />
+                    </IconButton>
+                  </Box>
+
+                  <Box display="flex" gap={1} flexWrap="wrap" mb={1}>
+                    <Chip
+                      label={index === 0 ? 'Initial Deposit' : 'Top-up'}
+                      size="small"
+                      color={index === 0 ? 'primary' : 'success'}
+                      variant="outlined"
+                    />
+                    <Chip
+                      label={`Block ${formatBlockNumber(deposit.blockNumber)}`}
+                      size="small"
+                      variant="outlined"
+                    />
+                  </Box>
+
+                  <Typography variant="body2" color="text.secondary">
+                    {formatTimestamp(deposit.blockTimestamp)}
+                  </Typography>
+
+                  {/* Batch deposit contracts send several deposits in one transaction */}
+                  {deposit.txValue && deposit.txValue !== deposit.amount && (
+                    <Typography variant="caption" color="text.secondary">
+                      Part of a {formatEthAmount(deposit.txValue)} transaction{deposit.txFrom ? ` from ${deposit.txFrom.slice(0, 10)}...` : ''}
+                    </Typography>
+                  )}
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </Box>
+
+        {/* Footer */}
+        <Box sx={{ mt: 2, pt: 2, borderTop: '1px solid', borderColor: 'divider' }}>
+          <Typography variant="body2" color="text.secondary" textAlign="center">
+            {deposits.length} deposit{deposits.length !== 1 ? 's' : ''} shown
+            {depositCount > 0 && deposits.length < depositCount && (
+              <span> (of {depositCount} total)</span>
+            )}
+          </Typography>
+        </Box>
+      </Box>
+    </Drawer>
+  );
+};
+
+export default ValidatorDepositsPanel;
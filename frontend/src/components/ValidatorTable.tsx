@@ -0,0 +1,305 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  Box,
+  Button,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TableSortLabel,
+  Typography,
+  Alert,
+  CircularProgress,
+  Chip,
+  Pagination,
+  Stack,
+  TextField,
+  MenuItem,
+  Tooltip
+} from '@mui/material';
+import { GraphQLClient } from '../utils/graphql';
+import { Validator, ValidatorFilter, ValidatorOrderBy, OrderDirection } from '@eigen-layer-dashboard/lib/frontend-types';
+import { formatEthAmount, formatTimestamp, formatBlockNumber } from '../utils/formatters';
+import ValidatorDepositsPanel from './ValidatorDepositsPanel';
+import LabeledAddress from './LabeledAddress';
+
+const PAGE_SIZE = 25;
+
+const CREDENTIAL_TYPES = [
+  { value: '', label: 'Any' },
+  { value: '0x00', label: '0x00 (BLS)' },
+  { value: '0x01', label: '0x01' },
+  { value: '0x02', label: '0x02' },
+];
+
+// Converts an ETH amount typed by the user to wei, keeping gwei precision
+const toWei = (eth: string): string | undefined => {
+  const value = parseFloat(eth);
+  if (!eth || isNaN(value) || value < 0) {
+    return undefined;
+  }
+  return (BigInt(Math.round(value * 1e9)) * BigInt(1e9)).toString();
+};
+
+const ValidatorTable: React.FC = () => {
+  const [validators, setValidators] = useState<Validator[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [orderBy, setOrderBy] = useState<ValidatorOrderBy>('LAST_DEPOSIT');
+  const [orderDirection, setOrderDirection] = useState<OrderDirection>('DESC');
+  const [selectedPubkey, setSelectedPubkey] = useState<string | null>(null);
+
+  // Filter inputs are applied on submit
+  const [credentialType, setCredentialType] = useState('');
+  const [withdrawalAddress, setWithdrawalAddress] = useState('');
+  const [minDepositCount, setMinDepositCount] = useState('');
+  const [minTotalDeposited, setMinTotalDeposited] = useState('');
+  const [filter, setFilter] = useState<ValidatorFilter>({});
+
+  const fetchValidators = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      const response = await GraphQLClient.getValidators(
+        (page - 1) * PAGE_SIZE,
+        PAGE_SIZE,
+        filter,
+        orderBy,
+        orderDirection
+      );
+      setValidators(response.validators);
+      setTotal(response.total);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch validators');
+      console.error('Error fetching validators:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [page, filter, orderBy, orderDirection]);
+
+  useEffect(() => {
+    fetchValidators();
+  }, [fetchValidators]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setPage(1);
+    setFilter({
+      credentialType: credentialType || undefined,
+      withdrawalAddress: withdrawalAddress.trim() || undefined,
+      minDepositCount: parseInt(minDepositCount) || undefined,
+      minTotalDeposited: toWei(minTotalDeposited),
+    });
+  };
+
+  const handleSort = (column: ValidatorOrderBy) => {
+    if (orderBy === column) {
+      setOrderDirection(orderDirection === 'DESC' ? 'ASC' : 'DESC');
+    } else {
+      setOrderBy(column);
+      setOrderDirection('DESC');
+    }
+    setPage(1);
+  };
+
+  const formatPubkey = (pubkey: string) => {
+    return `${pubkey.slice(0, 10)}...${pubkey.slice(-8)}`;
+  };
+
+  const formatAddress = (address: string) => {
+    return `${address.slice(0, 6)}...${address.slice(-4)}`;
+  };
+
+  const totalPages = Math.ceil(total / PAGE_SIZE);
+
+  const sortableHeader = (column: ValidatorOrderBy, label: string) => (
+    <TableCell sortDirection={orderBy === column ? (orderDirection === 'DESC' ? 'desc' : 'asc') : false}>
+      <TableSortLabel
+        active={orderBy === column}
+        direction={orderBy === column && orderDirection === 'ASC' ? 'asc' : 'desc'}
+        onClick={() => handleSort(column)}
+      >
+        <strong>{label}</strong>
+      </TableSortLabel>
+    </TableCell>
+  );
+
+  return (
+    <Paper elevation={1} sx={{ overflow: 'hidden' }}>
+      {/* Table Header */}
+      <Box sx={{ p: 3, bgcolor: 'grey.50', borderBottom: 1, borderColor: 'grey.200' }}>
+        <Typography variant="h6" component="h3" gutterBottom>
+          Validators
+        </Typography>
+        <Typography variant="body2" color="text.secondary" gutterBottom>
+          {total.toLocaleString()} validator{total !== 1 ? 's' : ''} matching. Click a row to see its deposit history.
+        </Typography>
+        <Box component="form" onSubmit={handleSubmit} noValidate sx={{ mt: 2 }}>
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
+            <TextField
+              select
+              size="small"
+              label="Credential Type"
+              value={credentialType}
+              onChange={(e) => setCredentialType(e.target.value)}
+              sx={{ minWidth: 160 }}
+            >
+              {CREDENTIAL_TYPES.map(option => (
+                <MenuItem key={option.value} value={option.value}>
+                  {option.label}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              size="small"
+              label="Withdrawal Address"
+              value={withdrawalAddress}
+              onChange={(e) => setWithdrawalAddress(e.target.value)}
+              placeholder="0x..."
+              sx={{ flex: 1 }}
+            />
+            <TextField
+              size="small"
+              label="Min Deposits"
+              type="number"
+              value={minDepositCount}
+              onChange={(e) => setMinDepositCount(e.target.value)}
+            />
+            <TextField
+              size="small"
+              label="Min Total (ETH)"
+              type="number"
+              value={minTotalDeposited}
+              onChange={(e) => setMinTotalDeposited(e.target.value)}
+            />
+            <Button type="submit" variant="contained" disabled={loading}>
+              Apply
+            </Button>
+          </Stack>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ m: 2 }}>
+          {error}
+        </Alert>
+      )}
+
+      {loading ? (
+        <Box display="flex" flexDirection="column" alignItems="center" p={4}>
+          <CircularProgress size={40} />
+        </Box>
+      ) : validators.length === 0 && !error ? (
+        <Box p={4} textAlign="center">
+          <Typography variant="body1" color="text.secondary">
+            No validators match the selected filters.
+          </Typography>
+        </Box>
+      ) : (
+        <TableContainer>
+          <Table>
+            <TableHead>
+              <TableRow>
+                <TableCell><strong>Pubkey</strong></TableCell>
+                <TableCell><strong>Credentials</strong></TableCell>
+                <TableCell><strong>Withdrawal Address</strong></TableCell>
+                {sortableHeader('TOTAL_DEPOSITED', 'Total Deposited')}
+                {sortableHeader('DEPOSIT_COUNT', 'Deposits')}
+                {sortableHeader('FIRST_DEPOSIT', 'First Deposit')}
+                {sortableHeader('LAST_DEPOSIT', 'Last Deposit')}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {validators.map(validator => (
+                <TableRow
+                  key={validator.pubkey}
+                  hover
+                  onClick={() => setSelectedPubkey(validator.pubkey)}
+                  sx={{ cursor: 'pointer' }}
+                >
+                  <TableCell sx={{ fontFamily: 'monospace' }}>
+                    <Tooltip title={validator.pubkey}>
+                      <span>{formatPubkey(validator.pubkey)}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={validator.withdrawalCredentials}>
+                      <Chip label={validator.credentialType} size="small" variant="outlined" />
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell sx={{ fontFamily: 'monospace' }}>
+                    {validator.withdrawalAddress ? (
+                      <Stack direction="row" spacing={1} alignItems="center">
+                        <LabeledAddress address={validator.withdrawalAddress} label={validator.label} format={formatAddress} />
+                        {validator.eigenPod && <Chip label="EigenPod" size="small" color="primary" />}
+                      </Stack>
+                    ) : (
+                      <Typography color="text.secondary" fontStyle="italic">
+                        BLS
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>{formatEthAmount(validator.totalDeposited)}</TableCell>
+                  <TableCell>
+                    {validator.depositCount}
+                    {validator.topUpCount > 0 && (
+                      <Typography component="span" variant="body2" color="text.secondary">
+                        {' '}({validator.topUpCount} top-up{validator.topUpCount !== 1 ? 's' : ''})
+                      </Typography>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={`Block ${formatBlockNumber(validator.firstDepositBlock)}`}>
+                      <span>{formatTimestamp(validator.firstDepositAt)}</span>
+                    </Tooltip>
+                  </TableCell>
+                  <TableCell>
+                    <Tooltip title={`Block ${formatBlockNumber(validator.lastDepositBlock)}`}>
+                      <span>{formatTimestamp(validator.lastDepositAt)}</span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+
+      {/* Pagination */}
+      {totalPages > 1 && (
+        <Box sx={{ p: 2, bgcolor: 'grey.50', borderTop: 1, borderColor: 'grey.200' }}>
+          <Stack direction="row" justifyContent="space-between" alignItems="center" spacing={2}>
+            <Typography variant="body2" color="text.secondary">
+              Page {page} of {totalPages}
+            </Typography>
+            <Pagination
+              count={totalPages}
+              page={page}
+              onChange={(_, value) => setPage(value)}
+              color="primary"
+              size="small"
+              showFirstButton
+              showLastButton
+              siblingCount={1}
+              boundaryCount={1}
+            />
+          </Stack>
+        </Box>
+      )}
+
+      <ValidatorDepositsPanel
+        open={selectedPubkey !== null}
+        onClose={() => setSelectedPubkey(null)}
+        pubkey={selectedPubkey ?? ''}
+      />
+    </Paper>
+  );
+};
+
+export default ValidatorTable;
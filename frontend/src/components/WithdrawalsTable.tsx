@@ -17,14 +17,18 @@ import {
   IconButton,
 } from '@mui/material';
 import { OpenInNew, Visibility, VisibilityOff } from '@mui/icons-material';
+import { Label } from '@eigen-layer-dashboard/lib/frontend-types';
+import LabeledAddress from './LabeledAddress';
 
 interface Withdrawal {
   id: string;
   staker: {
     id: string;
+    label?: Label | null;
   };
   operator: {
     id: string;
+    label?: Label | null;
   };
   strategies: Array<{
     id: string;
@@ -41,6 +45,7 @@ interface Withdrawal {
   nonce: string;
   root: string;
   withdrawer: string;
+  withdrawerLabel?: Label | null;
   startBlockNumber: number;
   startBlockTimestamp: number;
   startTransactionHash: string;
@@ -246,7 +251,7 @@ const WithdrawalsTable: React.FC<WithdrawalsTableProps> = ({
                 <TableCell>
                   <Box display="flex" alignItems="center" gap={0.5}>
                     <Typography variant="body2" sx={{ fontSize: '0.75rem' }}>
-                      {formatAddress(withdrawal.staker.id)}
+                      <LabeledAddress address={withdrawal.staker.id} label={withdrawal.staker.label} format={formatAddress} />
                     </Typography>
                     <Link
                       href={getEtherscanAddressUrl(withdrawal.staker.id)}
@@ -261,7 +266,7 @@ const WithdrawalsTable: React.FC<WithdrawalsTableProps> = ({
                 <TableCell>
                   <Box display="flex" alignItems="center" gap={0.5}>
                     <Typography variant="body2" sx={{ fontSize: '0.75rem' }}>
-                      {formatAddress(withdrawal.operator.id)}
+                      <LabeledAddress address={withdrawal.operator.id} label={withdrawal.operator.label} format={formatAddress} />
                     </Typography>
                     <Link
                       href={getEtherscanAddressUrl(withdrawal.operator.id)}
@@ -276,7 +281,7 @@ const WithdrawalsTable: React.FC<WithdrawalsTableProps> = ({
                 <TableCell>
                   <Box display="flex" alignItems="center" gap={0.5}>
                     <Typography variant="body2" sx={{ fontSize: '0.75rem' }}>
-                      {formatAddress(withdrawal.withdrawer)}
+                      <LabeledAddress address={withdrawal.withdrawer} label={withdrawal.withdrawerLabel} format={formatAddress} />
                     </Typography>
                     <Link
                       href={getEtherscanAddressUrl(withdrawal.withdrawer)}
@@ -0,0 +1,126 @@
+import { EigenPod, StakedEthDeposit } from '@eigen-layer-dashboard/lib/frontend-types';
+
+// Same origin as the HTTP endpoint, the dev server proxies the upgrade to the backend
+const SUBSCRIPTION_ENDPOINT = process.env.NODE_ENV === 'production'
+  ? 'ws://localhost:4000/graphql'
+  : `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}/graphql`;
+
+export interface SubscriptionHandlers<T> {
+  onData: (data: T) => void;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Runs one GraphQL subscription over its own WebSocket, speaking the graphql-transport-ws
+ * protocol the backend serves. Returns a function that stops the subscription.
+ */
+export const subscribe = <T>(query: string, handlers: SubscriptionHandlers<T>, variables?: any): (() => void) => {
+  const socket = new WebSocket(SUBSCRIPTION_ENDPOINT, 'graphql-transport-ws');
+  const id = '1';
+  let stopped = false;
+
+  const fail = (message: string) => {
+    if (!stopped) {
+      stopped = true;
+      handlers.onError?.(new Error(message));
+      socket.close();
+    }
+  };
+
+  socket.onopen = () => {
+    socket.send(JSON.stringify({ type: 'connection_init' }));
+  };
+
+  socket.onmessage = (event: MessageEvent) => {
+    const message = JSON.parse(event.data);
+    switch (message.type) {
+      case 'connection_ack':
+        socket.send(JSON.stringify({ id, type: 'subscribe', payload: { query, variables } }));
+        break;
+      case 'ping':
+        socket.send(JSON.stringify({ type: 'pong' }));
+        break;
+      case 'next':
+        if (message.payload?.errors) {
+          fail(`GraphQL errors: ${JSON.stringify(message.payload.errors)}`);
+        } else if (message.payload?.data) {
+          handlers.onData(message.payload.data);
+        }
+        break;
+      case 'error':
+        fail(`GraphQL errors: ${JSON.stringify(message.payload)}`);
+        break;
+      case 'complete':
+        stopped = true;
+        socket.close();
+        break;
+    }
+  };
+
+  socket.onerror = () => fail('GraphQL subscription error: Unable to connect to backend server.');
+  socket.onclose = (event: CloseEvent) => {
+    if (event.code !== 1000) {
+      fail(`GraphQL subscription closed: ${event.code}${event.reason ? ` - ${event.reason}` : ''}`);
+    }
+  };
+
+  return () => {
+    if (stopped) {
+      return;
+    }
+    stopped = true;
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(JSON.stringify({ id, type: 'complete' }));
+      socket.close(1000);
+    } else {
+      // Still connecting, close as soon as the handshake is done
+      socket.onopen = () => socket.close(1000);
+    }
+  };
+};
+
+export const subscribePodDeployed = (handlers: SubscriptionHandlers<EigenPod>): (() => void) => {
+  const query = `
+    subscription OnPodDeployed {
+      podDeployed {
+        id
+        eigenPod
+        podOwner
+        label { name category }
+        podOwnerLabel { name category }
+        blockNumber
+        blockTimestamp
+        transactionHash
+        logIndex
+        createdAt
+      }
+    }
+  `;
+
+  return subscribe<{ podDeployed: EigenPod }>(query, {
+    onData: data => handlers.onData(data.podDeployed),
+    onError: handlers.onError,
+  });
+};
+
+export const subscribeStakedEthDeposited = (handlers: SubscriptionHandlers<StakedEthDeposit>): (() => void) => {
+  const query = `
+    subscription OnStakedEthDeposited {
+      stakedEthDeposited {
+        pubkey
+        withdrawalCredentials
+        amount
+        depositIndex
+        blockNumber
+        blockTimestamp
+        transactionHash
+        logIndex
+      }
+    }
+  `;
+
+  return subscribe<{ stakedEthDeposited: StakedEthDeposit }>(query, {
+    onData: data => handlers.onData(data.stakedEthDeposited),
+    onError: handlers.onError,
+  });
+};
@@ -0,0 +1,236 @@
+import { BackfillChunk } from '@eigen-layer-dashboard/lib';
+import { BackfillRunner } from './backfill';
+import { ContractEventIndexer } from './contract-event-indexer';
+import { IndexerDatabaseService } from './database';
+import { getIndexerDataSource } from './typeorm.config';
+
+const RETRY_DELAY_MS = 40;
+const IDLE_POLL_MS = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+interface ChunkRun {
+  startBlock: number;
+  endBlock: number;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+/**
+ * Stands in for a ContractEventIndexer: records the ranges it is asked to backfill, in a
+ * timeline shared by every fake, and fails a range as many times as set in `failures`
+ */
+class FakeIndexer {
+  readonly source: { name: string; followsSource?: string };
+  runs: ChunkRun[] = [];
+  failures = new Map<number, number>();
+  // Backfills wait for this before they finish
+  hold: Promise<void> = Promise.resolve();
+
+  constructor(name: string, private timeline: string[], followsSource?: string) {
+    this.source = { name, followsSource };
+  }
+
+  async getDeploymentBlock(): Promise<number> {
+    return 1;
+  }
+
+  async backfillHistoricalEvents(startBlock: number, endBlock: number): Promise<number> {
+    const run: ChunkRun = { startBlock, endBlock, startedAt: Date.now() };
+    this.runs.push(run);
+    this.timeline.push(`start ${this.source.name} ${startBlock}`);
+    await this.hold;
+    await sleep(IDLE_POLL_MS);
+    run.finishedAt = Date.now();
+
+    const failures = this.failures.get(startBlock) ?? 0;
+    if (failures > 0) {
+      this.failures.set(startBlock, failures - 1);
+      throw new Error(`eth_getLogs failed for ${startBlock}`);
+    }
+    this.timeline.push(`end ${this.source.name} ${startBlock}`);
+    return 2;
+  }
+}
+
+describe('BackfillRunner', () => {
+  let database: IndexerDatabaseService;
+  let timeline: string[];
+
+  const createRunner = (indexers: FakeIndexer[], concurrency: number = 2, maxAttempts: number = 3) =>
+    new BackfillRunner(indexers as unknown as ContractEventIndexer[], database, concurrency, maxAttempts, RETRY_DELAY_MS, IDLE_POLL_MS);
+
+  const chunkStates = async (jobId: number) =>
+    (await database.getBackfillChunks(jobId)).map(({ indexerName, startBlock, status, attempts }: BackfillChunk) =>
+      ({ indexerName, startBlock, status, attempts }));
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    delete process.env.DB_URL;
+    process.env.DATABASE_PATH = ':memory:';
+
+    // The migrations are written for Postgres, so the in-memory schema comes from the entities
+    const dataSource = getIndexerDataSource();
+    dataSource.setOptions({ synchronize: true });
+    await dataSource.initialize();
+    database = IndexerDatabaseService.getInstance();
+    await database.initialize();
+  });
+
+  beforeEach(() => {
+    timeline = [];
+  });
+
+  afterAll(async () => {
+    await database.close();
+    jest.restoreAllMocks();
+  });
+
+  it('indexes every chunk of the job and completes it', async () => {
+    const indexer = new FakeIndexer('pods', timeline);
+    const runner = createRunner([indexer]);
+    const job = await runner.createJob(0, 25, 10);
+
+    const result = await runner.run(job.id);
+
+    expect(result.status).toBe('completed');
+    expect(indexer.runs.map(run => [run.startBlock, run.endBlock])).toEqual([[1, 10], [11, 20], [21, 25]]);
+    expect((await database.getBackfillChunks(job.id)).every(chunk => chunk.status === 'completed' && chunk.eventCount === 2)).toBe(true);
+  });
+
+  describe('retries', () => {
+    it('retries a failed chunk after a delay growing with its attempts', async () => {
+      const indexer = new FakeIndexer('pods', timeline);
+      indexer.failures.set(1, 2);
+      const runner = createRunner([indexer], 1);
+      const job = await runner.createJob(1, 10, 10);
+
+      const result = await runner.run(job.id);
+
+      expect(result.status).toBe('completed');
+      const [first, second, third] = indexer.runs;
+      expect(indexer.runs).toHaveLength(3);
+      expect(second.startedAt - first.finishedAt!).toBeGreaterThanOrEqual(RETRY_DELAY_MS);
+      expect(third.startedAt - second.finishedAt!).toBeGreaterThanOrEqual(RETRY_DELAY_MS * 2);
+
+      const [chunk] = await database.getBackfillChunks(job.id);
+      expect(chunk).toMatchObject({ status: 'completed', attempts: 3, error: null });
+    });
+
+    it('marks a chunk failed after the last attempt and fails the job', async () => {
+      const indexer = new FakeIndexer('pods', timeline);
+      indexer.failures.set(11, 5);
+      const runner = createRunner([indexer], 2, 2);
+      const job = await runner.createJob(1, 20, 10);
+
+      const result = await runner.run(job.id);
+
+      expect(result).toMatchObject({ status: 'failed', error: '1 chunks failed, 1 of 2 chunks not completed' });
+      expect(indexer.runs.filter(run => run.startBlock === 11)).toHaveLength(2);
+      const chunks = await database.getBackfillChunks(job.id);
+      expect(chunks[1]).toMatchObject({ status: 'failed', attempts: 2, error: 'eth_getLogs failed for 11' });
+    });
+  });
+
+  describe('resume', () => {
+    it('refuses to run a job with running chunks', async () => {
+      const runner = createRunner([new FakeIndexer('pods', timeline)]);
+      const job = await runner.createJob(1, 20, 10);
+      const [chunk] = await database.getBackfillChunks(job.id);
+      await database.updateBackfillChunk(chunk.id, { status: 'running', attempts: 1 });
+
+      await expect(runner.run(job.id)).rejects.toThrow(/has running chunks/);
+    });
+
+    it('requeues running and failed chunks and leaves completed ones', async () => {
+      const indexer = new FakeIndexer('pods', timeline);
+      const runner = createRunner([indexer]);
+      const job = await runner.createJob(1, 30, 10);
+      // An interrupted process left one chunk done, one running and one failed
+      const [completed, running, failed] = await database.getBackfillChunks(job.id);
+      await database.updateBackfillChunk(completed.id, { status: 'completed', attempts: 1, eventCount: 2 });
+      await database.updateBackfillChunk(running.id, { status: 'running', attempts: 1 });
+      await database.updateBackfillChunk(failed.id, { status: 'failed', attempts: 3, error: 'eth_getLogs failed' });
+      await database.updateBackfillJob(job.id, { status: 'failed', error: '1 chunks failed' });
+
+      const result = await runner.resume(job.id);
+
+      expect(result).toMatchObject({ status: 'completed', error: null });
+      expect(indexer.runs.map(run => run.startBlock)).toEqual([11, 21]);
+      expect(await chunkStates(job.id)).toEqual([
+        { indexerName: 'pods', startBlock: 1, status: 'completed', attempts: 1 },
+        { indexerName: 'pods', startBlock: 11, status: 'completed', attempts: 1 },
+        { indexerName: 'pods', startBlock: 21, status: 'completed', attempts: 1 },
+      ]);
+    });
+  });
+
+  describe('cancellation', () => {
+    it('stops the workers of a job cancelled from another process', async () => {
+      const indexer = new FakeIndexer('pods', timeline);
+      let release!: () => void;
+      indexer.hold = new Promise(resolve => (release = resolve));
+      const runner = createRunner([indexer], 1);
+      const job = await runner.createJob(1, 30, 10);
+
+      const running = runner.run(job.id);
+      while (indexer.runs.length === 0) {
+        await sleep(IDLE_POLL_MS);
+      }
+      // Another process only shares the database with the running one
+      await createRunner([new FakeIndexer('pods', [])]).cancel(job.id);
+      release();
+
+      expect((await running).status).toBe('cancelled');
+      expect(indexer.runs).toHaveLength(1);
+      expect((await chunkStates(job.id)).map(chunk => chunk.status)).toEqual(['completed', 'pending', 'pending']);
+    });
+
+    it('does not run a cancelled job', async () => {
+      const indexer = new FakeIndexer('pods', timeline);
+      const runner = createRunner([indexer]);
+      const job = await runner.createJob(1, 10, 10);
+      await runner.cancel(job.id);
+
+      expect((await runner.run(job.id)).status).toBe('cancelled');
+      expect(indexer.runs).toHaveLength(0);
+    });
+  });
+
+  describe('followed sources', () => {
+    it('starts a chunk once the followed source completed its range', async () => {
+      const pods = new FakeIndexer('pods', timeline);
+      const lifecycle = new FakeIndexer('lifecycle', timeline, 'pods');
+      const runner = createRunner([pods, lifecycle]);
+      const job = await runner.createJob(1, 20, 10);
+
+      expect((await runner.run(job.id)).status).toBe('completed');
+
+      expect(timeline.indexOf('start lifecycle 1')).toBeGreaterThan(timeline.indexOf('end pods 1'));
+      // Every chunk of the followed source up to its end block, not only the overlapping one
+      expect(timeline.indexOf('start lifecycle 11')).toBeGreaterThan(timeline.indexOf('end pods 1'));
+      expect(timeline.indexOf('start lifecycle 11')).toBeGreaterThan(timeline.indexOf('end pods 11'));
+    });
+
+    it('leaves the chunks pending while the followed source failed below them', async () => {
+      const pods = new FakeIndexer('pods', timeline);
+      pods.failures.set(1, 1);
+      const lifecycle = new FakeIndexer('lifecycle', timeline, 'pods');
+      const runner = createRunner([pods, lifecycle], 2, 1);
+      const job = await runner.createJob(1, 20, 10);
+
+      const result = await runner.run(job.id);
+
+      expect(result).toMatchObject({ status: 'failed', error: '1 chunks failed, 3 of 4 chunks not completed' });
+      expect(lifecycle.runs).toHaveLength(0);
+      expect(await chunkStates(job.id)).toEqual([
+        { indexerName: 'pods', startBlock: 1, status: 'failed', attempts: 1 },
+        { indexerName: 'lifecycle', startBlock: 1, status: 'pending', attempts: 0 },
+        { indexerName: 'pods', startBlock: 11, status: 'completed', attempts: 1 },
+        { indexerName: 'lifecycle', startBlock: 11, status: 'pending', attempts: 0 },
+      ]);
+    });
+  });
+});
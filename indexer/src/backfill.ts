@@ -0,0 +1,232 @@
+import { BackfillJob, BackfillChunk, BackfillChunkStatus, BACKFILL_CHUNK_STATUSES } from '@eigen-layer-dashboard/lib';
+import { ContractEventIndexer } from './contract-event-indexer';
+import { IndexerDatabaseService } from './database';
+
+// Chunks indexed at the same time; every worker's requests go through the shared RPC pool
+const BACKFILL_CONCURRENCY = parseInt(process.env.BACKFILL_CONCURRENCY || '2');
+const BACKFILL_CHUNK_SIZE = parseInt(process.env.BACKFILL_CHUNK_SIZE || '100000');
+// Attempts per chunk before it is marked failed and left for `backfill resume`
+const BACKFILL_MAX_ATTEMPTS = parseInt(process.env.BACKFILL_MAX_ATTEMPTS || '3');
+// A failed chunk waits this long times its attempt count before it is tried again
+const CHUNK_RETRY_DELAY_MS = 30000;
+// How often idle workers look for a chunk that became ready
+const IDLE_POLL_MS = 1000;
+
+export interface BackfillProgress {
+  chunks: Record<BackfillChunkStatus, number>;
+  completedBlocks: number;
+  totalBlocks: number;
+  eventCount: number;
+}
+
+export function getBackfillProgress(chunks: BackfillChunk[]): BackfillProgress {
+  const progress: BackfillProgress = {
+    chunks: Object.fromEntries(BACKFILL_CHUNK_STATUSES.map(status => [status, 0])) as Record<BackfillChunkStatus, number>,
+    completedBlocks: 0,
+    totalBlocks: 0,
+    eventCount: 0,
+  };
+  for (const chunk of chunks) {
+    const blocks = chunk.endBlock - chunk.startBlock + 1;
+    progress.chunks[chunk.status]++;
+    progress.totalBlocks += blocks;
+    if (chunk.status === 'completed') {
+      progress.completedBlocks += blocks;
+      progress.eventCount += chunk.eventCount;
+    }
+  }
+  return progress;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs backfill jobs recorded in `backfill_jobs`. A job is split into chunks per source that a
+ * bounded number of workers index concurrently; every chunk's state is stored, so an interrupted
+ * or failed job resumes with the chunks that did not complete. Chunks of a source following
+ * another one (EigenPod lifecycle events) wait until the followed source has covered their range.
+ */
+export class BackfillRunner {
+  private indexers: Map<string, ContractEventIndexer>;
+
+  constructor(
+    indexers: ContractEventIndexer[],
+    private database: IndexerDatabaseService,
+    private concurrency: number = BACKFILL_CONCURRENCY,
+    private maxAttempts: number = BACKFILL_MAX_ATTEMPTS,
+    private retryDelayMs: number = CHUNK_RETRY_DELAY_MS,
+    private idlePollMs: number = IDLE_POLL_MS
+  ) {
+    this.indexers = new Map(indexers.map(indexer => [indexer.source.name, indexer]));
+  }
+
+  /**
+   * Records a job over `startBlock`-`endBlock` for every source of the runner. A start block
+   * of 0 starts each source at its contract's deployment block.
+   */
+  async createJob(startBlock: number, endBlock: number, chunkSize: number = BACKFILL_CHUNK_SIZE): Promise<BackfillJob> {
+    const chunks: Pick<BackfillChunk, 'indexerName' | 'startBlock' | 'endBlock'>[] = [];
+    for (const indexer of this.indexers.values()) {
+      const sourceStart = startBlock === 0 ? await indexer.getDeploymentBlock() : startBlock;
+      for (let chunkStart = sourceStart; chunkStart <= endBlock; chunkStart += chunkSize) {
+        chunks.push({
+          indexerName: indexer.source.name,
+          startBlock: chunkStart,
+          endBlock: Math.min(chunkStart + chunkSize - 1, endBlock),
+        });
+      }
+    }
+
+    const job = await this.database.createBackfillJob(
+      { sources: [...this.indexers.keys()], startBlock, endBlock, chunkSize },
+      chunks
+    );
+    console.log(`[backfill #${job.id}] Created ${chunks.length} chunks of up to ${chunkSize} blocks for ${job.sources.join(', ')}`);
+    return job;
+  }
+
+  async run(jobId: number): Promise<BackfillJob> {
+    const job = await this.getJob(jobId);
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      console.log(`[backfill #${jobId}] Job is ${job.status}, nothing to run`);
+      return job;
+    }
+    const unknown = job.sources.filter(name => !this.indexers.has(name));
+    if (unknown.length > 0) {
+      throw new Error(`Backfill job ${jobId} covers unknown sources: ${unknown.join(', ')}`);
+    }
+
+    const chunks = await this.database.getBackfillChunks(jobId);
+    if (chunks.some(chunk => chunk.status === 'running')) {
+      throw new Error(`Backfill job ${jobId} has running chunks, it runs in another process or was interrupted (see backfill resume)`);
+    }
+
+    try {
+      const retryAt = new Map<number, number>();
+      const workers = Math.max(1, Math.min(this.concurrency, chunks.filter(chunk => chunk.status === 'pending').length));
+      let cancelled = false;
+
+      await this.database.updateBackfillJob(jobId, { status: 'running', error: null });
+      console.log(`[backfill #${jobId}] Running ${chunks.filter(chunk => chunk.status !== 'completed').length} of ${chunks.length} chunks with ${workers} workers`);
+
+      const work = async () => {
+        while (!cancelled) {
+          // Cancelled from another process with `backfill cancel`
+          if ((await this.database.getBackfillJob(jobId))?.status === 'cancelled') {
+            cancelled = true;
+            break;
+          }
+
+          const chunk = chunks.find(candidate => this.isReady(candidate, chunks, retryAt));
+          if (!chunk) {
+            const now = Date.now();
+            const waiting = chunks.some(candidate =>
+              candidate.status === 'running' ||
+              (candidate.status === 'pending' && (retryAt.get(candidate.id) ?? 0) > now)
+            );
+            if (!waiting) {
+              return;
+            }
+            await sleep(this.idlePollMs);
+            continue;
+          }
+
+          // Claimed before the first await so no other worker picks it up
+          chunk.status = 'running';
+          chunk.attempts++;
+          retryAt.delete(chunk.id);
+          await this.runChunk(jobId, chunk, retryAt);
+        }
+      };
+      await Promise.all(Array.from({ length: workers }, work));
+
+      const progress = getBackfillProgress(chunks);
+      const remaining = chunks.length - progress.chunks.completed;
+      if (cancelled) {
+        console.log(`[backfill #${jobId}] Cancelled with ${remaining} chunks left`);
+      } else if (remaining === 0) {
+        await this.database.updateBackfillJob(jobId, { status: 'completed', completedAt: new Date() });
+        console.log(`[backfill #${jobId}] Completed, ${progress.eventCount} events in ${progress.totalBlocks} blocks`);
+      } else {
+        // Pending chunks left here wait for a failed chunk of the source they follow
+        const error = `${progress.chunks.failed} chunks failed, ${remaining} of ${chunks.length} chunks not completed`;
+        await this.database.updateBackfillJob(jobId, { status: 'failed', error });
+        console.error(`[backfill #${jobId}] ${error}`);
+      }
+
+      return this.getJob(jobId);
+    } catch (error: any) {
+      console.error(`[backfill #${jobId}] Error running backfill:`, error);
+      await this.database.updateBackfillJob(jobId, { status: 'failed', error: error?.message || String(error) });
+      throw error;
+    }
+  }
+
+  /**
+   * Queues the failed chunks again with a fresh attempt budget, as well as chunks left running
+   * by an interrupted process, and runs the job.
+   */
+  async resume(jobId: number): Promise<BackfillJob> {
+    const job = await this.getJob(jobId);
+    if (job.status === 'completed') {
+      console.log(`[backfill #${jobId}] Job has already completed`);
+      return job;
+    }
+
+    const requeued = await this.database.requeueBackfillChunks(jobId, ['running', 'failed']);
+    console.log(`[backfill #${jobId}] Resuming, ${requeued} running or failed chunks queued again`);
+    await this.database.updateBackfillJob(jobId, { status: 'pending', error: null });
+    return this.run(jobId);
+  }
+
+  // Workers of a running process stop once their current chunk is done
+  async cancel(jobId: number): Promise<BackfillJob> {
+    const job = await this.getJob(jobId);
+    if (job.status === 'completed') {
+      throw new Error(`Backfill job ${jobId} has already completed`);
+    }
+    await this.database.updateBackfillJob(jobId, { status: 'cancelled' });
+    return { ...job, status: 'cancelled' };
+  }
+
+  private async runChunk(jobId: number, chunk: BackfillChunk, retryAt: Map<number, number>): Promise<void> {
+    const indexer = this.indexers.get(chunk.indexerName)!;
+    await this.database.updateBackfillChunk(chunk.id, { status: 'running', attempts: chunk.attempts });
+
+    try {
+      chunk.eventCount = await indexer.backfillHistoricalEvents(chunk.startBlock, chunk.endBlock);
+      chunk.status = 'completed';
+      chunk.error = null;
+    } catch (error: any) {
+      chunk.error = error?.message || String(error);
+      if (chunk.attempts < this.maxAttempts) {
+        chunk.status = 'pending';
+        retryAt.set(chunk.id, Date.now() + this.retryDelayMs * chunk.attempts);
+        console.warn(`[backfill #${jobId}] ${chunk.indexerName} blocks ${chunk.startBlock}-${chunk.endBlock} failed (attempt ${chunk.attempts} of ${this.maxAttempts}), retrying later: ${chunk.error}`);
+      } else {
+        chunk.status = 'failed';
+        console.error(`[backfill #${jobId}] ${chunk.indexerName} blocks ${chunk.startBlock}-${chunk.endBlock} failed after ${chunk.attempts} attempts: ${chunk.error}`);
+      }
+    }
+
+    await this.database.updateBackfillChunk(chunk.id, { status: chunk.status, eventCount: chunk.eventCount, error: chunk.error });
+  }
+
+  private isReady(chunk: BackfillChunk, chunks: BackfillChunk[], retryAt: Map<number, number>): boolean {
+    if (chunk.status !== 'pending' || (retryAt.get(chunk.id) ?? 0) > Date.now()) {
+      return false;
+    }
+    const followed = this.indexers.get(chunk.indexerName)!.source.followsSource;
+    return chunks.every(other =>
+      other.indexerName !== followed || other.startBlock > chunk.endBlock || other.status === 'completed'
+    );
+  }
+
+  private async getJob(jobId: number): Promise<BackfillJob> {
+    const job = await this.database.getBackfillJob(jobId);
+    if (!job) {
+      throw new Error(`Backfill job ${jobId} not found`);
+    }
+    return job;
+  }
+}
@@ -0,0 +1,110 @@
+import { ethers } from 'ethers';
+import { Block, Transaction, withRetry, RetryConfig, DEFAULT_RETRY_CONFIG } from '@eigen-layer-dashboard/lib';
+import { IndexerDatabaseService } from './database';
+
+// JSON-RPC calls per batch request; ethers packs the calls sent in the same tick into one request
+const RPC_BATCH_SIZE = 100;
+
+/**
+ * Read-through cache of the shared `blocks` and `transactions` tables. Rows missing from the
+ * database are fetched with JSON-RPC batch requests and stored, so a block or transaction is
+ * fetched once no matter how many logs or sources refer to it.
+ */
+export class ChainCache {
+  constructor(
+    private provider: ethers.JsonRpcProvider,
+    private database: IndexerDatabaseService,
+    private retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+  ) {}
+
+  async getBlock(blockNumber: number): Promise<Block> {
+    const blocks = await this.getBlocks([blockNumber]);
+    return blocks.get(blockNumber)!;
+  }
+
+  async getBlocks(blockNumbers: number[]): Promise<Map<number, Block>> {
+    const wanted = [...new Set(blockNumbers)];
+    const blocks = new Map((await this.database.getBlocks(wanted)).map(block => [block.number, block]));
+    const missing = wanted.filter(blockNumber => !blocks.has(blockNumber));
+
+    for (let i = 0; i < missing.length; i += RPC_BATCH_SIZE) {
+      const chunk = missing.slice(i, i + RPC_BATCH_SIZE);
+      const fetched = await withRetry(
+        () => Promise.all(chunk.map(async blockNumber => {
+          const raw = await this.provider.send('eth_getBlockByNumber', [ethers.toQuantity(blockNumber), false]);
+          if (!raw) {
+            // The node may not have the block yet, retried like any other failure
+            throw new Error(`Block ${blockNumber} not found`);
+          }
+          return toBlock(raw);
+        })),
+        this.retryConfig,
+        `eth_getBlockByNumber batch (${chunk[0]}-${chunk[chunk.length - 1]})`
+      );
+
+      await this.database.saveBlocks(fetched);
+      for (const block of fetched) {
+        blocks.set(block.number, block);
+      }
+    }
+
+    return blocks;
+  }
+
+  async getTransactions(hashes: string[]): Promise<Map<string, Transaction>> {
+    const wanted = [...new Set(hashes)];
+    const transactions = new Map((await this.database.getTransactions(wanted)).map(tx => [tx.hash, tx]));
+    const missing = wanted.filter(hash => !transactions.has(hash));
+
+    // Two calls per transaction: the transaction and its receipt
+    const chunkSize = RPC_BATCH_SIZE / 2;
+    for (let i = 0; i < missing.length; i += chunkSize) {
+      const chunk = missing.slice(i, i + chunkSize);
+      const fetched = await withRetry(
+        () => Promise.all(chunk.map(async hash => {
+          const [raw, receipt] = await Promise.all([
+            this.provider.send('eth_getTransactionByHash', [hash]),
+            this.provider.send('eth_getTransactionReceipt', [hash]),
+          ]);
+          if (!raw || !receipt) {
+            throw new Error(`Transaction ${hash} not found`);
+          }
+          return toTransaction(raw, receipt);
+        })),
+        this.retryConfig,
+        `eth_getTransactionByHash batch (${chunk.length})`
+      );
+
+      await this.database.saveTransactions(fetched);
+      for (const tx of fetched) {
+        transactions.set(tx.hash, tx);
+      }
+    }
+
+    return transactions;
+  }
+}
+
+function toBlock(raw: any): Block {
+  return {
+    number: Number(raw.number),
+    hash: raw.hash,
+    parentHash: raw.parentHash,
+    timestamp: Number(raw.timestamp),
+  };
+}
+
+function toTransaction(raw: any, receipt: any): Transaction {
+  return {
+    hash: raw.hash,
+    blockNumber: Number(raw.blockNumber),
+    from: raw.from.toLowerCase(),
+    to: raw.to ? raw.to.toLowerCase() : null,
+    value: BigInt(raw.value).toString(),
+    gasUsed: BigInt(receipt.gasUsed).toString(),
+    // Receipts from before London have no effective price, the gas price was what was paid
+    effectiveGasPrice: BigInt(receipt.effectiveGasPrice ?? raw.gasPrice).toString(),
+    // Receipts from before Byzantium carry a state root instead of a status
+    status: receipt.status === undefined || receipt.status === null ? null : Number(receipt.status),
+  };
+}
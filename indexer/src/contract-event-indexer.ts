@@ -0,0 +1,389 @@
+import { ethers } from 'ethers';
+import { IndexerDatabaseService } from './database';
+import { MAX_CHECKPOINTS, ReorgGuard } from './reorg-guard';
+import { ChainCache } from './chain-cache';
+import { EventSource, EventMapping } from './event-source';
+import {
+  Block,
+  Transaction,
+  getContractDeploymentBlock,
+  ContractDeploymentConfig,
+  getBlockNumberWithRetry,
+  getErrorRpcUrl,
+  queryEventsWithRetry,
+  withRetry,
+  LogRangePlanner,
+  RpcProviderPool,
+  RetryConfig,
+  DEFAULT_RETRY_CONFIG
+} from '@eigen-layer-dashboard/lib';
+
+export interface IndexingStatus {
+  name: string;
+  lastIndexedBlock: number;
+  currentBlock: number;
+  totalEvents: number;
+  isRunning: boolean;
+}
+
+// Windows ending within RPC_QUORUM_BLOCKS of the chain head need RPC_LOGS_QUORUM endpoints to return the same logs
+const LOGS_QUORUM = parseInt(process.env.RPC_LOGS_QUORUM || '1');
+const LOGS_QUORUM_BLOCKS = parseInt(process.env.RPC_QUORUM_BLOCKS || '1000');
+
+// Blocks and transactions of one batch, prefetched for the enrich hooks
+interface BatchChainData {
+  blocks: Map<number, Block>;
+  transactions: Map<string, Transaction>;
+}
+
+/**
+ * Generic runner that indexes the events declared by an EventSource.
+ * Handles batching, retries, the persisted cursor and reorg rollback.
+ */
+export class ContractEventIndexer {
+  readonly source: EventSource;
+  private provider: RpcProviderPool;
+  private contract: ethers.Contract;
+  private database: IndexerDatabaseService;
+  private reorgGuard: ReorgGuard;
+  private chainCache: ChainCache;
+  private rangePlanner: LogRangePlanner;
+  private retryConfig: RetryConfig;
+  private topics: string[];
+  private isRunning: boolean = false;
+
+  constructor(source: EventSource, provider: RpcProviderPool, maxRetries: number = 10, retryDelayBase: number = 2) {
+    this.source = source;
+    this.provider = provider;
+    this.contract = new ethers.Contract(source.address, source.abi, this.provider);
+    this.database = IndexerDatabaseService.getInstance();
+    this.reorgGuard = new ReorgGuard(this.provider, this.database, source.name);
+    this.retryConfig = {
+      ...DEFAULT_RETRY_CONFIG,
+      maxRetries,
+      baseDelay: retryDelayBase * 1000,
+    };
+    this.chainCache = new ChainCache(this.provider, this.database, this.retryConfig);
+    this.rangePlanner = this.createRangePlanner();
+
+    // One eth_getLogs call covers every event of the source
+    this.topics = source.events.map(mapping => {
+      const fragment = this.contract.interface.getEvent(mapping.event);
+      if (!fragment) {
+        throw new Error(`Event ${mapping.event} is not declared in the ${source.name} ABI`);
+      }
+      return fragment.topicHash;
+    });
+  }
+
+  async initialize(): Promise<void> {
+    await this.database.initialize();
+  }
+
+  private async getContractDeploymentBlock(): Promise<number> {
+    const config: ContractDeploymentConfig = {
+      knownDeploymentBlock: this.source.startBlock,
+      contractName: this.source.contractName,
+      fallbackBlockOffset: this.source.fallbackBlockOffset
+    };
+
+    return getContractDeploymentBlock(this.provider, this.source.address, config);
+  }
+
+  async startIndexing(): Promise<void> {
+    if (this.isRunning) {
+      console.log(`[${this.source.name}] Indexer is already running`);
+      return;
+    }
+
+    this.isRunning = true;
+    console.log(`[${this.source.name}] Starting ${this.source.contractName} indexing...`);
+
+    try {
+      await this.database.updateIndexerState(this.source.name, { status: 'running', error: null, lastRunAt: new Date() });
+
+      // Drop events from orphaned blocks before resuming
+      await this.reorgGuard.detectAndRollback(async (forkBlock) => {
+        for (const mapping of this.source.events) {
+          const deleted = await this.database.deleteEventsAfterBlock(mapping.entity, forkBlock);
+          console.log(`[${this.source.name}] Removed ${deleted} orphaned ${mapping.event} events above block ${forkBlock}`);
+        }
+        await this.database.deleteChainDataAfterBlock(forkBlock);
+        await this.saveCursor(forkBlock);
+      });
+
+      // Resume from the persisted cursor, falling back to the last indexed event
+      const lastIndexedBlock = await this.getLastIndexedBlock();
+      const startBlock = lastIndexedBlock > 0 ? lastIndexedBlock + 1 : await this.getContractDeploymentBlock();
+
+      // Only index blocks that have reached the confirmation depth
+      const headBlock = await getBlockNumberWithRetry(this.provider, this.retryConfig);
+      let currentBlock = this.reorgGuard.getSafeBlock(headBlock);
+
+      // Stay behind the source we depend on so no address is discovered too late
+      if (this.source.followsSource) {
+        const upstream = await this.database.getIndexerState(this.source.followsSource);
+        currentBlock = Math.min(currentBlock, upstream?.lastScannedBlock ?? 0);
+      }
+
+      if (startBlock > currentBlock) {
+        console.log(`[${this.source.name}] No new blocks to index`);
+      } else {
+        console.log(`[${this.source.name}] Indexing events from block ${startBlock} to ${currentBlock}`);
+        await this.indexEventsInRange(startBlock, currentBlock, true, this.rangePlanner);
+        console.log(`[${this.source.name}] Successfully indexed events up to block ${currentBlock}`);
+      }
+
+      await this.database.updateIndexerState(this.source.name, { status: 'idle' });
+    } catch (error: any) {
+      console.error(`[${this.source.name}] Error during indexing:`, error);
+      await this.database.updateIndexerState(this.source.name, {
+        status: 'error',
+        error: error?.message || String(error),
+      });
+      throw error;
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Indexes a block range without moving the cursor, returns the number of events found. Backfill
+   * chunks of a source run concurrently, each plans its windows apart from the live runs.
+   */
+  async backfillHistoricalEvents(startBlock: number, endBlock: number): Promise<number> {
+    // If startBlock is 0, use contract deployment block
+    const actualStartBlock = startBlock === 0 ? await this.getContractDeploymentBlock() : startBlock;
+
+    console.log(`[${this.source.name}] Backfilling events from block ${actualStartBlock} to ${endBlock}`);
+    const eventCount = await this.indexEventsInRange(actualStartBlock, endBlock, false, this.createRangePlanner());
+    console.log(`[${this.source.name}] Backfill completed from block ${actualStartBlock} to ${endBlock}`);
+    return eventCount;
+  }
+
+  // Starts at the source's batch size and adapts to the density of its logs and the provider's limits
+  private createRangePlanner(): LogRangePlanner {
+    return new LogRangePlanner(this.provider.urls, { initialRange: this.source.batchSize });
+  }
+
+  private async indexEventsInRange(
+    startBlock: number,
+    endBlock: number,
+    updateCursor: boolean,
+    rangePlanner: LogRangePlanner
+  ): Promise<number> {
+    let currentStart = startBlock;
+    let eventCount = 0;
+    const addresses = this.source.resolveAddresses
+      ? new Set((await this.source.resolveAddresses(this.database)).map(address => address.toLowerCase()))
+      : null;
+
+    if (addresses) {
+      console.log(`[${this.source.name}] Following ${addresses.size} ${this.source.contractName} contracts`);
+    }
+
+    const quorumFromBlock = LOGS_QUORUM > 1
+      ? await getBlockNumberWithRetry(this.provider, this.retryConfig) - LOGS_QUORUM_BLOCKS
+      : Infinity;
+
+    while (currentStart <= endBlock) {
+      const currentEnd = rangePlanner.nextEnd(currentStart, endBlock);
+      console.log(`[${this.source.name}] Querying events from block ${currentStart} to ${currentEnd}`);
+
+      let events: (ethers.EventLog | ethers.Log)[];
+      let logCount: number;
+      try {
+        const quorum = currentEnd > quorumFromBlock ? LOGS_QUORUM : 1;
+        ({ events, logCount } = await this.queryEvents(addresses, currentStart, currentEnd, quorum));
+      } catch (error) {
+        // Too many logs or too many blocks for the provider: retry the start of the window with a smaller one
+        if (rangePlanner.recordFailure(currentStart, currentEnd, error)) {
+          console.warn(`[${this.source.name}] Blocks ${currentStart}-${currentEnd} rejected by ${getErrorRpcUrl(error) ?? 'the provider'}, retrying with ${rangePlanner.range} blocks`);
+          continue;
+        }
+        console.error(`[${this.source.name}] Error indexing blocks ${currentStart}-${currentEnd}:`, error);
+        throw error;
+      }
+      rangePlanner.recordSuccess(currentStart, currentEnd, logCount);
+
+      try {
+        console.log(`[${this.source.name}] Found ${events.length} events`);
+
+        const chainData = await this.prefetchChainData(events);
+        const stored = new Set<EventMapping>();
+        for (const event of events) {
+          const mapping = await this.processEvent(event, chainData);
+          if (mapping) {
+            stored.add(mapping);
+          }
+        }
+
+        // Persist progress so quiet ranges are not re-scanned on the next run
+        if (updateCursor) {
+          await this.saveCursor(currentEnd);
+          // Backfills rewrite history, only live runs announce new rows
+          for (const mapping of stored) {
+            if (mapping.notifyChannel) {
+              await this.database.notify(mapping.notifyChannel, { fromBlock: currentStart, toBlock: currentEnd });
+            }
+          }
+        }
+
+        eventCount += events.length;
+        currentStart = currentEnd + 1;
+      } catch (error) {
+        console.error(`[${this.source.name}] Error indexing blocks ${currentStart}-${currentEnd}:`, error);
+        throw error;
+      }
+    }
+    return eventCount;
+  }
+
+  /**
+   * Queries the logs of the source's events. Sources following factory-deployed contracts query
+   * by topic only and keep the logs emitted by a followed address. With a `quorum` above 1, that
+   * many RPC endpoints must return the same logs. `logCount` is the number of logs the provider
+   * returned before filtering.
+   */
+  private async queryEvents(
+    addresses: Set<string> | null,
+    fromBlock: number,
+    toBlock: number,
+    quorum: number
+  ): Promise<{ events: (ethers.EventLog | ethers.Log)[]; logCount: number }> {
+    if (!addresses && quorum <= 1) {
+      const events = await queryEventsWithRetry(this.contract, [this.topics], fromBlock, toBlock, this.retryConfig);
+      return { events, logCount: events.length };
+    }
+
+    const filter = { address: addresses ? undefined : this.source.address, topics: [this.topics], fromBlock, toBlock };
+    const logs = await withRetry(
+      () => this.provider.getLogsWithQuorum(filter, quorum),
+      this.retryConfig,
+      `getLogs(${fromBlock}-${toBlock})`
+    );
+
+    const events: ethers.EventLog[] = [];
+    for (const log of logs) {
+      if (addresses && !addresses.has(log.address.toLowerCase())) {
+        continue;
+      }
+      const fragment = this.contract.interface.getEvent(log.topics[0]);
+      if (fragment) {
+        events.push(new ethers.EventLog(log, this.contract.interface, fragment));
+      }
+    }
+    return { events, logCount: logs.length };
+  }
+
+  private getMapping(event: ethers.EventLog | ethers.Log): EventMapping | null {
+    if (!('args' in event) || !event.args) {
+      return null;
+    }
+    return this.source.events.find(m => m.event === event.fragment.name || m.event === event.fragment.format()) ?? null;
+  }
+
+  /**
+   * Loads the blocks and transactions the enrich hooks of a batch need in a few batched
+   * calls, instead of one RPC call per event
+   */
+  private async prefetchChainData(events: (ethers.EventLog | ethers.Log)[]): Promise<BatchChainData> {
+    const blockNumbers: number[] = [];
+    const transactionHashes: string[] = [];
+    for (const event of events) {
+      const mapping = this.getMapping(event);
+      if (mapping?.enrich) {
+        blockNumbers.push(event.blockNumber);
+        if (mapping.includeTransaction) {
+          transactionHashes.push(event.transactionHash);
+        }
+      }
+    }
+
+    return {
+      blocks: await this.chainCache.getBlocks(blockNumbers),
+      transactions: await this.chainCache.getTransactions(transactionHashes),
+    };
+  }
+
+  // Returns the mapping the event was stored with, or null when it was skipped
+  private async processEvent(event: ethers.EventLog | ethers.Log, chainData: BatchChainData): Promise<EventMapping | null> {
+    const mapping = this.getMapping(event);
+    if (!mapping) {
+      return null;
+    }
+
+    const log = event as ethers.EventLog;
+    let row = mapping.decode(log);
+    if (!row) {
+      return null;
+    }
+
+    if (mapping.enrich) {
+      row = await mapping.enrich(row, log, {
+        provider: this.provider,
+        block: chainData.blocks.get(log.blockNumber)!,
+        transaction: chainData.transactions.get(log.transactionHash) ?? null,
+      });
+    }
+
+    await this.database.upsertEvent(mapping.entity, {
+      ...row,
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash,
+      logIndex: event.index,
+      createdAt: new Date(),
+    });
+    return mapping;
+  }
+
+  // The block's hash becomes the reorg checkpoint of the cursor, so a crash never leaves one without the other
+  private async saveCursor(blockNumber: number): Promise<void> {
+    const block = await this.chainCache.getBlock(blockNumber);
+    await this.database.saveCursor(this.source.name, block, MAX_CHECKPOINTS);
+  }
+
+  private async getLastIndexedBlock(): Promise<number> {
+    const state = await this.database.getIndexerState(this.source.name);
+    if (state && state.lastScannedBlock > 0) {
+      return state.lastScannedBlock;
+    }
+
+    let lastEventBlock = 0;
+    for (const mapping of this.source.events) {
+      lastEventBlock = Math.max(lastEventBlock, await this.database.getLastEventBlock(mapping.entity));
+    }
+    return lastEventBlock;
+  }
+
+  async getIndexingStatus(): Promise<IndexingStatus> {
+    const lastIndexedBlock = await this.getLastIndexedBlock();
+    const currentBlock = await getBlockNumberWithRetry(this.provider, this.retryConfig);
+
+    let totalEvents = 0;
+    for (const mapping of this.source.events) {
+      totalEvents += await this.database.countEvents(mapping.entity);
+    }
+
+    return {
+      name: this.source.name,
+      lastIndexedBlock,
+      currentBlock,
+      totalEvents,
+      isRunning: this.isRunning
+    };
+  }
+
+  async getDeploymentBlock(): Promise<number> {
+    return this.getContractDeploymentBlock();
+  }
+
+  async stopIndexing(): Promise<void> {
+    this.isRunning = false;
+    console.log(`[${this.source.name}] Indexer stopped`);
+  }
+
+  async close(): Promise<void> {
+    await this.database.close();
+  }
+}
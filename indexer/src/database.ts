@@ -1,6 +1,21 @@
 import 'reflect-metadata';
-import { DataSource, Repository } from 'typeorm';
-import { PodDeployedEvent, StakedEthEvent } from '@eigen-layer-dashboard/lib';
+import { DataSource, EntityTarget, FindOptionsWhere, In, IsNull, MoreThan, ObjectLiteral, Repository } from 'typeorm';
+import { QueryDeepPartialEntity } from 'typeorm/query-builder/QueryPartialEntity';
+import {
+  PodDeployedEvent,
+  StakedEthEvent,
+  IndexerCheckpoint,
+  IndexerState,
+  AddressLabel,
+  AddressLabelInput,
+  Block,
+  Transaction,
+  BackfillJob,
+  BackfillChunk,
+  BackfillChunkStatus,
+  NotificationChannel,
+  NOTIFICATION_CHANNELS,
+} from '@eigen-layer-dashboard/lib';
 import { getIndexerDataSource } from './typeorm.config';
 
 export class IndexerDatabaseService {
@@ -8,6 +23,13 @@ export class IndexerDatabaseService {
   private dataSource: DataSource;
   private podDeployedRepository!: Repository<PodDeployedEvent>;
   private stakedEthRepository!: Repository<StakedEthEvent>;
+  private checkpointRepository!: Repository<IndexerCheckpoint>;
+  private indexerStateRepository!: Repository<IndexerState>;
+  private addressLabelRepository!: Repository<AddressLabel>;
+  private blockRepository!: Repository<Block>;
+  private transactionRepository!: Repository<Transaction>;
+  private backfillJobRepository!: Repository<BackfillJob>;
+  private backfillChunkRepository!: Repository<BackfillChunk>;
   private initialized: boolean = false;
 
   private constructor() {
@@ -32,6 +54,13 @@ export class IndexerDatabaseService {
     
     this.podDeployedRepository = this.dataSource.getRepository(PodDeployedEvent);
     this.stakedEthRepository = this.dataSource.getRepository(StakedEthEvent);
+    this.checkpointRepository = this.dataSource.getRepository(IndexerCheckpoint);
+    this.indexerStateRepository = this.dataSource.getRepository(IndexerState);
+    this.addressLabelRepository = this.dataSource.getRepository(AddressLabel);
+    this.blockRepository = this.dataSource.getRepository(Block);
+    this.transactionRepository = this.dataSource.getRepository(Transaction);
+    this.backfillJobRepository = this.dataSource.getRepository(BackfillJob);
+    this.backfillChunkRepository = this.dataSource.getRepository(BackfillChunk);
     this.initialized = true;
   }
 
@@ -61,7 +90,7 @@ export class IndexerDatabaseService {
 
   async getPodDeployedEventsByOwner(owner: string): Promise<PodDeployedEvent[]> {
     return this.podDeployedRepository.find({
-      where: { podOwner: owner },
+      where: { podOwner: owner.toLowerCase() },
       order: { blockNumber: 'DESC', logIndex: 'DESC' },
     });
   }
@@ -175,7 +204,7 @@ export class IndexerDatabaseService {
 
   async getEventsByEigenPod(eigenPod: string): Promise<PodDeployedEvent[]> {
     return this.podDeployedRepository.find({
-      where: { eigenPod },
+      where: { eigenPod: eigenPod.toLowerCase() },
       order: { blockNumber: 'DESC', logIndex: 'DESC' },
     });
   }
@@ -188,6 +217,14 @@ export class IndexerDatabaseService {
     return this.getPodDeployedEventsByBlockRange(startBlock, endBlock);
   }
 
+  async getEigenPodAddresses(): Promise<string[]> {
+    const rows = await this.podDeployedRepository
+      .createQueryBuilder('event')
+      .select('event.eigenPod', 'eigenPod')
+      .getRawMany();
+    return rows.map(row => row.eigenPod);
+  }
+
   async getStakedEthEventsByPubkey(pubkey: string): Promise<StakedEthEvent[]> {
     return this.stakedEthRepository.find({
       where: { pubkey },
@@ -202,6 +239,270 @@ export class IndexerDatabaseService {
     });
   }
 
+  // Generic event access used by the source-driven indexer
+  async upsertEvent<T extends ObjectLiteral>(entity: EntityTarget<T>, event: QueryDeepPartialEntity<T>): Promise<void> {
+    await this.dataSource.getRepository(entity).upsert(event, ['transactionHash', 'logIndex']);
+  }
+
+  async deleteEventsAfterBlock<T extends { blockNumber: number }>(entity: EntityTarget<T>, blockNumber: number): Promise<number> {
+    // TypeScript cannot resolve the mapped FindOptionsWhere type for a generic T, hence the assertion
+    const where = { blockNumber: MoreThan(blockNumber) } as FindOptionsWhere<T>;
+    const result = await this.dataSource.getRepository(entity).delete(where);
+    return result.affected || 0;
+  }
+
+  async getLastEventBlock<T extends ObjectLiteral>(entity: EntityTarget<T>): Promise<number> {
+    const result = await this.dataSource.getRepository(entity)
+      .createQueryBuilder('event')
+      .select('MAX(event.blockNumber)', 'maxBlock')
+      .getRawOne();
+
+    return Number(result?.maxBlock) || 0;
+  }
+
+  async countEvents<T extends ObjectLiteral>(entity: EntityTarget<T>): Promise<number> {
+    return this.dataSource.getRepository(entity).count();
+  }
+
+  // Deposit repair: rows indexed before the DepositEvent bytes were decoded still hold the raw `0x` index
+  async getNextDepositBlockToRepair(afterBlock: number): Promise<number | null> {
+    const result = await this.stakedEthRepository
+      .createQueryBuilder('event')
+      .select('MIN(event.blockNumber)', 'blockNumber')
+      .where('event.depositIndex LIKE :prefix', { prefix: '0x%' })
+      .andWhere('event.blockNumber > :afterBlock', { afterBlock })
+      .getRawOne();
+
+    return result?.blockNumber === null || result?.blockNumber === undefined ? null : Number(result.blockNumber);
+  }
+
+  async getDepositsToRepair(startBlock: number, endBlock: number): Promise<StakedEthEvent[]> {
+    return this.stakedEthRepository
+      .createQueryBuilder('event')
+      .where('event.depositIndex LIKE :prefix', { prefix: '0x%' })
+      .andWhere('event.blockNumber >= :startBlock AND event.blockNumber <= :endBlock', { startBlock, endBlock })
+      .getMany();
+  }
+
+  async countDepositsToRepair(): Promise<number> {
+    return this.stakedEthRepository
+      .createQueryBuilder('event')
+      .where('event.depositIndex LIKE :prefix', { prefix: '0x%' })
+      .getCount();
+  }
+
+  async updateDepositData(id: number, data: Pick<StakedEthEvent, 'amount' | 'depositIndex'>): Promise<void> {
+    await this.stakedEthRepository.update({ id }, data);
+  }
+
+  // Pod timestamps: deployments indexed before `blockTimestamp` was recorded
+  async getPodBlocksWithoutTimestamp(limit: number): Promise<number[]> {
+    const rows = await this.podDeployedRepository
+      .createQueryBuilder('event')
+      .select('DISTINCT event.blockNumber', 'blockNumber')
+      .where('event.blockTimestamp IS NULL')
+      .orderBy('event.blockNumber', 'ASC')
+      .limit(limit)
+      .getRawMany();
+    return rows.map(row => Number(row.blockNumber));
+  }
+
+  async countPodsWithoutTimestamp(): Promise<number> {
+    return this.podDeployedRepository.count({ where: { blockTimestamp: IsNull() } });
+  }
+
+  async updatePodBlockTimestamp(blockNumber: number, blockTimestamp: number): Promise<void> {
+    await this.podDeployedRepository.update({ blockNumber }, { blockTimestamp });
+  }
+
+  // Chain cache, queried and written in chunks to stay below the SQLite bound parameter limit
+  async getBlocks(numbers: number[]): Promise<Block[]> {
+    const blocks: Block[] = [];
+    for (let i = 0; i < numbers.length; i += 500) {
+      blocks.push(...await this.blockRepository.find({ where: { number: In(numbers.slice(i, i + 500)) } }));
+    }
+    return blocks;
+  }
+
+  async saveBlocks(blocks: Block[]): Promise<void> {
+    for (let i = 0; i < blocks.length; i += 100) {
+      await this.blockRepository.upsert(blocks.slice(i, i + 100), ['number']);
+    }
+  }
+
+  async getTransactions(hashes: string[]): Promise<Transaction[]> {
+    const transactions: Transaction[] = [];
+    for (let i = 0; i < hashes.length; i += 500) {
+      transactions.push(...await this.transactionRepository.find({ where: { hash: In(hashes.slice(i, i + 500)) } }));
+    }
+    return transactions;
+  }
+
+  async saveTransactions(transactions: Transaction[]): Promise<void> {
+    for (let i = 0; i < transactions.length; i += 100) {
+      await this.transactionRepository.upsert(transactions.slice(i, i + 100), ['hash']);
+    }
+  }
+
+  async deleteChainDataAfterBlock(blockNumber: number): Promise<void> {
+    await this.transactionRepository.delete({ blockNumber: MoreThan(blockNumber) });
+    await this.blockRepository.delete({ number: MoreThan(blockNumber) });
+  }
+
+  // Backfill jobs
+  async createBackfillJob(
+    job: Pick<BackfillJob, 'sources' | 'startBlock' | 'endBlock' | 'chunkSize'>,
+    chunks: Pick<BackfillChunk, 'indexerName' | 'startBlock' | 'endBlock'>[]
+  ): Promise<BackfillJob> {
+    return this.dataSource.transaction(async manager => {
+      const saved = await manager.getRepository(BackfillJob).save({ ...job, status: 'pending' });
+      // Chunked to stay below the SQLite bound parameter limit
+      for (let i = 0; i < chunks.length; i += 100) {
+        await manager.getRepository(BackfillChunk).insert(chunks.slice(i, i + 100).map(chunk => ({ ...chunk, jobId: saved.id })));
+      }
+      return saved;
+    });
+  }
+
+  async getBackfillJob(id: number): Promise<BackfillJob | null> {
+    return this.backfillJobRepository.findOne({ where: { id } });
+  }
+
+  async getBackfillJobs(limit: number = 20): Promise<BackfillJob[]> {
+    return this.backfillJobRepository.find({ order: { id: 'DESC' }, take: limit });
+  }
+
+  async updateBackfillJob(id: number, changes: Partial<Omit<BackfillJob, 'id' | 'createdAt' | 'updatedAt'>>): Promise<void> {
+    await this.backfillJobRepository.update({ id }, changes);
+  }
+
+  async getBackfillChunks(jobId: number): Promise<BackfillChunk[]> {
+    return this.backfillChunkRepository.find({ where: { jobId }, order: { startBlock: 'ASC', id: 'ASC' } });
+  }
+
+  async updateBackfillChunk(id: number, changes: Partial<Omit<BackfillChunk, 'id' | 'jobId' | 'updatedAt'>>): Promise<void> {
+    await this.backfillChunkRepository.update({ id }, changes);
+  }
+
+  // Puts chunks back in the queue with a fresh attempt budget, returns how many
+  async requeueBackfillChunks(jobId: number, statuses: BackfillChunkStatus[]): Promise<number> {
+    const result = await this.backfillChunkRepository.update(
+      { jobId, status: In(statuses) },
+      { status: 'pending', attempts: 0, error: null }
+    );
+    return result.affected || 0;
+  }
+
+  // Reorg checkpoints
+  async getLatestCheckpoint(indexerName: string): Promise<IndexerCheckpoint | null> {
+    return this.checkpointRepository.findOne({
+      where: { indexerName },
+      order: { blockNumber: 'DESC' },
+    });
+  }
+
+  async getCheckpoints(indexerName: string): Promise<IndexerCheckpoint[]> {
+    return this.checkpointRepository.find({
+      where: { indexerName },
+      order: { blockNumber: 'DESC' },
+    });
+  }
+
+  async deleteCheckpointsAfterBlock(indexerName: string, blockNumber: number): Promise<void> {
+    await this.checkpointRepository.delete({ indexerName, blockNumber: MoreThan(blockNumber) });
+  }
+
+  // Indexer cursors
+  async getIndexerState(indexerName: string): Promise<IndexerState | null> {
+    return this.indexerStateRepository.findOne({ where: { indexerName } });
+  }
+
+  async getIndexerStates(): Promise<IndexerState[]> {
+    return this.indexerStateRepository.find({ order: { indexerName: 'ASC' } });
+  }
+
+  async updateIndexerState(
+    indexerName: string,
+    state: Partial<Omit<IndexerState, 'indexerName' | 'updatedAt'>>
+  ): Promise<void> {
+    await this.indexerStateRepository.upsert({ indexerName, ...state }, ['indexerName']);
+    await this.notify(NOTIFICATION_CHANNELS.indexerProgress, { indexerName });
+  }
+
+  /**
+   * Moves the cursor of an indexer to the block and records the block's hash as its latest reorg
+   * checkpoint in the same transaction, keeping the `keepCheckpoints` most recent checkpoints
+   */
+  async saveCursor(indexerName: string, block: Block, keepCheckpoints: number): Promise<void> {
+    await this.dataSource.transaction(async manager => {
+      await manager.getRepository(IndexerState).upsert({
+        indexerName,
+        lastScannedBlock: block.number,
+        lastScannedHash: block.hash,
+        lastScannedTimestamp: block.timestamp,
+      }, ['indexerName']);
+
+      const checkpoints = manager.getRepository(IndexerCheckpoint);
+      await checkpoints.upsert({
+        indexerName,
+        blockNumber: block.number,
+        blockHash: block.hash,
+        parentHash: block.parentHash,
+      }, ['indexerName', 'blockNumber']);
+      const stale = await checkpoints.find({ where: { indexerName }, order: { blockNumber: 'DESC' }, skip: keepCheckpoints });
+      if (stale.length > 0) {
+        await checkpoints.remove(stale);
+      }
+    });
+    await this.notify(NOTIFICATION_CHANNELS.indexerProgress, { indexerName });
+  }
+
+  // Notifications
+  /**
+   * Publishes a Postgres NOTIFY for the backend's live subscriptions. A no-op on SQLite,
+   * and a failed notification never fails the indexer run.
+   */
+  async notify(channel: NotificationChannel, payload: object): Promise<void> {
+    if (this.dataSource.options.type !== 'postgres') {
+      return;
+    }
+
+    try {
+      await this.dataSource.query('SELECT pg_notify($1, $2)', [channel, JSON.stringify(payload)]);
+    } catch (error: any) {
+      console.warn(`Failed to notify ${channel}: ${error?.message || error}`);
+    }
+  }
+
+  // Address labels
+  /**
+   * Upserts the labels of one registry file. With `replace`, labels previously imported
+   * from that file and missing from it now are removed. Returns the number removed.
+   */
+  async importAddressLabels(labels: AddressLabelInput[], source: string, replace: boolean = false): Promise<number> {
+    return this.dataSource.transaction(async manager => {
+      const repository = manager.getRepository(AddressLabel);
+      let removed = 0;
+
+      if (replace) {
+        const addresses = new Set(labels.map(label => label.address));
+        const stale = (await repository.find({ where: { source } })).filter(label => !addresses.has(label.address));
+        await repository.remove(stale);
+        removed = stale.length;
+      }
+
+      // Chunked to stay below the SQLite bound parameter limit
+      for (let i = 0; i < labels.length; i += 100) {
+        await repository.upsert(labels.slice(i, i + 100).map(label => ({ ...label, source })), ['address']);
+      }
+      return removed;
+    });
+  }
+
+  async countAddressLabels(): Promise<number> {
+    return this.addressLabelRepository.count();
+  }
+
   async close(): Promise<void> {
     if (this.dataSource.isInitialized) {
       await this.dataSource.destroy();
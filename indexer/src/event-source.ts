@@ -0,0 +1,66 @@
+import { ethers } from 'ethers';
+import { EntityTarget, ObjectLiteral } from 'typeorm';
+import { Block, NotificationChannel, Transaction } from '@eigen-layer-dashboard/lib';
+import { IndexerDatabaseService } from './database';
+
+/**
+ * Chain data handed to `enrich`, read from the shared blocks and transactions cache that the
+ * runner fills for the whole batch before the first event is stored
+ */
+export interface EnrichContext {
+  provider: ethers.Provider;
+  // Block the log was emitted in
+  block: Block;
+  // Transaction and receipt of the log, null unless the mapping sets `includeTransaction`
+  transaction: Transaction | null;
+}
+
+/**
+ * Maps one contract event to the entity it is stored in
+ */
+export interface EventMapping<T extends ObjectLiteral = any> {
+  // Event name as declared in the source ABI, or its full signature for overloaded events
+  event: string;
+  entity: EntityTarget<T>;
+  // Turns the decoded log into entity fields, or null to skip the log
+  decode: (event: ethers.EventLog) => Partial<T> | null;
+  // Optional hook to add data that is not part of the log (transaction, block, ...)
+  enrich?: (row: Partial<T>, event: ethers.EventLog, context: EnrichContext) => Promise<Partial<T>>;
+  // Prefetch the transaction of every log into the cache for `enrich`
+  includeTransaction?: boolean;
+  // Channel notified with the block range of every batch that stored rows of this event
+  notifyChannel?: NotificationChannel;
+}
+
+// Enrich hook for entities that only need the block timestamp
+export const withBlockTimestamp = async <T extends ObjectLiteral>(
+  row: Partial<T>,
+  event: ethers.EventLog,
+  { block }: EnrichContext
+): Promise<Partial<T>> => ({ ...row, blockTimestamp: block.timestamp });
+
+/**
+ * Declarative description of a contract whose events should be indexed.
+ * Adding a new contract means writing one of these and registering it in `sources/index.ts`.
+ */
+export interface EventSource {
+  // Unique name, used for the cursor, checkpoints and CLI commands
+  name: string;
+  // Human readable contract name used in logs
+  contractName: string;
+  // Contract address; for factory-deployed contracts, the factory address
+  address: string;
+  abi: string[];
+  // Known deployment block; when omitted it is found by binary search
+  startBlock?: number;
+  // Blocks to go back from the head if the deployment block cannot be found
+  fallbackBlockOffset?: number;
+  // Number of blocks per eth_getLogs request
+  batchSize: number;
+  // For contracts deployed by a factory: returns the addresses to follow instead of `address`.
+  // Logs are then queried by topic only and kept when emitted by one of these addresses.
+  resolveAddresses?: (database: IndexerDatabaseService) => Promise<string[]>;
+  // Name of a source this one must not get ahead of, e.g. the source discovering the addresses
+  followsSource?: string;
+  events: EventMapping[];
+}
@@ -0,0 +1,41 @@
+import { RetryConfig, createRpcProvider } from '@eigen-layer-dashboard/lib';
+import { ChainCache } from './chain-cache';
+import { IndexerDatabaseService } from './database';
+
+// Deployment blocks handled per round, fetched as batched calls
+const BLOCKS_PER_ROUND = 500;
+
+/**
+ * Sets `blockTimestamp` on pod deployments indexed before it was recorded. Blocks come from the
+ * shared cache, so blocks already fetched by another source cost no RPC call. Filled rows no longer
+ * match, so an interrupted run resumes where it stopped. Returns the number of blocks filled.
+ */
+export async function fillPodTimestamps(
+  database: IndexerDatabaseService,
+  rpcUrls: string[],
+  retryConfig: RetryConfig
+): Promise<number> {
+  const provider = createRpcProvider(rpcUrls);
+  const chainCache = new ChainCache(provider, database, retryConfig);
+
+  let filled = 0;
+  try {
+    console.log(`Filling the timestamp of ${await database.countPodsWithoutTimestamp()} pod deployments...`);
+
+    let blockNumbers = await database.getPodBlocksWithoutTimestamp(BLOCKS_PER_ROUND);
+    while (blockNumbers.length > 0) {
+      const blocks = await chainCache.getBlocks(blockNumbers);
+      for (const blockNumber of blockNumbers) {
+        await database.updatePodBlockTimestamp(blockNumber, blocks.get(blockNumber)!.timestamp);
+        filled++;
+      }
+
+      console.log(`Filled pod deployments up to block ${blockNumbers[blockNumbers.length - 1]} (${filled} blocks so far)`);
+      blockNumbers = await database.getPodBlocksWithoutTimestamp(BLOCKS_PER_ROUND);
+    }
+  } finally {
+    provider.destroy();
+  }
+
+  return filled;
+}
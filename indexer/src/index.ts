@@ -1,15 +1,20 @@
 import dotenv from 'dotenv';
-import * as cron from 'node-cron';
-import { IndexerScheduler } from './scheduler';
-import { IndexerDatabaseService } from './database';
-import { StakedEthIndexer } from './staked-eth-indexer';
+import fs from 'fs';
 import path from 'path';
 
-// Load environment variables from .env file
+// Load environment variables from .env file before the sources read their addresses
 dotenv.config({ path: path.join(__dirname, '..', '..', '.env') });
-const RPC_URL = process.env.ETHEREUM_RPC_URL || 'https://eth-mainnet.g.alchemy.com/v2/demo';
-const CONTRACT_ADDRESS = process.env.EIGENPOD_MANAGER_ADDRESS || '0x91E677b07F7AF907ec9a428aafA9fc14a0d3A338';
-const STAKED_ETH_CONTRACT_ADDRESS = process.env.STAKED_ETH_CONTRACT_ADDRESS || '0x00000000219ab540356cbb839cbe05303d7705fa';
+
+import { IndexerScheduler } from './scheduler';
+import { IndexerDatabaseService } from './database';
+import { EventSource } from './event-source';
+import { EVENT_SOURCES, getEventSource } from './sources';
+import { repairDepositAmounts } from './repair-deposits';
+import { fillPodTimestamps } from './fill-pod-timestamps';
+import { getBackfillProgress } from './backfill';
+import { parseAddressLabels, getAddressLabelFormat, getRpcUrls, BackfillJob, DEFAULT_RETRY_CONFIG } from '@eigen-layer-dashboard/lib';
+
+const RPC_URLS = getRpcUrls();
 const CRON_EXPRESSION = process.env.INDEXER_CRON || '* * * * *';
 const MAX_RETRIES = parseInt(process.env.MAX_RETRIES || '10');
 const RETRY_DELAY_BASE = parseInt(process.env.RETRY_DELAY_BASE || '2');
@@ -19,242 +24,235 @@ const DB_URL = process.env.DB_URL;
 const DATABASE_TYPE = DB_URL ? 'PostgreSQL' : 'SQLite';
 const DATABASE_PATH = DB_URL ? DB_URL.split('@')[1] || 'PostgreSQL' : './indexer.db';
 
-async function main() {
-  const scheduler = new IndexerScheduler(RPC_URL, CONTRACT_ADDRESS, MAX_RETRIES, RETRY_DELAY_BASE);
-  const stakedEthIndexer = new StakedEthIndexer(RPC_URL, STAKED_ETH_CONTRACT_ADDRESS, MAX_RETRIES, RETRY_DELAY_BASE);
-  let stakedEthCron: cron.ScheduledTask | null = null;
+function printUsage(): void {
+  const sourceNames = EVENT_SOURCES.map(source => source.name).join('|');
+  console.log('Usage:');
+  console.log('  npm run dev                           - Start all indexers in parallel (default)');
+  console.log('  npm run dev --parallel                - Start all indexers in parallel');
+  console.log('  npm run dev run-once                  - Run all indexers once');
+  console.log('  npm run dev backfill start <start> <end> - Backfill historical events for all indexers as a resumable job');
+  console.log('  npm run dev backfill status [job]     - Show backfill jobs, or the chunks of one job');
+  console.log('  npm run dev backfill resume <job>     - Retry the failed and interrupted chunks of a backfill job');
+  console.log('  npm run dev backfill cancel <job>     - Stop a backfill job after its running chunks');
+  console.log('  npm run dev status                    - Show current status');
+  console.log('  npm run dev deployment-block          - Get contract deployment blocks');
+  console.log(`  npm run dev <${sourceNames}> <command> - Single indexer commands`);
+  console.log('  npm run dev query by-eigenpod <address> - Query events by eigenPod');
+  console.log('  npm run dev query by-owner <address>  - Query events by podOwner');
+  console.log('  npm run dev query by-range <start> <end> - Query events by block range');
+  console.log('  npm run dev query staked-eth <command> - Query staked ETH events');
+  console.log('  npm run dev labels import <file> [--replace] - Import address labels from a JSON or CSV file');
+  console.log('  npm run dev repair-deposits           - Re-derive deposit amounts and indexes from the DepositEvent logs');
+  console.log('  npm run dev fill-pod-timestamps       - Set the block timestamp of pods deployed before it was recorded');
+}
 
-  // Handle graceful shutdown
-  process.on('SIGINT', async () => {
-    console.log('\nReceived SIGINT, shutting down gracefully...');
-    await scheduler.close();
-    if (stakedEthCron) {
-      stakedEthCron.stop();
+function printSourceUsage(source: EventSource): void {
+  console.log(`${source.contractName} indexer commands:`);
+  console.log(`  yarn indexer:dev ${source.name} start          - Start ${source.name} indexer continuously`);
+  console.log(`  yarn indexer:dev ${source.name} run-once       - Run ${source.name} indexer once`);
+  console.log(`  yarn indexer:dev ${source.name} backfill <start> <end> - Backfill ${source.name} events`);
+  console.log(`  yarn indexer:dev ${source.name} status         - Show ${source.name} indexer status`);
+  console.log(`  yarn indexer:dev ${source.name} deployment-block - Get deployment block`);
+}
+
+function printBackfillResult(job: BackfillJob): void {
+  if (job.status === 'completed' || job.status === 'cancelled') {
+    console.log(`Backfill job ${job.id} ${job.status}`);
+    return;
+  }
+  console.log(`Backfill job ${job.id} ${job.status}${job.error ? `: ${job.error}` : ''}`);
+  console.log(`  Retry the remaining chunks with: npm run dev backfill resume ${job.id}`);
+  process.exitCode = 1;
+}
+
+async function printBackfillStatus(database: IndexerDatabaseService, jobId?: number): Promise<void> {
+  const jobs = jobId !== undefined
+    ? [await database.getBackfillJob(jobId)].filter((job): job is BackfillJob => job !== null)
+    : await database.getBackfillJobs();
+  if (jobs.length === 0) {
+    console.log(jobId !== undefined ? `Backfill job ${jobId} not found` : 'No backfill jobs recorded yet');
+    return;
+  }
+
+  for (const job of jobs) {
+    const chunks = await database.getBackfillChunks(job.id);
+    const progress = getBackfillProgress(chunks);
+    const percent = progress.totalBlocks > 0 ? ((progress.completedBlocks / progress.totalBlocks) * 100).toFixed(1) : '100.0';
+    console.log(`Backfill job ${job.id}: ${job.status}`);
+    console.log(`  Sources: ${job.sources.join(', ')}`);
+    console.log(`  Blocks: ${job.startBlock} to ${job.endBlock} in chunks of ${job.chunkSize}`);
+    console.log(`  Progress: ${percent}% (${Object.entries(progress.chunks).map(([status, count]) => `${count} ${status}`).join(', ')})`);
+    console.log(`  Events found: ${progress.eventCount}`);
+    console.log(`  Created: ${job.createdAt.toISOString()}, updated: ${job.updatedAt.toISOString()}`);
+    if (job.error) {
+      console.log(`  Error: ${job.error}`);
     }
-    await stakedEthIndexer.close();
-    process.exit(0);
+
+    // A single job lists the chunks that need attention
+    if (jobId !== undefined) {
+      chunks.filter(chunk => chunk.status !== 'completed' && chunk.status !== 'pending').forEach(chunk => {
+        console.log(`    ${chunk.indexerName} ${chunk.startBlock}-${chunk.endBlock}: ${chunk.status}, ${chunk.attempts} attempts${chunk.error ? ` - ${chunk.error}` : ''}`);
+      });
+    }
+  }
+}
+
+function startContinuously(scheduler: IndexerScheduler, sources: EventSource[]): void {
+  console.log(`Starting ${sources.map(source => source.name).join(', ')} indexing continuously...`);
+  console.log(`RPC URLs: ${RPC_URLS.join(', ')}`);
+  sources.forEach(source => {
+    console.log(`${source.contractName} Address: ${source.address}`);
   });
+  console.log(`Cron Expression: ${CRON_EXPRESSION}`);
+  console.log(`Database: ${DATABASE_TYPE} (${DATABASE_PATH})`);
+
+  scheduler.start(CRON_EXPRESSION);
 
-  process.on('SIGTERM', async () => {
-    console.log('\nReceived SIGTERM, shutting down gracefully...');
+  // Keep the process running and log status
+  setInterval(async () => {
+    const statuses = await scheduler.getStatus();
+    statuses.forEach(status => {
+      console.log(`${status.name} Status - Last indexed: ${status.lastIndexedBlock}, Current: ${status.currentBlock}, Events: ${status.totalEvents}, Running: ${status.isRunning}`);
+    });
+  }, 60000); // Log status every minute
+}
+
+async function main() {
+  const args = process.argv.slice(2);
+  const source = args[0] ? getEventSource(args[0]) : undefined;
+  const scheduler = new IndexerScheduler(source ? [source] : EVENT_SOURCES, RPC_URLS, MAX_RETRIES, RETRY_DELAY_BASE);
+  const database = IndexerDatabaseService.getInstance();
+  let keepAlive = false;
+
+  // Handle graceful shutdown
+  const shutdown = async (signal: string) => {
+    console.log(`\nReceived ${signal}, shutting down gracefully...`);
     await scheduler.close();
-    if (stakedEthCron) {
-      stakedEthCron.stop();
-    }
-    await stakedEthIndexer.close();
     process.exit(0);
-  });
+  };
+  process.on('SIGINT', () => shutdown('SIGINT'));
+  process.on('SIGTERM', () => shutdown('SIGTERM'));
 
   try {
     // Initialize the scheduler
     await scheduler.initialize();
-    await stakedEthIndexer.initialize();
-    
-    // Check command line arguments
-    const args = process.argv.slice(2);
-    
+
     if (args.length === 0 || (args.length === 1 && args[0] === '--parallel')) {
-      // Start both indexers in parallel
-      console.log('Starting both EigenPod and Staked ETH indexers in parallel...');
-      console.log(`RPC URL: ${RPC_URL}`);
-      console.log(`EigenPod Contract Address: ${CONTRACT_ADDRESS}`);
-      console.log(`Staked ETH Contract Address: ${STAKED_ETH_CONTRACT_ADDRESS}`);
-      console.log(`Cron Expression: ${CRON_EXPRESSION}`);
-      console.log(`Database: ${DATABASE_TYPE} (${DATABASE_PATH})`);
-      
-      // Start EigenPod indexer scheduler
-      scheduler.start(CRON_EXPRESSION);
-      
-      // Start Staked ETH indexer scheduler
-      stakedEthCron = cron.schedule(CRON_EXPRESSION, async () => {
-        try {
-          console.log('Running scheduled staked ETH indexing...');
-          await stakedEthIndexer.startIndexing();
-        } catch (error) {
-          console.error('Error during scheduled staked ETH indexing:', error);
-        }
-      }, {
-        scheduled: false
-      });
-      stakedEthCron.start();
-      
-      // Keep the process running and log status
-      setInterval(async () => {
-        const eigenPodStatus = await scheduler.getStatus();
-        const stakedEthStatus = await stakedEthIndexer.getIndexingStatus();
-        console.log(`EigenPod Status - Last indexed: ${eigenPodStatus.lastIndexedBlock}, Current: ${eigenPodStatus.currentBlock}, Events: ${eigenPodStatus.totalEvents}, Running: ${eigenPodStatus.isRunning}`);
-        console.log(`Staked ETH Status - Last indexed: ${stakedEthStatus.lastIndexedBlock}, Current: ${stakedEthStatus.currentBlock}, Events: ${stakedEthStatus.totalEvents}, Running: ${stakedEthStatus.isRunning}`);
-      }, 60000); // Log status every minute
-      
+      // Start every registered indexer in parallel
+      startContinuously(scheduler, EVENT_SOURCES);
+      keepAlive = true;
+
     } else if (args[0] === 'run-once') {
-      // Run both indexers once
-      console.log('Running both indexers once...');
+      console.log('Running all indexers once...');
       await scheduler.runOnce();
-      await stakedEthIndexer.startIndexing();
-      const eigenPodStatus = await scheduler.getStatus();
-      const stakedEthStatus = await stakedEthIndexer.getIndexingStatus();
-      console.log(`EigenPod Status:`, eigenPodStatus);
-      console.log(`Staked ETH Status:`, stakedEthStatus);
-      
-    } else if (args[0] === 'backfill' && args.length === 3) {
-      // Backfill historical events
-      const startBlock = parseInt(args[1]);
-      const endBlock = parseInt(args[2]);
-      
+      const statuses = await scheduler.getStatus();
+      statuses.forEach(status => {
+        console.log(`${status.name} Status:`, status);
+      });
+
+    } else if (args[0] === 'backfill' && args[1] === 'status') {
+      // Database only, like `status`
+      await printBackfillStatus(database, args[2] ? parseInt(args[2]) : undefined);
+
+    } else if (args[0] === 'backfill' && args[1] === 'resume' && args[2]) {
+      printBackfillResult(await scheduler.resumeBackfill(parseInt(args[2])));
+
+    } else if (args[0] === 'backfill' && args[1] === 'cancel' && args[2]) {
+      const job = await scheduler.cancelBackfill(parseInt(args[2]));
+      console.log(`Cancelled backfill job ${job.id}, a process running it stops after its current chunks`);
+
+    } else if (args[0] === 'backfill' && (args[1] === 'start' || args.length === 3)) {
+      // Backfill historical events, `backfill <start> <end>` is kept as a shorthand for `backfill start`
+      const [startArg, endArg] = args[1] === 'start' ? args.slice(2) : args.slice(1);
+      const startBlock = parseInt(startArg);
+      const endBlock = parseInt(endArg);
+
       if (isNaN(startBlock) || isNaN(endBlock)) {
         console.error('Invalid block numbers provided');
         process.exit(1);
       }
-      
+
       console.log(`Backfilling events from block ${startBlock} to ${endBlock}...`);
-      await scheduler.backfill(startBlock, endBlock);
-      
+      printBackfillResult(await scheduler.backfill(startBlock, endBlock));
+
     } else if (args[0] === 'status') {
       // Show current status (database only, no RPC)
-      const status = await scheduler.getStatus();
+      const states = await database.getIndexerStates();
       console.log('Indexer Status:');
-      console.log(`  Last indexed block: ${status.lastIndexedBlock}`);
-      console.log(`  Total events indexed: ${status.totalEvents}`);
+      if (states.length === 0) {
+        console.log('  No indexer progress recorded yet');
+      }
+      states.forEach(state => {
+        console.log(`  ${state.indexerName}:`);
+        console.log(`    Last scanned block: ${state.lastScannedBlock}`);
+        console.log(`    Last scanned hash: ${state.lastScannedHash || 'n/a'}`);
+        console.log(`    Status: ${state.status}`);
+        console.log(`    Last run: ${state.lastRunAt ? state.lastRunAt.toISOString() : 'n/a'}`);
+        if (state.error) {
+          console.log(`    Error: ${state.error}`);
+        }
+        console.log(`    Updated at: ${state.updatedAt.toISOString()}`);
+      });
+      console.log(`  Total events indexed: ${await database.getTotalEvents()}`);
       console.log(`  Note: Current block requires valid RPC URL`);
-      
+
     } else if (args[0] === 'deployment-block') {
-      // Get contract deployment block
+      // Get contract deployment blocks
       try {
-        const deploymentBlock = await scheduler.getDeploymentBlock();
-        console.log(`Contract deployment block: ${deploymentBlock}`);
+        const deploymentBlocks = await scheduler.getDeploymentBlocks();
+        Object.entries(deploymentBlocks).forEach(([name, block]) => {
+          console.log(`${name} contract deployment block: ${block}`);
+        });
       } catch (error) {
         console.error('Error getting deployment block:', error);
       }
-      
-    } else if (args[0] === 'staked-eth') {
-      // Initialize staked ETH indexer
-      await stakedEthIndexer.initialize();
-      
-      // Staked ETH indexer commands
-      if (args[1] === 'run-once') {
-        console.log('Running staked ETH indexer once...');
-        await stakedEthIndexer.startIndexing();
-        
-      } else if (args[1] === 'start') {
-        // Start Staked ETH indexer continuously
-        console.log('Starting Staked ETH indexer continuously...');
-        console.log(`RPC URL: ${RPC_URL}`);
-        console.log(`Staked ETH Contract Address: ${STAKED_ETH_CONTRACT_ADDRESS}`);
-        console.log(`Cron Expression: ${CRON_EXPRESSION}`);
-        console.log(`Database: ${DATABASE_TYPE} (${DATABASE_PATH})`);
-        
-        stakedEthCron = cron.schedule(CRON_EXPRESSION, async () => {
-          try {
-            console.log('Running scheduled staked ETH indexing...');
-            await stakedEthIndexer.startIndexing();
-          } catch (error) {
-            console.error('Error during scheduled staked ETH indexing:', error);
-          }
-        }, {
-          scheduled: false
-        });
-        stakedEthCron.start();
-        
-        // Keep the process running
-        setInterval(async () => {
-          const status = await stakedEthIndexer.getIndexingStatus();
-          console.log(`Staked ETH Status - Last indexed: ${status.lastIndexedBlock}, Current: ${status.currentBlock}, Running: ${status.isRunning}`);
-        }, 60000); // Log status every minute
-        
-      } else if (args[1] === 'backfill' && args[2] && args[3]) {
-        const startBlock = parseInt(args[2]);
-        const endBlock = parseInt(args[3]);
-        console.log(`Backfilling staked ETH events from block ${startBlock} to ${endBlock}...`);
-        await stakedEthIndexer.backfillHistoricalEvents(startBlock, endBlock);
-        
-      } else if (args[1] === 'status') {
-        const status = await stakedEthIndexer.getIndexingStatus();
-        console.log('Staked ETH Indexer Status:');
-        console.log(`  Last indexed block: ${status.lastIndexedBlock}`);
-        console.log(`  Current block: ${status.currentBlock}`);
-        console.log(`  Total events indexed: ${status.totalEvents}`);
-        console.log(`  Is running: ${status.isRunning}`);
-        
-      } else if (args[1] === 'deployment-block') {
-        try {
-          const deploymentBlock = await stakedEthIndexer.getDeploymentBlock();
-          console.log(`Ethereum 2.0 Deposit Contract deployment block: ${deploymentBlock}`);
-        } catch (error) {
-          console.error('Error getting deployment block:', error);
-        }
-        
-      } else {
-        console.log('Staked ETH indexer commands:');
-        console.log('  yarn indexer:dev staked-eth start        - Start Staked ETH indexer continuously');
-        console.log('  yarn indexer:dev staked-eth run-once     - Run staked ETH indexer once');
-        console.log('  yarn indexer:dev staked-eth backfill <start> <end> - Backfill staked ETH events');
-        console.log('  yarn indexer:dev staked-eth status       - Show staked ETH indexer status');
-        console.log('  yarn indexer:dev staked-eth deployment-block - Get deployment block');
-      }
-      
-    } else if (args[0] === 'eigenpod') {
-      // EigenPod indexer commands
+
+    } else if (source) {
+      // Single indexer commands
       if (args[1] === 'run-once') {
-        console.log('Running EigenPod indexer once...');
+        console.log(`Running ${source.name} indexer once...`);
         await scheduler.runOnce();
-        
+
       } else if (args[1] === 'start') {
-        // Start EigenPod indexer continuously
-        console.log('Starting EigenPod indexer continuously...');
-        console.log(`RPC URL: ${RPC_URL}`);
-        console.log(`Contract Address: ${CONTRACT_ADDRESS}`);
-        console.log(`Cron Expression: ${CRON_EXPRESSION}`);
-        console.log(`Database: ${DATABASE_TYPE} (${DATABASE_PATH})`);
-        
-        scheduler.start(CRON_EXPRESSION);
-        
-        // Keep the process running
-        setInterval(async () => {
-          const status = await scheduler.getStatus();
-          console.log(`EigenPod Status - Last indexed: ${status.lastIndexedBlock}, Current: ${status.currentBlock}, Running: ${status.isRunning}`);
-        }, 60000); // Log status every minute
-        
+        startContinuously(scheduler, [source]);
+        keepAlive = true;
+
       } else if (args[1] === 'backfill' && args[2] && args[3]) {
         const startBlock = parseInt(args[2]);
         const endBlock = parseInt(args[3]);
-        console.log(`Backfilling EigenPod events from block ${startBlock} to ${endBlock}...`);
-        await scheduler.backfill(startBlock, endBlock);
-        
+        console.log(`Backfilling ${source.name} events from block ${startBlock} to ${endBlock}...`);
+        printBackfillResult(await scheduler.backfill(startBlock, endBlock));
+
       } else if (args[1] === 'status') {
-        const status = await scheduler.getStatus();
-        console.log('EigenPod Indexer Status:');
+        const [status] = await scheduler.getStatus();
+        console.log(`${source.contractName} Indexer Status:`);
         console.log(`  Last indexed block: ${status.lastIndexedBlock}`);
         console.log(`  Current block: ${status.currentBlock}`);
         console.log(`  Total events indexed: ${status.totalEvents}`);
         console.log(`  Is running: ${status.isRunning}`);
-        
+
       } else if (args[1] === 'deployment-block') {
         try {
-          const deploymentBlock = await scheduler.getDeploymentBlock();
-          console.log(`EigenPodManager Contract deployment block: ${deploymentBlock}`);
+          const deploymentBlocks = await scheduler.getDeploymentBlocks();
+          console.log(`${source.contractName} deployment block: ${deploymentBlocks[source.name]}`);
         } catch (error) {
           console.error('Error getting deployment block:', error);
         }
-        
+
       } else {
-        console.log('EigenPod indexer commands:');
-        console.log('  yarn indexer:dev eigenpod start          - Start EigenPod indexer continuously');
-        console.log('  yarn indexer:dev eigenpod run-once       - Run EigenPod indexer once');
-        console.log('  yarn indexer:dev eigenpod backfill <start> <end> - Backfill EigenPod events');
-        console.log('  yarn indexer:dev eigenpod status         - Show EigenPod indexer status');
-        console.log('  yarn indexer:dev eigenpod deployment-block - Get deployment block');
+        printSourceUsage(source);
       }
-      
+
     } else if (args[0] === 'query') {
       // Query events from database
       if (args[1] === 'by-eigenpod' && args[2]) {
-        const events = await scheduler.getEventsByEigenPod(args[2]);
+        const events = await database.getEventsByEigenPod(args[2]);
         console.log(`Found ${events.length} events for eigenPod ${args[2]}:`);
         events.forEach(event => {
           console.log(`  Block ${event.blockNumber}: ${event.eigenPod} -> ${event.podOwner}`);
         });
       } else if (args[1] === 'by-owner' && args[2]) {
-        const events = await scheduler.getEventsByPodOwner(args[2]);
+        const events = await database.getEventsByPodOwner(args[2]);
         console.log(`Found ${events.length} events for podOwner ${args[2]}:`);
         events.forEach(event => {
           console.log(`  Block ${event.blockNumber}: ${event.eigenPod} -> ${event.podOwner}`);
@@ -262,7 +260,7 @@ async function main() {
       } else if (args[1] === 'by-range' && args[2] && args[3]) {
         const startBlock = parseInt(args[2]);
         const endBlock = parseInt(args[3]);
-        const events = await scheduler.getEventsByBlockRange(startBlock, endBlock);
+        const events = await database.getEventsByBlockRange(startBlock, endBlock);
         console.log(`Found ${events.length} events in blocks ${startBlock}-${endBlock}:`);
         events.forEach(event => {
           console.log(`  Block ${event.blockNumber}: ${event.eigenPod} -> ${event.podOwner}`);
@@ -270,13 +268,13 @@ async function main() {
       } else if (args[1] === 'staked-eth') {
         // Query staked ETH events
         if (args[2] === 'by-pubkey' && args[3]) {
-          const events = await stakedEthIndexer.getStakedEthEventsByPubkey(args[3]);
+          const events = await database.getStakedEthEventsByPubkey(args[3]);
           console.log(`Found ${events.length} staked ETH events for pubkey ${args[3]}:`);
           events.forEach(event => {
             console.log(`  Block ${event.blockNumber}: ${event.pubkey} - ${event.amount} ETH`);
           });
         } else if (args[2] === 'by-withdrawal' && args[3]) {
-          const events = await stakedEthIndexer.getStakedEthEventsByWithdrawalCredentials(args[3]);
+          const events = await database.getStakedEthEventsByWithdrawalCredentials(args[3]);
           console.log(`Found ${events.length} staked ETH events for withdrawal credentials ${args[3]}:`);
           events.forEach(event => {
             console.log(`  Block ${event.blockNumber}: ${event.pubkey} - ${event.amount} ETH`);
@@ -284,23 +282,23 @@ async function main() {
         } else if (args[2] === 'by-range' && args[3] && args[4]) {
           const startBlock = parseInt(args[3]);
           const endBlock = parseInt(args[4]);
-          const events = await stakedEthIndexer.getStakedEthEventsByBlockRange(startBlock, endBlock);
+          const events = await database.getStakedEthEventsByBlockRange(startBlock, endBlock);
           console.log(`Found ${events.length} staked ETH events in blocks ${startBlock}-${endBlock}:`);
           events.forEach(event => {
             console.log(`  Block ${event.blockNumber}: ${event.pubkey} - ${event.amount} ETH`);
           });
         } else if (args[2] === 'by-block' && args[3]) {
           const blockNumber = parseInt(args[3]);
-          const events = await stakedEthIndexer.getStakedEthByBlock(blockNumber);
+          const events = await database.getStakedEthEventsByBlockRange(blockNumber, blockNumber);
           console.log(`Found ${events.length} staked ETH events in block ${blockNumber}:`);
-          events.forEach((event: any) => {
+          events.forEach(event => {
             console.log(`  ${event.pubkey} - ${event.amount} ETH`);
           });
         } else if (args[2] === 'stats') {
-          const stats = await stakedEthIndexer.getStakedEthStats();
+          const stats = await database.getStakedEthStats();
           console.log('Staked ETH Statistics:');
           console.log(`  Total events: ${stats.totalEvents}`);
-          console.log(`  Total amount: ${stats.totalAmount} wei`);
+          console.log(`  Total amount: ${stats.totalStaked} wei`);
           console.log(`  Last block: ${stats.lastBlock}`);
         } else {
           console.log('Staked ETH query commands:');
@@ -311,41 +309,47 @@ async function main() {
           console.log('  yarn indexer:dev query staked-eth stats - Show statistics');
         }
       } else {
-        console.log('Usage:');
-        console.log('  npm run dev                           - Start both indexers in parallel (default)');
-        console.log('  npm run dev --parallel                - Start both indexers in parallel');
-        console.log('  npm run dev run-once                  - Run both indexers once');
-        console.log('  npm run dev backfill <start> <end>    - Backfill historical events');
-        console.log('  npm run dev status                    - Show current status');
-        console.log('  npm run dev deployment-block          - Get contract deployment block');
-        console.log('  npm run dev eigenpod <command>        - EigenPod indexer commands');
-        console.log('  npm run dev staked-eth <command>      - Staked ETH indexer commands');
-        console.log('  npm run dev query by-eigenpod <address> - Query events by eigenPod');
-        console.log('  npm run dev query by-owner <address>  - Query events by podOwner');
-        console.log('  npm run dev query by-range <start> <end> - Query events by block range');
-        console.log('  npm run dev query staked-eth <command> - Query staked ETH events');
+        printUsage();
       }
-      
+
+    } else if (args[0] === 'labels' && args[1] === 'import' && args[2]) {
+      // Load the address label registry; --replace drops labels no longer in the file
+      const file = path.resolve(args[2]);
+      const labels = parseAddressLabels(fs.readFileSync(file, 'utf8'), getAddressLabelFormat(file));
+      const removed = await database.importAddressLabels(labels, path.basename(file), args.includes('--replace'));
+      console.log(`Imported ${labels.length} address labels from ${file}`);
+      if (removed > 0) {
+        console.log(`Removed ${removed} labels no longer listed in ${path.basename(file)}`);
+      }
+      console.log(`Total address labels: ${await database.countAddressLabels()}`);
+
+    } else if (args[0] === 'repair-deposits') {
+      // One-off fix for deposits that stored the transaction value as their amount
+      const repaired = await repairDepositAmounts(database, RPC_URLS, {
+        ...DEFAULT_RETRY_CONFIG,
+        maxRetries: MAX_RETRIES,
+        baseDelay: RETRY_DELAY_BASE * 1000,
+      });
+      console.log(`Repaired ${repaired} deposits, the backend refreshes the analytics views within 5 minutes`);
+
+    } else if (args[0] === 'fill-pod-timestamps') {
+      // One-off fill for pods indexed before their deployment timestamp was stored
+      const filled = await fillPodTimestamps(database, RPC_URLS, {
+        ...DEFAULT_RETRY_CONFIG,
+        maxRetries: MAX_RETRIES,
+        baseDelay: RETRY_DELAY_BASE * 1000,
+      });
+      console.log(`Filled the timestamp of pod deployments in ${filled} blocks`);
+
     } else {
-      console.log('Usage:');
-      console.log('  npm run dev                           - Start both indexers in parallel (default)');
-      console.log('  npm run dev --parallel                - Start both indexers in parallel');
-      console.log('  npm run dev run-once                  - Run both indexers once');
-      console.log('  npm run dev backfill <start> <end>    - Backfill historical events');
-      console.log('  npm run dev status                    - Show current status');
-      console.log('  npm run dev deployment-block          - Get contract deployment block');
-      console.log('  npm run dev eigenpod <command>        - EigenPod indexer commands');
-      console.log('  npm run dev staked-eth <command>      - Staked ETH indexer commands');
-      console.log('  npm run dev query by-eigenpod <address> - Query events by eigenPod');
-      console.log('  npm run dev query by-owner <address>  - Query events by podOwner');
-      console.log('  npm run dev query by-range <start> <end> - Query events by block range');
+      printUsage();
     }
-    
+
   } catch (error) {
     console.error('Error:', error);
     process.exit(1);
   } finally {
-    if (process.argv.length > 2) {
+    if (!keepAlive) {
       // Close connections if not running in scheduler mode
       await scheduler.close();
     }
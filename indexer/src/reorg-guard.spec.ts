@@ -0,0 +1,285 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { DataSource } from 'typeorm';
+import {
+  createRpcProvider,
+  Block,
+  IndexerCheckpoint,
+  StakerDelegatedEvent,
+  StakerUndelegatedEvent,
+} from '@eigen-layer-dashboard/lib';
+import { ContractEventIndexer } from './contract-event-indexer';
+import { IndexerDatabaseService } from './database';
+import { EventSource } from './event-source';
+import { delegationManagerSource } from './sources/delegation-manager.source';
+import { getIndexerDataSource } from './typeorm.config';
+
+const CONTRACT = '0x00000000000000000000000000000000000000d1';
+const OPERATOR = '0x00000000000000000000000000000000000000aa';
+const FORK_BLOCK = 20;
+const CONFIRMATION_DEPTH = 12;
+
+interface StubLog {
+  event: 'StakerDelegated' | 'StakerUndelegated';
+  blockNumber: number;
+  staker: string;
+}
+
+interface StubBlock {
+  number: number;
+  hash: string;
+  parentHash: string;
+  timestamp: number;
+  logs: any[];
+}
+
+const source: EventSource = { ...delegationManagerSource, address: CONTRACT, startBlock: 1 };
+const contractInterface = new ethers.Interface(source.abi);
+
+/**
+ * Builds blocks 0-`length`, reusing the blocks of `base` up to `forkBlock` so the
+ * chains share their history and diverge after it
+ */
+function buildChain(label: string, length: number, logs: StubLog[], base?: StubBlock[], forkBlock: number = -1): StubBlock[] {
+  const blocks: StubBlock[] = [];
+  for (let number = 0; number <= length; number++) {
+    if (base && number <= forkBlock) {
+      blocks.push(base[number]);
+      continue;
+    }
+    const hash = ethers.id(`${label}:${number}`);
+    const blockLogs = logs
+      .filter(log => log.blockNumber === number)
+      .map((log, index) => {
+        const encoded = contractInterface.encodeEventLog(log.event, [log.staker, OPERATOR]);
+        return {
+          address: CONTRACT,
+          topics: encoded.topics,
+          data: encoded.data,
+          blockNumber: ethers.toQuantity(number),
+          blockHash: hash,
+          transactionHash: ethers.id(`${label}:tx:${number}:${index}`),
+          transactionIndex: ethers.toQuantity(index),
+          logIndex: ethers.toQuantity(index),
+          removed: false,
+        };
+      });
+    blocks.push({
+      number,
+      hash,
+      parentHash: number === 0 ? ethers.ZeroHash : blocks[number - 1].hash,
+      timestamp: 1700000000 + number * 12,
+      logs: blockLogs,
+    });
+  }
+  return blocks;
+}
+
+/**
+ * JSON-RPC stand-in serving `chain` up to `head`; both can be swapped between runs. eth_getLogs
+ * fails for windows reaching past `logsUpTo`.
+ */
+class StubNode {
+  chain: StubBlock[] = [];
+  head = 0;
+  logsUpTo = Infinity;
+  private server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      const payload = JSON.parse(body);
+      const results = (Array.isArray(payload) ? payload : [payload]).map((call: any) => {
+        try {
+          return { jsonrpc: '2.0', id: call.id, result: this.handle(call.method, call.params) };
+        } catch (error: any) {
+          return { jsonrpc: '2.0', id: call.id, error: { code: -32000, message: error.message } };
+        }
+      });
+      response.writeHead(200, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(Array.isArray(payload) ? results : results[0]));
+    });
+  });
+
+  async start(): Promise<string> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  private handle(method: string, params: any[]): any {
+    switch (method) {
+      case 'eth_chainId':
+        return '0x1';
+      case 'eth_blockNumber':
+        return ethers.toQuantity(this.head);
+      case 'eth_getCode':
+        return '0x6000';
+      case 'eth_getBlockByNumber': {
+        const block = this.getBlock(Number(params[0]));
+        return block && {
+          number: ethers.toQuantity(block.number),
+          hash: block.hash,
+          parentHash: block.parentHash,
+          timestamp: ethers.toQuantity(block.timestamp),
+          nonce: '0x0000000000000000',
+          difficulty: '0x0',
+          gasLimit: '0x1c9c380',
+          gasUsed: '0x0',
+          miner: ethers.ZeroAddress,
+          extraData: '0x',
+          baseFeePerGas: '0x1',
+          transactions: [],
+        };
+      }
+      case 'eth_getLogs': {
+        const [filter] = params;
+        if (Number(filter.toBlock) > this.logsUpTo) {
+          throw new Error(`logs past block ${this.logsUpTo} are unavailable`);
+        }
+        const topics: string[] = [filter.topics?.[0] ?? []].flat();
+        const logs: any[] = [];
+        for (let number = Number(filter.fromBlock); number <= Number(filter.toBlock); number++) {
+          logs.push(...(this.getBlock(number)?.logs ?? []).filter(log =>
+            (!filter.address || log.address === filter.address.toLowerCase()) &&
+            (topics.length === 0 || topics.includes(log.topics[0]))
+          ));
+        }
+        return logs;
+      }
+      default:
+        throw new Error(`Unexpected RPC method ${method}`);
+    }
+  }
+
+  private getBlock(number: number): StubBlock | null {
+    return number <= this.head ? this.chain[number] ?? null : null;
+  }
+}
+
+describe('ReorgGuard.detectAndRollback', () => {
+  const node = new StubNode();
+  let rpcUrl: string;
+  let dataSource: DataSource;
+  let database: IndexerDatabaseService;
+
+  const chainA = buildChain('a', 60, [
+    { event: 'StakerDelegated', blockNumber: 10, staker: '0x0000000000000000000000000000000000000001' },
+    { event: 'StakerUndelegated', blockNumber: 12, staker: '0x0000000000000000000000000000000000000001' },
+    { event: 'StakerDelegated', blockNumber: 25, staker: '0x0000000000000000000000000000000000000002' },
+    { event: 'StakerUndelegated', blockNumber: 27, staker: '0x0000000000000000000000000000000000000002' },
+  ]);
+  const chainB = buildChain('b', 60, [
+    { event: 'StakerDelegated', blockNumber: 22, staker: '0x0000000000000000000000000000000000000003' },
+    { event: 'StakerUndelegated', blockNumber: 30, staker: '0x0000000000000000000000000000000000000003' },
+  ], chainA, FORK_BLOCK);
+
+  const runIndexer = async (chain: StubBlock[], head: number, indexedSource: EventSource = source) => {
+    node.chain = chain;
+    node.head = head;
+    const provider = createRpcProvider([rpcUrl]);
+    try {
+      await new ContractEventIndexer(indexedSource, provider, 1, 0).startIndexing();
+    } finally {
+      provider.destroy();
+    }
+  };
+
+  const indexedBlocks = async (entity: typeof StakerDelegatedEvent | typeof StakerUndelegatedEvent) =>
+    (await dataSource.getRepository(entity).find({ order: { blockNumber: 'ASC' } })).map(row => row.blockNumber);
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    delete process.env.DB_URL;
+    process.env.DATABASE_PATH = ':memory:';
+    process.env.CONFIRMATION_DEPTH = String(CONFIRMATION_DEPTH);
+
+    rpcUrl = await node.start();
+    // The migrations are written for Postgres, so the in-memory schema comes from the entities
+    // plus the unique constraints the indexer's upserts rely on
+    dataSource = getIndexerDataSource();
+    dataSource.setOptions({ synchronize: true });
+    await dataSource.initialize();
+    for (const metadata of dataSource.entityMetadatas) {
+      const columns = metadata.hasColumnWithPropertyPath('logIndex')
+        ? ['transactionhash', 'logindex']
+        : metadata.target === IndexerCheckpoint ? ['indexername', 'blocknumber'] : null;
+      if (columns) {
+        await dataSource.query(`CREATE UNIQUE INDEX "UQ_${metadata.tableName}" ON "${metadata.tableName}" (${columns.join(', ')})`);
+      }
+    }
+    database = IndexerDatabaseService.getInstance();
+    await database.initialize();
+
+    // Two runs on chain A leave checkpoints at the fork block and above it
+    await runIndexer(chainA, FORK_BLOCK + CONFIRMATION_DEPTH);
+    await runIndexer(chainA, 40);
+  });
+
+  afterAll(async () => {
+    await database.close();
+    await node.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('indexes chain A up to the safe block', async () => {
+    expect(await indexedBlocks(StakerDelegatedEvent)).toEqual([10, 25]);
+    expect(await indexedBlocks(StakerUndelegatedEvent)).toEqual([12, 27]);
+    expect((await database.getIndexerState(source.name))?.lastScannedBlock).toBe(40 - CONFIRMATION_DEPTH);
+  });
+
+  it('rolls back rows, cursor and checkpoints above the fork block', async () => {
+    // The fork is no longer than chain A was, so the run rolls back without indexing anything new
+    await runIndexer(chainB, FORK_BLOCK + CONFIRMATION_DEPTH);
+
+    expect(await indexedBlocks(StakerDelegatedEvent)).toEqual([10]);
+    expect(await indexedBlocks(StakerUndelegatedEvent)).toEqual([12]);
+
+    const state = await database.getIndexerState(source.name);
+    expect(state?.lastScannedBlock).toBe(FORK_BLOCK);
+    expect(state?.lastScannedHash).toBe(chainA[FORK_BLOCK].hash);
+
+    const checkpoints = await dataSource.getRepository(IndexerCheckpoint).find({ where: { indexerName: source.name } });
+    expect(checkpoints.map(checkpoint => checkpoint.blockNumber)).toEqual([FORK_BLOCK]);
+
+    const cachedBlocks = await dataSource.getRepository(Block).find({ order: { number: 'ASC' } });
+    expect(Math.max(...cachedBlocks.map(block => block.number))).toBeLessThanOrEqual(FORK_BLOCK);
+  });
+
+  it('re-indexes the logs of the fork on the next run', async () => {
+    await runIndexer(chainB, 45);
+
+    expect(await indexedBlocks(StakerDelegatedEvent)).toEqual([10, 22]);
+    expect(await indexedBlocks(StakerUndelegatedEvent)).toEqual([12, 30]);
+
+    const state = await database.getIndexerState(source.name);
+    expect(state?.lastScannedBlock).toBe(45 - CONFIRMATION_DEPTH);
+    expect(state?.lastScannedHash).toBe(chainB[45 - CONFIRMATION_DEPTH].hash);
+  });
+
+  it('records a checkpoint with the cursor of every window of a run that fails', async () => {
+    // Resumes after the last indexed event (block 30) with windows of 5 blocks, then 10 while
+    // they are quiet, and fails on the window reaching past block 45
+    const failing: EventSource = { ...source, name: 'delegation-manager-windows', batchSize: 5 };
+    node.logsUpTo = 45;
+    try {
+      await expect(runIndexer(chainB, 60, failing)).rejects.toThrow(/logs past block 45 are unavailable/);
+    } finally {
+      node.logsUpTo = Infinity;
+    }
+
+    const state = await database.getIndexerState(failing.name);
+    expect(state).toMatchObject({ lastScannedBlock: 45, lastScannedHash: chainB[45].hash });
+    const checkpoints = await database.getCheckpoints(failing.name);
+    expect(checkpoints.map(({ blockNumber, blockHash }) => ({ blockNumber, blockHash }))).toEqual([
+      { blockNumber: 45, blockHash: chainB[45].hash },
+      { blockNumber: 35, blockHash: chainB[35].hash },
+    ]);
+  });
+});
@@ -0,0 +1,103 @@
+import { ethers } from 'ethers';
+import { IndexerDatabaseService } from './database';
+import { getBlockWithRetry } from '@eigen-layer-dashboard/lib';
+
+// Number of blocks to stay behind the chain head before indexing a block
+export const DEFAULT_CONFIRMATION_DEPTH = parseInt(process.env.CONFIRMATION_DEPTH || '12');
+
+// Number of checkpoints kept per indexer to locate a fork point
+export const MAX_CHECKPOINTS = 64;
+
+/**
+ * Checks the block hash checkpoints a single indexer records with its cursor and rolls
+ * back indexed rows when the chain it was built on has been reorganized.
+ */
+export class ReorgGuard {
+  private provider: ethers.Provider;
+  private database: IndexerDatabaseService;
+  private indexerName: string;
+  private confirmationDepth: number;
+
+  constructor(
+    provider: ethers.Provider,
+    database: IndexerDatabaseService,
+    indexerName: string,
+    confirmationDepth: number = DEFAULT_CONFIRMATION_DEPTH
+  ) {
+    this.provider = provider;
+    this.database = database;
+    this.indexerName = indexerName;
+    this.confirmationDepth = confirmationDepth;
+  }
+
+  /**
+   * Returns the highest block considered final enough to index
+   */
+  getSafeBlock(currentBlock: number): number {
+    return Math.max(0, currentBlock - this.confirmationDepth);
+  }
+
+  /**
+   * Compares the latest checkpoint against the canonical chain. When the next
+   * block does not build on the checkpointed hash, walks back through older
+   * checkpoints to find the fork point and invokes `rollback` with it.
+   * @param rollback - Deletes indexed rows above the given block
+   * @returns The fork block that was rolled back to, or null if no reorg was found
+   */
+  async detectAndRollback(rollback: (forkBlock: number) => Promise<void>): Promise<number | null> {
+    const latest = await this.database.getLatestCheckpoint(this.indexerName);
+    if (!latest) {
+      return null;
+    }
+
+    if (await this.isCanonical(latest.blockNumber, latest.blockHash)) {
+      return null;
+    }
+
+    console.warn(`[${this.indexerName}] Reorg detected at checkpoint block ${latest.blockNumber}`);
+
+    const checkpoints = await this.database.getCheckpoints(this.indexerName);
+    let forkBlock: number | null = null;
+
+    for (const checkpoint of checkpoints) {
+      const block = await getBlockWithRetry(this.provider, checkpoint.blockNumber);
+      if (block && block.hash === checkpoint.blockHash) {
+        forkBlock = checkpoint.blockNumber;
+        break;
+      }
+    }
+
+    if (forkBlock === null) {
+      // No checkpoint survived the reorg, rewind past the oldest one we know about
+      const oldest = checkpoints[checkpoints.length - 1];
+      forkBlock = Math.max(0, (oldest?.blockNumber ?? latest.blockNumber) - this.confirmationDepth - 1);
+      console.warn(`[${this.indexerName}] No matching checkpoint found, rewinding to block ${forkBlock}`);
+    }
+
+    console.log(`[${this.indexerName}] Rolling back indexed data above block ${forkBlock}`);
+    await rollback(forkBlock);
+    await this.database.deleteCheckpointsAfterBlock(this.indexerName, forkBlock);
+
+    return forkBlock;
+  }
+
+  /**
+   * A checkpoint is canonical when the following block's parent hash points at it.
+   * If the following block does not exist yet, the checkpoint hash is compared directly.
+   */
+  private async isCanonical(blockNumber: number, blockHash: string): Promise<boolean> {
+    let next: ethers.Block | null = null;
+    try {
+      next = await getBlockWithRetry(this.provider, blockNumber + 1);
+    } catch (error) {
+      next = null;
+    }
+
+    if (next) {
+      return next.parentHash === blockHash;
+    }
+
+    const block = await getBlockWithRetry(this.provider, blockNumber);
+    return !!block && block.hash === blockHash;
+  }
+}
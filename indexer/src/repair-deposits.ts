@@ -0,0 +1,73 @@
+import { ethers } from 'ethers';
+import {
+  decodeDepositAmount,
+  decodeDepositIndex,
+  queryEventsWithRetry,
+  LogRangePlanner,
+  createRpcProvider,
+  RetryConfig,
+} from '@eigen-layer-dashboard/lib';
+import { IndexerDatabaseService } from './database';
+import { stakedEthSource } from './sources/staked-eth.source';
+
+/**
+ * Re-derives `amount` and `depositIndex` of deposits indexed while `amount` held the value of the
+ * enclosing transaction. Only blocks holding such rows are fetched again, with one `eth_getLogs`
+ * per batch and no transaction lookups. Repaired rows no longer match, so an interrupted repair
+ * resumes where it stopped. Returns the number of repaired rows.
+ */
+export async function repairDepositAmounts(
+  database: IndexerDatabaseService,
+  rpcUrls: string[],
+  retryConfig: RetryConfig
+): Promise<number> {
+  const provider = createRpcProvider(rpcUrls);
+  const contract = new ethers.Contract(stakedEthSource.address, stakedEthSource.abi, provider);
+  const topic = contract.interface.getEvent('DepositEvent')!.topicHash;
+  const rangePlanner = new LogRangePlanner(provider.urls, { initialRange: stakedEthSource.batchSize });
+
+  let repaired = 0;
+  try {
+    console.log(`Repairing ${await database.countDepositsToRepair()} deposits...`);
+
+    let afterBlock = 0;
+    let startBlock = await database.getNextDepositBlockToRepair(afterBlock);
+    while (startBlock !== null) {
+      const endBlock = rangePlanner.nextEnd(startBlock, Number.MAX_SAFE_INTEGER);
+      let events: ethers.EventLog[];
+      try {
+        events = await queryEventsWithRetry(contract, [[topic]], startBlock, endBlock, retryConfig);
+      } catch (error) {
+        if (rangePlanner.recordFailure(startBlock, endBlock, error)) {
+          continue;
+        }
+        throw error;
+      }
+      rangePlanner.recordSuccess(startBlock, endBlock, events.length);
+
+      const rows = await database.getDepositsToRepair(startBlock, endBlock);
+      const eventsByKey = new Map(events.map((event: ethers.EventLog) => [`${event.transactionHash}:${event.index}`, event]));
+
+      for (const row of rows) {
+        const event = eventsByKey.get(`${row.transactionHash}:${row.logIndex}`);
+        const amount = event ? decodeDepositAmount(event.args[2]) : null;
+        const depositIndex = event ? decodeDepositIndex(event.args[4]) : null;
+        if (amount === null || depositIndex === null) {
+          console.warn(`No DepositEvent found for ${row.transactionHash}:${row.logIndex}, left unchanged`);
+          continue;
+        }
+
+        await database.updateDepositData(row.id, { amount, depositIndex });
+        repaired++;
+      }
+
+      console.log(`Repaired deposits in blocks ${startBlock}-${endBlock} (${repaired} so far)`);
+      afterBlock = endBlock;
+      startBlock = await database.getNextDepositBlockToRepair(afterBlock);
+    }
+  } finally {
+    provider.destroy();
+  }
+
+  return repaired;
+}
@@ -1,17 +1,31 @@
 import * as cron from 'node-cron';
-import { EventIndexer } from './indexer';
+import { ContractEventIndexer, IndexingStatus } from './contract-event-indexer';
+import { EventSource } from './event-source';
+import { BackfillRunner } from './backfill';
+import { IndexerDatabaseService } from './database';
+import { BackfillJob, createRpcProvider } from '@eigen-layer-dashboard/lib';
 
 export class IndexerScheduler {
-  private indexer: EventIndexer;
-  private cronJob: cron.ScheduledTask | null = null;
+  private indexers: ContractEventIndexer[];
+  private backfillRunner: BackfillRunner;
+  private cronJobs: cron.ScheduledTask[] = [];
   private isRunning: boolean = false;
 
-  constructor(rpcUrl: string, contractAddress: string, maxRetries: number = 10, retryDelayBase: number = 2) {
-    this.indexer = new EventIndexer(rpcUrl, contractAddress, maxRetries, retryDelayBase);
+  constructor(sources: EventSource[], rpcUrls: string[], maxRetries: number = 10, retryDelayBase: number = 2) {
+    // One pool for every source, so endpoint scores and cooldowns are shared
+    const provider = createRpcProvider(rpcUrls);
+    this.indexers = sources.map(source => new ContractEventIndexer(source, provider, maxRetries, retryDelayBase));
+    this.backfillRunner = new BackfillRunner(this.indexers, IndexerDatabaseService.getInstance());
   }
 
   async initialize(): Promise<void> {
-    await this.indexer.initialize();
+    for (const indexer of this.indexers) {
+      await indexer.initialize();
+    }
+  }
+
+  getSourceNames(): string[] {
+    return this.indexers.map(indexer => indexer.source.name);
   }
 
   start(cronExpression: string = '*/5 * * * *'): void {
@@ -21,29 +35,32 @@ export class IndexerScheduler {
     }
 
     console.log(`Starting scheduler with cron expression: ${cronExpression}`);
-    
-    this.cronJob = cron.schedule(cronExpression, async () => {
-      try {
-        console.log('Running scheduled indexing...');
-        await this.indexer.startIndexing();
-      } catch (error) {
-        console.error('Error during scheduled indexing:', error);
-      }
-    }, {
-      scheduled: false
-    });
 
-    this.cronJob.start();
+    // Each source gets its own job so a slow contract does not hold back the others
+    for (const indexer of this.indexers) {
+      const cronJob = cron.schedule(cronExpression, async () => {
+        try {
+          console.log(`Running scheduled ${indexer.source.name} indexing...`);
+          await indexer.startIndexing();
+        } catch (error) {
+          console.error(`Error during scheduled ${indexer.source.name} indexing:`, error);
+        }
+      }, {
+        scheduled: false
+      });
+
+      cronJob.start();
+      this.cronJobs.push(cronJob);
+    }
+
     this.isRunning = true;
     
-    console.log('Scheduler started successfully');
+    console.log(`Scheduler started successfully for: ${this.getSourceNames().join(', ')}`);
   }
 
   stop(): void {
-    if (this.cronJob) {
-      this.cronJob.stop();
-      this.cronJob = null;
-    }
+    this.cronJobs.forEach(cronJob => cronJob.stop());
+    this.cronJobs = [];
     this.isRunning = false;
     console.log('Scheduler stopped');
   }
@@ -51,50 +68,58 @@ export class IndexerScheduler {
   async runOnce(): Promise<void> {
     try {
       console.log('Running indexer once...');
-      await this.indexer.startIndexing();
+      for (const indexer of this.indexers) {
+        await indexer.startIndexing();
+      }
     } catch (error) {
       console.error('Error during manual indexing:', error);
       throw error;
     }
   }
 
-  async backfill(startBlock: number, endBlock: number): Promise<void> {
+  // Records a resumable backfill job for the scheduler's sources and runs it
+  async backfill(startBlock: number, endBlock: number): Promise<BackfillJob> {
     try {
       console.log(`Starting backfill from block ${startBlock} to ${endBlock}`);
-      await this.indexer.backfillHistoricalEvents(startBlock, endBlock);
+      const job = await this.backfillRunner.createJob(startBlock, endBlock);
+      return await this.backfillRunner.run(job.id);
     } catch (error) {
       console.error('Error during backfill:', error);
       throw error;
     }
   }
 
-  async getStatus(): Promise<any> {
-    return await this.indexer.getIndexingStatus();
+  async resumeBackfill(jobId: number): Promise<BackfillJob> {
+    return this.backfillRunner.resume(jobId);
   }
 
-  isSchedulerRunning(): boolean {
-    return this.isRunning;
+  async cancelBackfill(jobId: number): Promise<BackfillJob> {
+    return this.backfillRunner.cancel(jobId);
   }
 
-  async getDeploymentBlock(): Promise<number> {
-    return await this.indexer.getDeploymentBlock();
-  }
-
-  async close(): Promise<void> {
-    this.stop();
-    await this.indexer.close();
+  async getStatus(): Promise<IndexingStatus[]> {
+    const statuses: IndexingStatus[] = [];
+    for (const indexer of this.indexers) {
+      statuses.push(await indexer.getIndexingStatus());
+    }
+    return statuses;
   }
 
-  // Query methods
-  async getEventsByEigenPod(eigenPod: string): Promise<any[]> {
-    return await this.indexer.getEventsByEigenPod(eigenPod);
+  isSchedulerRunning(): boolean {
+    return this.isRunning;
   }
 
-  async getEventsByPodOwner(podOwner: string): Promise<any[]> {
-    return await this.indexer.getEventsByPodOwner(podOwner);
+  async getDeploymentBlocks(): Promise<Record<string, number>> {
+    const blocks: Record<string, number> = {};
+    for (const indexer of this.indexers) {
+      blocks[indexer.source.name] = await indexer.getDeploymentBlock();
+    }
+    return blocks;
   }
 
-  async getEventsByBlockRange(startBlock: number, endBlock: number): Promise<any[]> {
-    return await this.indexer.getEventsByBlockRange(startBlock, endBlock);
+  async close(): Promise<void> {
+    this.stop();
+    // All indexers share the same database connection
+    await this.indexers[0]?.close();
   }
 }
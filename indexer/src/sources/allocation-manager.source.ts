@@ -0,0 +1,112 @@
+import {
+  OperatorSetCreatedEvent,
+  OperatorAddedToOperatorSetEvent,
+  OperatorRemovedFromOperatorSetEvent,
+  StrategyAddedToOperatorSetEvent,
+  AllocationUpdatedEvent,
+  MagnitudeUpdatedEvent,
+  OperatorSlashedEvent,
+  INDEXER_SOURCE_NAMES,
+} from '@eigen-layer-dashboard/lib';
+import { EventSource } from '../event-source';
+
+// Operator sets are emitted as an (avs, id) tuple
+const OPERATOR_SET = 'tuple(address avs, uint32 id) operatorSet';
+
+function decodeOperatorSet(operatorSet: { avs: string; id: bigint }) {
+  return {
+    avs: operatorSet.avs.toLowerCase(),
+    operatorSetId: Number(operatorSet.id),
+  };
+}
+
+export const allocationManagerSource: EventSource = {
+  name: INDEXER_SOURCE_NAMES.allocationManager,
+  contractName: 'AllocationManager',
+  address: process.env.ALLOCATION_MANAGER_ADDRESS || '0x948a420b8CC1d6BFd0B6087C2E7c344a2CD0bc39',
+  abi: [
+    `event OperatorSetCreated(${OPERATOR_SET})`,
+    `event OperatorAddedToOperatorSet(address indexed operator, ${OPERATOR_SET})`,
+    `event OperatorRemovedFromOperatorSet(address indexed operator, ${OPERATOR_SET})`,
+    `event StrategyAddedToOperatorSet(${OPERATOR_SET}, address strategy)`,
+    `event AllocationUpdated(address operator, ${OPERATOR_SET}, address strategy, uint64 magnitude, uint32 effectBlock)`,
+    'event MaxMagnitudeUpdated(address operator, address strategy, uint64 maxMagnitude)',
+    'event EncumberedMagnitudeUpdated(address operator, address strategy, uint64 encumberedMagnitude)',
+    `event OperatorSlashed(address operator, ${OPERATOR_SET}, address[] strategies, uint256[] wadSlashed, string description)`,
+  ],
+  fallbackBlockOffset: 1000000,
+  batchSize: 2000,
+  events: [
+    {
+      event: 'OperatorSetCreated',
+      entity: OperatorSetCreatedEvent,
+      decode: (event) => decodeOperatorSet(event.args[0]),
+    },
+    {
+      event: 'OperatorAddedToOperatorSet',
+      entity: OperatorAddedToOperatorSetEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        ...decodeOperatorSet(event.args[1]),
+      }),
+    },
+    {
+      event: 'OperatorRemovedFromOperatorSet',
+      entity: OperatorRemovedFromOperatorSetEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        ...decodeOperatorSet(event.args[1]),
+      }),
+    },
+    {
+      event: 'StrategyAddedToOperatorSet',
+      entity: StrategyAddedToOperatorSetEvent,
+      decode: (event) => ({
+        ...decodeOperatorSet(event.args[0]),
+        strategy: event.args[1].toLowerCase(),
+      }),
+    },
+    {
+      event: 'AllocationUpdated',
+      entity: AllocationUpdatedEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        ...decodeOperatorSet(event.args[1]),
+        strategy: event.args[2].toLowerCase(),
+        magnitude: event.args[3].toString(),
+        effectBlock: Number(event.args[4]),
+      }),
+    },
+    {
+      event: 'MaxMagnitudeUpdated',
+      entity: MagnitudeUpdatedEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        strategy: event.args[1].toLowerCase(),
+        magnitudeType: 'max',
+        magnitude: event.args[2].toString(),
+      }),
+    },
+    {
+      event: 'EncumberedMagnitudeUpdated',
+      entity: MagnitudeUpdatedEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        strategy: event.args[1].toLowerCase(),
+        magnitudeType: 'encumbered',
+        magnitude: event.args[2].toString(),
+      }),
+    },
+    {
+      event: 'OperatorSlashed',
+      entity: OperatorSlashedEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        ...decodeOperatorSet(event.args[1]),
+        strategies: event.args[2].map((strategy: string) => strategy.toLowerCase()),
+        wadSlashed: event.args[3].map((wad: bigint) => wad.toString()),
+        description: event.args[4],
+      }),
+    },
+  ],
+};
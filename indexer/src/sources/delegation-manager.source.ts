@@ -0,0 +1,125 @@
+import {
+  OperatorRegisteredEvent,
+  OperatorMetadataURIUpdatedEvent,
+  StakerDelegatedEvent,
+  StakerUndelegatedEvent,
+  OperatorSharesIncreasedEvent,
+  OperatorSharesDecreasedEvent,
+  WithdrawalQueuedEvent,
+  WithdrawalCompletedEvent,
+  INDEXER_SOURCE_NAMES,
+} from '@eigen-layer-dashboard/lib';
+import { EventSource, withBlockTimestamp } from '../event-source';
+
+export const delegationManagerSource: EventSource = {
+  name: INDEXER_SOURCE_NAMES.delegationManager,
+  contractName: 'DelegationManager',
+  address: process.env.DELEGATION_MANAGER_ADDRESS || '0x39053D51B77DC0d36036Fc1fCc8Cb819df8Ef37A',
+  abi: [
+    // Emitted before the slashing upgrade
+    'event OperatorRegistered(address indexed operator, (address earningsReceiver, address delegationApprover, uint32 stakerOptOutWindowBlocks) operatorDetails)',
+    // Emitted since the slashing upgrade
+    'event OperatorRegistered(address indexed operator, address delegationApprover)',
+    'event OperatorMetadataURIUpdated(address indexed operator, string metadataURI)',
+    'event StakerDelegated(address indexed staker, address indexed operator)',
+    'event StakerUndelegated(address indexed staker, address indexed operator)',
+    'event OperatorSharesIncreased(address indexed operator, address staker, address strategy, uint256 shares)',
+    'event OperatorSharesDecreased(address indexed operator, address staker, address strategy, uint256 shares)',
+    'event SlashingWithdrawalQueued(bytes32 withdrawalRoot, tuple(address staker, address delegatedTo, address withdrawer, uint256 nonce, uint32 startBlock, address[] strategies, uint256[] scaledShares) withdrawal, uint256[] sharesToWithdraw)',
+    'event SlashingWithdrawalCompleted(bytes32 withdrawalRoot)',
+  ],
+  startBlock: 17445564, // DelegationManager proxy deployment block
+  fallbackBlockOffset: 2000000,
+  batchSize: 2000,
+  events: [
+    {
+      event: 'OperatorRegistered(address,(address,address,uint32))',
+      entity: OperatorRegisteredEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        delegationApprover: event.args[1].delegationApprover.toLowerCase(),
+      }),
+    },
+    {
+      event: 'OperatorRegistered(address,address)',
+      entity: OperatorRegisteredEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        delegationApprover: event.args[1].toLowerCase(),
+      }),
+    },
+    {
+      event: 'OperatorMetadataURIUpdated',
+      entity: OperatorMetadataURIUpdatedEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        metadataURI: event.args[1],
+      }),
+    },
+    {
+      event: 'StakerDelegated',
+      entity: StakerDelegatedEvent,
+      decode: (event) => ({
+        staker: event.args[0].toLowerCase(),
+        operator: event.args[1].toLowerCase(),
+      }),
+    },
+    {
+      event: 'StakerUndelegated',
+      entity: StakerUndelegatedEvent,
+      decode: (event) => ({
+        staker: event.args[0].toLowerCase(),
+        operator: event.args[1].toLowerCase(),
+      }),
+    },
+    {
+      event: 'OperatorSharesIncreased',
+      entity: OperatorSharesIncreasedEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        staker: event.args[1].toLowerCase(),
+        strategy: event.args[2].toLowerCase(),
+        shares: event.args[3].toString(),
+      }),
+    },
+    {
+      event: 'OperatorSharesDecreased',
+      entity: OperatorSharesDecreasedEvent,
+      decode: (event) => ({
+        operator: event.args[0].toLowerCase(),
+        staker: event.args[1].toLowerCase(),
+        strategy: event.args[2].toLowerCase(),
+        shares: event.args[3].toString(),
+      }),
+    },
+    {
+      event: 'SlashingWithdrawalQueued',
+      entity: WithdrawalQueuedEvent,
+      decode: (event) => {
+        const [withdrawalRoot, withdrawal, sharesToWithdraw] = event.args;
+        const shares: string[] = sharesToWithdraw.map((value: bigint) => value.toString());
+        return {
+          withdrawalRoot,
+          staker: withdrawal.staker.toLowerCase(),
+          operator: withdrawal.delegatedTo.toLowerCase(),
+          withdrawer: withdrawal.withdrawer.toLowerCase(),
+          nonce: withdrawal.nonce.toString(),
+          startBlock: Number(withdrawal.startBlock),
+          strategies: withdrawal.strategies.map((strategy: string) => strategy.toLowerCase()),
+          scaledShares: withdrawal.scaledShares.map((value: bigint) => value.toString()),
+          sharesToWithdraw: shares,
+          totalShares: shares.reduce((sum, value) => sum + BigInt(value), 0n).toString(),
+        };
+      },
+      enrich: withBlockTimestamp,
+    },
+    {
+      event: 'SlashingWithdrawalCompleted',
+      entity: WithdrawalCompletedEvent,
+      decode: (event) => ({
+        withdrawalRoot: event.args[0],
+      }),
+      enrich: withBlockTimestamp,
+    },
+  ],
+};
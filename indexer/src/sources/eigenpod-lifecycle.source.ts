@@ -0,0 +1,86 @@
+import {
+  ValidatorRestakedEvent,
+  ValidatorBalanceUpdatedEvent,
+  ValidatorWithdrawnEvent,
+  CheckpointCreatedEvent,
+  CheckpointFinalizedEvent,
+  NonBeaconChainETHReceivedEvent,
+  INDEXER_SOURCE_NAMES,
+} from '@eigen-layer-dashboard/lib';
+import { EventSource } from '../event-source';
+import { podDeployedSource } from './pod-deployed.source';
+
+// Follows every pod found in pod_deployed_events
+export const eigenPodLifecycleSource: EventSource = {
+  name: INDEXER_SOURCE_NAMES.eigenPodLifecycle,
+  contractName: 'EigenPod',
+  address: podDeployedSource.address,
+  abi: [
+    'event ValidatorRestaked(uint40 validatorIndex)',
+    'event ValidatorBalanceUpdated(uint40 validatorIndex, uint64 balanceTimestamp, uint64 newValidatorBalanceGwei)',
+    'event ValidatorWithdrawn(uint64 indexed checkpointTimestamp, uint40 indexed validatorIndex)',
+    'event CheckpointCreated(uint64 indexed checkpointTimestamp, bytes32 indexed beaconBlockRoot, uint256 validatorCount)',
+    'event CheckpointFinalized(uint64 indexed checkpointTimestamp, int256 totalShareDeltaWei)',
+    'event NonBeaconChainETHReceived(uint256 amountReceived)',
+  ],
+  startBlock: 17445564, // EigenPodManager deployment block, no pod exists before it
+  batchSize: 1000,
+  resolveAddresses: (database) => database.getEigenPodAddresses(),
+  followsSource: podDeployedSource.name,
+  events: [
+    {
+      event: 'ValidatorRestaked',
+      entity: ValidatorRestakedEvent,
+      decode: (event) => ({
+        eigenPod: event.address.toLowerCase(),
+        validatorIndex: Number(event.args[0]),
+      }),
+    },
+    {
+      event: 'ValidatorBalanceUpdated',
+      entity: ValidatorBalanceUpdatedEvent,
+      decode: (event) => ({
+        eigenPod: event.address.toLowerCase(),
+        validatorIndex: Number(event.args[0]),
+        balanceTimestamp: Number(event.args[1]),
+        newValidatorBalanceGwei: event.args[2].toString(),
+      }),
+    },
+    {
+      event: 'ValidatorWithdrawn',
+      entity: ValidatorWithdrawnEvent,
+      decode: (event) => ({
+        eigenPod: event.address.toLowerCase(),
+        checkpointTimestamp: Number(event.args[0]),
+        validatorIndex: Number(event.args[1]),
+      }),
+    },
+    {
+      event: 'CheckpointCreated',
+      entity: CheckpointCreatedEvent,
+      decode: (event) => ({
+        eigenPod: event.address.toLowerCase(),
+        checkpointTimestamp: Number(event.args[0]),
+        beaconBlockRoot: event.args[1],
+        validatorCount: Number(event.args[2]),
+      }),
+    },
+    {
+      event: 'CheckpointFinalized',
+      entity: CheckpointFinalizedEvent,
+      decode: (event) => ({
+        eigenPod: event.address.toLowerCase(),
+        checkpointTimestamp: Number(event.args[0]),
+        totalShareDeltaWei: event.args[1].toString(),
+      }),
+    },
+    {
+      event: 'NonBeaconChainETHReceived',
+      entity: NonBeaconChainETHReceivedEvent,
+      decode: (event) => ({
+        eigenPod: event.address.toLowerCase(),
+        amountReceived: event.args[0].toString(),
+      }),
+    },
+  ],
+};
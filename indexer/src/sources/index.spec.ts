@@ -0,0 +1,41 @@
+import { ethers } from 'ethers';
+import { INDEXER_SOURCE_ENTITIES, INDEXER_SOURCE_NAMES, IndexerSourceName } from '@eigen-layer-dashboard/lib';
+import { EVENT_SOURCES } from '.';
+import { stakedEthSource } from './staked-eth.source';
+
+describe('EVENT_SOURCES', () => {
+  it('registers every source named in the shared lib', () => {
+    expect(EVENT_SOURCES.map(source => source.name).sort()).toEqual(Object.values(INDEXER_SOURCE_NAMES).sort());
+  });
+
+  it.each(EVENT_SOURCES.map(source => [source.name, source] as const))(
+    'writes the event tables the shared lib lists for %s',
+    (name, source) => {
+      const entities = [...new Set(source.events.map(mapping => mapping.entity))];
+      const expected = INDEXER_SOURCE_ENTITIES[name as IndexerSourceName];
+      expect(entities).toHaveLength(expected.length);
+      expect(entities).toEqual(expect.arrayContaining(expected));
+    }
+  );
+});
+
+describe('stakedEthSource', () => {
+  const [deposit] = stakedEthSource.events;
+  // 32 ETH in gwei and index 7, as little-endian bytes
+  const depositLog = (amount: string, index: string) =>
+    ({ transactionHash: '0xabc', index: 3, args: ['0x01', '0x02', amount, '0x03', index] }) as unknown as ethers.EventLog;
+
+  it('decodes the amount to wei and the index', () => {
+    expect(deposit.decode(depositLog('0x0040597307000000', '0x0700000000000000'))).toMatchObject({
+      amount: '32000000000000000000',
+      depositIndex: '7',
+    });
+  });
+
+  it.each([
+    ['amount', '0x00405973', '0x0700000000000000'],
+    ['index', '0x0040597307000000', '0x07'],
+  ])('throws on a malformed %s', (_, amount, index) => {
+    expect(() => deposit.decode(depositLog(amount, index))).toThrow('Malformed DepositEvent 0xabc:3');
+  });
+});
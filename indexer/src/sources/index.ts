@@ -0,0 +1,21 @@
+import { EventSource } from '../event-source';
+import { podDeployedSource } from './pod-deployed.source';
+import { stakedEthSource } from './staked-eth.source';
+import { delegationManagerSource } from './delegation-manager.source';
+import { strategyManagerSource } from './strategy-manager.source';
+import { allocationManagerSource } from './allocation-manager.source';
+import { eigenPodLifecycleSource } from './eigenpod-lifecycle.source';
+
+// Every contract the indexer follows, in the order they are scheduled
+export const EVENT_SOURCES: EventSource[] = [
+  podDeployedSource,
+  stakedEthSource,
+  delegationManagerSource,
+  strategyManagerSource,
+  allocationManagerSource,
+  eigenPodLifecycleSource,
+];
+
+export function getEventSource(name: string): EventSource | undefined {
+  return EVENT_SOURCES.find(source => source.name === name);
+}
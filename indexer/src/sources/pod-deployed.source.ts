@@ -0,0 +1,26 @@
+import { PodDeployedEvent, NOTIFICATION_CHANNELS, INDEXER_SOURCE_NAMES } from '@eigen-layer-dashboard/lib';
+import { EventSource, withBlockTimestamp } from '../event-source';
+
+export const podDeployedSource: EventSource = {
+  name: INDEXER_SOURCE_NAMES.eigenPod,
+  contractName: 'EigenPodManager',
+  address: process.env.EIGENPOD_MANAGER_ADDRESS || '0x91E677b07F7AF907ec9a428aafA9fc14a0d3A338',
+  abi: [
+    'event PodDeployed(address indexed eigenPod, address indexed podOwner)',
+  ],
+  fallbackBlockOffset: 2000000, // ~6 months of blocks
+  batchSize: 2000,
+  events: [
+    {
+      event: 'PodDeployed',
+      entity: PodDeployedEvent,
+      // Stored lowercase so lookups can match exactly
+      decode: (event) => ({
+        eigenPod: event.args[0].toLowerCase(),
+        podOwner: event.args[1].toLowerCase(),
+      }),
+      enrich: withBlockTimestamp,
+      notifyChannel: NOTIFICATION_CHANNELS.podDeployed,
+    },
+  ],
+};
@@ -0,0 +1,46 @@
+import {
+  StakedEthEvent,
+  decodeDepositAmount,
+  decodeDepositIndex,
+  NOTIFICATION_CHANNELS,
+  INDEXER_SOURCE_NAMES,
+} from '@eigen-layer-dashboard/lib';
+import { EventSource } from '../event-source';
+
+export const stakedEthSource: EventSource = {
+  name: INDEXER_SOURCE_NAMES.stakedEth,
+  contractName: 'Ethereum 2.0 Deposit Contract',
+  address: process.env.STAKED_ETH_CONTRACT_ADDRESS || '0x00000000219ab540356cbb839cbe05303d7705fa',
+  abi: [
+    'event DepositEvent(bytes pubkey, bytes withdrawal_credentials, bytes amount, bytes signature, bytes index)',
+  ],
+  startBlock: 11052984, // Ethereum 2.0 Deposit Contract deployment block
+  fallbackBlockOffset: 1000000, // Use 1M blocks back as fallback if known block fails
+  batchSize: 1000,
+  events: [
+    {
+      event: 'DepositEvent',
+      entity: StakedEthEvent,
+      decode: (event) => {
+        const [pubkey, withdrawalCredentials, amount, signature, index] = event.args;
+        const decodedAmount = decodeDepositAmount(amount);
+        const depositIndex = decodeDepositIndex(index);
+        // Fails the batch so it is retried, rather than storing a made up amount
+        if (decodedAmount === null || depositIndex === null) {
+          throw new Error(`Malformed DepositEvent ${event.transactionHash}:${event.index} (amount ${amount}, index ${index})`);
+        }
+        return { pubkey, withdrawalCredentials, signature, amount: decodedAmount, depositIndex };
+      },
+      // The transaction is kept for attribution only, batch deposit contracts send many deposits in one
+      includeTransaction: true,
+      enrich: async (row, event, { block, transaction }) => ({
+        ...row,
+        txValue: transaction?.value ?? null,
+        txFrom: transaction?.from ?? null,
+        txTo: transaction?.to ?? null,
+        blockTimestamp: block.timestamp,
+      }),
+      notifyChannel: NOTIFICATION_CHANNELS.stakedEthDeposited,
+    },
+  ],
+};
@@ -0,0 +1,85 @@
+import { ethers } from 'ethers';
+import { StrategyDepositEvent, withRetry, INDEXER_SOURCE_NAMES } from '@eigen-layer-dashboard/lib';
+import { EventSource, withBlockTimestamp } from '../event-source';
+
+const STRATEGY_ABI = ['function underlyingToken() view returns (address)'];
+
+// Stored as the token of deposits into strategies that do not implement `underlyingToken()`
+const UNKNOWN_UNDERLYING_TOKEN = ethers.ZeroAddress;
+
+// Strategies never change their underlying token, so lookups are cached for the process lifetime
+const underlyingTokens = new Map<string, string>();
+
+// A revert or an empty result comes from the strategy itself and would be returned again
+function isNonConformingStrategyError(error: unknown): boolean {
+  return ethers.isError(error, 'CALL_EXCEPTION') || (ethers.isError(error, 'BAD_DATA') && error.value === '0x');
+}
+
+/**
+ * Reads the underlying token of a strategy. RPC failures are thrown once the retries are exhausted,
+ * so the batch fails and is indexed again instead of storing the deposit without its token.
+ */
+async function getUnderlyingToken(strategy: string, provider: ethers.Provider): Promise<string> {
+  const cached = underlyingTokens.get(strategy);
+  if (cached) {
+    return cached;
+  }
+
+  const contract = new ethers.Contract(strategy, STRATEGY_ABI, provider);
+  const token = await withRetry(async () => {
+    try {
+      const underlyingToken: string = await contract.underlyingToken();
+      return underlyingToken.toLowerCase();
+    } catch (error) {
+      if (!isNonConformingStrategyError(error)) {
+        throw error;
+      }
+      console.warn(`Strategy ${strategy} does not implement underlyingToken(), storing ${UNKNOWN_UNDERLYING_TOKEN} as its token`);
+      return UNKNOWN_UNDERLYING_TOKEN;
+    }
+  }, undefined, `underlyingToken(${strategy})`);
+  underlyingTokens.set(strategy, token);
+  return token;
+}
+
+export const strategyManagerSource: EventSource = {
+  name: INDEXER_SOURCE_NAMES.strategyManager,
+  contractName: 'StrategyManager',
+  address: process.env.STRATEGY_MANAGER_ADDRESS || '0x858646372CC42E1A627fcE94aa7A7033e7CF075A',
+  abi: [
+    // Emitted before the slashing upgrade
+    'event Deposit(address staker, address token, address strategy, uint256 shares)',
+    // Emitted since the slashing upgrade, the token is read from the strategy
+    'event Deposit(address staker, address strategy, uint256 shares)',
+  ],
+  startBlock: 17445564, // StrategyManager proxy deployment block
+  fallbackBlockOffset: 2000000,
+  batchSize: 2000,
+  events: [
+    {
+      event: 'Deposit(address,address,address,uint256)',
+      entity: StrategyDepositEvent,
+      decode: (event) => ({
+        staker: event.args[0].toLowerCase(),
+        token: event.args[1].toLowerCase(),
+        strategy: event.args[2].toLowerCase(),
+        shares: event.args[3].toString(),
+      }),
+      enrich: withBlockTimestamp,
+    },
+    {
+      event: 'Deposit(address,address,uint256)',
+      entity: StrategyDepositEvent,
+      decode: (event) => ({
+        staker: event.args[0].toLowerCase(),
+        strategy: event.args[1].toLowerCase(),
+        shares: event.args[2].toString(),
+      }),
+      enrich: async (row, event, { provider, block }) => ({
+        ...row,
+        token: await getUnderlyingToken(row.strategy!, provider),
+        blockTimestamp: block.timestamp,
+      }),
+    },
+  ],
+};
@@ -1,6 +1,72 @@
 import 'reflect-metadata';
 import { DataSource } from 'typeorm';
-import { PodDeployedEvent, StakedEthEvent } from '@eigen-layer-dashboard/lib';
+import {
+  PodDeployedEvent,
+  StakedEthEvent,
+  IndexerCheckpoint,
+  IndexerState,
+  OperatorRegisteredEvent,
+  OperatorMetadataURIUpdatedEvent,
+  StakerDelegatedEvent,
+  StakerUndelegatedEvent,
+  OperatorSharesIncreasedEvent,
+  OperatorSharesDecreasedEvent,
+  StrategyDepositEvent,
+  WithdrawalQueuedEvent,
+  WithdrawalCompletedEvent,
+  OperatorSetCreatedEvent,
+  OperatorAddedToOperatorSetEvent,
+  OperatorRemovedFromOperatorSetEvent,
+  StrategyAddedToOperatorSetEvent,
+  AllocationUpdatedEvent,
+  MagnitudeUpdatedEvent,
+  OperatorSlashedEvent,
+  ValidatorRestakedEvent,
+  ValidatorBalanceUpdatedEvent,
+  ValidatorWithdrawnEvent,
+  CheckpointCreatedEvent,
+  CheckpointFinalizedEvent,
+  NonBeaconChainETHReceivedEvent,
+  AddressLabel,
+  Block,
+  Transaction,
+  BackfillJob,
+  BackfillChunk,
+} from '@eigen-layer-dashboard/lib';
+
+const entities = [
+  PodDeployedEvent,
+  StakedEthEvent,
+  IndexerCheckpoint,
+  IndexerState,
+  OperatorRegisteredEvent,
+  OperatorMetadataURIUpdatedEvent,
+  StakerDelegatedEvent,
+  StakerUndelegatedEvent,
+  OperatorSharesIncreasedEvent,
+  OperatorSharesDecreasedEvent,
+  StrategyDepositEvent,
+  WithdrawalQueuedEvent,
+  WithdrawalCompletedEvent,
+  OperatorSetCreatedEvent,
+  OperatorAddedToOperatorSetEvent,
+  OperatorRemovedFromOperatorSetEvent,
+  StrategyAddedToOperatorSetEvent,
+  AllocationUpdatedEvent,
+  MagnitudeUpdatedEvent,
+  OperatorSlashedEvent,
+  ValidatorRestakedEvent,
+  ValidatorBalanceUpdatedEvent,
+  ValidatorWithdrawnEvent,
+  CheckpointCreatedEvent,
+  CheckpointFinalizedEvent,
+  NonBeaconChainETHReceivedEvent,
+  AddressLabel,
+  Block,
+  Transaction,
+  BackfillJob,
+  BackfillChunk,
+];
 
 export const createIndexerDataSource = () => {
   const isPostgres = process.env.DB_URL?.startsWith('postgresql://');
@@ -9,7 +75,7 @@ export const createIndexerDataSource = () => {
     return new DataSource({
       type: 'postgres',
       url: process.env.DB_URL,
-      entities: [PodDeployedEvent, StakedEthEvent],
+      entities,
       synchronize: false, // We'll use migrations
       logging: false, // Disable SQL query logging
     });
@@ -17,7 +83,7 @@ export const createIndexerDataSource = () => {
     return new DataSource({
       type: 'sqlite',
       database: process.env.DATABASE_PATH || './indexer.db',
-      entities: [PodDeployedEvent, StakedEthEvent],
+      entities,
       synchronize: false, // We'll use migrations
       logging: false, // Disable SQL query logging
     });
@@ -0,0 +1,31 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+export type AddressLabelCategory = 'lrt' | 'exchange' | 'solo' | 'operator' | 'avs' | 'other';
+
+export const ADDRESS_LABEL_CATEGORIES: AddressLabelCategory[] = ['lrt', 'exchange', 'solo', 'operator', 'avs', 'other'];
+
+/**
+ * Human readable name for a known address, imported from a local registry file
+ */
+@Entity('address_labels')
+export class AddressLabel {
+  // Lowercase
+  @PrimaryColumn()
+  address: string;
+
+  @Column()
+  name: string;
+
+  @Column({ type: 'varchar', default: 'other' })
+  category: AddressLabelCategory;
+
+  @Column({ type: 'simple-array', default: '' })
+  tags: string[];
+
+  // File the label was imported from
+  @Column({ type: 'varchar', nullable: true })
+  source: string | null;
+
+  @UpdateDateColumn({ name: 'updatedat' })
+  updatedAt: Date;
+}
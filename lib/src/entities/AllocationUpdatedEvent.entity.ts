@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('allocation_updated_events')
+export class AllocationUpdatedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  operator: string;
+
+  @Column()
+  avs: string;
+
+  @Column({ name: 'operatorsetid' })
+  operatorSetId: number;
+
+  @Column()
+  strategy: string;
+
+  @Column()
+  magnitude: string;
+
+  // Block at which the new magnitude takes effect
+  @Column({ name: 'effectblock' })
+  effectBlock: number;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
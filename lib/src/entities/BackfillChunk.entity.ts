@@ -0,0 +1,44 @@
+import { Entity, PrimaryGeneratedColumn, Column, UpdateDateColumn } from 'typeorm';
+
+// 'running' chunks of an interrupted process are put back to 'pending' by `backfill resume`
+export type BackfillChunkStatus = 'pending' | 'running' | 'completed' | 'failed';
+
+export const BACKFILL_CHUNK_STATUSES: BackfillChunkStatus[] = ['pending', 'running', 'completed', 'failed'];
+
+/**
+ * Block range of one source within a backfill job, indexed by a single worker
+ */
+@Entity('backfill_chunks')
+export class BackfillChunk {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'jobid' })
+  jobId: number;
+
+  @Column({ name: 'indexername' })
+  indexerName: string;
+
+  @Column({ name: 'startblock' })
+  startBlock: number;
+
+  @Column({ name: 'endblock' })
+  endBlock: number;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: BackfillChunkStatus;
+
+  @Column({ default: 0 })
+  attempts: number;
+
+  // Events found in the range by the last successful attempt
+  @Column({ name: 'eventcount', default: 0 })
+  eventCount: number;
+
+  // Error of the last failed attempt
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @UpdateDateColumn({ name: 'updatedat' })
+  updatedAt: Date;
+}
@@ -0,0 +1,40 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from 'typeorm';
+
+export type BackfillJobStatus = 'pending' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+/**
+ * A backfill of one block range for a set of sources, split into `backfill_chunks`
+ */
+@Entity('backfill_jobs')
+export class BackfillJob {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  // Source names, e.g. staked-eth
+  @Column({ type: 'simple-array' })
+  sources: string[];
+
+  @Column({ name: 'startblock' })
+  startBlock: number;
+
+  @Column({ name: 'endblock' })
+  endBlock: number;
+
+  @Column({ name: 'chunksize' })
+  chunkSize: number;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: BackfillJobStatus;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+
+  @UpdateDateColumn({ name: 'updatedat' })
+  updatedAt: Date;
+
+  @Column({ name: 'completedat', type: Date, nullable: true })
+  completedAt: Date | null;
+}
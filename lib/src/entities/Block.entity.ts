@@ -0,0 +1,19 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+/**
+ * Block header shared by every indexer, fetched once per block in JSON-RPC batches
+ */
+@Entity('blocks')
+export class Block {
+  @PrimaryColumn()
+  number: number;
+
+  @Column()
+  hash: string;
+
+  @Column({ name: 'parenthash' })
+  parentHash: string;
+
+  @Column()
+  timestamp: number;
+}
@@ -0,0 +1,31 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('checkpoint_created_events')
+export class CheckpointCreatedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'eigenpod' })
+  eigenPod: string;
+
+  @Column({ name: 'checkpointtimestamp' })
+  checkpointTimestamp: number;
+
+  @Column({ name: 'beaconblockroot' })
+  beaconBlockRoot: string;
+
+  @Column({ name: 'validatorcount' })
+  validatorCount: number;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
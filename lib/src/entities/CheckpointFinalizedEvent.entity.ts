@@ -0,0 +1,29 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('checkpoint_finalized_events')
+export class CheckpointFinalizedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'eigenpod' })
+  eigenPod: string;
+
+  @Column({ name: 'checkpointtimestamp' })
+  checkpointTimestamp: number;
+
+  // Signed change in the pod owner's shares, in wei
+  @Column({ name: 'totalsharedeltawei' })
+  totalShareDeltaWei: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
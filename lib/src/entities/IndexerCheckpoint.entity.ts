@@ -0,0 +1,22 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('indexer_checkpoints')
+export class IndexerCheckpoint {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'indexername' })
+  indexerName: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'blockhash' })
+  blockHash: string;
+
+  @Column({ name: 'parenthash' })
+  parentHash: string;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
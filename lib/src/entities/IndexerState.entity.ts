@@ -0,0 +1,32 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+export type IndexerStatus = 'idle' | 'running' | 'error';
+
+@Entity('indexer_state')
+export class IndexerState {
+  @PrimaryColumn({ name: 'indexername' })
+  indexerName: string;
+
+  @Column({ name: 'lastscannedblock', default: 0 })
+  lastScannedBlock: number;
+
+  @Column({ name: 'lastscannedhash', type: 'varchar', nullable: true })
+  lastScannedHash: string | null;
+
+  // Unix timestamp of the last scanned block
+  @Column({ name: 'lastscannedtimestamp', type: 'integer', nullable: true })
+  lastScannedTimestamp: number | null;
+
+  @Column({ type: 'varchar', default: 'idle' })
+  status: IndexerStatus;
+
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  // Start of the latest scheduled run
+  @Column({ name: 'lastrunat', type: Date, nullable: true })
+  lastRunAt: Date | null;
+
+  @UpdateDateColumn({ name: 'updatedat' })
+  updatedAt: Date;
+}
@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+// 'max' for MaxMagnitudeUpdated, 'encumbered' for EncumberedMagnitudeUpdated
+export type MagnitudeType = 'max' | 'encumbered';
+
+@Entity('magnitude_updated_events')
+export class MagnitudeUpdatedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  operator: string;
+
+  @Column()
+  strategy: string;
+
+  @Column({ name: 'magnitudetype', type: 'varchar' })
+  magnitudeType: MagnitudeType;
+
+  @Column()
+  magnitude: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
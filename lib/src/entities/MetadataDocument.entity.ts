@@ -0,0 +1,52 @@
+import { Entity, PrimaryColumn, Column, UpdateDateColumn } from 'typeorm';
+
+// 'pending' until the first fetch, then the outcome of the last fetch
+export type MetadataStatus = 'pending' | 'valid' | 'invalid' | 'error';
+
+/**
+ * Operator or AVS metadata JSON, cached per metadata URI. The document fields
+ * keep the last fetched content when a later fetch fails.
+ */
+@Entity('metadata_documents')
+export class MetadataDocument {
+  @PrimaryColumn({ name: 'uri' })
+  uri: string;
+
+  @Column({ type: 'varchar', default: 'pending' })
+  status: MetadataStatus;
+
+  @Column({ type: 'varchar', nullable: true })
+  name: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  website: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  logo: string | null;
+
+  @Column({ type: 'text', nullable: true })
+  description: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  twitter: string | null;
+
+  // Validation errors or the fetch error of the last fetch
+  @Column({ type: 'text', nullable: true })
+  error: string | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  etag: string | null;
+
+  @Column({ name: 'lastmodified', type: 'varchar', nullable: true })
+  lastModified: string | null;
+
+  @Column({ name: 'lastfetchedat', type: Date, nullable: true })
+  lastFetchedAt: Date | null;
+
+  // Last time the fetched content differed from the cached one
+  @Column({ name: 'lastchangedat', type: Date, nullable: true })
+  lastChangedAt: Date | null;
+
+  @UpdateDateColumn({ name: 'updatedat' })
+  updatedAt: Date;
+}
@@ -0,0 +1,26 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('non_beacon_chain_eth_received_events')
+export class NonBeaconChainETHReceivedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'eigenpod' })
+  eigenPod: string;
+
+  // Amount in wei
+  @Column({ name: 'amountreceived' })
+  amountReceived: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
@@ -0,0 +1,28 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('operator_added_to_operator_set_events')
+export class OperatorAddedToOperatorSetEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  operator: string;
+
+  @Column()
+  avs: string;
+
+  @Column({ name: 'operatorsetid' })
+  operatorSetId: number;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('operator_metadata_uri_updated_events')
+export class OperatorMetadataURIUpdatedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  operator: string;
+
+  @Column({ name: 'metadatauri' })
+  metadataURI: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('operator_registered_events')
+export class OperatorRegisteredEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  operator: string;
+
+  @Column({ name: 'delegationapprover' })
+  delegationApprover: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
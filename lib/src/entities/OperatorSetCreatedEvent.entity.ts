@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('operator_set_created_events')
+export class OperatorSetCreatedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  avs: string;
+
+  @Column({ name: 'operatorsetid' })
+  operatorSetId: number;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('operator_slashed_events')
+export class OperatorSlashedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  operator: string;
+
+  @Column()
+  avs: string;
+
+  @Column({ name: 'operatorsetid' })
+  operatorSetId: number;
+
+  @Column('simple-array')
+  strategies: string[];
+
+  // Proportion of the allocated magnitude slashed per strategy, 1e18 = 100%
+  @Column('simple-array', { name: 'wadslashed' })
+  wadSlashed: string[];
+
+  @Column('text')
+  description: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
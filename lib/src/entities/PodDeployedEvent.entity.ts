@@ -14,6 +14,10 @@ export class PodDeployedEvent {
   @Column({ name: 'blocknumber' })
   blockNumber: number;
 
+  // Null for rows indexed before the column existed, until `fill-pod-timestamps` runs
+  @Column({ name: 'blocktimestamp', type: 'integer', nullable: true })
+  blockTimestamp: number | null;
+
   @Column({ name: 'transactionhash' })
   transactionHash: string;
 
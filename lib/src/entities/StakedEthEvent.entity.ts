@@ -11,15 +11,27 @@ export class StakedEthEvent {
   @Column({ name: 'withdrawalcredentials' })
   withdrawalCredentials: string;
 
+  // Deposited wei, decoded from the event
   @Column()
   amount: string;
 
   @Column()
   signature: string;
 
+  // Decimal position in the deposit tree
   @Column({ name: 'depositindex' })
   depositIndex: string;
 
+  // Value, sender and recipient of the enclosing transaction; one transaction may carry many deposits
+  @Column({ name: 'txvalue', type: 'varchar', nullable: true })
+  txValue: string | null;
+
+  @Column({ name: 'txfrom', type: 'varchar', nullable: true })
+  txFrom: string | null;
+
+  @Column({ name: 'txto', type: 'varchar', nullable: true })
+  txTo: string | null;
+
   @Column({ name: 'blocknumber' })
   blockNumber: number;
 
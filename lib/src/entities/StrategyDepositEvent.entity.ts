@@ -0,0 +1,34 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('strategy_deposit_events')
+export class StrategyDepositEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column()
+  staker: string;
+
+  @Column()
+  token: string;
+
+  @Column()
+  strategy: string;
+
+  @Column()
+  shares: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'blocktimestamp' })
+  blockTimestamp: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
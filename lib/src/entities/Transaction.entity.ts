@@ -0,0 +1,34 @@
+import { Entity, PrimaryColumn, Column } from 'typeorm';
+
+/**
+ * Transaction with the fields of its receipt, shared by every indexer.
+ * Addresses are lowercase; amounts are wei decimal strings.
+ */
+@Entity('transactions')
+export class Transaction {
+  @PrimaryColumn()
+  hash: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'fromaddress' })
+  from: string;
+
+  // Null for contract creations
+  @Column({ name: 'toaddress', type: 'varchar', nullable: true })
+  to: string | null;
+
+  @Column()
+  value: string;
+
+  @Column({ name: 'gasused' })
+  gasUsed: string;
+
+  @Column({ name: 'effectivegasprice' })
+  effectiveGasPrice: string;
+
+  // 1 success, 0 reverted
+  @Column({ type: 'integer', nullable: true })
+  status: number | null;
+}
@@ -0,0 +1,32 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('validator_balance_updated_events')
+export class ValidatorBalanceUpdatedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'eigenpod' })
+  eigenPod: string;
+
+  @Column({ name: 'validatorindex' })
+  validatorIndex: number;
+
+  // Beacon chain timestamp the balance was proven at
+  @Column({ name: 'balancetimestamp' })
+  balanceTimestamp: number;
+
+  @Column({ name: 'newvalidatorbalancegwei' })
+  newValidatorBalanceGwei: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('validator_restaked_events')
+export class ValidatorRestakedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'eigenpod' })
+  eigenPod: string;
+
+  @Column({ name: 'validatorindex' })
+  validatorIndex: number;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('withdrawal_completed_events')
+export class WithdrawalCompletedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'withdrawalroot' })
+  withdrawalRoot: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'blocktimestamp' })
+  blockTimestamp: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
@@ -0,0 +1,54 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn } from 'typeorm';
+
+@Entity('withdrawal_queued_events')
+export class WithdrawalQueuedEvent {
+  @PrimaryGeneratedColumn()
+  id: number;
+
+  @Column({ name: 'withdrawalroot' })
+  withdrawalRoot: string;
+
+  @Column()
+  staker: string;
+
+  // Operator the staker was delegated to when queuing
+  @Column()
+  operator: string;
+
+  @Column()
+  withdrawer: string;
+
+  @Column()
+  nonce: string;
+
+  @Column({ name: 'startblock' })
+  startBlock: number;
+
+  @Column('simple-array')
+  strategies: string[];
+
+  @Column('simple-array', { name: 'scaledshares' })
+  scaledShares: string[];
+
+  @Column('simple-array', { name: 'sharestowithdraw' })
+  sharesToWithdraw: string[];
+
+  // Sum of sharesToWithdraw, used for share range filters
+  @Column({ name: 'totalshares' })
+  totalShares: string;
+
+  @Column({ name: 'blocknumber' })
+  blockNumber: number;
+
+  @Column({ name: 'blocktimestamp' })
+  blockTimestamp: number;
+
+  @Column({ name: 'transactionhash' })
+  transactionHash: string;
+
+  @Column({ name: 'logindex' })
+  logIndex: number;
+
+  @CreateDateColumn({ name: 'createdat' })
+  createdAt: Date;
+}
@@ -1,2 +1,32 @@
 export { PodDeployedEvent } from './PodDeployedEvent.entity';
 export { StakedEthEvent } from './StakedEthEvent.entity';
+export { IndexerCheckpoint } from './IndexerCheckpoint.entity';
+export { IndexerState, IndexerStatus } from './IndexerState.entity';
+export { OperatorRegisteredEvent } from './OperatorRegisteredEvent.entity';
+export { OperatorMetadataURIUpdatedEvent } from './OperatorMetadataURIUpdatedEvent.entity';
+export { StakerDelegatedEvent } from './StakerDelegatedEvent.entity';
+export { StakerUndelegatedEvent } from './StakerUndelegatedEvent.entity';
+export { OperatorSharesIncreasedEvent } from './OperatorSharesIncreasedEvent.entity';
+export { OperatorSharesDecreasedEvent } from './OperatorSharesDecreasedEvent.entity';
+export { StrategyDepositEvent } from './StrategyDepositEvent.entity';
+export { WithdrawalQueuedEvent } from './WithdrawalQueuedEvent.entity';
+export { WithdrawalCompletedEvent } from './WithdrawalCompletedEvent.entity';
+export { OperatorSetCreatedEvent } from './OperatorSetCreatedEvent.entity';
+export { OperatorAddedToOperatorSetEvent } from './OperatorAddedToOperatorSetEvent.entity';
+export { OperatorRemovedFromOperatorSetEvent } from './OperatorRemovedFromOperatorSetEvent.entity';
+export { StrategyAddedToOperatorSetEvent } from './StrategyAddedToOperatorSetEvent.entity';
+export { AllocationUpdatedEvent } from './AllocationUpdatedEvent.entity';
+export { MagnitudeUpdatedEvent, MagnitudeType } from './MagnitudeUpdatedEvent.entity';
+export { OperatorSlashedEvent } from './OperatorSlashedEvent.entity';
+export { ValidatorRestakedEvent } from './ValidatorRestakedEvent.entity';
+export { ValidatorBalanceUpdatedEvent } from './ValidatorBalanceUpdatedEvent.entity';
+export { ValidatorWithdrawnEvent } from './ValidatorWithdrawnEvent.entity';
+export { CheckpointCreatedEvent } from './CheckpointCreatedEvent.entity';
+export { CheckpointFinalizedEvent } from './CheckpointFinalizedEvent.entity';
+export { NonBeaconChainETHReceivedEvent } from './NonBeaconChainETHReceivedEvent.entity';
+export { AddressLabel, AddressLabelCategory, ADDRESS_LABEL_CATEGORIES } from './AddressLabel.entity';
+export { MetadataDocument, MetadataStatus } from './MetadataDocument.entity';
+export { Block } from './Block.entity';
+export { Transaction } from './Transaction.entity';
+export { BackfillJob, BackfillJobStatus } from './BackfillJob.entity';
+export { BackfillChunk, BackfillChunkStatus, BACKFILL_CHUNK_STATUSES } from './BackfillChunk.entity';
@@ -12,3 +12,11 @@ export * from './entities';
 export * from './utils/formatters';
 export * from './utils/contract-utils';
 export * from './utils/retry-utils';
+export * from './utils/log-range-planner';
+export * from './utils/rpc-provider-pool';
+export * from './utils/withdrawal-credentials';
+export * from './utils/deposit-data';
+export * from './utils/address-labels';
+export * from './utils/eigenlayer-metadata';
+export * from './utils/notifications';
+export * from './utils/indexer-sources';
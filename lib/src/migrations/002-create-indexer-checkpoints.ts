@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateIndexerCheckpoints1700000000002 implements MigrationInterface {
+  name = 'CreateIndexerCheckpoints1700000000002';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Block hash checkpoints used to detect chain reorganizations
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "indexer_checkpoints" (
+        "id" SERIAL PRIMARY KEY,
+        "indexername" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "blockhash" VARCHAR NOT NULL,
+        "parenthash" VARCHAR NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("indexername", "blocknumber")
+      )
+    `);
+
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_indexer_checkpoints_indexer_block" ON "indexer_checkpoints" ("indexername", "blocknumber")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "indexer_checkpoints"`);
+  }
+}
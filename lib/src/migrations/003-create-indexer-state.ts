@@ -0,0 +1,35 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateIndexerState1700000000003 implements MigrationInterface {
+  name = 'CreateIndexerState1700000000003';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Persistent per-indexer cursor
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "indexer_state" (
+        "indexername" VARCHAR PRIMARY KEY,
+        "lastscannedblock" INTEGER NOT NULL DEFAULT 0,
+        "lastscannedhash" VARCHAR,
+        "status" VARCHAR NOT NULL DEFAULT 'idle',
+        "error" TEXT,
+        "updatedat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    // Seed cursors from already indexed events so existing databases resume where they left off
+    await queryRunner.query(`
+      INSERT INTO "indexer_state" ("indexername", "lastscannedblock")
+      SELECT 'eigenpod', MAX("blocknumber") FROM "pod_deployed_events" HAVING MAX("blocknumber") IS NOT NULL
+      ON CONFLICT ("indexername") DO NOTHING
+    `);
+    await queryRunner.query(`
+      INSERT INTO "indexer_state" ("indexername", "lastscannedblock")
+      SELECT 'staked-eth', MAX("blocknumber") FROM "staked_eth_events" HAVING MAX("blocknumber") IS NOT NULL
+      ON CONFLICT ("indexername") DO NOTHING
+    `);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "indexer_state"`);
+  }
+}
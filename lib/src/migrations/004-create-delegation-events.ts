@@ -0,0 +1,122 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateDelegationEvents1700000000004 implements MigrationInterface {
+  name = 'CreateDelegationEvents1700000000004';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create operator_registered_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "operator_registered_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "delegationapprover" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create operator_metadata_uri_updated_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "operator_metadata_uri_updated_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "metadatauri" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create staker_delegated_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "staker_delegated_events" (
+        "id" SERIAL PRIMARY KEY,
+        "staker" VARCHAR NOT NULL,
+        "operator" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create staker_undelegated_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "staker_undelegated_events" (
+        "id" SERIAL PRIMARY KEY,
+        "staker" VARCHAR NOT NULL,
+        "operator" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create operator_shares_increased_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "operator_shares_increased_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "staker" VARCHAR NOT NULL,
+        "strategy" VARCHAR NOT NULL,
+        "shares" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create operator_shares_decreased_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "operator_shares_decreased_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "staker" VARCHAR NOT NULL,
+        "strategy" VARCHAR NOT NULL,
+        "shares" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create indexes
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_registered_events_block_number" ON "operator_registered_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_registered_events_operator" ON "operator_registered_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_metadata_uri_updated_events_block_number" ON "operator_metadata_uri_updated_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_metadata_uri_updated_events_operator" ON "operator_metadata_uri_updated_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staker_delegated_events_block_number" ON "staker_delegated_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staker_delegated_events_staker" ON "staker_delegated_events" ("staker")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staker_delegated_events_operator" ON "staker_delegated_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staker_undelegated_events_block_number" ON "staker_undelegated_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staker_undelegated_events_staker" ON "staker_undelegated_events" ("staker")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staker_undelegated_events_operator" ON "staker_undelegated_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_shares_increased_events_block_number" ON "operator_shares_increased_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_shares_increased_events_operator" ON "operator_shares_increased_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_shares_increased_events_staker" ON "operator_shares_increased_events" ("staker")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_shares_decreased_events_block_number" ON "operator_shares_decreased_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_shares_decreased_events_operator" ON "operator_shares_decreased_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_shares_decreased_events_staker" ON "operator_shares_decreased_events" ("staker")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "operator_shares_decreased_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "operator_shares_increased_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "staker_undelegated_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "staker_delegated_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "operator_metadata_uri_updated_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "operator_registered_events"`);
+  }
+}
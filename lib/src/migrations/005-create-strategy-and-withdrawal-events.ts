@@ -0,0 +1,80 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateStrategyAndWithdrawalEvents1700000000005 implements MigrationInterface {
+  name = 'CreateStrategyAndWithdrawalEvents1700000000005';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create strategy_deposit_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "strategy_deposit_events" (
+        "id" SERIAL PRIMARY KEY,
+        "staker" VARCHAR NOT NULL,
+        "token" VARCHAR NOT NULL,
+        "strategy" VARCHAR NOT NULL,
+        "shares" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "blocktimestamp" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create withdrawal_queued_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "withdrawal_queued_events" (
+        "id" SERIAL PRIMARY KEY,
+        "withdrawalroot" VARCHAR NOT NULL,
+        "staker" VARCHAR NOT NULL,
+        "operator" VARCHAR NOT NULL,
+        "withdrawer" VARCHAR NOT NULL,
+        "nonce" VARCHAR NOT NULL,
+        "startblock" INTEGER NOT NULL,
+        "strategies" TEXT NOT NULL,
+        "scaledshares" TEXT NOT NULL,
+        "sharestowithdraw" TEXT NOT NULL,
+        "totalshares" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "blocktimestamp" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create withdrawal_completed_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "withdrawal_completed_events" (
+        "id" SERIAL PRIMARY KEY,
+        "withdrawalroot" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "blocktimestamp" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create indexes
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_strategy_deposit_events_block_number" ON "strategy_deposit_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_strategy_deposit_events_block_timestamp" ON "strategy_deposit_events" ("blocktimestamp")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_strategy_deposit_events_staker" ON "strategy_deposit_events" ("staker")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_strategy_deposit_events_token" ON "strategy_deposit_events" ("token")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_withdrawal_queued_events_block_number" ON "withdrawal_queued_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_withdrawal_queued_events_block_timestamp" ON "withdrawal_queued_events" ("blocktimestamp")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_withdrawal_queued_events_root" ON "withdrawal_queued_events" ("withdrawalroot")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_withdrawal_queued_events_staker" ON "withdrawal_queued_events" ("staker")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_withdrawal_queued_events_operator" ON "withdrawal_queued_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_withdrawal_queued_events_withdrawer" ON "withdrawal_queued_events" ("withdrawer")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_withdrawal_completed_events_root" ON "withdrawal_completed_events" ("withdrawalroot")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "withdrawal_completed_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "withdrawal_queued_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "strategy_deposit_events"`);
+  }
+}
@@ -0,0 +1,150 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAllocationEvents1700000000006 implements MigrationInterface {
+  name = 'CreateAllocationEvents1700000000006';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create operator_set_created_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "operator_set_created_events" (
+        "id" SERIAL PRIMARY KEY,
+        "avs" VARCHAR NOT NULL,
+        "operatorsetid" INTEGER NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create operator_added_to_operator_set_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "operator_added_to_operator_set_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "avs" VARCHAR NOT NULL,
+        "operatorsetid" INTEGER NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create operator_removed_from_operator_set_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "operator_removed_from_operator_set_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "avs" VARCHAR NOT NULL,
+        "operatorsetid" INTEGER NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create strategy_added_to_operator_set_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "strategy_added_to_operator_set_events" (
+        "id" SERIAL PRIMARY KEY,
+        "avs" VARCHAR NOT NULL,
+        "operatorsetid" INTEGER NOT NULL,
+        "strategy" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create allocation_updated_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "allocation_updated_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "avs" VARCHAR NOT NULL,
+        "operatorsetid" INTEGER NOT NULL,
+        "strategy" VARCHAR NOT NULL,
+        "magnitude" VARCHAR NOT NULL,
+        "effectblock" INTEGER NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create magnitude_updated_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "magnitude_updated_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "strategy" VARCHAR NOT NULL,
+        "magnitudetype" VARCHAR NOT NULL,
+        "magnitude" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create operator_slashed_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "operator_slashed_events" (
+        "id" SERIAL PRIMARY KEY,
+        "operator" VARCHAR NOT NULL,
+        "avs" VARCHAR NOT NULL,
+        "operatorsetid" INTEGER NOT NULL,
+        "strategies" TEXT NOT NULL,
+        "wadslashed" TEXT NOT NULL,
+        "description" TEXT NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create indexes
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_set_created_events_block_number" ON "operator_set_created_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_set_created_events_avs_operator_set" ON "operator_set_created_events" ("avs", "operatorsetid")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_added_to_operator_set_events_block_number" ON "operator_added_to_operator_set_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_added_to_operator_set_events_operator" ON "operator_added_to_operator_set_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_added_to_operator_set_events_avs_operator_set" ON "operator_added_to_operator_set_events" ("avs", "operatorsetid")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_removed_from_operator_set_events_block_number" ON "operator_removed_from_operator_set_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_removed_from_operator_set_events_operator" ON "operator_removed_from_operator_set_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_removed_from_operator_set_events_avs_operator_set" ON "operator_removed_from_operator_set_events" ("avs", "operatorsetid")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_strategy_added_to_operator_set_events_block_number" ON "strategy_added_to_operator_set_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_strategy_added_to_operator_set_events_avs_operator_set" ON "strategy_added_to_operator_set_events" ("avs", "operatorsetid")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_strategy_added_to_operator_set_events_strategy" ON "strategy_added_to_operator_set_events" ("strategy")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_allocation_updated_events_block_number" ON "allocation_updated_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_allocation_updated_events_operator" ON "allocation_updated_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_allocation_updated_events_avs_operator_set" ON "allocation_updated_events" ("avs", "operatorsetid")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_allocation_updated_events_strategy" ON "allocation_updated_events" ("strategy")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_magnitude_updated_events_block_number" ON "magnitude_updated_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_magnitude_updated_events_operator_strategy" ON "magnitude_updated_events" ("operator", "strategy")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_slashed_events_block_number" ON "operator_slashed_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_slashed_events_operator" ON "operator_slashed_events" ("operator")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_operator_slashed_events_avs_operator_set" ON "operator_slashed_events" ("avs", "operatorsetid")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "operator_slashed_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "magnitude_updated_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "allocation_updated_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "strategy_added_to_operator_set_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "operator_removed_from_operator_set_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "operator_added_to_operator_set_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "operator_set_created_events"`);
+  }
+}
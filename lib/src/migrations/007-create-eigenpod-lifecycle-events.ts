@@ -0,0 +1,123 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateEigenPodLifecycleEvents1700000000007 implements MigrationInterface {
+  name = 'CreateEigenPodLifecycleEvents1700000000007';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Create validator_restaked_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "validator_restaked_events" (
+        "id" SERIAL PRIMARY KEY,
+        "eigenpod" VARCHAR NOT NULL,
+        "validatorindex" INTEGER NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create validator_balance_updated_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "validator_balance_updated_events" (
+        "id" SERIAL PRIMARY KEY,
+        "eigenpod" VARCHAR NOT NULL,
+        "validatorindex" INTEGER NOT NULL,
+        "balancetimestamp" INTEGER NOT NULL,
+        "newvalidatorbalancegwei" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create validator_withdrawn_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "validator_withdrawn_events" (
+        "id" SERIAL PRIMARY KEY,
+        "eigenpod" VARCHAR NOT NULL,
+        "checkpointtimestamp" INTEGER NOT NULL,
+        "validatorindex" INTEGER NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create checkpoint_created_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "checkpoint_created_events" (
+        "id" SERIAL PRIMARY KEY,
+        "eigenpod" VARCHAR NOT NULL,
+        "checkpointtimestamp" INTEGER NOT NULL,
+        "beaconblockroot" VARCHAR NOT NULL,
+        "validatorcount" INTEGER NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create checkpoint_finalized_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "checkpoint_finalized_events" (
+        "id" SERIAL PRIMARY KEY,
+        "eigenpod" VARCHAR NOT NULL,
+        "checkpointtimestamp" INTEGER NOT NULL,
+        "totalsharedeltawei" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create non_beacon_chain_eth_received_events table
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "non_beacon_chain_eth_received_events" (
+        "id" SERIAL PRIMARY KEY,
+        "eigenpod" VARCHAR NOT NULL,
+        "amountreceived" VARCHAR NOT NULL,
+        "blocknumber" INTEGER NOT NULL,
+        "transactionhash" VARCHAR NOT NULL,
+        "logindex" INTEGER NOT NULL,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE("transactionhash", "logindex")
+      )
+    `);
+
+    // Create indexes
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_restaked_events_block_number" ON "validator_restaked_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_restaked_events_eigen_pod" ON "validator_restaked_events" ("eigenpod")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_restaked_events_validator_index" ON "validator_restaked_events" ("validatorindex")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_balance_updated_events_block_number" ON "validator_balance_updated_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_balance_updated_events_eigen_pod" ON "validator_balance_updated_events" ("eigenpod")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_balance_updated_events_validator_index" ON "validator_balance_updated_events" ("validatorindex")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_withdrawn_events_block_number" ON "validator_withdrawn_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_withdrawn_events_eigen_pod" ON "validator_withdrawn_events" ("eigenpod")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validator_withdrawn_events_validator_index" ON "validator_withdrawn_events" ("validatorindex")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_checkpoint_created_events_block_number" ON "checkpoint_created_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_checkpoint_created_events_eigen_pod_checkpoint_timestamp" ON "checkpoint_created_events" ("eigenpod", "checkpointtimestamp")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_checkpoint_finalized_events_block_number" ON "checkpoint_finalized_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_checkpoint_finalized_events_eigen_pod_checkpoint_timestamp" ON "checkpoint_finalized_events" ("eigenpod", "checkpointtimestamp")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_non_beacon_chain_eth_received_events_block_number" ON "non_beacon_chain_eth_received_events" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_non_beacon_chain_eth_received_events_eigen_pod" ON "non_beacon_chain_eth_received_events" ("eigenpod")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE IF EXISTS "non_beacon_chain_eth_received_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "checkpoint_finalized_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "checkpoint_created_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "validator_withdrawn_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "validator_balance_updated_events"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "validator_restaked_events"`);
+  }
+}
@@ -0,0 +1,83 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateStakedEthAnalyticsViews1700000000008 implements MigrationInterface {
+  name = 'CreateStakedEthAnalyticsViews1700000000008';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Materialized views are Postgres only, SQLite aggregates the events table directly
+    if (queryRunner.connection.options.type !== 'postgres') {
+      return;
+    }
+
+    // Deposits aggregated per block
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW IF NOT EXISTS "staked_eth_by_block_mv" AS
+      SELECT
+        "blocknumber",
+        MAX("blocktimestamp") AS "blocktimestamp",
+        SUM(CAST("amount" AS NUMERIC)) AS "totaldeposited",
+        COUNT(*) AS "eventcount",
+        COUNT(DISTINCT "pubkey") AS "uniquevalidators"
+      FROM "staked_eth_events"
+      GROUP BY "blocknumber"
+    `);
+
+    // Deposits aggregated per UTC day
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW IF NOT EXISTS "staked_eth_by_day_mv" AS
+      SELECT
+        CAST(DATE_TRUNC('day', TO_TIMESTAMP("blocktimestamp") AT TIME ZONE 'UTC') AS DATE) AS "day",
+        SUM(CAST("amount" AS NUMERIC)) AS "totaldeposited",
+        COUNT(*) AS "eventcount",
+        COUNT(DISTINCT "pubkey") AS "uniquevalidators",
+        MIN("blocknumber") AS "firstblock",
+        MAX("blocknumber") AS "lastblock"
+      FROM "staked_eth_events"
+      GROUP BY 1
+    `);
+
+    // Deposits aggregated per withdrawal credential
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW IF NOT EXISTS "staked_eth_by_withdrawal_credentials_mv" AS
+      SELECT
+        LOWER("withdrawalcredentials") AS "withdrawalcredentials",
+        SUM(CAST("amount" AS NUMERIC)) AS "totaldeposited",
+        COUNT(*) AS "eventcount",
+        COUNT(DISTINCT "pubkey") AS "uniquevalidators",
+        MIN("blocknumber") AS "firstblock",
+        MAX("blocknumber") AS "lastblock"
+      FROM "staked_eth_events"
+      GROUP BY 1
+    `);
+
+    // Single row of overall totals
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW IF NOT EXISTS "staked_eth_stats_mv" AS
+      SELECT
+        1 AS "id",
+        COUNT(*) AS "totalevents",
+        COALESCE(SUM(CAST("amount" AS NUMERIC)), 0) AS "totalstaked",
+        COUNT(DISTINCT "pubkey") AS "uniquevalidators",
+        COALESCE(MAX("blocknumber"), 0) AS "lastblock"
+      FROM "staked_eth_events"
+    `);
+
+    // REFRESH ... CONCURRENTLY requires a unique index on every view
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_staked_eth_by_block_mv_block_number" ON "staked_eth_by_block_mv" ("blocknumber")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staked_eth_by_block_mv_block_timestamp" ON "staked_eth_by_block_mv" ("blocktimestamp")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_staked_eth_by_day_mv_day" ON "staked_eth_by_day_mv" ("day")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_staked_eth_by_withdrawal_credentials_mv_credentials" ON "staked_eth_by_withdrawal_credentials_mv" ("withdrawalcredentials")`);
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_staked_eth_stats_mv_id" ON "staked_eth_stats_mv" ("id")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (queryRunner.connection.options.type !== 'postgres') {
+      return;
+    }
+
+    await queryRunner.query(`DROP MATERIALIZED VIEW IF EXISTS "staked_eth_stats_mv"`);
+    await queryRunner.query(`DROP MATERIALIZED VIEW IF EXISTS "staked_eth_by_withdrawal_credentials_mv"`);
+    await queryRunner.query(`DROP MATERIALIZED VIEW IF EXISTS "staked_eth_by_day_mv"`);
+    await queryRunner.query(`DROP MATERIALIZED VIEW IF EXISTS "staked_eth_by_block_mv"`);
+  }
+}
@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEventCursorIndexes1700000000009 implements MigrationInterface {
+  name = 'AddEventCursorIndexes1700000000009';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Connections page on (blocknumber, logindex), newest first
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_pod_deployed_events_block_number_log_index" ON "pod_deployed_events" ("blocknumber", "logindex")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staked_eth_events_block_number_log_index" ON "staked_eth_events" ("blocknumber", "logindex")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_staked_eth_events_block_number_log_index"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_pod_deployed_events_block_number_log_index"`);
+  }
+}
@@ -0,0 +1,22 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class NormalizeEigenPodAddresses1700000000010 implements MigrationInterface {
+  name = 'NormalizeEigenPodAddresses1700000000010';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // PodDeployed addresses were stored checksummed; every other table already stores them lowercase
+    await queryRunner.query(`UPDATE "pod_deployed_events" SET "eigenpod" = LOWER("eigenpod"), "podowner" = LOWER("podowner")`);
+
+    // Create indexes
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_pod_deployed_events_eigen_pod" ON "pod_deployed_events" ("eigenpod")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_pod_deployed_events_podowner" ON "pod_deployed_events" ("podowner")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_staked_eth_events_withdrawal_credentials" ON "staked_eth_events" ("withdrawalcredentials")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // The checksummed casing is not kept, only the indexes are dropped
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_staked_eth_events_withdrawal_credentials"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_pod_deployed_events_podowner"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_pod_deployed_events_eigen_pod"`);
+  }
+}
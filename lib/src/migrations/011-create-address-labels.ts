@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateAddressLabels1700000000011 implements MigrationInterface {
+  name = 'CreateAddressLabels1700000000011';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Names for known addresses, filled by the `labels import` indexer command
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "address_labels" (
+        "address" VARCHAR PRIMARY KEY,
+        "name" VARCHAR NOT NULL,
+        "category" VARCHAR NOT NULL DEFAULT 'other',
+        "tags" TEXT NOT NULL DEFAULT '',
+        "source" VARCHAR,
+        "updatedat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_address_labels_category" ON "address_labels" ("category")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_address_labels_category"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "address_labels"`);
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateMetadataDocuments1700000000012 implements MigrationInterface {
+  name = 'CreateMetadataDocuments1700000000012';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Operator and AVS metadata JSON, fetched and refreshed by the backend
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "metadata_documents" (
+        "uri" VARCHAR PRIMARY KEY,
+        "status" VARCHAR NOT NULL DEFAULT 'pending',
+        "name" VARCHAR,
+        "website" VARCHAR,
+        "logo" VARCHAR,
+        "description" TEXT,
+        "twitter" VARCHAR,
+        "error" TEXT,
+        "etag" VARCHAR,
+        "lastmodified" VARCHAR,
+        "lastfetchedat" TIMESTAMP,
+        "lastchangedat" TIMESTAMP,
+        "updatedat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_metadata_documents_lastfetchedat" ON "metadata_documents" ("lastfetchedat")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_metadata_documents_lastfetchedat"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "metadata_documents"`);
+  }
+}
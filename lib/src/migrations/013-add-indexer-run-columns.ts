@@ -0,0 +1,16 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddIndexerRunColumns1700000000013 implements MigrationInterface {
+  name = 'AddIndexerRunColumns1700000000013';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Timestamp of the cursor block and start of the latest run, for lag reporting
+    await queryRunner.query(`ALTER TABLE "indexer_state" ADD COLUMN "lastscannedtimestamp" INTEGER`);
+    await queryRunner.query(`ALTER TABLE "indexer_state" ADD COLUMN "lastrunat" TIMESTAMP`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "indexer_state" DROP COLUMN "lastrunat"`);
+    await queryRunner.query(`ALTER TABLE "indexer_state" DROP COLUMN "lastscannedtimestamp"`);
+  }
+}
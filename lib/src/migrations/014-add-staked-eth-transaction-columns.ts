@@ -0,0 +1,21 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddStakedEthTransactionColumns1700000000014 implements MigrationInterface {
+  name = 'AddStakedEthTransactionColumns1700000000014';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Attribution to the enclosing transaction, kept apart from the per-deposit amount
+    await queryRunner.query(`ALTER TABLE "staked_eth_events" ADD COLUMN "txvalue" VARCHAR`);
+    await queryRunner.query(`ALTER TABLE "staked_eth_events" ADD COLUMN "txfrom" VARCHAR`);
+    await queryRunner.query(`ALTER TABLE "staked_eth_events" ADD COLUMN "txto" VARCHAR`);
+
+    // Rows indexed so far stored the transaction value as their amount; `yarn dev repair-deposits` re-derives it
+    await queryRunner.query(`UPDATE "staked_eth_events" SET "txvalue" = "amount"`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "staked_eth_events" DROP COLUMN "txto"`);
+    await queryRunner.query(`ALTER TABLE "staked_eth_events" DROP COLUMN "txfrom"`);
+    await queryRunner.query(`ALTER TABLE "staked_eth_events" DROP COLUMN "txvalue"`);
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateChainCacheTables1700000000015 implements MigrationInterface {
+  name = 'CreateChainCacheTables1700000000015';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Blocks and transactions fetched by the indexers, shared by every source
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "blocks" (
+        "number" INTEGER PRIMARY KEY,
+        "hash" VARCHAR NOT NULL,
+        "parenthash" VARCHAR NOT NULL,
+        "timestamp" INTEGER NOT NULL
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "transactions" (
+        "hash" VARCHAR PRIMARY KEY,
+        "blocknumber" INTEGER NOT NULL,
+        "fromaddress" VARCHAR NOT NULL,
+        "toaddress" VARCHAR,
+        "value" VARCHAR NOT NULL,
+        "gasused" VARCHAR NOT NULL,
+        "effectivegasprice" VARCHAR NOT NULL,
+        "status" INTEGER
+      )
+    `);
+
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_blocks_timestamp" ON "blocks" ("timestamp")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_transactions_blocknumber" ON "transactions" ("blocknumber")`);
+
+    // Filled for existing rows by `yarn dev fill-pod-timestamps`
+    await queryRunner.query(`ALTER TABLE "pod_deployed_events" ADD COLUMN "blocktimestamp" INTEGER`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_pod_deployed_events_blocktimestamp" ON "pod_deployed_events" ("blocktimestamp")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_pod_deployed_events_blocktimestamp"`);
+    await queryRunner.query(`ALTER TABLE "pod_deployed_events" DROP COLUMN "blocktimestamp"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_transactions_blocknumber"`);
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_blocks_timestamp"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "transactions"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "blocks"`);
+  }
+}
@@ -0,0 +1,46 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateBackfillTables1700000000016 implements MigrationInterface {
+  name = 'CreateBackfillTables1700000000016';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Resumable backfills started with `yarn dev backfill start`
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "backfill_jobs" (
+        "id" SERIAL PRIMARY KEY,
+        "sources" TEXT NOT NULL,
+        "startblock" INTEGER NOT NULL,
+        "endblock" INTEGER NOT NULL,
+        "chunksize" INTEGER NOT NULL,
+        "status" VARCHAR NOT NULL DEFAULT 'pending',
+        "error" TEXT,
+        "createdat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        "updatedat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        "completedat" TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`
+      CREATE TABLE IF NOT EXISTS "backfill_chunks" (
+        "id" SERIAL PRIMARY KEY,
+        "jobid" INTEGER NOT NULL REFERENCES "backfill_jobs" ("id") ON DELETE CASCADE,
+        "indexername" VARCHAR NOT NULL,
+        "startblock" INTEGER NOT NULL,
+        "endblock" INTEGER NOT NULL,
+        "status" VARCHAR NOT NULL DEFAULT 'pending',
+        "attempts" INTEGER NOT NULL DEFAULT 0,
+        "eventcount" INTEGER NOT NULL DEFAULT 0,
+        "error" TEXT,
+        "updatedat" TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      )
+    `);
+
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_backfill_chunks_job_status" ON "backfill_chunks" ("jobid", "status")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX IF EXISTS "IDX_backfill_chunks_job_status"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "backfill_chunks"`);
+    await queryRunner.query(`DROP TABLE IF EXISTS "backfill_jobs"`);
+  }
+}
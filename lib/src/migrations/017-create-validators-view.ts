@@ -0,0 +1,42 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class CreateValidatorsView1700000000017 implements MigrationInterface {
+  name = 'CreateValidatorsView1700000000017';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Materialized views are Postgres only, SQLite aggregates the events table directly
+    if (queryRunner.connection.options.type !== 'postgres') {
+      return;
+    }
+
+    // Deposits aggregated per validator, with the credentials of its first deposit as on the beacon chain
+    await queryRunner.query(`
+      CREATE MATERIALIZED VIEW IF NOT EXISTS "validators_mv" AS
+      SELECT
+        "pubkey",
+        (ARRAY_AGG("withdrawalcredentials" ORDER BY "blocknumber", "logindex"))[1] AS "withdrawalcredentials",
+        SUM(CAST("amount" AS NUMERIC)) AS "totaldeposited",
+        COUNT(*) AS "depositcount",
+        MIN("blocknumber") AS "firstdepositblock",
+        MIN("blocktimestamp") AS "firstdepositat",
+        MAX("blocknumber") AS "lastdepositblock",
+        MAX("blocktimestamp") AS "lastdepositat"
+      FROM "staked_eth_events"
+      GROUP BY "pubkey"
+    `);
+
+    // REFRESH ... CONCURRENTLY requires a unique index on every view
+    await queryRunner.query(`CREATE UNIQUE INDEX IF NOT EXISTS "IDX_validators_mv_pubkey" ON "validators_mv" ("pubkey")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validators_mv_withdrawal_credentials" ON "validators_mv" ("withdrawalcredentials")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validators_mv_last_deposit_block" ON "validators_mv" ("lastdepositblock")`);
+    await queryRunner.query(`CREATE INDEX IF NOT EXISTS "IDX_validators_mv_total_deposited" ON "validators_mv" ("totaldeposited")`);
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    if (queryRunner.connection.options.type !== 'postgres') {
+      return;
+    }
+
+    await queryRunner.query(`DROP MATERIALIZED VIEW IF EXISTS "validators_mv"`);
+  }
+}
@@ -48,7 +48,7 @@ export class TypeOrmDatabaseService {
 
   async getPodDeployedEventsByOwner(owner: string): Promise<PodDeployedEvent[]> {
     return await this.podDeployedRepository.find({
-      where: { podOwner: owner },
+      where: { podOwner: owner.toLowerCase() },
       order: { blockNumber: 'DESC', logIndex: 'DESC' },
     });
   }
@@ -1,7 +1,53 @@
 import { DataSource } from 'typeorm';
 import { PodDeployedEvent } from './entities/PodDeployedEvent.entity';
 import { StakedEthEvent } from './entities/StakedEthEvent.entity';
+import { IndexerCheckpoint } from './entities/IndexerCheckpoint.entity';
+import { IndexerState } from './entities/IndexerState.entity';
+import { OperatorRegisteredEvent } from './entities/OperatorRegisteredEvent.entity';
+import { OperatorMetadataURIUpdatedEvent } from './entities/OperatorMetadataURIUpdatedEvent.entity';
+import { StakerDelegatedEvent } from './entities/StakerDelegatedEvent.entity';
+import { StakerUndelegatedEvent } from './entities/StakerUndelegatedEvent.entity';
+import { OperatorSharesIncreasedEvent } from './entities/OperatorSharesIncreasedEvent.entity';
+import { OperatorSharesDecreasedEvent } from './entities/OperatorSharesDecreasedEvent.entity';
+import { StrategyDepositEvent } from './entities/StrategyDepositEvent.entity';
+import { WithdrawalQueuedEvent } from './entities/WithdrawalQueuedEvent.entity';
+import { WithdrawalCompletedEvent } from './entities/WithdrawalCompletedEvent.entity';
+import { OperatorSetCreatedEvent } from './entities/OperatorSetCreatedEvent.entity';
+import { OperatorAddedToOperatorSetEvent } from './entities/OperatorAddedToOperatorSetEvent.entity';
+import { OperatorRemovedFromOperatorSetEvent } from './entities/OperatorRemovedFromOperatorSetEvent.entity';
+import { StrategyAddedToOperatorSetEvent } from './entities/StrategyAddedToOperatorSetEvent.entity';
+import { AllocationUpdatedEvent } from './entities/AllocationUpdatedEvent.entity';
+import { MagnitudeUpdatedEvent } from './entities/MagnitudeUpdatedEvent.entity';
+import { OperatorSlashedEvent } from './entities/OperatorSlashedEvent.entity';
+import { ValidatorRestakedEvent } from './entities/ValidatorRestakedEvent.entity';
+import { ValidatorBalanceUpdatedEvent } from './entities/ValidatorBalanceUpdatedEvent.entity';
+import { ValidatorWithdrawnEvent } from './entities/ValidatorWithdrawnEvent.entity';
+import { CheckpointCreatedEvent } from './entities/CheckpointCreatedEvent.entity';
+import { CheckpointFinalizedEvent } from './entities/CheckpointFinalizedEvent.entity';
+import { NonBeaconChainETHReceivedEvent } from './entities/NonBeaconChainETHReceivedEvent.entity';
+import { AddressLabel } from './entities/AddressLabel.entity';
+import { MetadataDocument } from './entities/MetadataDocument.entity';
+import { Block } from './entities/Block.entity';
+import { Transaction } from './entities/Transaction.entity';
+import { BackfillJob } from './entities/BackfillJob.entity';
+import { BackfillChunk } from './entities/BackfillChunk.entity';
 import { CreateTables1700000000001 } from './migrations/001-create-tables';
+import { CreateIndexerCheckpoints1700000000002 } from './migrations/002-create-indexer-checkpoints';
+import { CreateIndexerState1700000000003 } from './migrations/003-create-indexer-state';
+import { CreateDelegationEvents1700000000004 } from './migrations/004-create-delegation-events';
+import { CreateStrategyAndWithdrawalEvents1700000000005 } from './migrations/005-create-strategy-and-withdrawal-events';
+import { CreateAllocationEvents1700000000006 } from './migrations/006-create-allocation-events';
+import { CreateEigenPodLifecycleEvents1700000000007 } from './migrations/007-create-eigenpod-lifecycle-events';
+import { CreateStakedEthAnalyticsViews1700000000008 } from './migrations/008-create-staked-eth-analytics-views';
+import { AddEventCursorIndexes1700000000009 } from './migrations/009-add-event-cursor-indexes';
+import { NormalizeEigenPodAddresses1700000000010 } from './migrations/010-normalize-eigenpod-addresses';
+import { CreateAddressLabels1700000000011 } from './migrations/011-create-address-labels';
+import { CreateMetadataDocuments1700000000012 } from './migrations/012-create-metadata-documents';
+import { AddIndexerRunColumns1700000000013 } from './migrations/013-add-indexer-run-columns';
+import { AddStakedEthTransactionColumns1700000000014 } from './migrations/014-add-staked-eth-transaction-columns';
+import { CreateChainCacheTables1700000000015 } from './migrations/015-create-chain-cache-tables';
+import { CreateBackfillTables1700000000016 } from './migrations/016-create-backfill-tables';
+import { CreateValidatorsView1700000000017 } from './migrations/017-create-validators-view';
 
 export const createDataSource = () => {
   const isPostgres = process.env.DB_URL?.startsWith('postgresql://');
@@ -10,8 +56,59 @@ export const createDataSource = () => {
     return new DataSource({
       type: 'postgres',
       url: process.env.DB_URL,
-      entities: [PodDeployedEvent, StakedEthEvent],
-      migrations: [CreateTables1700000000001],
+      entities: [
+        PodDeployedEvent,
+        StakedEthEvent,
+        IndexerCheckpoint,
+        IndexerState,
+        OperatorRegisteredEvent,
+        OperatorMetadataURIUpdatedEvent,
+        StakerDelegatedEvent,
+        StakerUndelegatedEvent,
+        OperatorSharesIncreasedEvent,
+        OperatorSharesDecreasedEvent,
+        StrategyDepositEvent,
+        WithdrawalQueuedEvent,
+        WithdrawalCompletedEvent,
+        OperatorSetCreatedEvent,
+        OperatorAddedToOperatorSetEvent,
+        OperatorRemovedFromOperatorSetEvent,
+        StrategyAddedToOperatorSetEvent,
+        AllocationUpdatedEvent,
+        MagnitudeUpdatedEvent,
+        OperatorSlashedEvent,
+        ValidatorRestakedEvent,
+        ValidatorBalanceUpdatedEvent,
+        ValidatorWithdrawnEvent,
+        CheckpointCreatedEvent,
+        CheckpointFinalizedEvent,
+        NonBeaconChainETHReceivedEvent,
+        AddressLabel,
+        MetadataDocument,
+        Block,
+        Transaction,
+        BackfillJob,
+        BackfillChunk,
+      ],
+      migrations: [
+        CreateTables1700000000001,
+        CreateIndexerCheckpoints1700000000002,
+        CreateIndexerState1700000000003,
+        CreateDelegationEvents1700000000004,
+        CreateStrategyAndWithdrawalEvents1700000000005,
+        CreateAllocationEvents1700000000006,
+        CreateEigenPodLifecycleEvents1700000000007,
+        CreateStakedEthAnalyticsViews1700000000008,
+        AddEventCursorIndexes1700000000009,
+        NormalizeEigenPodAddresses1700000000010,
+        CreateAddressLabels1700000000011,
+        CreateMetadataDocuments1700000000012,
+        AddIndexerRunColumns1700000000013,
+        AddStakedEthTransactionColumns1700000000014,
+        CreateChainCacheTables1700000000015,
+        CreateBackfillTables1700000000016,
+        CreateValidatorsView1700000000017,
+      ],
       synchronize: false, // We'll use migrations
       logging: process.env.NODE_ENV === 'development',
     });
@@ -19,8 +116,59 @@ export const createDataSource = () => {
     return new DataSource({
       type: 'sqlite',
       database: process.env.DATABASE_PATH || './indexer.db',
-      entities: [PodDeployedEvent, StakedEthEvent],
-      migrations: [CreateTables1700000000001],
+      entities: [
+        PodDeployedEvent,
+        StakedEthEvent,
+        IndexerCheckpoint,
+        IndexerState,
+        OperatorRegisteredEvent,
+        OperatorMetadataURIUpdatedEvent,
+        StakerDelegatedEvent,
+        StakerUndelegatedEvent,
+        OperatorSharesIncreasedEvent,
+        OperatorSharesDecreasedEvent,
+        StrategyDepositEvent,
+        WithdrawalQueuedEvent,
+        WithdrawalCompletedEvent,
+        OperatorSetCreatedEvent,
+        OperatorAddedToOperatorSetEvent,
+        OperatorRemovedFromOperatorSetEvent,
+        StrategyAddedToOperatorSetEvent,
+        AllocationUpdatedEvent,
+        MagnitudeUpdatedEvent,
+        OperatorSlashedEvent,
+        ValidatorRestakedEvent,
+        ValidatorBalanceUpdatedEvent,
+        ValidatorWithdrawnEvent,
+        CheckpointCreatedEvent,
+        CheckpointFinalizedEvent,
+        NonBeaconChainETHReceivedEvent,
+        AddressLabel,
+        MetadataDocument,
+        Block,
+        Transaction,
+        BackfillJob,
+        BackfillChunk,
+      ],
+      migrations: [
+        CreateTables1700000000001,
+        CreateIndexerCheckpoints1700000000002,
+        CreateIndexerState1700000000003,
+        CreateDelegationEvents1700000000004,
+        CreateStrategyAndWithdrawalEvents1700000000005,
+        CreateAllocationEvents1700000000006,
+        CreateEigenPodLifecycleEvents1700000000007,
+        CreateStakedEthAnalyticsViews1700000000008,
+        AddEventCursorIndexes1700000000009,
+        NormalizeEigenPodAddresses1700000000010,
+        CreateAddressLabels1700000000011,
+        CreateMetadataDocuments1700000000012,
+        AddIndexerRunColumns1700000000013,
+        AddStakedEthTransactionColumns1700000000014,
+        CreateChainCacheTables1700000000015,
+        CreateBackfillTables1700000000016,
+        CreateValidatorsView1700000000017,
+      ],
       synchronize: false, // We'll use migrations
       logging: process.env.NODE_ENV === 'development',
     });
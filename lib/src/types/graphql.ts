@@ -5,13 +5,25 @@ export interface StakedEthAnalytics {
   blockTimestamp: number;
   totalDeposited: string;
   eventCount: number;
+  uniqueValidators: number;
+  // Set for time-bucketed analytics only
+  bucketStart?: number | null;
+  firstBlock?: number | null;
+  cumulativeDeposited?: string | null;
+  cumulativeEventCount?: number | null;
 }
 
+export type AnalyticsGranularity = 'HOUR' | 'DAY' | 'WEEK' | 'MONTH';
+
 export interface StakedEthAnalyticsInput {
   blockNumber?: number;
   startBlock?: number;
   endBlock?: number;
   summary?: boolean;
+  granularity?: AnalyticsGranularity;
+  // Unix timestamps (seconds), inclusive
+  from?: number;
+  to?: number;
 }
 
 export interface StakedEthAnalyticsResponse {
@@ -29,9 +41,49 @@ export interface StakedEthStatsResponse {
 }
 
 export interface HealthStatus {
+  // 'ok', or 'degraded' while an indexer lags behind the chain head
   status: string;
   timestamp: string;
   service: string;
+  reason?: string | null;
+}
+
+export interface IndexerSourceStatus {
+  indexerName: string;
+  status: 'idle' | 'running' | 'error';
+  lastIndexedBlock: number;
+  lastIndexedTimestamp?: number | null;
+  chainHead?: number | null;
+  lagBlocks?: number | null;
+  lagSeconds?: number | null;
+  isLagging: boolean;
+  eventsPerMinute: number;
+  lastRunAt?: string | null;
+  updatedAt: string;
+  error?: string | null;
+}
+
+export interface IndexerStatusResponse {
+  indexerStatus: IndexerSourceStatus[];
+}
+
+// Name of a known address, resolved by the backend from the label registry
+export interface Label {
+  name: string;
+  category: string;
+  tags?: string[];
+}
+
+// Operator or AVS metadata JSON, fetched and cached by the backend
+export interface OperatorMetadata {
+  uri: string;
+  status: 'pending' | 'valid' | 'invalid' | 'error';
+  name?: string | null;
+  website?: string | null;
+  logo?: string | null;
+  description?: string | null;
+  twitter?: string | null;
+  error?: string | null;
 }
 
 // EigenPod types
@@ -39,23 +91,111 @@ export interface EigenPod {
   id: number;
   eigenPod: string;
   podOwner: string;
+  label?: Label | null;
+  podOwnerLabel?: Label | null;
   blockNumber: number;
+  blockTimestamp?: number | null;
   transactionHash: string;
   logIndex: number;
   createdAt: string;
 }
 
+export interface PageInfo {
+  hasNextPage: boolean;
+  hasPreviousPage: boolean;
+  startCursor?: string;
+  endCursor?: string;
+}
+
+export interface EigenPodEdge {
+  cursor: string;
+  node: EigenPod;
+}
+
 export interface EigenPodResponse {
   pods: EigenPod[];
   total: number;
+  edges?: EigenPodEdge[];
+  pageInfo?: PageInfo;
+  totalCount?: number;
 }
 
-export interface EigenPodWhereInput {
+export type OrderDirection = 'ASC' | 'DESC';
+
+export type EigenPodOrderBy = 'BLOCK_NUMBER' | 'POD_OWNER' | 'EIGEN_POD';
+
+// Cursors come from a previous page's pageInfo; skip is only used without one
+export interface EigenPodQueryOptions {
+  after?: string;
+  before?: string;
+  orderBy?: EigenPodOrderBy;
+  orderDirection?: OrderDirection;
+}
+
+// Every set field narrows the result; *_in lists match any of their values
+export interface EigenPodFilter {
   ownerAddress?: string;
+  ownerAddress_in?: string[];
   eigenPodAddress?: string;
+  eigenPodAddress_in?: string[];
   validatorPublicKey?: string;
+  validatorPublicKey_in?: string[];
   startBlock?: number;
   endBlock?: number;
+  // Unix timestamps
+  startTime?: number;
+  endTime?: number;
+}
+
+// Deposits aggregated per validator pubkey
+export interface Validator {
+  pubkey: string;
+  withdrawalCredentials: string;
+  credentialType: string;
+  withdrawalAddress?: string | null;
+  eigenPod?: string | null;
+  label?: Label | null;
+  totalDeposited: string;
+  depositCount: number;
+  topUpCount: number;
+  firstDepositBlock: number;
+  firstDepositAt: number;
+  lastDepositBlock: number;
+  lastDepositAt: number;
+}
+
+export interface ValidatorResponse {
+  validators: Validator[];
+  total: number;
+}
+
+export type ValidatorOrderBy = 'TOTAL_DEPOSITED' | 'DEPOSIT_COUNT' | 'FIRST_DEPOSIT' | 'LAST_DEPOSIT';
+
+export interface ValidatorFilter {
+  pubkey_in?: string[];
+  withdrawalCredentials?: string;
+  withdrawalAddress?: string;
+  // 0x00, 0x01 or 0x02
+  credentialType?: string;
+  minDepositCount?: number;
+  maxDepositCount?: number;
+  // Wei
+  minTotalDeposited?: string;
+  maxTotalDeposited?: string;
+}
+
+export interface StakedEthDeposit {
+  pubkey: string;
+  withdrawalCredentials?: string | null;
+  amount: string;
+  depositIndex?: string | null;
+  txValue?: string | null;
+  txFrom?: string | null;
+  txTo?: string | null;
+  blockNumber: number;
+  blockTimestamp: number;
+  transactionHash: string;
+  logIndex: number;
 }
 
 export interface EigenPodStatus {
@@ -100,5 +240,7 @@ export interface Strategy {
 
 export interface StrategyResponse {
   strategies: Strategy[];
-  total: number;
+  // The subgraph does not count its entities
+  total: number | null;
+  hasNextPage: boolean;
 }
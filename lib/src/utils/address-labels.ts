@@ -0,0 +1,146 @@
+// Parsing of the local address label registry (JSON or CSV)
+
+import { ethers } from 'ethers';
+import { AddressLabelCategory, ADDRESS_LABEL_CATEGORIES } from '../entities/AddressLabel.entity';
+
+export interface AddressLabelInput {
+  // Lowercase
+  address: string;
+  name: string;
+  category: AddressLabelCategory;
+  tags: string[];
+}
+
+export type AddressLabelFormat = 'json' | 'csv';
+
+/**
+ * Parses a label registry. JSON may be an array of `{ address, name, category?, tags? }`
+ * or an object keyed by address whose values are a name or `{ name, category?, tags? }`.
+ * CSV needs a header with `address` and `name` columns, optionally `category` and `tags`
+ * (tags separated by `;`). Later entries for the same address win.
+ */
+export const parseAddressLabels = (content: string, format: AddressLabelFormat): AddressLabelInput[] => {
+  const entries = format === 'json' ? readJsonEntries(content) : readCsvEntries(content);
+
+  const labels = new Map<string, AddressLabelInput>();
+  entries.forEach(({ entry, position }) => {
+    const label = toAddressLabel(entry, position);
+    labels.set(label.address, label);
+  });
+  return Array.from(labels.values());
+};
+
+/**
+ * Infers the format from a file name, defaulting to JSON
+ */
+export const getAddressLabelFormat = (fileName: string): AddressLabelFormat => {
+  return fileName.toLowerCase().endsWith('.csv') ? 'csv' : 'json';
+};
+
+interface RawEntry {
+  entry: Record<string, any>;
+  // Used in error messages
+  position: string;
+}
+
+function readJsonEntries(content: string): RawEntry[] {
+  const data = JSON.parse(content);
+
+  if (Array.isArray(data)) {
+    return data.map((entry, index) => ({ entry, position: `entry ${index + 1}` }));
+  }
+  if (data && typeof data === 'object') {
+    return Object.entries(data).map(([address, value]) => ({
+      entry: typeof value === 'string' ? { address, name: value } : { ...(value as object), address },
+      position: `entry ${address}`,
+    }));
+  }
+  throw new Error('Label file must contain an array or an object keyed by address');
+}
+
+function readCsvEntries(content: string): RawEntry[] {
+  const rows = parseCsv(content).filter(row => row.some(cell => cell.trim() !== ''));
+  if (rows.length === 0) {
+    return [];
+  }
+
+  const header = rows[0].map(cell => cell.trim().toLowerCase());
+  if (!header.includes('address') || !header.includes('name')) {
+    throw new Error('CSV label file needs a header with "address" and "name" columns');
+  }
+
+  return rows.slice(1).map((row, index) => ({
+    entry: Object.fromEntries(header.map((column, columnIndex) => [column, row[columnIndex] ?? ''])),
+    position: `line ${index + 2}`,
+  }));
+}
+
+// Minimal RFC 4180 reader: quoted fields may contain commas, newlines and "" escapes
+function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && content[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+}
+
+function toAddressLabel(entry: Record<string, any>, position: string): AddressLabelInput {
+  const address = String(entry.address ?? '').trim();
+  if (!ethers.isAddress(address)) {
+    throw new Error(`Invalid address "${address}" in ${position}`);
+  }
+
+  const name = String(entry.name ?? '').trim();
+  if (!name) {
+    throw new Error(`Missing name for ${address} in ${position}`);
+  }
+
+  const category = String(entry.category || 'other').trim().toLowerCase() as AddressLabelCategory;
+  if (!ADDRESS_LABEL_CATEGORIES.includes(category)) {
+    throw new Error(`Unknown category "${entry.category}" in ${position}, expected one of ${ADDRESS_LABEL_CATEGORIES.join(', ')}`);
+  }
+
+  const tags: string[] = Array.isArray(entry.tags) ? entry.tags.map(String) : String(entry.tags ?? '').split(';');
+
+  return {
+    address: address.toLowerCase(),
+    name,
+    category,
+    // Commas are the storage separator of the tags column
+    tags: tags.map(tag => tag.trim().replace(/,/g, ' ')).filter(tag => tag !== ''),
+  };
+}
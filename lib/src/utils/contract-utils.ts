@@ -1,5 +1,5 @@
 import { ethers } from 'ethers';
-import { getCodeWithRetry, getBlockNumberWithRetry } from './retry-utils';
+import { getCodeWithRetry, getBlockNumberWithRetry, getBlockWithRetry, RetryConfig, DEFAULT_RETRY_CONFIG } from './retry-utils';
 
 export interface ContractDeploymentConfig {
   knownDeploymentBlock?: number;
@@ -72,3 +72,33 @@ export async function getContractDeploymentBlock(
   return deploymentBlock;
 }
 
+
+/**
+ * Finds the first block mined at or after a unix timestamp using binary search
+ * @param provider - Ethers provider instance
+ * @param timestamp - Unix timestamp in seconds
+ * @returns Promise<number> - The block number, or the next block to be mined if the timestamp is in the future
+ */
+export async function findBlockByTimestamp(
+  provider: ethers.Provider,
+  timestamp: number,
+  config: RetryConfig = DEFAULT_RETRY_CONFIG
+): Promise<number> {
+  const currentBlock = await getBlockNumberWithRetry(provider, config);
+  let low = 0;
+  let high = currentBlock;
+  let result = currentBlock + 1;
+
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const block = await getBlockWithRetry(provider, mid, config);
+    if (block && block.timestamp >= timestamp) {
+      result = mid;
+      high = mid - 1;
+    } else {
+      low = mid + 1;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,35 @@
+// Decoding of the deposit contract's DepositEvent, whose integers are SSZ little-endian bytes
+
+const GWEI = BigInt(1000000000);
+
+/**
+ * Reads a little-endian unsigned integer from 0x-prefixed bytes, or null when the
+ * input is not an 8 byte value
+ */
+export const readLittleEndianUint64 = (bytes: string | null | undefined): bigint | null => {
+  if (!bytes || !/^0x[0-9a-fA-F]{16}$/.test(bytes)) {
+    return null;
+  }
+
+  let value = BigInt(0);
+  for (let i = 16; i >= 2; i -= 2) {
+    value = (value << BigInt(8)) + BigInt(parseInt(bytes.slice(i, i + 2), 16));
+  }
+  return value;
+};
+
+/**
+ * Deposit amount in wei, as a decimal string, from the event's `amount` bytes (gwei)
+ */
+export const decodeDepositAmount = (amount: string | null | undefined): string | null => {
+  const gwei = readLittleEndianUint64(amount);
+  return gwei === null ? null : (gwei * GWEI).toString();
+};
+
+/**
+ * Position of the deposit in the contract's deposit tree, as a decimal string, from the event's `index` bytes
+ */
+export const decodeDepositIndex = (index: string | null | undefined): string | null => {
+  const value = readLittleEndianUint64(index);
+  return value === null ? null : value.toString();
+};
@@ -0,0 +1,168 @@
+// Validation of the operator and AVS metadata JSON referenced by metadataURI
+import { lookup } from 'dns/promises';
+import { BlockList, isIP } from 'net';
+
+export interface EigenLayerMetadata {
+  name: string | null;
+  website: string | null;
+  logo: string | null;
+  description: string | null;
+  twitter: string | null;
+}
+
+export interface MetadataValidationResult {
+  // Fields that passed their own checks, the others are null
+  metadata: EigenLayerMetadata;
+  errors: string[];
+}
+
+const MAX_NAME_LENGTH = 200;
+const MAX_DESCRIPTION_LENGTH = 500;
+const TWITTER_HOSTS = ['twitter.com', 'www.twitter.com', 'x.com', 'www.x.com'];
+
+// Loopback, private, link-local, unique-local and other non-routable ranges. A metadataURI
+// pointing there would make the backend request hosts of its own network.
+const NON_PUBLIC_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.168.0.0', 16], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [['::', 127], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  NON_PUBLIC_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Checks a metadata document against the EigenLayer metadata schema: `name`, `description`
+ * and a PNG `logo` are required, `website` and `twitter` are optional URLs.
+ * The document is valid when `errors` is empty.
+ */
+export const validateEigenLayerMetadata = (data: unknown): MetadataValidationResult => {
+  const metadata: EigenLayerMetadata = { name: null, website: null, logo: null, description: null, twitter: null };
+  const errors: string[] = [];
+
+  if (!data || typeof data !== 'object' || Array.isArray(data)) {
+    return { metadata, errors: ['Metadata must be a JSON object'] };
+  }
+  const document = data as Record<string, unknown>;
+
+  const name = readString(document, 'name', errors);
+  if (name === null) {
+    errors.push('name is required');
+  } else if (name !== undefined && name.length > MAX_NAME_LENGTH) {
+    errors.push(`name is longer than ${MAX_NAME_LENGTH} characters`);
+  } else if (name !== undefined) {
+    metadata.name = name;
+  }
+
+  const description = readString(document, 'description', errors);
+  if (description === null) {
+    errors.push('description is required');
+  } else if (description !== undefined && description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.push(`description is longer than ${MAX_DESCRIPTION_LENGTH} characters`);
+  } else if (description !== undefined) {
+    metadata.description = description;
+  }
+
+  const logo = readString(document, 'logo', errors);
+  const logoUrl = logo ? parseHttpUrl(logo) : null;
+  if (logo === null) {
+    errors.push('logo is required');
+  } else if (logo !== undefined && !logoUrl) {
+    errors.push('logo is not an http(s) URL');
+  } else if (logoUrl && !logoUrl.pathname.toLowerCase().endsWith('.png')) {
+    errors.push('logo is not a PNG image');
+  } else if (logo !== undefined) {
+    metadata.logo = logo;
+  }
+
+  const website = readString(document, 'website', errors);
+  if (website) {
+    if (parseHttpUrl(website)) {
+      metadata.website = website;
+    } else {
+      errors.push('website is not an http(s) URL');
+    }
+  }
+
+  const twitter = readString(document, 'twitter', errors);
+  if (twitter) {
+    const twitterUrl = parseHttpUrl(twitter);
+    if (twitterUrl && TWITTER_HOSTS.includes(twitterUrl.hostname.toLowerCase())) {
+      metadata.twitter = twitter;
+    } else {
+      errors.push('twitter is not a twitter.com or x.com URL');
+    }
+  }
+
+  return { metadata, errors };
+};
+
+/**
+ * Turns a metadataURI into a URL that can be fetched over HTTP. `ipfs://` URIs go
+ * through `ipfsGateway`; other schemes, malformed URIs and URLs of local hosts give null.
+ */
+export const resolveMetadataURI = (uri: string, ipfsGateway: string): string | null => {
+  const trimmed = uri.trim();
+  if (trimmed.toLowerCase().startsWith('ipfs://')) {
+    const path = trimmed.slice('ipfs://'.length).replace(/^ipfs\//i, '');
+    return path ? `${ipfsGateway.replace(/\/+$/, '')}/${path}` : null;
+  }
+  const url = parseHttpUrl(trimmed);
+  return url && !isLocalHostname(url.hostname) ? trimmed : null;
+};
+
+/**
+ * Whether an IP address is publicly routable. IPv4-mapped IPv6 addresses are checked as IPv4.
+ */
+export const isPublicAddress = (address: string): boolean => {
+  const family = isIP(address);
+  return family !== 0 && !NON_PUBLIC_ADDRESSES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+};
+
+/**
+ * Resolves a URL hostname and checks that every address it resolves to is public. Rejects
+ * when the name does not resolve.
+ */
+export const isPublicHost = async (hostname: string): Promise<boolean> => {
+  const host = unbracket(hostname);
+  if (isIP(host)) {
+    return isPublicAddress(host);
+  }
+  const addresses = await lookup(host, { all: true, verbatim: true });
+  return addresses.length > 0 && addresses.every(({ address }) => isPublicAddress(address));
+};
+
+// null when the field is missing or blank, undefined when it has the wrong type (already reported)
+function readString(document: Record<string, unknown>, field: string, errors: string[]): string | null | undefined {
+  const value = document[field];
+  if (value === undefined || value === null) {
+    return null;
+  }
+  if (typeof value !== 'string') {
+    errors.push(`${field} must be a string`);
+    return undefined;
+  }
+  return value.trim() || null;
+}
+
+// Hosts that are local without resolving them; names are checked when the backend fetches them
+function isLocalHostname(hostname: string): boolean {
+  const host = unbracket(hostname).toLowerCase();
+  return host === 'localhost' || host.endsWith('.localhost') || (isIP(host) !== 0 && !isPublicAddress(host));
+}
+
+// URL hostnames keep the brackets around IPv6 addresses
+function unbracket(hostname: string): string {
+  return hostname.replace(/^\[(.*)\]$/, '$1');
+}
+
+function parseHttpUrl(value: string): URL | null {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,75 @@
+// Indexer sources shared by the indexer, which declares its sources under these names, and the
+// backend, which reads the event tables of each source
+import { EntityTarget, ObjectLiteral } from 'typeorm';
+import {
+  PodDeployedEvent,
+  StakedEthEvent,
+  OperatorRegisteredEvent,
+  OperatorMetadataURIUpdatedEvent,
+  StakerDelegatedEvent,
+  StakerUndelegatedEvent,
+  OperatorSharesIncreasedEvent,
+  OperatorSharesDecreasedEvent,
+  StrategyDepositEvent,
+  WithdrawalQueuedEvent,
+  WithdrawalCompletedEvent,
+  OperatorSetCreatedEvent,
+  OperatorAddedToOperatorSetEvent,
+  OperatorRemovedFromOperatorSetEvent,
+  StrategyAddedToOperatorSetEvent,
+  AllocationUpdatedEvent,
+  MagnitudeUpdatedEvent,
+  OperatorSlashedEvent,
+  ValidatorRestakedEvent,
+  ValidatorBalanceUpdatedEvent,
+  ValidatorWithdrawnEvent,
+  CheckpointCreatedEvent,
+  CheckpointFinalizedEvent,
+  NonBeaconChainETHReceivedEvent,
+} from '../entities';
+
+// Source names, as stored in `indexer_state.indexername` and used by the CLI
+export const INDEXER_SOURCE_NAMES = {
+  eigenPod: 'eigenpod',
+  stakedEth: 'staked-eth',
+  delegationManager: 'delegation-manager',
+  strategyManager: 'strategy-manager',
+  allocationManager: 'allocation-manager',
+  eigenPodLifecycle: 'eigenpod-lifecycle',
+} as const;
+
+export type IndexerSourceName = typeof INDEXER_SOURCE_NAMES[keyof typeof INDEXER_SOURCE_NAMES];
+
+// Event tables written by each source
+export const INDEXER_SOURCE_ENTITIES: Record<IndexerSourceName, EntityTarget<ObjectLiteral>[]> = {
+  [INDEXER_SOURCE_NAMES.eigenPod]: [PodDeployedEvent],
+  [INDEXER_SOURCE_NAMES.stakedEth]: [StakedEthEvent],
+  [INDEXER_SOURCE_NAMES.delegationManager]: [
+    OperatorRegisteredEvent,
+    OperatorMetadataURIUpdatedEvent,
+    StakerDelegatedEvent,
+    StakerUndelegatedEvent,
+    OperatorSharesIncreasedEvent,
+    OperatorSharesDecreasedEvent,
+    WithdrawalQueuedEvent,
+    WithdrawalCompletedEvent,
+  ],
+  [INDEXER_SOURCE_NAMES.strategyManager]: [StrategyDepositEvent],
+  [INDEXER_SOURCE_NAMES.allocationManager]: [
+    OperatorSetCreatedEvent,
+    OperatorAddedToOperatorSetEvent,
+    OperatorRemovedFromOperatorSetEvent,
+    StrategyAddedToOperatorSetEvent,
+    AllocationUpdatedEvent,
+    MagnitudeUpdatedEvent,
+    OperatorSlashedEvent,
+  ],
+  [INDEXER_SOURCE_NAMES.eigenPodLifecycle]: [
+    ValidatorRestakedEvent,
+    ValidatorBalanceUpdatedEvent,
+    ValidatorWithdrawnEvent,
+    CheckpointCreatedEvent,
+    CheckpointFinalizedEvent,
+    NonBeaconChainETHReceivedEvent,
+  ],
+};
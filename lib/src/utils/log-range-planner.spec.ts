@@ -0,0 +1,179 @@
+import { classifyLogRangeError, getProviderLogRangeLimit, LogRangePlanner } from './log-range-planner';
+
+// Limits are shared by every planner of the process, so each test uses its own endpoints
+let endpointCount = 0;
+const nextUrl = () => `http://rpc-${++endpointCount}.test`;
+
+const rangeError = (message: string, rpcUrl?: string) => Object.assign(new Error(message), rpcUrl ? { rpcUrl } : {});
+
+describe('classifyLogRangeError', () => {
+  it.each([
+    ['query returned more than 10000 results', { kind: 'results' }],
+    ['Log response size exceeded. You can make eth_getLogs requests with up to a 2K block range, or use this block range: [0x10, 0x1f]', { kind: 'results', suggestedRange: 16 }],
+    ['query returned more than 10000 results. Try with this block range [0x10a1b2c, 0x10a1f00].', { kind: 'results', suggestedRange: 981 }],
+    ['block range is too wide (max: 5000)', { kind: 'range', suggestedRange: 5000 }],
+    ['eth_getLogs is limited to a 10,000 blocks range', { kind: 'range', suggestedRange: 10000 }],
+    ['exceed maximum block range: 2000', { kind: 'range', suggestedRange: 2000 }],
+    ['requested range is too large', { kind: 'range' }],
+  ])('classifies "%s"', (message, expected) => {
+    expect(classifyLogRangeError(new Error(message))).toEqual(expected);
+  });
+
+  it('reads the provider message nested in the ethers error', () => {
+    const error = {
+      code: 'UNKNOWN_ERROR',
+      shortMessage: 'could not coalesce error',
+      message: 'could not coalesce error (error={ "code": -32005 }, code=UNKNOWN_ERROR)',
+      error: { code: -32005, message: 'block range is too wide (max: 3000)' },
+    };
+    expect(classifyLogRangeError(error)).toEqual({ kind: 'range', suggestedRange: 3000 });
+  });
+
+  it('does not take error codes for a limit', () => {
+    expect(classifyLogRangeError(new Error('-32602: block range too large'))).toEqual({ kind: 'range' });
+  });
+
+  it.each(['execution reverted', 'request timeout', 'missing response for request'])(
+    'leaves "%s" to the retry logic',
+    message => {
+      expect(classifyLogRangeError(new Error(message))).toBeNull();
+    }
+  );
+
+  it('ignores errors without a message', () => {
+    expect(classifyLogRangeError(null)).toBeNull();
+    expect(classifyLogRangeError({ code: 429 })).toBeNull();
+  });
+});
+
+describe('LogRangePlanner', () => {
+  it('starts with the initial range and stops windows at the end block', () => {
+    const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000 });
+    expect(planner.range).toBe(1000);
+    expect(planner.nextEnd(1, 5000)).toBe(1000);
+    expect(planner.nextEnd(4501, 5000)).toBe(5000);
+  });
+
+  describe('after a rejected window', () => {
+    it('bisects it when the provider suggests no size', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000 });
+      expect(planner.recordFailure(1, 1000, rangeError('query returned more than 10000 results'))).toBe(true);
+      expect(planner.range).toBe(500);
+      expect(planner.recordFailure(1, 500, rangeError('query returned more than 10000 results'))).toBe(true);
+      expect(planner.range).toBe(250);
+    });
+
+    it('cuts it to the size the provider suggests', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000 });
+      expect(planner.recordFailure(1, 1000, rangeError('query returned more than 10000 results [0x1, 0x64]'))).toBe(true);
+      expect(planner.range).toBe(100);
+    });
+
+    it('bisects it when the suggested size is not smaller', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000 });
+      expect(planner.recordFailure(1, 1000, rangeError('query returned more than 10000 results [0x1, 0x7d0]'))).toBe(true);
+      expect(planner.range).toBe(500);
+    });
+
+    it('gives up at the minimum range', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 2, minRange: 2 });
+      expect(planner.recordFailure(1, 2, rangeError('query returned more than 10000 results'))).toBe(false);
+      expect(planner.range).toBe(2);
+    });
+
+    it('leaves the window alone for other errors', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000 });
+      expect(planner.recordFailure(1, 1000, new Error('execution reverted'))).toBe(false);
+      expect(planner.range).toBe(1000);
+    });
+  });
+
+  describe('after a successful window', () => {
+    it('grows after quiet full windows, up to the maximum range', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000, maxRange: 3000 });
+      planner.recordSuccess(1, 1000, 10);
+      expect(planner.range).toBe(2000);
+      planner.recordSuccess(1001, 3000, 10);
+      expect(planner.range).toBe(3000);
+      planner.recordSuccess(3001, 6000, 10);
+      expect(planner.range).toBe(3000);
+    });
+
+    it('keeps the window after a busy one', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000, quietResultCount: 100 });
+      planner.recordSuccess(1, 1000, 100);
+      expect(planner.range).toBe(1000);
+    });
+
+    it('keeps the window after a short one at the end of the scan', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000 });
+      planner.recordSuccess(1, 400, 0);
+      expect(planner.range).toBe(1000);
+    });
+
+    it('grows again after bisecting', () => {
+      const planner = new LogRangePlanner([nextUrl()], { initialRange: 1000 });
+      planner.recordFailure(1, 1000, rangeError('query returned more than 10000 results'));
+      planner.recordSuccess(1, 500, 10);
+      expect(planner.range).toBe(1000);
+    });
+  });
+
+  describe('block range limits', () => {
+    it('records the limit under the URL of the rejecting endpoint', () => {
+      const [limited, other] = [nextUrl(), nextUrl()];
+      const planner = new LogRangePlanner([limited, other], { initialRange: 10000 });
+      expect(planner.recordFailure(1, 10000, rangeError('block range is too wide (max: 2000)', limited))).toBe(true);
+
+      expect(getProviderLogRangeLimit(limited)).toBe(2000);
+      expect(getProviderLogRangeLimit(other)).toBeUndefined();
+    });
+
+    it('keeps windows within the limit once every endpoint announced one', () => {
+      const [first, second] = [nextUrl(), nextUrl()];
+      const planner = new LogRangePlanner([first, second], { initialRange: 10000 });
+      planner.recordFailure(1, 10000, rangeError('block range is too wide (max: 2000)', first));
+      planner.recordFailure(1, 2000, rangeError('block range is too wide (max: 500)', second));
+      expect(planner.range).toBe(500);
+
+      // The window grows back to the largest limit, which the first endpoint admits
+      planner.recordSuccess(1, 500, 0);
+      planner.recordSuccess(501, 1500, 0);
+      planner.recordSuccess(1501, 3500, 0);
+      expect(planner.range).toBe(2000);
+    });
+
+    it('does not cap windows while an endpoint has no known limit', () => {
+      const [limited, unlimited] = [nextUrl(), nextUrl()];
+      new LogRangePlanner([limited], { initialRange: 10000 }).recordFailure(1, 10000, rangeError('block range is too wide (max: 2000)', limited));
+      expect(new LogRangePlanner([limited, unlimited], { initialRange: 10000 }).range).toBe(10000);
+    });
+
+    it('shares the limit with new planners of the endpoint', () => {
+      const url = nextUrl();
+      new LogRangePlanner([url], { initialRange: 10000 }).recordFailure(1, 10000, rangeError('block range is too wide (max: 2000)', url));
+      expect(new LogRangePlanner([url], { initialRange: 10000 }).range).toBe(2000);
+    });
+
+    it('records the limit for a single endpoint without the URL on the error', () => {
+      const url = nextUrl();
+      new LogRangePlanner([url], { initialRange: 10000 }).recordFailure(1, 10000, rangeError('block range is too wide (max: 2000)'));
+      expect(getProviderLogRangeLimit(url)).toBe(2000);
+    });
+
+    it('only shrinks the window when the rejecting endpoint of several is unknown', () => {
+      const [first, second] = [nextUrl(), nextUrl()];
+      const planner = new LogRangePlanner([first, second], { initialRange: 10000 });
+      expect(planner.recordFailure(1, 10000, rangeError('block range is too wide (max: 2000)'))).toBe(true);
+      expect(planner.range).toBe(2000);
+      expect(getProviderLogRangeLimit(first)).toBeUndefined();
+      expect(getProviderLogRangeLimit(second)).toBeUndefined();
+    });
+
+    it('does not record a limit for too many results', () => {
+      const url = nextUrl();
+      new LogRangePlanner([url], { initialRange: 10000 }).recordFailure(1, 10000, rangeError('query returned more than 10000 results', url));
+      expect(getProviderLogRangeLimit(url)).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,165 @@
+// Block windows for eth_getLogs that adapt to what the RPC provider accepts
+
+export type LogRangeErrorKind = 'results' | 'range';
+
+export interface LogRangeError {
+  // 'results': too many logs in the window; 'range': the window spans more blocks than allowed
+  kind: LogRangeErrorKind;
+  // Window size the provider suggested or announced as its limit, when the message carries one
+  suggestedRange?: number;
+}
+
+export interface LogRangePlannerConfig {
+  // Window used until the first response, e.g. the source's batch size
+  initialRange: number;
+  minRange?: number;
+  maxRange?: number;
+  // Factor the window grows by after a quiet window
+  growthFactor?: number;
+  // A window that returned fewer logs than this is quiet
+  quietResultCount?: number;
+}
+
+const DEFAULT_MAX_LOG_RANGE = 10000;
+const DEFAULT_GROWTH_FACTOR = 2;
+// A tenth of the common 10000 results cap
+const DEFAULT_QUIET_RESULT_COUNT = 1000;
+
+const RESULT_LIMIT_PATTERNS = [
+  /query returned more than \d+ results/i,
+  /response size (is larger|exceeded)/i,
+  /log response size exceeded/i,
+  /too many (results|logs)/i,
+  /results? (limit )?exceed/i,
+];
+
+const RANGE_LIMIT_PATTERNS = [
+  /blocks? range/i,
+  /range (is )?too (large|wide|big)/i,
+  /exceeds? (the )?max(imum)? range/i,
+  /ranges? over \d+ blocks/i,
+];
+
+// Largest block range each provider accepted as a limit, keyed by RPC URL and shared by every planner
+const providerRangeLimits = new Map<string, number>();
+
+// Provider messages first, the ethers wrapper message repeats them with error codes around
+function getErrorMessages(error: any): string[] {
+  const messages = [
+    error?.error?.message,
+    error?.info?.error?.message,
+    ...(Array.isArray(error?.value) ? error.value.map((item: any) => item?.message) : []),
+    error?.shortMessage,
+    error?.message,
+  ];
+  return messages.filter((message): message is string => typeof message === 'string');
+}
+
+/**
+ * Recognises eth_getLogs rejections caused by the size of the requested window, or null for
+ * any other error. Retrying the same window cannot succeed for these.
+ */
+export function classifyLogRangeError(error: any): LogRangeError | null {
+  for (const message of getErrorMessages(error)) {
+    const kind: LogRangeErrorKind | null = RESULT_LIMIT_PATTERNS.some(pattern => pattern.test(message))
+      ? 'results'
+      : RANGE_LIMIT_PATTERNS.some(pattern => pattern.test(message)) ? 'range' : null;
+    if (!kind) {
+      continue;
+    }
+
+    // Infura and Alchemy suggest a window that works: "... [0x10a1b2c, 0x10a1f00]"
+    const hint = message.match(/\[\s*(0x[0-9a-fA-F]+)\s*,\s*(0x[0-9a-fA-F]+)\s*\]/);
+    if (hint) {
+      return { kind, suggestedRange: Number(BigInt(hint[2]) - BigInt(hint[1])) + 1 };
+    }
+
+    // Others announce their limit: "block range is too wide (max: 5000)", "limited to a 10,000 blocks range"
+    const limit = kind === 'range' ? message.match(/(?<![-\w])\d[\d,]*(?![\w])/) : null;
+    const value = limit ? Number(limit[0].replace(/,/g, '')) : NaN;
+    return value > 0 ? { kind, suggestedRange: value } : { kind };
+  }
+  return null;
+}
+
+export function isLogRangeError(error: any): boolean {
+  return classifyLogRangeError(error) !== null;
+}
+
+/**
+ * Plans the block windows of an eth_getLogs scan over `providerUrls`. Oversized windows are
+ * bisected (or cut to the size the provider suggests) and quiet windows grow up to `maxRange`.
+ * A block range limit is remembered under the URL of the endpoint that announced it, taken from
+ * the error's `rpcUrl` (set by RpcProviderPool), and shared by every planner using that endpoint.
+ * Windows are kept within the largest limit among the endpoints, the pool sends them to one that
+ * admits them.
+ */
+export class LogRangePlanner {
+  private readonly minRange: number;
+  private readonly maxRange: number;
+  private readonly growthFactor: number;
+  private readonly quietResultCount: number;
+  private currentRange: number;
+
+  constructor(private readonly providerUrls: string[], config: LogRangePlannerConfig) {
+    this.minRange = Math.max(1, config.minRange ?? 1);
+    this.maxRange = Math.max(this.minRange, config.maxRange ?? Math.max(config.initialRange, DEFAULT_MAX_LOG_RANGE));
+    this.growthFactor = config.growthFactor ?? DEFAULT_GROWTH_FACTOR;
+    this.quietResultCount = config.quietResultCount ?? DEFAULT_QUIET_RESULT_COUNT;
+    this.currentRange = this.clamp(config.initialRange);
+  }
+
+  // Number of blocks the next window spans
+  get range(): number {
+    return this.clamp(this.currentRange);
+  }
+
+  // Last block of the window starting at `fromBlock`, never past `endBlock`
+  nextEnd(fromBlock: number, endBlock: number): number {
+    return Math.min(fromBlock + this.range - 1, endBlock);
+  }
+
+  recordSuccess(fromBlock: number, toBlock: number, resultCount: number): void {
+    const span = toBlock - fromBlock + 1;
+    // Short windows at the end of a scan say nothing about the current size
+    if (resultCount < this.quietResultCount && span >= this.range) {
+      this.currentRange = this.clamp(Math.ceil(this.range * this.growthFactor));
+    }
+  }
+
+  /**
+   * Shrinks the window after a failed request. Returns true when the window was too large and
+   * a smaller one should be tried, false for other errors or when it cannot shrink any further.
+   */
+  recordFailure(fromBlock: number, toBlock: number, error: any): boolean {
+    const rangeError = classifyLogRangeError(error);
+    const span = toBlock - fromBlock + 1;
+    if (!rangeError || span <= this.minRange) {
+      return false;
+    }
+
+    const halved = Math.floor(span / 2);
+    const next = rangeError.suggestedRange && rangeError.suggestedRange < span ? rangeError.suggestedRange : halved;
+    // Without the URL of the rejecting endpoint only the window shrinks
+    const url = typeof error?.rpcUrl === 'string' ? error.rpcUrl : this.providerUrls.length === 1 ? this.providerUrls[0] : null;
+    if (rangeError.kind === 'range' && url !== null) {
+      const known = providerRangeLimits.get(url);
+      providerRangeLimits.set(url, Math.max(this.minRange, Math.min(known ?? next, next)));
+    }
+
+    this.currentRange = this.clamp(next);
+    return true;
+  }
+
+  private clamp(range: number): number {
+    const providerLimit = this.providerUrls.length > 0
+      ? Math.max(...this.providerUrls.map(url => providerRangeLimits.get(url) ?? Infinity))
+      : Infinity;
+    return Math.max(this.minRange, Math.min(range, this.maxRange, providerLimit));
+  }
+}
+
+// Block range limit learned for an RPC endpoint, undefined until it rejected a window
+export function getProviderLogRangeLimit(url: string): number | undefined {
+  return providerRangeLimits.get(url);
+}
@@ -0,0 +1,23 @@
+// Postgres LISTEN/NOTIFY channels the indexer publishes to and the backend listens on
+
+export const NOTIFICATION_CHANNELS = {
+  podDeployed: 'pod_deployed',
+  stakedEthDeposited: 'staked_eth_deposited',
+  indexerProgress: 'indexer_progress',
+} as const;
+
+export type NotificationChannel = typeof NOTIFICATION_CHANNELS[keyof typeof NOTIFICATION_CHANNELS];
+
+/**
+ * Payload of the event channels: the block range of a batch that stored new rows.
+ * Listeners read the rows back, which keeps payloads under the 8000 byte NOTIFY limit.
+ */
+export interface EventBatchNotification {
+  fromBlock: number;
+  toBlock: number;
+}
+
+// Payload of the progress channel; listeners read the indexer_state row
+export interface IndexerProgressNotification {
+  indexerName: string;
+}
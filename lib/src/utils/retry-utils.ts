@@ -1,4 +1,5 @@
 import { ethers } from 'ethers';
+import { isLogRangeError } from './log-range-planner';
 
 export interface RetryConfig {
   maxRetries?: number;
@@ -99,6 +100,11 @@ export async function withRetry<T>(
         console.warn(`${context} failed with "Block Not Found" error, not retrying: ${error.message || error}`);
         throw error;
       }
+
+      // The same eth_getLogs window would be rejected again, the caller has to shrink it
+      if (isLogRangeError(error)) {
+        throw error;
+      }
       
       if (attempt === maxRetries) {
         console.error(`${context} failed after ${maxRetries} attempts: ${error.message || error}`);
@@ -0,0 +1,298 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { LogRangePlanner } from './log-range-planner';
+import { getErrorRpcUrl, RpcProviderPool } from './rpc-provider-pool';
+
+const CONTRACT = '0x00000000000000000000000000000000000000d1';
+
+function stubLog(blockNumber: number, logIndex: number): any {
+  return {
+    address: CONTRACT,
+    topics: [ethers.id('Event()')],
+    data: '0x',
+    blockNumber: ethers.toQuantity(blockNumber),
+    blockHash: ethers.id(`block:${blockNumber}`),
+    transactionHash: ethers.id(`tx:${blockNumber}:${logIndex}`),
+    transactionIndex: '0x0',
+    logIndex: ethers.toQuantity(logIndex),
+    removed: false,
+  };
+}
+
+/**
+ * JSON-RPC endpoint whose answers are set per test: an HTTP status other than 200 (with
+ * `headers`), a delay, or the logs or error eth_getLogs returns
+ */
+class StubEndpoint {
+  url = '';
+  // Methods of every HTTP request received, batches joined with '+'
+  requests: string[] = [];
+  status = 200;
+  headers: Record<string, string> = {};
+  delayMs = 0;
+  logs: any[] = [];
+  // eth_getLogs rejects windows spanning more blocks
+  maxLogRange = Infinity;
+  private server = http.createServer((request, response) => {
+    let body = '';
+    request.on('data', chunk => (body += chunk));
+    request.on('end', () => {
+      const payload = JSON.parse(body);
+      const calls: any[] = Array.isArray(payload) ? payload : [payload];
+      this.requests.push(calls.map(call => call.method).join('+'));
+      setTimeout(() => {
+        if (this.status !== 200) {
+          response.writeHead(this.status, this.headers);
+          response.end();
+          return;
+        }
+        const results = calls.map(call => ({ jsonrpc: '2.0', id: call.id, ...this.handle(call.method, call.params) }));
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end(JSON.stringify(Array.isArray(payload) ? results : results[0]));
+      }, this.delayMs).unref();
+    });
+  });
+
+  async start(): Promise<void> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise(resolve => this.server.close(resolve));
+  }
+
+  reset(): void {
+    Object.assign(this, { requests: [], status: 200, headers: {}, delayMs: 0, logs: [], maxLogRange: Infinity });
+  }
+
+  private handle(method: string, params: any[]): { result: any } | { error: any } {
+    switch (method) {
+      case 'eth_chainId':
+        return { result: '0x1' };
+      case 'eth_blockNumber':
+        return { result: '0x64' };
+      case 'eth_getLogs': {
+        const [filter] = params;
+        if (Number(filter.toBlock) - Number(filter.fromBlock) + 1 > this.maxLogRange) {
+          return { error: { code: -32600, message: `block range is too wide (max: ${this.maxLogRange})` } };
+        }
+        return { result: this.logs };
+      }
+      default:
+        return { error: { code: -32601, message: `Unexpected RPC method ${method}` } };
+    }
+  }
+}
+
+describe('RpcProviderPool', () => {
+  const endpoints = Array.from({ length: 3 }, () => new StubEndpoint());
+  const [first, second, third] = endpoints;
+  const pools: RpcProviderPool[] = [];
+
+  const createPool = (stubs: StubEndpoint[], requestTimeoutMs?: number) => {
+    const pool = new RpcProviderPool(stubs.map(stub => stub.url), { requestTimeoutMs });
+    pools.push(pool);
+    return pool;
+  };
+  const blockNumber = (pool: RpcProviderPool) => pool.send('eth_blockNumber', []);
+  const status = (pool: RpcProviderPool, stub: StubEndpoint) => pool.getEndpointStatus().find(endpoint => endpoint.url === stub.url)!;
+
+  beforeAll(async () => {
+    // ethers logs its network detection retries when every endpoint fails
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    for (const endpoint of endpoints) {
+      await endpoint.start();
+    }
+  });
+
+  beforeEach(() => {
+    endpoints.forEach(endpoint => endpoint.reset());
+  });
+
+  afterEach(() => {
+    pools.splice(0).forEach(pool => pool.destroy());
+  });
+
+  afterAll(async () => {
+    for (const endpoint of endpoints) {
+      await endpoint.stop();
+    }
+    jest.restoreAllMocks();
+  });
+
+  describe('failover', () => {
+    it('moves on to the next endpoint when one answers with a server error', async () => {
+      first.status = 503;
+      const pool = createPool([first, second]);
+
+      expect(await blockNumber(pool)).toBe('0x64');
+      expect(second.requests).toHaveLength(1);
+      expect(status(pool, first).failures).toBe(1);
+    });
+
+    it('moves on to the next endpoint when one times out', async () => {
+      first.delayMs = 2000;
+      const pool = createPool([first, second], 200);
+
+      expect(await blockNumber(pool)).toBe('0x64');
+      expect(second.requests).toHaveLength(1);
+      expect(status(pool, first).failures).toBe(1);
+    });
+
+    it('throws the last error when every endpoint fails', async () => {
+      first.status = 500;
+      second.status = 502;
+      const pool = createPool([first, second]);
+
+      await expect(pool._send({ jsonrpc: '2.0', id: 1, method: 'eth_blockNumber', params: [] })).rejects.toThrow(/502/);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('skips an endpoint answering 429 until its Retry-After has passed', async () => {
+      first.status = 429;
+      first.headers = { 'retry-after': '60' };
+      const pool = createPool([first, second]);
+
+      const startedAt = Date.now();
+      expect(await blockNumber(pool)).toBe('0x64');
+      expect(await blockNumber(pool)).toBe('0x64');
+
+      // Answered once and not retried with ethers' backoff, the pool failed over right away
+      expect(first.requests).toHaveLength(1);
+      expect(second.requests).toHaveLength(2);
+      expect(Date.now() - startedAt).toBeLessThan(1000);
+      const coolingDownUntil = status(pool, first).coolingDownUntil!.getTime();
+      expect(coolingDownUntil).toBeGreaterThan(startedAt + 59000);
+      expect(coolingDownUntil).toBeLessThanOrEqual(Date.now() + 60000);
+    });
+
+    it('still asks an endpoint that is cooling down when every endpoint is', async () => {
+      first.status = 429;
+      first.headers = { 'retry-after': '60' };
+      second.status = 429;
+      second.headers = { 'retry-after': '30' };
+      const pool = createPool([first, second]);
+      await expect(blockNumber(pool)).rejects.toThrow();
+
+      second.status = 200;
+      expect(await blockNumber(pool)).toBe('0x64');
+    });
+  });
+
+  describe('health scoring', () => {
+    it('picks the faster endpoint once both answered', async () => {
+      first.delayMs = 150;
+      const pool = createPool([first, second]);
+
+      for (let i = 0; i < 5; i++) {
+        await blockNumber(pool);
+      }
+
+      // The first request (with the network lookup) went to the first endpoint, later ones to the faster one
+      expect(first.requests).toHaveLength(1);
+      expect(second.requests).toHaveLength(4);
+    });
+
+    it('ranks an endpoint that only failed below a slower one', async () => {
+      first.status = 500;
+      second.delayMs = 50;
+      const pool = createPool([first, second]);
+
+      for (let i = 0; i < 3; i++) {
+        await blockNumber(pool);
+      }
+
+      expect(first.requests).toHaveLength(1);
+      expect(second.requests).toHaveLength(3);
+    });
+  });
+
+  describe('getLogsWithQuorum', () => {
+    const filter = { address: CONTRACT, fromBlock: 1, toBlock: 10 };
+
+    it('returns the logs once enough endpoints agree', async () => {
+      first.logs = [stubLog(5, 0)];
+      second.logs = [stubLog(5, 0), stubLog(6, 0)];
+      third.logs = [stubLog(5, 0)];
+      const pool = createPool([first, second, third]);
+
+      const logs = await pool.getLogsWithQuorum(filter, 2);
+      expect(logs.map(log => log.blockNumber)).toEqual([5]);
+      expect(third.requests).toEqual(['eth_getLogs']);
+    });
+
+    it('rejects when the endpoints disagree', async () => {
+      first.logs = [stubLog(5, 0)];
+      second.logs = [stubLog(6, 0)];
+      third.logs = [];
+      const pool = createPool([first, second, third]);
+
+      await expect(pool.getLogsWithQuorum(filter, 2)).rejects.toThrow(/quorum of 2 not reached for blocks 1-10: 3 different answers/);
+    });
+
+    it('rejects when fewer endpoints than the quorum answer', async () => {
+      first.logs = [stubLog(5, 0)];
+      second.status = 500;
+      const pool = createPool([first, second]);
+
+      await expect(pool.getLogsWithQuorum(filter, 2)).rejects.toThrow(/quorum of 2 not reached.*errors:/);
+    });
+
+    it('needs as many endpoints as the quorum', async () => {
+      const pool = createPool([first, second]);
+      await expect(pool.getLogsWithQuorum(filter, 3)).rejects.toThrow(/needs at least 3 RPC endpoints/);
+    });
+  });
+
+  describe('log range limits', () => {
+    it('reports the endpoint that rejected an oversized window', async () => {
+      first.maxLogRange = 5;
+      second.maxLogRange = 5;
+      const pool = createPool([first, second]);
+
+      const error = await pool.getLogs(filter(1, 10)).catch(error => error);
+      // JSON-RPC errors are not failed over, a single endpoint was asked
+      const asked = [first, second].filter(stub => stub.requests.some(request => request.includes('eth_getLogs')));
+      expect(asked).toHaveLength(1);
+      expect(getErrorRpcUrl(error)).toBe(asked[0].url);
+    });
+
+    it('reports the endpoint that rejected an oversized window of a quorum read', async () => {
+      second.maxLogRange = 5;
+      const pool = createPool([first, second]);
+
+      const error = await pool.getLogsWithQuorum(filter(1, 10), 2).catch(error => error);
+      expect(getErrorRpcUrl(error)).toBe(second.url);
+    });
+
+    it('sends windows past the known limit of an endpoint to another one', async () => {
+      first.maxLogRange = 5;
+      second.delayMs = 50;
+      const pool = createPool([first, second]);
+      const planner = new LogRangePlanner(pool.urls, { initialRange: 10 });
+
+      // Both endpoints answered once, the first one ranks best from now on
+      await blockNumber(pool);
+      await blockNumber(pool);
+      const error = await pool.getLogs(filter(1, 10)).catch(error => error);
+      expect(getErrorRpcUrl(error)).toBe(first.url);
+      expect(planner.recordFailure(1, 10, error)).toBe(true);
+      first.requests = [];
+      second.requests = [];
+
+      await pool.getLogs(filter(1, 5));
+      await pool.getLogs(filter(6, 15));
+      // ethers may batch a chain id check with the call
+      expect(first.requests).toEqual([expect.stringContaining('eth_getLogs')]);
+      expect(second.requests).toEqual([expect.stringContaining('eth_getLogs')]);
+    });
+
+    function filter(fromBlock: number, toBlock: number): ethers.Filter {
+      return { address: CONTRACT, fromBlock, toBlock };
+    }
+  });
+});
@@ -0,0 +1,312 @@
+import { ethers } from 'ethers';
+import { isRateLimitError } from './retry-utils';
+import { getProviderLogRangeLimit, isLogRangeError } from './log-range-planner';
+
+const DEFAULT_RPC_URL = 'https://eth-mainnet.g.alchemy.com/v2/demo';
+
+export interface RpcProviderPoolOptions {
+  // Requests slower than this fail over to the next endpoint
+  requestTimeoutMs?: number;
+  // How long an endpoint is skipped after a 429 that carries no Retry-After header
+  rateLimitCooldownMs?: number;
+}
+
+export interface RpcEndpointStatus {
+  url: string;
+  // Moving averages over recent requests
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  coolingDownUntil: Date | null;
+}
+
+interface RpcEndpoint {
+  url: string;
+  latencyMs: number | null;
+  errorRate: number;
+  requests: number;
+  failures: number;
+  cooldownUntil: number;
+  // Single-endpoint provider for quorum reads, created on first use
+  provider?: ethers.JsonRpcProvider;
+}
+
+const DEFAULT_REQUEST_TIMEOUT_MS = 30000;
+const DEFAULT_RATE_LIMIT_COOLDOWN_MS = 30000;
+// Weight of the latest request in the latency and error moving averages
+const SCORE_SMOOTHING = 0.2;
+// An endpoint failing every request ranks like one five times slower
+const ERROR_RATE_PENALTY = 4;
+
+/**
+ * RPC endpoints from `ETHEREUM_RPC_URLS` (comma separated), falling back to `ETHEREUM_RPC_URL`
+ */
+export function getRpcUrls(): string[] {
+  const urls = (process.env.ETHEREUM_RPC_URLS || process.env.ETHEREUM_RPC_URL || DEFAULT_RPC_URL)
+    .split(',')
+    .map(url => url.trim())
+    .filter(url => url.length > 0);
+  return urls.length > 0 ? urls : [DEFAULT_RPC_URL];
+}
+
+// JSON-RPC error objects returned inside a successful HTTP response
+function isRateLimitResult(result: any): boolean {
+  const error = result?.error;
+  if (!error || isLogRangeError({ message: error.message })) {
+    return false;
+  }
+  return error.code === -32005 || error.code === 429 || isRateLimitError({ message: error.message });
+}
+
+// Blocks spanned by an eth_getLogs call, null for other methods or block tags such as 'latest'
+function getLogRange(payload: ethers.JsonRpcPayload): number | null {
+  const filter = payload.method === 'eth_getLogs' && Array.isArray(payload.params) ? payload.params[0] : null;
+  if (!ethers.isHexString(filter?.fromBlock) || !ethers.isHexString(filter?.toBlock)) {
+    return null;
+  }
+  return Number(filter.toBlock) - Number(filter.fromBlock) + 1;
+}
+
+function withRpcUrl(error: any, url: string): any {
+  if (error && typeof error === 'object') {
+    error.rpcUrl = url;
+  }
+  return error;
+}
+
+/**
+ * URL of the endpoint that rejected an eth_getLogs call of the pool, so the block range limit
+ * of that endpoint can be recorded under it
+ */
+export function getErrorRpcUrl(error: any): string | undefined {
+  return typeof error?.rpcUrl === 'string' ? error.rpcUrl : undefined;
+}
+
+function getLogKey(logs: ethers.Log[]): string {
+  return ethers.id(logs.map(log => `${log.blockHash}:${log.transactionHash}:${log.index}`).join(','));
+}
+
+/**
+ * A JsonRpcProvider spread over several endpoints. Every request (or JSON-RPC batch) goes to the
+ * endpoint with the best latency and error score; network errors, timeouts, 5xx responses and
+ * rate limits fail over to the next one. An endpoint answering 429 is skipped until its cooldown
+ * (Retry-After, or `rateLimitCooldownMs`) has passed, unless every endpoint is cooling down.
+ * JSON-RPC errors such as reverts or oversized log ranges are returned as they are; eth_getLogs
+ * errors carry the URL of the endpoint that answered (see getErrorRpcUrl). eth_getLogs windows
+ * go to endpoints whose known block range limit admits them first.
+ */
+export class RpcProviderPool extends ethers.JsonRpcProvider {
+  private readonly endpoints: RpcEndpoint[];
+  private readonly requestTimeoutMs: number;
+  private readonly rateLimitCooldownMs: number;
+  // Endpoint that answered each failed eth_getLogs call, by request id, until getRpcError reads it
+  private readonly logErrorUrls = new Map<number, string>();
+
+  constructor(urls: string[], options: RpcProviderPoolOptions = {}) {
+    if (urls.length === 0) {
+      throw new Error('RpcProviderPool needs at least one RPC URL');
+    }
+    super(urls[0]);
+    this.endpoints = urls.map(url => ({ url, latencyMs: null, errorRate: 0, requests: 0, failures: 0, cooldownUntil: 0 }));
+    this.requestTimeoutMs = options.requestTimeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+    this.rateLimitCooldownMs = options.rateLimitCooldownMs ?? DEFAULT_RATE_LIMIT_COOLDOWN_MS;
+  }
+
+  get urls(): string[] {
+    return this.endpoints.map(endpoint => endpoint.url);
+  }
+
+  getEndpointStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map(endpoint => ({
+      url: endpoint.url,
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: Math.round(endpoint.errorRate * 100) / 100,
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+      coolingDownUntil: endpoint.cooldownUntil > now ? new Date(endpoint.cooldownUntil) : null,
+    }));
+  }
+
+  async _send(payload: ethers.JsonRpcPayload | ethers.JsonRpcPayload[]): Promise<ethers.JsonRpcResult[]> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    const logRanges = payloads.map(getLogRange).filter((range): range is number => range !== null);
+    let lastError: any = null;
+    for (const endpoint of this.rankEndpoints(logRanges.length > 0 ? Math.max(...logRanges) : null)) {
+      const startedAt = Date.now();
+      try {
+        const request = this.createRequest(endpoint.url);
+        request.body = JSON.stringify(payload);
+        const response = await request.send();
+
+        if (response.statusCode === 429) {
+          this.recordRateLimit(endpoint, response.headers['retry-after']);
+          lastError = new Error(`${endpoint.url} responded 429 Too Many Requests`);
+          continue;
+        }
+        response.assertOk();
+
+        const body = response.bodyJson;
+        const results: ethers.JsonRpcResult[] = Array.isArray(body) ? body : [body];
+        if (results.some(isRateLimitResult)) {
+          this.recordRateLimit(endpoint);
+          lastError = new Error(`${endpoint.url} is rate limiting requests`);
+          continue;
+        }
+
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        for (const result of results as any[]) {
+          if (result?.error && payloads.some(call => call.id === result.id && call.method === 'eth_getLogs')) {
+            this.logErrorUrls.set(result.id, endpoint.url);
+          }
+        }
+        return results;
+      } catch (error) {
+        this.recordFailure(endpoint);
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+
+  getRpcError(payload: ethers.JsonRpcPayload, error: ethers.JsonRpcError): Error {
+    const rpcError = super.getRpcError(payload, error);
+    const url = this.logErrorUrls.get(payload.id);
+    if (url === undefined) {
+      return rpcError;
+    }
+    this.logErrorUrls.delete(payload.id);
+    return withRpcUrl(rpcError, url);
+  }
+
+  /**
+   * eth_getLogs answered identically by `quorum` endpoints. The best ranked endpoints are asked
+   * first and the others one at a time until enough answers agree; a window the endpoints reject
+   * as too large is thrown right away so the caller can split it.
+   */
+  async getLogsWithQuorum(filter: ethers.Filter, quorum: number): Promise<ethers.Log[]> {
+    if (quorum <= 1) {
+      return this.getLogs(filter);
+    }
+    if (quorum > this.endpoints.length) {
+      throw new Error(`eth_getLogs quorum of ${quorum} needs at least ${quorum} RPC endpoints, ${this.endpoints.length} configured`);
+    }
+
+    const network = await this.getNetwork();
+    const ranked = this.rankEndpoints(
+      typeof filter.fromBlock === 'number' && typeof filter.toBlock === 'number' ? filter.toBlock - filter.fromBlock + 1 : null
+    );
+    const answers = new Map<string, { logs: ethers.Log[]; count: number }>();
+    const errors: string[] = [];
+
+    const ask = async (endpoint: RpcEndpoint): Promise<ethers.Log[] | null> => {
+      endpoint.provider ??= new ethers.JsonRpcProvider(this.createRequest(endpoint.url), network, { staticNetwork: network, batchMaxCount: 1 });
+      const startedAt = Date.now();
+      try {
+        const logs = await endpoint.provider.getLogs(filter);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return logs;
+      } catch (error: any) {
+        if (isLogRangeError(error)) {
+          throw withRpcUrl(error, endpoint.url);
+        }
+        if (error?.response?.statusCode === 429 || isRateLimitError(error)) {
+          this.recordRateLimit(endpoint, error?.response?.headers?.['retry-after']);
+        } else {
+          this.recordFailure(endpoint);
+        }
+        errors.push(`${endpoint.url}: ${error?.shortMessage || error?.message || error}`);
+        return null;
+      }
+    };
+
+    const agreed = (logs: ethers.Log[] | null): ethers.Log[] | null => {
+      if (!logs) {
+        return null;
+      }
+      const key = getLogKey(logs);
+      const answer = answers.get(key) ?? { logs, count: 0 };
+      answer.count++;
+      answers.set(key, answer);
+      return answer.count >= quorum ? answer.logs : null;
+    };
+
+    for (const logs of await Promise.all(ranked.slice(0, quorum).map(ask))) {
+      const result = agreed(logs);
+      if (result) {
+        return result;
+      }
+    }
+    for (const endpoint of ranked.slice(quorum)) {
+      const result = agreed(await ask(endpoint));
+      if (result) {
+        return result;
+      }
+    }
+
+    throw new Error(
+      `eth_getLogs quorum of ${quorum} not reached for blocks ${filter.fromBlock}-${filter.toBlock}: ` +
+      `${answers.size} different answers${errors.length > 0 ? `, errors: ${errors.join('; ')}` : ''}`
+    );
+  }
+
+  destroy(): void {
+    for (const endpoint of this.endpoints) {
+      endpoint.provider?.destroy();
+    }
+    super.destroy();
+  }
+
+  /**
+   * Ready endpoints by score, then the ones cooling down by the end of their cooldown. For an
+   * eth_getLogs window of `logRange` blocks, endpoints known to reject that many blocks come last.
+   */
+  private rankEndpoints(logRange: number | null = null): RpcEndpoint[] {
+    const now = Date.now();
+    // Endpoints not tried yet come first, ones that only failed so far rank as if they timed out
+    const latency = (endpoint: RpcEndpoint) => endpoint.latencyMs ?? (endpoint.failures > 0 ? this.requestTimeoutMs : 0);
+    const score = (endpoint: RpcEndpoint) => latency(endpoint) * (1 + ERROR_RATE_PENALTY * endpoint.errorRate);
+    const ready = this.endpoints.filter(endpoint => endpoint.cooldownUntil <= now).sort((a, b) => score(a) - score(b));
+    const coolingDown = this.endpoints.filter(endpoint => endpoint.cooldownUntil > now).sort((a, b) => a.cooldownUntil - b.cooldownUntil);
+    const ranked = [...ready, ...coolingDown];
+    if (logRange === null) {
+      return ranked;
+    }
+    const admits = (endpoint: RpcEndpoint) => (getProviderLogRangeLimit(endpoint.url) ?? Infinity) >= logRange;
+    return [...ranked.filter(admits), ...ranked.filter(endpoint => !admits(endpoint))];
+  }
+
+  private createRequest(url: string): ethers.FetchRequest {
+    const request = new ethers.FetchRequest(url);
+    request.setHeader('content-type', 'application/json');
+    request.timeout = this.requestTimeoutMs;
+    // Answer 429s right away, the pool fails over instead of waiting on the same endpoint
+    request.retryFunc = async () => false;
+    return request;
+  }
+
+  private recordSuccess(endpoint: RpcEndpoint, latencyMs: number): void {
+    endpoint.requests++;
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs + SCORE_SMOOTHING * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate *= 1 - SCORE_SMOOTHING;
+  }
+
+  private recordFailure(endpoint: RpcEndpoint): void {
+    endpoint.requests++;
+    endpoint.failures++;
+    endpoint.errorRate += SCORE_SMOOTHING * (1 - endpoint.errorRate);
+  }
+
+  private recordRateLimit(endpoint: RpcEndpoint, retryAfter?: string): void {
+    this.recordFailure(endpoint);
+    const seconds = retryAfter && /^\d+$/.test(retryAfter) ? parseInt(retryAfter) : null;
+    endpoint.cooldownUntil = Date.now() + (seconds !== null ? seconds * 1000 : this.rateLimitCooldownMs);
+  }
+}
+
+export function createRpcProvider(urls: string[] = getRpcUrls(), options?: RpcProviderPoolOptions): RpcProviderPool {
+  return new RpcProviderPool(urls, options);
+}
@@ -0,0 +1,33 @@
+// Helpers for beacon chain withdrawal credentials (32 bytes: 1 byte prefix, 11 zero bytes, 20 byte address)
+
+// Prefixes of credentials that point at an execution layer address
+export const EXECUTION_WITHDRAWAL_PREFIXES = ['0x01', '0x02'];
+
+/**
+ * Returns the lowercase execution address encoded in 0x01 or 0x02 withdrawal credentials,
+ * or null for BLS (0x00) and malformed credentials
+ */
+export const getWithdrawalAddress = (withdrawalCredentials: string | null | undefined): string | null => {
+  if (!withdrawalCredentials) {
+    return null;
+  }
+
+  const credentials = withdrawalCredentials.toLowerCase();
+  if (!/^0x[0-9a-f]{64}$/.test(credentials)) {
+    return null;
+  }
+
+  if (!EXECUTION_WITHDRAWAL_PREFIXES.includes(credentials.slice(0, 4))) {
+    return null;
+  }
+
+  return `0x${credentials.slice(-40)}`;
+};
+
+/**
+ * Returns the 0x01 and 0x02 withdrawal credentials that point at an execution address, lowercase
+ */
+export const toWithdrawalCredentials = (address: string): string[] => {
+  const body = `${'00'.repeat(11)}${address.toLowerCase().replace(/^0x/, '')}`;
+  return EXECUTION_WITHDRAWAL_PREFIXES.map(prefix => `${prefix}${body}`);
+};